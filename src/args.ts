@@ -0,0 +1,193 @@
+/**
+ * Command-line grammar for `/video`.
+ *
+ * Channel providers split the message on whitespace, so the arguments are
+ * re-joined and tokenized here with support for quoted strings ("..." and
+ * '...', including the curly quotes phone keyboards insert), `--flag=value`,
+ * short aliases and a `--` terminator after which everything is prompt text.
+ * Values are left as strings (switches like `--no-cache` become true);
+ * videoArgsSchema coerces and validates them.
+ */
+
+/** Raw `/video` arguments before schema validation. */
+export interface RawVideoArgs {
+  prompt: string;
+  model?: string;
+  duration?: string;
+  aspectRatio?: string;
+  resolution?: string;
+  image?: string;
+  negativePrompt?: string;
+  seed?: string;
+  count?: string;
+  format?: string;
+  loop?: boolean;
+  trim?: string;
+  provider?: string;
+  noCache?: boolean;
+  enhance?: boolean;
+  preset?: string;
+}
+
+type SwitchKey = "noCache" | "loop" | "enhance";
+type ValueKey = Exclude<keyof RawVideoArgs, "prompt" | SwitchKey>;
+
+/** A flag that takes a value, or a switch that is simply present or absent. */
+type FlagSpec =
+  | { name: string; alias?: string; key: ValueKey; switch?: false }
+  | { name: string; alias?: string; key: SwitchKey; switch: true };
+
+const FLAGS: readonly FlagSpec[] = [
+  { name: "--model", alias: "-m", key: "model" },
+  { name: "--duration", alias: "-d", key: "duration" },
+  { name: "--aspect", alias: "-a", key: "aspectRatio" },
+  { name: "--resolution", key: "resolution" },
+  { name: "--image", key: "image" },
+  { name: "--negative", key: "negativePrompt" },
+  { name: "--seed", key: "seed" },
+  { name: "--count", alias: "-n", key: "count" },
+  { name: "--format", alias: "-f", key: "format" },
+  { name: "--loop", key: "loop", switch: true },
+  { name: "--trim", key: "trim" },
+  { name: "--provider", alias: "-p", key: "provider" },
+  { name: "--no-cache", key: "noCache", switch: true },
+  { name: "--enhance", alias: "-e", key: "enhance", switch: true },
+  { name: "--preset", key: "preset" },
+];
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', "'": "'", "“": "”", "‘": "’" };
+
+/** Single quotes only open a quoted string at the start of a word, so "cat's" stays intact. */
+const WORD_START_QUOTES = new Set(["'", "‘"]);
+
+interface Token {
+  text: string;
+  /** Whether the token opened with a quote — quoted text is never a flag. */
+  quoted: boolean;
+}
+
+function tokenize(input: string): ParseResult<Token[]> {
+  const tokens: Token[] = [];
+  let current = "";
+  let quoted = false;
+  let inToken = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    const close = QUOTE_PAIRS[ch];
+    if (close && !(inToken && WORD_START_QUOTES.has(ch))) {
+      const end = input.indexOf(close, i + 1);
+      if (end === -1) return { ok: false, error: `Unterminated quote ${ch} in arguments.` };
+      if (!inToken) quoted = true;
+      current += input.slice(i + 1, end);
+      inToken = true;
+      i = end;
+    } else if (/\s/.test(ch)) {
+      if (inToken) tokens.push({ text: current, quoted });
+      current = "";
+      quoted = false;
+      inToken = false;
+    } else {
+      current += ch;
+      inToken = true;
+    }
+  }
+  if (inToken) tokens.push({ text: current, quoted });
+  return { ok: true, value: tokens };
+}
+
+// ============================================================================
+// Flag suggestions
+// ============================================================================
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function nearestFlag(flag: string): string | undefined {
+  let best: { name: string; distance: number } | undefined;
+  for (const spec of FLAGS) {
+    const distance = editDistance(flag, spec.name);
+    if (!best || distance < best.distance) best = { name: spec.name, distance };
+  }
+  return best && best.distance <= 3 ? best.name : undefined;
+}
+
+function isFlag(token: Token): boolean {
+  // "-" on its own and negative numbers are prompt text, not flags
+  return !token.quoted && /^-{1,2}[A-Za-z]/.test(token.text);
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/** Parse `/video` arguments into a prompt and raw flag values. */
+export function parseVideoArgs(args: string[]): ParseResult<RawVideoArgs> {
+  const tokenized = tokenize(args.join(" "));
+  if (!tokenized.ok) return tokenized;
+  const tokens = tokenized.value;
+
+  const result: RawVideoArgs = { prompt: "" };
+  const promptParts: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (!token.quoted && token.text === "--") {
+      promptParts.push(...tokens.slice(i + 1).map((t) => t.text));
+      break;
+    }
+    if (!isFlag(token)) {
+      promptParts.push(token.text);
+      continue;
+    }
+
+    const eq = token.text.indexOf("=");
+    const flag = eq === -1 ? token.text : token.text.slice(0, eq);
+    const spec = FLAGS.find((f) => f.name === flag || f.alias === flag);
+    if (!spec) {
+      const suggestion = nearestFlag(flag);
+      return {
+        ok: false,
+        error: `Unknown option \`${flag}\`.${suggestion ? ` Did you mean \`${suggestion}\`?` : ""}`,
+      };
+    }
+
+    if (spec.switch) {
+      if (eq !== -1) return { ok: false, error: `Option \`${spec.name}\` doesn't take a value.` };
+      result[spec.key] = true;
+      continue;
+    }
+
+    let value: string | undefined;
+    if (eq !== -1) {
+      value = token.text.slice(eq + 1);
+    } else if (i + 1 < tokens.length && !isFlag(tokens[i + 1]) && tokens[i + 1].text !== "--") {
+      value = tokens[++i].text;
+    }
+    if (value === undefined || value === "") {
+      return { ok: false, error: `Option \`${spec.name}\` needs a value.` };
+    }
+    result[spec.key] = value;
+  }
+
+  result.prompt = promptParts.join(" ").trim();
+  return { ok: true, value: result };
+}
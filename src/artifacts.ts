@@ -0,0 +1,323 @@
+/**
+ * Durable storage for generated videos.
+ *
+ * Provider URLs go stale within hours, so every video the plugin produces —
+ * the provider's render, post-processing outputs and stitched storyboards —
+ * is copied into an artifact store. Two backends ship:
+ * - `local` writes under the plugin directory. Its copies can only be linked
+ *   when `artifactBaseUrl` says where that directory is served from.
+ * - `s3` uploads to any S3-compatible bucket (see s3.ts).
+ *
+ * Jobs, history and chat hand out the stored copy's URL when it can be
+ * linked. Otherwise they keep the original URL: a file URL on this host means
+ * nothing to a chat user, an A2A caller or a provider asked to extend the
+ * video, so the local copy only serves retention and attachment uploads.
+ * Sources that only work on this host anyway — scratch files, or a ComfyUI
+ * server on the loopback interface — are replaced by the stored copy, and
+ * whoever shows the URL reports it as host-only (see isHostOnlyUrl).
+ *
+ * Every artifact is recorded in the `artifacts` table, which is what
+ * retention and the size quota work from: artifacts older than the retention
+ * period are deleted, and the oldest are evicted to make room for new ones.
+ * Storing is best effort — if it fails, the original URL is handed out.
+ */
+
+import { mkdir, readFile, rm, rmdir, writeFile } from "node:fs/promises";
+import { dirname, extname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { z } from "zod";
+import { s3Backend } from "./s3.js";
+import type { PluginLogger, Repository } from "./types.js";
+
+export const ARTIFACT_BACKENDS = ["local", "s3"] as const;
+export type ArtifactBackendName = (typeof ARTIFACT_BACKENDS)[number];
+
+export const DEFAULT_ARTIFACT_RETENTION_DAYS = 30;
+export const DEFAULT_ARTIFACT_QUOTA_MB = 5120;
+
+const MB = 1024 * 1024;
+
+/** How long a download of a provider's render may take before it's given up on. */
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+  gif: "image/gif",
+  jpg: "image/jpeg",
+};
+
+/** MIME type of a media file, from its extension. */
+export function contentType(name: string): string {
+  return CONTENT_TYPES[extname(name).slice(1).toLowerCase()] ?? "application/octet-stream";
+}
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/** Raw config values — the config UI may store numbers as strings. */
+export interface ArtifactConfig {
+  artifactBackend?: string;
+  artifactBaseUrl?: string;
+  artifactRetentionDays?: number | string;
+  artifactQuotaMb?: number | string;
+  s3Endpoint?: string;
+  s3Bucket?: string;
+  s3Region?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3PublicUrl?: string;
+}
+
+export interface ArtifactLimits {
+  /** 0 keeps artifacts forever. */
+  retentionMs: number;
+  /** 0 means no quota. */
+  quotaBytes: number;
+}
+
+function nonNegative(value: number | string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value === undefined || value === "" || !Number.isFinite(n) || n < 0 ? fallback : n;
+}
+
+export function artifactLimitsFromConfig(config: ArtifactConfig): ArtifactLimits {
+  return {
+    retentionMs: nonNegative(config.artifactRetentionDays, DEFAULT_ARTIFACT_RETENTION_DAYS) * 24 * 60 * 60 * 1000,
+    quotaBytes: Math.floor(nonNegative(config.artifactQuotaMb, DEFAULT_ARTIFACT_QUOTA_MB) * MB),
+  };
+}
+
+/**
+ * The backend `name` (by default the configured one), or null if it can't
+ * be used — S3 without an endpoint, bucket or credentials.
+ */
+export function artifactBackendFromConfig(
+  config: ArtifactConfig,
+  pluginDir: string,
+  name = config.artifactBackend || "local",
+): ArtifactBackend | null {
+  if (name === "s3") {
+    const { s3Endpoint, s3Bucket, s3AccessKeyId, s3SecretAccessKey } = config;
+    if (!s3Endpoint || !s3Bucket || !s3AccessKeyId || !s3SecretAccessKey) return null;
+    return s3Backend({
+      endpoint: s3Endpoint,
+      bucket: s3Bucket,
+      region: config.s3Region || "us-east-1",
+      accessKeyId: s3AccessKeyId,
+      secretAccessKey: s3SecretAccessKey,
+      ...(config.s3PublicUrl ? { publicUrl: config.s3PublicUrl } : {}),
+    });
+  }
+  return localBackend(join(pluginDir, "artifacts"), config.artifactBaseUrl || undefined);
+}
+
+export function formatArtifactStorage(
+  backend: string,
+  limits: ArtifactLimits,
+  usage: { count: number; bytes: number },
+): string {
+  const used = `${Math.round(usage.bytes / MB)} MB in ${usage.count} file(s)`;
+  const quota = limits.quotaBytes > 0 ? ` of ${Math.round(limits.quotaBytes / MB)} MB` : "";
+  const days = limits.retentionMs / (24 * 60 * 60 * 1000);
+  return `${backend}, ${used}${quota}, kept ${limits.retentionMs > 0 ? `${days} days` : "forever"}`;
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+export interface ArtifactBackend {
+  name: ArtifactBackendName;
+  /** Whether the URLs `put` returns can be fetched from other hosts. */
+  linkable: boolean;
+  /** Store `data` under `key` and return the URL it can be fetched from. */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+}
+
+/** Remove a file and, if that empties it, its directory. */
+async function removeFile(file: string): Promise<void> {
+  await rm(file, { force: true });
+  await rmdir(dirname(file)).catch(() => {});
+}
+
+export function localBackend(root: string, baseUrl?: string): ArtifactBackend {
+  return {
+    name: "local",
+    linkable: !!baseUrl,
+    async put(key, data) {
+      const file = join(root, key);
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, data);
+      return baseUrl ? `${baseUrl.replace(/\/+$/, "")}/${key}` : pathToFileURL(file).href;
+    },
+    async delete(key) {
+      await removeFile(join(root, key));
+    },
+  };
+}
+
+// ============================================================================
+// Artifact record
+// ============================================================================
+
+export const artifactSchema = z.object({
+  /** `<owner>/<name>`, also the object key in the backend. */
+  key: z.string(),
+  /** The job or storyboard the file belongs to. */
+  owner: z.string(),
+  backend: z.enum(ARTIFACT_BACKENDS),
+  url: z.string(),
+  size: z.number(),
+  contentType: z.string(),
+  createdAt: z.number(),
+});
+
+export type Artifact = z.infer<typeof artifactSchema>;
+
+// ============================================================================
+// ArtifactStore
+// ============================================================================
+
+export interface ArtifactStoreOptions {
+  repo: Repository<Artifact>;
+  /** The named backend, or the configured one. Null if it isn't usable. Read on every call. */
+  backend: (name?: ArtifactBackendName) => ArtifactBackend | null;
+  limits: () => ArtifactLimits;
+  log: PluginLogger;
+}
+
+/** Why a video kept only on this host has no link, for chat users and A2A callers. */
+export const HOST_ONLY_NOTE =
+  "stored on the plugin host only — set `artifactBaseUrl` or use S3 artifact storage to get a link";
+
+/** Whether `url` is a file on this host, which nobody else can fetch. */
+export function isLocalUrl(url: string): boolean {
+  return url.startsWith("file:");
+}
+
+/** Whether `url` only works on this host: a file, or a server on the loopback interface. */
+export function isHostOnlyUrl(url: string): boolean {
+  if (isLocalUrl(url)) return true;
+  try {
+    const { hostname } = new URL(url);
+    return (
+      hostname === "localhost" ||
+      hostname.endsWith(".localhost") ||
+      hostname.startsWith("127.") ||
+      hostname === "[::1]" ||
+      hostname === "0.0.0.0"
+    );
+  } catch {
+    return false;
+  }
+}
+
+async function readSource(url: string): Promise<Buffer> {
+  if (isLocalUrl(url)) return readFile(fileURLToPath(url));
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Downloading ${url} failed with HTTP ${response.status}`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export class ArtifactStore {
+  private readonly repo: Repository<Artifact>;
+  private readonly backend: (name?: ArtifactBackendName) => ArtifactBackend | null;
+  private readonly limits: () => ArtifactLimits;
+  private readonly log: PluginLogger;
+
+  constructor(options: ArtifactStoreOptions) {
+    this.repo = options.repo;
+    this.backend = options.backend;
+    this.limits = options.limits;
+    this.log = options.log;
+  }
+
+  /**
+   * Copy the file at `url` into the store as `<owner>/<name>` and return the
+   * URL to hand out: the stored copy's if the backend's URLs can be linked or
+   * the source only worked on this host anyway, otherwise `url` itself. `move`
+   * deletes a local source file once it is stored. Never throws: if the file
+   * can't be stored, `url` itself is returned.
+   */
+  async keep(owner: string, url: string, name: string, options: { move?: boolean } = {}): Promise<string> {
+    const key = `${owner}/${name}`;
+    const backend = this.backend();
+    if (!backend) {
+      this.log.warn(`Artifact storage is not fully configured; ${key} stays at its original URL`);
+      return url;
+    }
+    try {
+      await this.prune();
+      const data = await readSource(url);
+      if (!(await this.makeRoom(key, data.length))) {
+        this.log.warn(`${key} is larger than the artifact quota; it stays at its original URL`);
+        return url;
+      }
+      const type = contentType(name);
+      const stored = await backend.put(key, data, type);
+      const artifact = {
+        key,
+        owner,
+        backend: backend.name,
+        url: stored,
+        size: data.length,
+        contentType: type,
+        createdAt: Date.now(),
+      };
+      if (await this.repo.exists(key)) await this.repo.update(key, artifact);
+      else await this.repo.insert(artifact);
+      if (options.move && isLocalUrl(url)) await removeFile(fileURLToPath(url));
+      return backend.linkable || isHostOnlyUrl(url) ? stored : url;
+    } catch (error: unknown) {
+      this.log.warn(`Could not store ${key}; it stays at its original URL`, error);
+      return url;
+    }
+  }
+
+  /** Delete artifacts past the retention period. Returns how many were deleted. */
+  async prune(): Promise<number> {
+    const { retentionMs } = this.limits();
+    if (retentionMs <= 0) return 0;
+    const expired = await this.repo.findMany({ createdAt: { $lt: Date.now() - retentionMs } });
+    for (const artifact of expired) await this.remove(artifact);
+    return expired.length;
+  }
+
+  /** Number of stored artifacts and their total size. */
+  async usage(): Promise<{ count: number; bytes: number }> {
+    const artifacts = await this.repo.findMany({});
+    return { count: artifacts.length, bytes: artifacts.reduce((sum: number, a: Artifact) => sum + a.size, 0) };
+  }
+
+  /** Evict the oldest artifacts until `size` more bytes fit. False if they never will. */
+  private async makeRoom(key: string, size: number): Promise<boolean> {
+    const { quotaBytes } = this.limits();
+    if (quotaBytes <= 0) return true;
+    if (size > quotaBytes) return false;
+    // A file stored again under the same key replaces the old copy
+    const artifacts = (await this.repo.query().orderBy("createdAt", "asc").execute()).filter(
+      (artifact: Artifact) => artifact.key !== key,
+    );
+    let used = artifacts.reduce((sum: number, artifact: Artifact) => sum + artifact.size, 0);
+    for (const artifact of artifacts) {
+      if (used + size <= quotaBytes) break;
+      await this.remove(artifact);
+      used -= artifact.size;
+    }
+    return true;
+  }
+
+  private async remove(artifact: Artifact): Promise<void> {
+    try {
+      const backend = this.backend(artifact.backend);
+      if (backend) await backend.delete(artifact.key);
+      else this.log.warn(`Artifact backend ${artifact.backend} is no longer configured; forgetting ${artifact.key}`);
+    } catch (error: unknown) {
+      this.log.warn(`Could not delete artifact ${artifact.key}`, error);
+    }
+    await this.repo.delete(artifact.key);
+  }
+}
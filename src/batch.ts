@@ -0,0 +1,98 @@
+/**
+ * Batch and variation requests.
+ *
+ * One request can ask for several videos: `--count n` renders the prompt n
+ * times with different seeds, and a prompt matrix like
+ * `{sunset|night} city {drone|street} shot` expands into every combination.
+ * Each video becomes its own job sharing a batch ID, so the jobs go through
+ * the limits and the scheduler individually and their results can be posted
+ * back together.
+ */
+
+import { randomBytes, randomInt } from "node:crypto";
+import type { ParseResult } from "./args.js";
+import type { VideoGenerationInput } from "./capability.js";
+import { MAX_BATCH_SIZE, MAX_SEED } from "./schemas.js";
+
+export function newBatchId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+/** Split a prompt into literal text and `{a|b}` option groups. */
+function matrixParts(prompt: string): ParseResult<string[][]> {
+  const parts: string[][] = [];
+  let literal = "";
+  for (let i = 0; i < prompt.length; i++) {
+    const char = prompt[i];
+    if (char === "}") return { ok: false, error: "The prompt has a `}` without a matching `{`." };
+    if (char !== "{") {
+      literal += char;
+      continue;
+    }
+    const close = prompt.indexOf("}", i);
+    if (close === -1) return { ok: false, error: "The prompt has a `{` without a matching `}`." };
+    const group = prompt.slice(i + 1, close);
+    if (group.includes("{")) return { ok: false, error: "Prompt option groups `{a|b}` can't be nested." };
+    parts.push([literal], group.split("|"));
+    literal = "";
+    i = close;
+  }
+  parts.push([literal]);
+  return { ok: true, value: parts };
+}
+
+/**
+ * Expand `{a|b}` groups into every combination, in reading order. A prompt
+ * without groups expands to itself.
+ */
+export function expandPromptMatrix(prompt: string): ParseResult<string[]> {
+  const parsed = matrixParts(prompt);
+  if (!parsed.ok) return parsed;
+  const parts = parsed.value;
+
+  const combinations = parts.reduce((n, options) => n * options.length, 1);
+  if (combinations > MAX_BATCH_SIZE) {
+    return {
+      ok: false,
+      error: `That prompt expands into ${combinations} videos; the limit is ${MAX_BATCH_SIZE} per request.`,
+    };
+  }
+
+  let prompts = [""];
+  for (const options of parts) {
+    prompts = prompts.flatMap((head) => options.map((option) => head + option));
+  }
+  prompts = prompts.map((p) => p.trim().replace(/\s+/g, " "));
+  if (prompts.some((p) => !p)) return { ok: false, error: "Every `{a|b}` combination needs some prompt text." };
+  return { ok: true, value: prompts };
+}
+
+/**
+ * The videos a request asks for: every prompt combination, `count` times
+ * each. Repeats get consecutive seeds when the caller fixed one and random
+ * seeds otherwise, so each is a distinct variation.
+ */
+export function expandBatch(input: VideoGenerationInput, count = 1): ParseResult<VideoGenerationInput[]> {
+  const prompts = expandPromptMatrix(input.prompt);
+  if (!prompts.ok) return prompts;
+
+  const total = prompts.value.length * count;
+  if (total > MAX_BATCH_SIZE) {
+    return {
+      ok: false,
+      error:
+        `That would make ${total} videos (${prompts.value.length} prompts × ${count}); ` +
+        `the limit is ${MAX_BATCH_SIZE} per request.`,
+    };
+  }
+
+  const inputs: VideoGenerationInput[] = [];
+  for (const prompt of prompts.value) {
+    for (let i = 0; i < count; i++) {
+      let seed = input.seed;
+      if (count > 1) seed = seed === undefined ? randomInt(0, MAX_SEED + 1) : (seed + i) % (MAX_SEED + 1);
+      inputs.push({ ...input, prompt, ...(seed !== undefined ? { seed } : {}) });
+    }
+  }
+  return { ok: true, value: inputs };
+}
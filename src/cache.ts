@@ -0,0 +1,179 @@
+/**
+ * Content-addressed cache of generated videos.
+ *
+ * Requests are keyed on a hash of the normalized capability input — prompt
+ * whitespace collapsed, optional fields dropped, the model's default
+ * resolution filled in — so re-running an identical request returns the
+ * earlier URL without another socket call. Results live in ctx.storage and
+ * expire after a configurable TTL. A provider's own URL, handed out when the
+ * artifact store couldn't keep a linkable copy, usually dies within the hour,
+ * so it is remembered for at most PROVIDER_URL_TTL_MS.
+ *
+ * Identical requests that arrive while the first is still rendering share its
+ * socket call instead of paying for a second one.
+ */
+
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import type { CapabilityResult, VideoGenerationInput } from "./capability.js";
+import { getModel } from "./models.js";
+import type { PluginLogger, Repository } from "./types.js";
+
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+
+/** Cap on how long a provider's own URL is served from the cache. */
+export const PROVIDER_URL_TTL_MS = 30 * 60 * 1000;
+
+// ============================================================================
+// Cache record
+// ============================================================================
+
+export const cachedResultSchema = z.object({
+  key: z.string(),
+  url: z.string(),
+  model: z.string(),
+  /** The provider's own URL, which expires, rather than a stored copy. */
+  transient: z.boolean().optional(),
+  createdAt: z.number(),
+});
+
+export type CachedResult = z.infer<typeof cachedResultSchema>;
+
+/** A capability result, flagged when no credits were spent on it. */
+export type CacheOutcome = CapabilityResult & {
+  cached?: boolean;
+  /** Made by a fallback model or provider, so it isn't remembered as the answer to this input. */
+  substitute?: boolean;
+  /** The URL is the provider's own and expires soon (see PROVIDER_URL_TTL_MS). */
+  transient?: boolean;
+};
+
+// ============================================================================
+// Key normalization
+// ============================================================================
+
+function collapse(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+/** Hash of the request fields that determine the output video. */
+export function cacheKey(input: VideoGenerationInput): string {
+  const normalized = {
+    prompt: collapse(input.prompt),
+    model: input.model,
+    duration: input.duration,
+    aspectRatio: input.aspectRatio,
+    resolution: input.resolution ?? getModel(input.model)?.resolutions[0] ?? null,
+    image: input.image ?? null,
+    negativePrompt: input.negativePrompt ? collapse(input.negativePrompt) : null,
+    seed: input.seed ?? null,
+    extendVideo: input.extendVideo ?? null,
+    // Only when picked explicitly, so keys from before per-request providers still match
+    ...(input.provider ? { provider: input.provider } : {}),
+  };
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+// ============================================================================
+// ResultCache
+// ============================================================================
+
+export interface ResultCacheOptions {
+  repo: Repository<CachedResult>;
+  /** Read on every lookup so config changes apply without a restart. 0 disables the cache. */
+  ttlMs: () => number;
+  log: PluginLogger;
+}
+
+interface PendingRequest {
+  promise: Promise<CapabilityResult | null>;
+  waiters: number;
+}
+
+export class ResultCache {
+  private readonly repo: Repository<CachedResult>;
+  private readonly ttlMs: () => number;
+  private readonly log: PluginLogger;
+  private readonly pending = new Map<string, PendingRequest>();
+
+  constructor(options: ResultCacheOptions) {
+    this.repo = options.repo;
+    this.ttlMs = options.ttlMs;
+    this.log = options.log;
+  }
+
+  /** The cached URL for an identical earlier request, if it hasn't expired. */
+  async lookup(input: VideoGenerationInput): Promise<string | null> {
+    const ttl = this.ttlMs();
+    if (ttl <= 0) return null;
+    const key = cacheKey(input);
+    const entry = await this.repo.findById(key);
+    if (!entry) return null;
+    const lifetime = entry.transient ? Math.min(ttl, PROVIDER_URL_TTL_MS) : ttl;
+    if (entry.createdAt + lifetime <= Date.now()) {
+      await this.repo.delete(key);
+      return null;
+    }
+    return entry.url;
+  }
+
+  /** Whether other jobs are waiting on the in-flight request for this input. */
+  isShared(input: VideoGenerationInput): boolean {
+    return (this.pending.get(cacheKey(input))?.waiters ?? 0) > 0;
+  }
+
+  /**
+   * Serve the request from the cache, join an identical request already in
+   * flight, or call `produce` and remember its result. `bypass` skips the
+   * lookup and the merge but still refreshes the cache with the new video.
+   * `produce` may resolve null (the job was dropped before it started), in
+   * which case anyone who joined it makes the request themselves.
+   */
+  async run(
+    input: VideoGenerationInput,
+    produce: () => Promise<CacheOutcome | null>,
+    options: { bypass?: boolean } = {},
+  ): Promise<CacheOutcome | null> {
+    const key = cacheKey(input);
+
+    if (!options.bypass) {
+      const url = await this.lookup(input);
+      if (url) return { url, cached: true };
+
+      const shared = this.pending.get(key);
+      if (shared) {
+        shared.waiters++;
+        try {
+          const result = await shared.promise;
+          if (result) return result.url ? { ...result, cached: true } : result;
+        } finally {
+          shared.waiters--;
+        }
+      }
+    }
+
+    const promise = produce().then(async (result) => {
+      if (result?.url && !result.error && !result.substitute)
+        await this.store(key, input, result.url, result.transient);
+      return result;
+    });
+    if (!options.bypass) this.pending.set(key, { promise, waiters: 0 });
+    try {
+      return await promise;
+    } finally {
+      if (this.pending.get(key)?.promise === promise) this.pending.delete(key);
+    }
+  }
+
+  private async store(key: string, input: VideoGenerationInput, url: string, transient?: boolean): Promise<void> {
+    if (this.ttlMs() <= 0) return;
+    try {
+      const entry = { key, url, model: input.model, ...(transient ? { transient } : {}), createdAt: Date.now() };
+      if (await this.repo.exists(key)) await this.repo.update(key, entry);
+      else await this.repo.insert(entry);
+    } catch (error: unknown) {
+      // A cache write failure must not fail the job that produced the video
+      this.log.warn(`Failed to cache video result ${key}`, error);
+    }
+  }
+}
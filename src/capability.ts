@@ -0,0 +1,97 @@
+/**
+ * Capability request plumbing for video generation.
+ *
+ * Builds the `video-generation` capability payload, sends it through the
+ * socket layer via ctx.inject("__capability__", ...) and parses the reply.
+ * The socket layer handles credit checks, adapter routing and billing.
+ * Requests with a BYOK key skip it and go to the provider directly (see
+ * provider.ts).
+ */
+
+import { type ErrorCode, errorCode } from "./errors.js";
+import type { PluginInjectOptions, WOPRPluginContext } from "./types.js";
+
+/** Session the socket layer listens on for capability requests. */
+export const CAPABILITY_SESSION = "__capability__";
+
+/** Parameters forwarded to the video-generation capability. */
+export interface VideoGenerationInput {
+  prompt: string;
+  model: string;
+  duration: number;
+  aspectRatio: string;
+  resolution?: string;
+  /** Reference image (https URL or data URI) for image-to-video generation. */
+  image?: string;
+  /** What the provider should keep out of the video. */
+  negativePrompt?: string;
+  seed?: number;
+  /** URL of an earlier video to continue from its last frame. */
+  extendVideo?: string;
+  /** Backend to render with (see provider.ts); the configured provider if unset. */
+  provider?: string;
+}
+
+/** Parsed socket or provider response — either a video URL or an error. */
+export interface CapabilityResult {
+  url?: string;
+  /** What went wrong, in the socket layer's or provider's own words. */
+  error?: string;
+  /** The error's category, when the response already says (see errors.ts). */
+  code?: ErrorCode;
+}
+
+// ============================================================================
+// Helper: parse socket response (JSON or plain URL)
+// ============================================================================
+
+interface SocketReply {
+  url?: unknown;
+  error?: unknown;
+  code?: unknown;
+  message?: unknown;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Parse a socket reply: JSON with a `url`, a JSON error, or a bare URL or
+ * error string. Errors arrive as `{ "error": "quota_exceeded" }`,
+ * `{ "error": { "code", "message" } }` or `{ "code", "message" }`, and are
+ * mapped onto an error code either way.
+ */
+export function parseSocketResponse(raw: string): CapabilityResult {
+  let reply: SocketReply;
+  try {
+    reply = JSON.parse(raw) as SocketReply;
+  } catch {
+    return raw.startsWith("http") ? { url: raw } : { error: raw, code: errorCode(raw) };
+  }
+  if (reply === null || typeof reply !== "object") return { error: raw, code: errorCode(raw) };
+  if (!reply.error && !reply.code) return text(reply.url) ? { url: reply.url as string } : {};
+
+  const nested = reply.error !== null && typeof reply.error === "object" ? (reply.error as SocketReply) : {};
+  const code = text(nested.code) ?? text(reply.code) ?? text(reply.error);
+  const message = text(nested.message) ?? text(reply.message);
+  const detail = code && message ? `${code}: ${message}` : (code ?? message ?? raw);
+  // An unfamiliar code may still come with a recognizable message
+  const known = code ? errorCode(code) : "generation_failed";
+  return { error: detail, code: known !== "generation_failed" ? known : errorCode(detail) };
+}
+
+// ============================================================================
+// Helper: send a video-generation capability request
+// ============================================================================
+
+export async function requestVideo(
+  ctx: WOPRPluginContext,
+  input: VideoGenerationInput,
+  options: PluginInjectOptions = {},
+): Promise<CapabilityResult> {
+  const capabilityRequest = JSON.stringify({ capability: "video-generation", input });
+
+  const raw = await ctx.inject(CAPABILITY_SESSION, capabilityRequest, { ...options, silent: true });
+  return parseSocketResponse(raw);
+}
@@ -0,0 +1,151 @@
+/**
+ * ComfyUI adapter, for open models such as Wan 2.1 running on your own box.
+ *
+ * ComfyUI renders whatever workflow it is given, so the workflow comes from
+ * config: `comfyuiWorkflow` is a workflow exported with "Save (API Format)",
+ * with `{{field}}` placeholders where the request goes (see
+ * custom-endpoint.ts for how they are filled). Besides the request fields,
+ * `{{width}}`, `{{height}}` and `{{frames}}` are available, and `{{seed}}` is
+ * always set — random unless the request fixed one.
+ *
+ * The workflow is queued with POST /prompt, polled through /history until it
+ * finishes, and the first video it saved is handed out via /view.
+ */
+
+import { randomInt, randomUUID } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { VideoGenerationInput } from "./capability.js";
+import { fillTemplate } from "./custom-endpoint.js";
+import { errorDetail, frameSize, type ProviderAdapter } from "./provider.js";
+
+export const DEFAULT_COMFYUI_URL = "http://127.0.0.1:8188";
+
+/** Wan renders at 16 fps, plus the starting frame. */
+const FRAMES_PER_SECOND = 16;
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+const VIDEO_FILE = /\.(mp4|webm|mov|mkv|gif)$/i;
+
+export interface ComfyUIOptions {
+  url: string;
+  workflow?: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+interface OutputFile {
+  filename: string;
+  subfolder?: string;
+  type?: string;
+}
+
+interface HistoryEntry {
+  outputs?: Record<string, Record<string, unknown>>;
+  status?: { status_str?: string; completed?: boolean; messages?: Array<[string, Record<string, unknown>]> };
+}
+
+/** The values `{{placeholders}}` in the workflow are filled with. */
+export function workflowValues(input: VideoGenerationInput): Record<string, unknown> {
+  const { width, height } = frameSize(input);
+  return {
+    ...input,
+    seed: input.seed ?? randomInt(2 ** 47),
+    width,
+    height,
+    frames: input.duration * FRAMES_PER_SECOND + 1,
+  };
+}
+
+/** The first video file among a finished prompt's outputs. */
+function videoOutput(entry: HistoryEntry): OutputFile | undefined {
+  for (const output of Object.values(entry.outputs ?? {})) {
+    // Video nodes report under different keys: SaveVideo uses `images`, VHS_VideoCombine `gifs`
+    for (const key of ["videos", "gifs", "images"]) {
+      const files = output[key];
+      if (!Array.isArray(files)) continue;
+      const file = files.find((f: OutputFile) => typeof f?.filename === "string" && VIDEO_FILE.test(f.filename));
+      if (file) return file as OutputFile;
+    }
+  }
+  return undefined;
+}
+
+function executionError(entry: HistoryEntry): string {
+  const failure = entry.status?.messages?.find(([event]) => event === "execution_error")?.[1];
+  return typeof failure?.exception_message === "string" ? failure.exception_message.trim() : "no details";
+}
+
+export function comfyuiAdapter(options: ComfyUIOptions): ProviderAdapter {
+  const baseUrl = options.url.replace(/\/+$/, "");
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  /** Drop a prompt from ComfyUI's queue. One that is already rendering runs to the end. */
+  const dequeue = (promptId: string): void => {
+    fetch(`${baseUrl}/queue`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ delete: [promptId] }),
+    }).catch(() => {});
+  };
+
+  return {
+    id: "comfyui",
+    name: "ComfyUI",
+    async generate(input, signal) {
+      if (!options.workflow) {
+        return {
+          error: "ComfyUI needs a workflow: export one with Save (API Format) into the comfyuiWorkflow setting",
+        };
+      }
+      if (input.extendVideo) return { error: "Extending videos isn't supported through ComfyUI" };
+      let workflow: unknown;
+      try {
+        workflow = fillTemplate(JSON.parse(options.workflow), workflowValues(input));
+      } catch {
+        return { error: "The ComfyUI workflow isn't valid JSON" };
+      }
+
+      const queued = await fetch(`${baseUrl}/prompt`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ prompt: workflow, client_id: randomUUID() }),
+        signal,
+      });
+      if (!queued.ok) {
+        return { error: `ComfyUI rejected the workflow (HTTP ${queued.status}): ${await errorDetail(queued)}` };
+      }
+      const { prompt_id: promptId } = (await queued.json()) as { prompt_id: string };
+
+      const deadline = Date.now() + timeoutMs;
+      let entry: HistoryEntry | undefined;
+      while (!entry) {
+        if (Date.now() >= deadline) {
+          dequeue(promptId);
+          return { error: `ComfyUI prompt ${promptId} timed out` };
+        }
+        try {
+          await sleep(pollIntervalMs, undefined, { signal });
+          const history = await fetch(`${baseUrl}/history/${promptId}`, { signal });
+          if (!history.ok) return { error: `ComfyUI history failed with HTTP ${history.status}` };
+          entry = ((await history.json()) as Record<string, HistoryEntry>)[promptId];
+        } catch (error: unknown) {
+          if (signal?.aborted) dequeue(promptId);
+          throw error;
+        }
+      }
+
+      if (entry.status?.status_str === "error") return { error: `ComfyUI failed: ${executionError(entry)}` };
+      const file = videoOutput(entry);
+      if (!file) return { error: "The ComfyUI workflow finished without saving a video" };
+      const query = new URLSearchParams({
+        filename: file.filename,
+        subfolder: file.subfolder ?? "",
+        type: file.type ?? "output",
+      });
+      return { url: `${baseUrl}/view?${query}` };
+    },
+  };
+}
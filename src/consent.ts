@@ -0,0 +1,201 @@
+/**
+ * Consent policies — who has to agree before a request spends credits.
+ *
+ * The `consentPolicy` setting picks one of:
+ * - `always`: the requester confirms every paid request.
+ * - `above_cost`: only requests estimated above `consentCostThreshold`
+ *   credits are confirmed (see cost.ts).
+ * - `trusted`: users listed in `trustedUsers` skip confirmation; everyone
+ *   else confirms.
+ * - `admin`: requests from anyone but the `consentAdmins` wait for one of
+ *   them to run `/video approve <id>`. Admins confirm their own requests.
+ *
+ * Requests served entirely from the result cache are free and never asked
+ * about. Confirmations and approvals that get no answer within
+ * `consentTimeoutSeconds` count as a no. Pending approvals are kept in
+ * memory only: a restart drops them, and their requests time out.
+ *
+ * A2A callers are held to the same policy when their session belongs to a
+ * human (ctx.getSessions); other agents act on consent given upstream.
+ */
+
+import { randomBytes } from "node:crypto";
+
+export const CONSENT_MODES = ["always", "above_cost", "trusted", "admin"] as const;
+export type ConsentMode = (typeof CONSENT_MODES)[number];
+
+export const DEFAULT_CONSENT_TIMEOUT_SECONDS = 120;
+
+/** Answers taken as a yes, compared case-insensitively. */
+const AFFIRMATIVE = new Set(["yes", "y", "ok", "okay", "sure", "approve", "approved", "go", "proceed", "confirm"]);
+
+export interface ConsentPolicy {
+  mode: ConsentMode;
+  /** Credits a request may cost without confirmation under `above_cost`. */
+  costThreshold: number;
+  trustedUsers: string[];
+  admins: string[];
+  timeoutMs: number;
+}
+
+/** Raw consent config values — the config UI may store numbers as strings. */
+export interface ConsentConfig {
+  consentPolicy?: string;
+  consentCostThreshold?: number | string;
+  trustedUsers?: string;
+  consentAdmins?: string;
+  consentTimeoutSeconds?: number | string;
+}
+
+function nonNegative(value: number | string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value === undefined || value === "" || !Number.isFinite(n) || n < 0 ? fallback : n;
+}
+
+function userList(text: string | undefined): string[] {
+  return [
+    ...new Set(
+      (text ?? "")
+        .split(/[,\s]+/)
+        .map((user) => user.trim())
+        .filter(Boolean),
+    ),
+  ];
+}
+
+export function consentPolicyFromConfig(config: ConsentConfig): ConsentPolicy {
+  const mode = (CONSENT_MODES as readonly string[]).includes(config.consentPolicy ?? "")
+    ? (config.consentPolicy as ConsentMode)
+    : "always";
+  return {
+    mode,
+    costThreshold: nonNegative(config.consentCostThreshold, 0),
+    trustedUsers: userList(config.trustedUsers),
+    admins: userList(config.consentAdmins),
+    timeoutMs: Math.max(nonNegative(config.consentTimeoutSeconds, DEFAULT_CONSENT_TIMEOUT_SECONDS), 1) * 1000,
+  };
+}
+
+export function formatConsentPolicy(policy: ConsentPolicy): string {
+  const timeout = `unanswered after ${Math.round(policy.timeoutMs / 1000)}s`;
+  switch (policy.mode) {
+    case "above_cost":
+      return `confirm above ${policy.costThreshold} credits; ${timeout}`;
+    case "trusted":
+      return `confirm unless trusted (${policy.trustedUsers.length} trusted users); ${timeout}`;
+    case "admin":
+      return `an admin approves (${policy.admins.length > 0 ? policy.admins.join(", ") : "no admins set"}); ${timeout}`;
+    default:
+      return `always confirm; ${timeout}`;
+  }
+}
+
+/** Who has to agree to a request: nobody, the requester, or an admin. */
+export type ConsentRequirement = "none" | "requester" | "admin";
+
+export function consentRequirement(policy: ConsentPolicy, requester: string, cost: number): ConsentRequirement {
+  if (cost <= 0) return "none";
+  switch (policy.mode) {
+    case "above_cost":
+      return cost > policy.costThreshold ? "requester" : "none";
+    case "trusted":
+      return policy.trustedUsers.includes(requester) ? "none" : "requester";
+    case "admin":
+      return policy.admins.includes(requester) ? "requester" : "admin";
+    default:
+      return "requester";
+  }
+}
+
+export function isAffirmative(answer: string | null | undefined): boolean {
+  return AFFIRMATIVE.has(
+    answer
+      ?.trim()
+      .toLowerCase()
+      .replace(/[.!]+$/, "") ?? "",
+  );
+}
+
+/** The promise's value, or null if it takes longer than `ms`. */
+export async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// Admin approvals
+// ============================================================================
+
+export type ApprovalOutcome = "approved" | "denied" | "expired";
+
+export interface ApprovalRequest {
+  id: string;
+  requester: string;
+  channelId?: string;
+  /** What is being asked for, e.g. "a 5s video: a cat (about 5 credits)". */
+  summary: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  settle: (outcome: ApprovalOutcome, approver?: string) => void;
+}
+
+/** The result of an admin's `/video approve` or `/video deny`. */
+export type ApprovalDecision = { ok: true; request: ApprovalRequest } | { ok: false; error: string };
+
+export class ApprovalQueue {
+  private readonly pending = new Map<string, PendingApproval>();
+
+  /** Queue a request for approval. `outcome` settles when an admin decides or the request expires. */
+  request(
+    details: Pick<ApprovalRequest, "requester" | "channelId" | "summary">,
+    timeoutMs: number,
+  ): { request: ApprovalRequest; outcome: Promise<{ outcome: ApprovalOutcome; approver?: string }> } {
+    const now = Date.now();
+    const request: ApprovalRequest = {
+      id: randomBytes(3).toString("hex"),
+      ...details,
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+    };
+    const outcome = new Promise<{ outcome: ApprovalOutcome; approver?: string }>((resolve) => {
+      const timer = setTimeout(() => settle("expired"), timeoutMs);
+      const settle = (result: ApprovalOutcome, approver?: string) => {
+        clearTimeout(timer);
+        this.pending.delete(request.id);
+        resolve({ outcome: result, ...(approver ? { approver } : {}) });
+      };
+      this.pending.set(request.id, { request, settle });
+    });
+    return { request, outcome };
+  }
+
+  /** Approve or deny a pending request on behalf of `approver`, who must be one of `admins`. */
+  decide(id: string, approver: string, approved: boolean, admins: string[]): ApprovalDecision {
+    if (!admins.includes(approver)) return { ok: false, error: "Only video admins can approve or deny requests." };
+    const pending = this.pending.get(id);
+    if (!pending) return { ok: false, error: `No pending video request with ID \`${id}\` — it may have expired.` };
+    pending.settle(approved ? "approved" : "denied", approver);
+    return { ok: true, request: pending.request };
+  }
+
+  /** Requests waiting for an admin, oldest first. */
+  list(): ApprovalRequest[] {
+    return [...this.pending.values()].map(({ request }) => request).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /** Expire every pending request, e.g. on shutdown. */
+  clear(): void {
+    for (const { settle } of [...this.pending.values()]) settle("expired");
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Credit cost estimates and daily budgets.
+ *
+ * A video's estimated cost is its length in seconds times the model's
+ * relative cost (see models.ts), scaled for resolution and by the configured
+ * `creditsPerSecond`. The estimate is what the confirmation prompt,
+ * `/video cost` and the A2A `maxCost` argument work with, and jobs record it
+ * when they are accepted. The costs recorded since midnight UTC count
+ * against the per-user and per-channel daily budgets, which the rate limiter
+ * enforces before anything reaches the socket layer (see limiter.ts).
+ */
+
+import { getModel } from "./models.js";
+
+export const DEFAULT_CREDITS_PER_SECOND = 1;
+
+/** Cost of each resolution relative to 720p. */
+const RESOLUTION_FACTORS: Record<string, number> = {
+  "480p": 0.75,
+  "540p": 0.85,
+  "720p": 1,
+  "1080p": 1.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CostParams {
+  model: string;
+  duration: number;
+  resolution?: string;
+}
+
+/** Raw cost and budget config values — the config UI may store numbers as strings. */
+export interface CostConfig {
+  creditsPerSecond?: number | string;
+  dailyBudgetPerUser?: number | string;
+  dailyBudgetPerChannel?: number | string;
+}
+
+/** Daily credit budgets. 0 means unlimited. */
+export interface DailyBudgets {
+  perUser: number;
+  perChannel: number;
+}
+
+function nonNegative(value: number | string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value === undefined || value === "" || !Number.isFinite(n) || n < 0 ? fallback : n;
+}
+
+/** Credits with at most two decimals, so fractional rates don't print as 7.499999. */
+export function roundCredits(credits: number): number {
+  return Math.round(credits * 100) / 100;
+}
+
+export function creditsPerSecondFromConfig(config: CostConfig): number {
+  return nonNegative(config.creditsPerSecond, DEFAULT_CREDITS_PER_SECOND);
+}
+
+export function dailyBudgetsFromConfig(config: CostConfig): DailyBudgets {
+  return {
+    perUser: nonNegative(config.dailyBudgetPerUser, 0),
+    perChannel: nonNegative(config.dailyBudgetPerChannel, 0),
+  };
+}
+
+/** Estimated credits for one video. The resolution defaults to the model's own, as it does at the provider. */
+export function estimateCost(params: CostParams, creditsPerSecond = DEFAULT_CREDITS_PER_SECOND): number {
+  const model = getModel(params.model);
+  const resolution = params.resolution ?? model?.resolutions[0] ?? "720p";
+  const factor = RESOLUTION_FACTORS[resolution] ?? 1;
+  return roundCredits(params.duration * (model?.relativeCost ?? 1) * factor * creditsPerSecond);
+}
+
+/** Estimated credits for several videos, e.g. a batch or a storyboard's shots. */
+export function totalCost(videos: CostParams[], creditsPerSecond = DEFAULT_CREDITS_PER_SECOND): number {
+  return roundCredits(videos.reduce((sum, video) => sum + estimateCost(video, creditsPerSecond), 0));
+}
+
+export function formatCredits(credits: number): string {
+  return `${credits} credit${credits === 1 ? "" : "s"}`;
+}
+
+export function formatBudgets(budgets: DailyBudgets): string {
+  const show = (credits: number) => (credits === 0 ? "unlimited" : formatCredits(credits));
+  return `**Daily budget:** ${show(budgets.perUser)} per user, ${show(budgets.perChannel)} per channel`;
+}
+
+/** Start of the budget day (midnight UTC) that `now` falls in. */
+export function budgetDayStart(now: number): number {
+  return now - (now % DAY_MS);
+}
+
+/** Time until the budgets reset. */
+export function untilBudgetReset(now: number): number {
+  return budgetDayStart(now) + DAY_MS - now;
+}
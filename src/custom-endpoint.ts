@@ -0,0 +1,91 @@
+/**
+ * Custom HTTP endpoint adapter.
+ *
+ * For self-hosted or otherwise unsupported video services. The request is a
+ * single POST to `endpointUrl` that responds once the video is ready:
+ * - The body is the request itself as JSON, or `endpointRequestTemplate`
+ *   with `{{field}}` placeholders filled in from it. A value that is only a
+ *   placeholder keeps the field's type (numbers stay numbers) and is left out
+ *   when the field isn't set.
+ * - The API key, if any, goes in `endpointAuthHeader` — as a bearer token
+ *   for `Authorization`, verbatim for anything else (e.g. `X-API-Key`).
+ * - The video URL is read from the JSON response at `endpointResponsePath`,
+ *   a dot path such as `data.video.url` or `output.0` (default `url`).
+ */
+
+import { errorDetail, type ProviderAdapter } from "./provider.js";
+
+export interface CustomEndpointOptions {
+  url: string;
+  apiKey?: string;
+  authHeader?: string;
+  requestTemplate?: string;
+  responsePath?: string;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*(\w+)\s*\}\}$/;
+
+/** Fill `{{field}}` placeholders in a parsed template. Undefined means "leave this value out". */
+export function fillTemplate(template: unknown, values: object): unknown {
+  const fields = values as Record<string, unknown>;
+  if (typeof template === "string") {
+    const whole = WHOLE_PLACEHOLDER.exec(template);
+    if (whole) return fields[whole[1]];
+    return template.replace(PLACEHOLDER, (_, field: string) => String(fields[field] ?? ""));
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => fillTemplate(item, values)).filter((item) => item !== undefined);
+  }
+  if (template && typeof template === "object") {
+    const entries = Object.entries(template).map(([key, value]) => [key, fillTemplate(value, values)] as const);
+    return Object.fromEntries(entries.filter(([, value]) => value !== undefined));
+  }
+  return template;
+}
+
+/** The value at a dot path like `data.videos.0.url`. */
+export function valueAt(body: unknown, path: string): unknown {
+  let value = body;
+  for (const part of path.split(".").filter(Boolean)) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+export function customEndpointAdapter(options: CustomEndpointOptions): ProviderAdapter {
+  const authHeader = options.authHeader ?? "Authorization";
+  const responsePath = options.responsePath ?? "url";
+
+  return {
+    id: "custom",
+    name: "custom endpoint",
+    async generate(input, signal) {
+      let body: unknown = input;
+      if (options.requestTemplate) {
+        try {
+          body = fillTemplate(JSON.parse(options.requestTemplate), input);
+        } catch {
+          return { error: "The custom endpoint's request template isn't valid JSON" };
+        }
+      }
+
+      const headers: Record<string, string> = { "content-type": "application/json" };
+      if (options.apiKey) {
+        headers[authHeader] =
+          authHeader.toLowerCase() === "authorization" ? `Bearer ${options.apiKey}` : options.apiKey;
+      }
+      const response = await fetch(options.url, { method: "POST", headers, body: JSON.stringify(body), signal });
+      if (response.status === 402) return { error: "insufficient_credits" };
+      if (!response.ok) {
+        return { error: `The custom endpoint failed with HTTP ${response.status}: ${await errorDetail(response)}` };
+      }
+
+      const url = valueAt(await response.json().catch(() => null), responsePath);
+      return typeof url === "string" && url
+        ? { url }
+        : { error: `The custom endpoint's response has no video URL at \`${responsePath}\`` };
+    },
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Channel-aware delivery of finished videos.
+ *
+ * Provider URLs expire and not every channel embeds links, so where a channel
+ * type supports it the video is downloaded and uploaded as a native
+ * attachment instead. Each channel type has a delivery mode and an upload
+ * size limit:
+ * - `attachment` uploads the file if it fits. A file that doesn't is
+ *   re-encoded smaller, and if even that is too big the link is posted.
+ * - `link` posts the URL, as before.
+ *
+ * Modes are configured as `deliveryModes`, e.g. `discord=attachment:10,
+ * slack=link` (limits in MB). Channel types without an entry use
+ * DEFAULT_CHANNEL_DELIVERY, and anything unknown gets a link.
+ */
+
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, extname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { contentType } from "./artifacts.js";
+import type { MediaTools } from "./ffmpeg.js";
+import type { OutgoingAttachment, PluginLogger } from "./types.js";
+
+export const DELIVERY_MODES = ["attachment", "link"] as const;
+export type DeliveryMode = (typeof DELIVERY_MODES)[number];
+
+export interface ChannelDelivery {
+  mode: DeliveryMode;
+  /** Largest upload the channel accepts per message, in bytes. */
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+/** Upload limits of the channel types we know, for bots without any premium tier. */
+export const DEFAULT_CHANNEL_DELIVERY: Record<string, ChannelDelivery> = {
+  discord: { mode: "attachment", maxBytes: 10 * MB },
+  telegram: { mode: "attachment", maxBytes: 50 * MB },
+  whatsapp: { mode: "attachment", maxBytes: 16 * MB },
+  slack: { mode: "attachment", maxBytes: 100 * MB },
+};
+
+const LINK: ChannelDelivery = { mode: "link", maxBytes: 0 };
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/**
+ * Parse `deliveryModes` config such as `discord=attachment:10, slack=link`
+ * on top of the defaults. Malformed entries are ignored.
+ */
+export function channelDeliveryFromConfig(text: string | undefined): Record<string, ChannelDelivery> {
+  const rules = { ...DEFAULT_CHANNEL_DELIVERY };
+  for (const entry of (text ?? "").split(",")) {
+    const match = /^\s*([\w-]+)\s*=\s*(attachment|link)\s*(?::\s*(\d+(?:\.\d+)?))?\s*$/i.exec(entry);
+    if (!match) continue;
+    const [, channelType, mode, mb] = match;
+    const key = channelType.toLowerCase();
+    const maxBytes = mb !== undefined ? Math.floor(Number(mb) * MB) : (rules[key]?.maxBytes ?? 0);
+    rules[key] = mode.toLowerCase() === "link" || maxBytes === 0 ? LINK : { mode: "attachment", maxBytes };
+  }
+  return rules;
+}
+
+export function formatChannelDelivery(rules: Record<string, ChannelDelivery>): string {
+  const entries = Object.entries(rules).map(([channelType, rule]) =>
+    rule.mode === "link" ? `${channelType}: link` : `${channelType}: upload up to ${Math.round(rule.maxBytes / MB)} MB`,
+  );
+  return `${entries.join(", ")}; others: link`;
+}
+
+// ============================================================================
+// MediaDelivery
+// ============================================================================
+
+/** A video to deliver, by URL, and the file name to upload it under. */
+export interface DeliveryItem {
+  url: string;
+  name: string;
+}
+
+export interface MediaDeliveryOptions {
+  media: MediaTools;
+  /** Read on every delivery so config changes apply without a restart. */
+  rules: () => Record<string, ChannelDelivery>;
+  log: PluginLogger;
+}
+
+/** Download a file unless it is known to be larger than `maxBytes`; null if it is. */
+async function readMedia(url: string, maxBytes: number): Promise<Buffer | null> {
+  if (url.startsWith("file:")) {
+    const data = await readFile(fileURLToPath(url));
+    return data.length <= maxBytes ? data : null;
+  }
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Downloading ${url} failed with HTTP ${response.status}`);
+  // Don't pull down a file we already know is too big to upload
+  if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  return data.length <= maxBytes ? data : null;
+}
+
+export class MediaDelivery {
+  private readonly media: MediaTools;
+  private readonly rules: () => Record<string, ChannelDelivery>;
+  private readonly log: PluginLogger;
+
+  constructor(options: MediaDeliveryOptions) {
+    this.media = options.media;
+    this.rules = options.rules;
+    this.log = options.log;
+  }
+
+  /** How videos are delivered to a channel type. */
+  ruleFor(channelType: string | undefined): ChannelDelivery {
+    return (channelType && this.rules()[channelType.toLowerCase()]) || LINK;
+  }
+
+  /**
+   * The attachments to upload for `items` on a channel type, in order, with
+   * null for each item that has to be posted as a link instead. Items share
+   * the channel's per-message limit, first come first served. Never throws:
+   * anything that goes wrong falls back to a link.
+   */
+  async attachments(channelType: string | undefined, items: DeliveryItem[]): Promise<Array<OutgoingAttachment | null>> {
+    const rule = this.ruleFor(channelType);
+    if (rule.mode === "link") return items.map(() => null);
+
+    let remaining = rule.maxBytes;
+    const attachments: Array<OutgoingAttachment | null> = [];
+    for (const item of items) {
+      const attachment = await this.attachment(item, remaining);
+      if (attachment) remaining -= attachment.data.length;
+      attachments.push(attachment);
+    }
+    return attachments;
+  }
+
+  private async attachment(item: DeliveryItem, maxBytes: number): Promise<OutgoingAttachment | null> {
+    try {
+      const data = await readMedia(item.url, maxBytes);
+      if (data) return { name: item.name, contentType: contentType(item.name), data };
+      const compressed = await this.compressed(item, maxBytes);
+      if (!compressed) this.log.info(`${item.name} is too large to upload even when compressed; sending a link`);
+      return compressed;
+    } catch (error: unknown) {
+      this.log.warn(`Could not upload ${item.name}; sending a link instead`, error);
+      return null;
+    }
+  }
+
+  private async compressed(item: DeliveryItem, maxBytes: number): Promise<OutgoingAttachment | null> {
+    // GIFs and images don't shrink usefully as H.264; the link will do
+    if (!contentType(item.name).startsWith("video/")) return null;
+    const dir = await mkdtemp(join(tmpdir(), "videogen-delivery-"));
+    try {
+      const output = join(dir, `${basename(item.name, extname(item.name))}.mp4`);
+      await this.media.compress(item.url, output);
+      const data = await readFile(output);
+      if (data.length > maxBytes) return null;
+      return { name: basename(output), contentType: "video/mp4", data };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
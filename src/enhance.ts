@@ -0,0 +1,107 @@
+/**
+ * Prompt enhancement for `/video --enhance` and the enhance_video_prompt A2A
+ * tool.
+ *
+ * Short prompts like "a cat" leave most of the video to chance. The host's
+ * text-generation provider is asked, through ctx.inject on a session of its
+ * own so no conversation picks up the exchange, to rewrite the prompt into a
+ * detailed cinematic description in the style the target model responds to
+ * best (VideoModel.promptStyle). Nothing is generated or charged here: chat
+ * users review the rewrite first and accept it, edit it, keep their own
+ * prompt or cancel.
+ */
+
+import type { ParseResult } from "./args.js";
+import { isAffirmative, withTimeout } from "./consent.js";
+import type { VideoModel } from "./models.js";
+import { MAX_PROMPT_LENGTH } from "./schemas.js";
+import type { WOPRPluginContext } from "./types.js";
+
+/** Session the rewrite requests are sent to. */
+export const ENHANCE_SESSION = "__videogen_enhance__";
+
+export const DEFAULT_ENHANCE_TIMEOUT_MS = 60_000;
+
+/** Keep-your-own answers to the review question, compared case-insensitively. */
+const KEEP_ORIGINAL = new Set(["original", "keep", "mine", "keep mine", "use mine"]);
+/** Answers that cancel the request. */
+const CANCEL = new Set(["no", "n", "cancel", "reject", "stop"]);
+
+/** What the text provider is asked to do with a prompt. */
+export function enhanceInstructions(prompt: string, model: VideoModel | undefined): string {
+  const target = model ? `the ${model.name} text-to-video model` : "a text-to-video model";
+  const style = model ? `${model.name} works best with ${model.promptStyle}. ` : "";
+  return (
+    `Rewrite this prompt for ${target} as one detailed, cinematic description of a single shot. ` +
+    `${style}Keep the user's subject, ` +
+    `action and any details they gave, and add only what makes the shot concrete: setting, lighting, ` +
+    `camera, mood. Stay under 80 words and under ${MAX_PROMPT_LENGTH} characters. Reply with the rewritten ` +
+    `prompt only — no title, quotes, options or explanation.\n\nPrompt: ${prompt}`
+  );
+}
+
+/**
+ * The rewritten prompt in a provider reply, with the code fences, labels and
+ * quotes models like to add stripped off. Null if there is nothing usable.
+ */
+export function parseEnhancedPrompt(raw: string): string | null {
+  const text = raw
+    .trim()
+    .replace(/^```\w*\s*|\s*```$/g, "")
+    .replace(/^(enhanced |rewritten )?prompt:\s*/i, "")
+    .replace(/^["“'](.*)["”']$/s, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text && text.length <= MAX_PROMPT_LENGTH ? text : null;
+}
+
+/** Ask the host's text-generation provider for a richer version of `prompt`. */
+export async function enhancePrompt(
+  ctx: WOPRPluginContext,
+  prompt: string,
+  model: VideoModel | undefined,
+  timeoutMs = DEFAULT_ENHANCE_TIMEOUT_MS,
+): Promise<ParseResult<string>> {
+  const unavailable = "Prompt enhancement isn't available right now. Try again later, or leave out `--enhance`.";
+  let raw: string | null;
+  try {
+    raw = await withTimeout<string>(
+      ctx.inject(ENHANCE_SESSION, enhanceInstructions(prompt, model), { silent: true }),
+      timeoutMs,
+    );
+  } catch (error: unknown) {
+    ctx.log.warn("Prompt enhancement failed", error);
+    return { ok: false, error: unavailable };
+  }
+  if (raw === null) return { ok: false, error: unavailable };
+  const enhanced = typeof raw === "string" ? parseEnhancedPrompt(raw) : null;
+  return enhanced ? { ok: true, value: enhanced } : { ok: false, error: unavailable };
+}
+
+/** What the requester made of the rewrite. */
+export type EnhanceReview =
+  | { action: "accept" | "original" | "edit"; prompt: string }
+  | { action: "cancel" }
+  | { action: "invalid"; error: string };
+
+/** The question chat users answer after seeing the rewrite. */
+export function enhanceQuestion(enhanced: string): string {
+  return (
+    `**Enhanced prompt:**\n> ${enhanced}\n\n` +
+    "Reply **yes** to use it, **original** to keep your own prompt, **no** to cancel, " +
+    "or send your edited version of the prompt."
+  );
+}
+
+/** Interpret an answer to enhanceQuestion: yes, original, no, or an edited prompt. */
+export function reviewEnhancement(answer: string, original: string, enhanced: string): EnhanceReview {
+  const text = answer.trim();
+  const word = text.toLowerCase().replace(/[.!]+$/, "");
+  if (isAffirmative(text) || word === "accept") return { action: "accept", prompt: enhanced };
+  if (KEEP_ORIGINAL.has(word)) return { action: "original", prompt: original };
+  if (!text || CANCEL.has(word)) return { action: "cancel" };
+  if (text.length > MAX_PROMPT_LENGTH) {
+    return { action: "invalid", error: `Prompts must be at most ${MAX_PROMPT_LENGTH} characters.` };
+  }
+  return { action: "edit", prompt: text };
+}
@@ -0,0 +1,181 @@
+/**
+ * Video generation error taxonomy.
+ *
+ * Providers, adapters and the socket layer each describe failures their own
+ * way: a socket code such as `quota_exceeded`, a JSON error object, an HTTP
+ * status inside an adapter message. errorCode() maps all of them onto one
+ * closed set of codes, which is what jobs store and what users and A2A
+ * callers see. Each code has an actionable message and says whether the same
+ * request can succeed if tried again. Provider wording stays in the logs and
+ * on the job's attempts.
+ */
+
+export const ERROR_CODES = [
+  "insufficient_credits",
+  "content_policy",
+  "prompt_blocked",
+  "invalid_params",
+  "quota_exceeded",
+  "provider_timeout",
+  "provider_outage",
+  "expired_url",
+  "cancelled",
+  "generation_failed",
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+interface ErrorInfo {
+  /** Whether the same request may succeed later without changes. */
+  retryable: boolean;
+  /** What went wrong and what to do about it, for users. */
+  message: string;
+  /** A few words for lists, e.g. one line of a batch result. */
+  summary: string;
+}
+
+const ERRORS: Record<ErrorCode, ErrorInfo> = {
+  insufficient_credits: {
+    retryable: false,
+    message: "You don't have enough credits for video generation. Add credits to continue.",
+    summary: "not enough credits",
+  },
+  content_policy: {
+    retryable: false,
+    message:
+      "The provider refused this request under its content policy. Rephrase the prompt or use a different " +
+      "reference image, then try again.",
+    summary: "refused by the content policy",
+  },
+  prompt_blocked: {
+    retryable: false,
+    message:
+      "The prompt was blocked by this channel's content rules before any credits were spent. Rephrase it and " +
+      "try again.",
+    summary: "blocked by moderation",
+  },
+  invalid_params: {
+    retryable: false,
+    message:
+      "The provider rejected the request's settings. Check `/video models` for what each model supports and " +
+      "adjust the options.",
+    summary: "settings rejected",
+  },
+  quota_exceeded: {
+    retryable: true,
+    message:
+      "The provider's rate limit or quota has been reached. Wait a few minutes and try again, or pick another " +
+      "backend with `--provider`.",
+    summary: "provider quota reached",
+  },
+  provider_timeout: {
+    retryable: true,
+    message: "The provider took too long to render the video. Try again, perhaps with a shorter duration.",
+    summary: "timed out",
+  },
+  provider_outage: {
+    retryable: true,
+    message: "The video provider is unavailable right now. Try again later or pick another model with `--model`.",
+    summary: "provider unavailable",
+  },
+  expired_url: {
+    retryable: false,
+    message:
+      "A linked image or video has expired or can no longer be downloaded. Send a fresh link or attach the file, " +
+      "then try again.",
+    summary: "link expired",
+  },
+  cancelled: {
+    retryable: true,
+    message: "The video request was cancelled before it finished.",
+    summary: "cancelled",
+  },
+  generation_failed: {
+    retryable: true,
+    message: "Video generation failed. Please try again.",
+    summary: "failed",
+  },
+};
+
+/** Other spellings of each code used by the socket layer and providers. */
+const ALIASES: Record<string, ErrorCode> = {
+  payment_required: "insufficient_credits",
+  nsfw: "content_policy",
+  content_filtered: "content_policy",
+  safety: "content_policy",
+  moderation: "content_policy",
+  invalid_input: "invalid_params",
+  invalid_request: "invalid_params",
+  validation_error: "invalid_params",
+  bad_request: "invalid_params",
+  quota: "quota_exceeded",
+  rate_limited: "quota_exceeded",
+  rate_limit_exceeded: "quota_exceeded",
+  too_many_requests: "quota_exceeded",
+  timeout: "provider_timeout",
+  timed_out: "provider_timeout",
+  deadline_exceeded: "provider_timeout",
+  unavailable: "provider_outage",
+  model_unavailable: "provider_outage",
+  service_unavailable: "provider_outage",
+  overloaded: "provider_outage",
+  provider_error: "provider_outage",
+  upstream_error: "provider_outage",
+  url_expired: "expired_url",
+  expired: "expired_url",
+  canceled: "cancelled",
+  aborted: "cancelled",
+};
+
+/** Patterns for free-text errors, most specific first. */
+const PATTERNS: Array<[RegExp, ErrorCode]> = [
+  [/insufficient[ _]credits|payment required|HTTP 402\b/i, "insufficient_credits"],
+  [/nsfw|safety|content[ _-]?policy|moderation|flagged|blocked|sensitive|inappropriate/i, "content_policy"],
+  [/expired|HTTP 410\b|(download|fetch)\w*\b.*HTTP 40[34]\b/i, "expired_url"],
+  [/quota|rate[ _-]?limit|too many requests|HTTP 429\b/i, "quota_exceeded"],
+  [/timed? ?out|timeout|deadline/i, "provider_timeout"],
+  [
+    /invalid|unsupported|not supported|isn't supported|isn't available|must be|needs a|not valid JSON|validation|HTTP 4(00|04|13|22)\b/i,
+    "invalid_params",
+  ],
+  [
+    /unavailable|overloaded|busy|outage|HTTP 5\d\d\b|ECONNREFUSED|ECONNRESET|ENOTFOUND|fetch failed|offline/i,
+    "provider_outage",
+  ],
+  [/cancell?ed|aborted/i, "cancelled"],
+];
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === "string" && (ERROR_CODES as readonly string[]).includes(value);
+}
+
+/** The category of a provider, adapter or socket error. Anything unrecognized is `generation_failed`. */
+export function errorCode(error: string): ErrorCode {
+  const normalized = error.trim().toLowerCase();
+  if (isErrorCode(normalized)) return normalized;
+  return ALIASES[normalized] ?? PATTERNS.find(([pattern]) => pattern.test(error))?.[1] ?? "generation_failed";
+}
+
+export function errorMessage(code: ErrorCode): string {
+  return ERRORS[code].message;
+}
+
+export function errorSummary(code: ErrorCode): string {
+  return ERRORS[code].summary;
+}
+
+export function isRetryable(code: ErrorCode): boolean {
+  return ERRORS[code].retryable;
+}
+
+export interface ErrorPayload {
+  /** Same as `code`, matching the `error` field of the plugin's other A2A errors. */
+  error: ErrorCode;
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+}
+
+/** The error object A2A callers get for a failed request. */
+export function errorPayload(code: ErrorCode): ErrorPayload {
+  return { error: code, code, message: errorMessage(code), retryable: isRetryable(code) };
+}
@@ -0,0 +1,177 @@
+/**
+ * Retries, provider failover and model fallback chains.
+ *
+ * What happens after a failed attempt depends on its error code (errors.ts):
+ * - Timeouts, outages and unrecognized failures are retried on the same
+ *   model and provider with exponential backoff, then move on.
+ * - `quota_exceeded` and `invalid_params` move straight on to the next
+ *   candidate, which has its own quota or may accept the settings.
+ * - Anything else stops: another model won't change the prompt, the balance
+ *   or an expired link.
+ *
+ * Candidates are the requested model on the request's provider, then on each
+ * failover provider, then the same for each model in its fallback chain.
+ * Every attempt is recorded on the job (see jobs.ts).
+ */
+
+import { z } from "zod";
+import type { VideoGenerationInput } from "./capability.js";
+import { ERROR_CODES, type ErrorCode } from "./errors.js";
+import { getModel, validateModelParams } from "./models.js";
+import { PROVIDERS } from "./provider.js";
+import { remixInput } from "./remix.js";
+
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_RETRY_DELAY_SECONDS = 2;
+
+// ============================================================================
+// Attempt record
+// ============================================================================
+
+export const jobAttemptSchema = z.object({
+  model: z.string(),
+  /** The provider asked for; unset means the configured one. */
+  provider: z.string().optional(),
+  startedAt: z.number(),
+  finishedAt: z.number(),
+  /** The provider's own description of the failure. */
+  error: z.string().optional(),
+  code: z.enum(ERROR_CODES).optional(),
+});
+
+export type JobAttempt = z.infer<typeof jobAttemptSchema>;
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+export interface FailoverPolicy {
+  /** Models to fall back to, in order, keyed by the model that failed. */
+  chains: Record<string, string[]>;
+  /** Providers to fail over to after the request's own, in order. */
+  providers: string[];
+  /** Provider used by requests that don't pick one. */
+  defaultProvider?: string;
+  /** Further tries of a candidate after a timeout or outage. */
+  retries: number;
+  /** Wait before the first retry; doubles with each further one. */
+  baseDelayMs: number;
+}
+
+/** One attempt, no retries — what jobs get without a policy. */
+export const NO_FAILOVER: FailoverPolicy = { chains: {}, providers: [], retries: 0, baseDelayMs: 0 };
+
+/** Raw failover config values — the config UI may store numbers as strings. */
+export interface FailoverConfig {
+  provider?: string;
+  fallbackChains?: string;
+  failoverProviders?: string;
+  retryAttempts?: number | string;
+  retryDelaySeconds?: number | string;
+}
+
+function nonNegative(value: number | string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value === undefined || value === "" || !Number.isFinite(n) || n < 0 ? fallback : n;
+}
+
+/**
+ * Parse `fallbackChains` such as `kling-1.6 > minimax-video, luma-ray2 > wan-2.1 > minimax-video`:
+ * each model falls back to the ones after it in its chain. Unknown models are ignored.
+ */
+export function parseFallbackChains(text: string | undefined): Record<string, string[]> {
+  const chains: Record<string, string[]> = {};
+  for (const entry of (text ?? "").split(/[,;\n]/)) {
+    const models = entry
+      .split(/>|→/)
+      .map((model) => model.trim())
+      .filter((model) => getModel(model));
+    for (const [index, model] of models.entries()) {
+      chains[model] ??= models.slice(index + 1).filter((next) => next !== model);
+    }
+  }
+  return Object.fromEntries(Object.entries(chains).filter(([, fallbacks]) => fallbacks.length > 0));
+}
+
+export function failoverPolicyFromConfig(config: FailoverConfig): FailoverPolicy {
+  const providers = (config.failoverProviders ?? "")
+    .split(",")
+    .map((provider) => provider.trim().toLowerCase())
+    .filter((provider): provider is (typeof PROVIDERS)[number] => (PROVIDERS as readonly string[]).includes(provider));
+  return {
+    chains: parseFallbackChains(config.fallbackChains),
+    providers: [...new Set(providers)],
+    defaultProvider: config.provider ?? "replicate",
+    retries: Math.floor(nonNegative(config.retryAttempts, DEFAULT_RETRIES)),
+    baseDelayMs: nonNegative(config.retryDelaySeconds, DEFAULT_RETRY_DELAY_SECONDS) * 1000,
+  };
+}
+
+export function formatFailoverPolicy(policy: FailoverPolicy): string {
+  const chains = Object.entries(policy.chains).map(([model, fallbacks]) => [model, ...fallbacks].join(" → "));
+  return (
+    `${policy.retries} ${policy.retries === 1 ? "retry" : "retries"} from ${policy.baseDelayMs / 1000}s` +
+    `; fallbacks: ${chains.length > 0 ? chains.join(", ") : "none"}` +
+    `; failover: ${policy.providers.length > 0 ? policy.providers.join(", ") : "none"}`
+  );
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+const RETRIED: readonly ErrorCode[] = ["provider_timeout", "provider_outage", "generation_failed"];
+const FALLS_BACK: readonly ErrorCode[] = [...RETRIED, "quota_exceeded", "invalid_params"];
+
+/** Whether the same candidate is worth another try after this failure. */
+export function shouldRetry(code: ErrorCode): boolean {
+  return RETRIED.includes(code);
+}
+
+/** Whether another candidate is worth trying after this failure. */
+export function canFallBack(code: ErrorCode): boolean {
+  return FALLS_BACK.includes(code);
+}
+
+/** Delay before retry number `retry` (0-based). */
+export function backoffDelay(policy: FailoverPolicy, retry: number): number {
+  return policy.baseDelayMs * 2 ** retry;
+}
+
+/**
+ * The inputs to try for a request, in order. Fallback models keep the
+ * request's settings where they support them (see remixInput) and are
+ * skipped where they can't serve it at all, e.g. an extension.
+ */
+export function attemptPlan(input: VideoGenerationInput, policy: FailoverPolicy): VideoGenerationInput[] {
+  const primary = input.provider ?? policy.defaultProvider;
+  const providers = [input.provider, ...policy.providers.filter((provider) => provider !== primary)];
+  const models = [input.model, ...(policy.chains[input.model] ?? [])];
+
+  const plan: VideoGenerationInput[] = [];
+  for (const model of models) {
+    const candidate = model === input.model ? input : remixInput(input, { model, seed: input.seed });
+    if (model !== input.model && validateModelParams(model, candidate)) continue;
+    for (const provider of providers) {
+      const { provider: _, ...rest } = candidate;
+      plan.push(provider ? { ...rest, provider } : rest);
+    }
+  }
+  return plan;
+}
+
+/**
+ * The attempt that produced a job's video, if it isn't what was asked for —
+ * a fallback model or a failover provider.
+ */
+export function substituteAttempt(input: VideoGenerationInput, attempts: JobAttempt[] | undefined): JobAttempt | null {
+  const last = attempts?.at(-1);
+  if (!last || last.error) return null;
+  return last.model !== input.model || last.provider !== input.provider ? last : null;
+}
+
+/** Short note on which model and provider stood in, for result messages. */
+export function describeSubstitute(input: VideoGenerationInput, attempt: JobAttempt): string {
+  const what = attempt.model !== input.model ? `${attempt.model} instead of ${input.model}` : attempt.model;
+  return attempt.provider && attempt.provider !== input.provider ? `${what} via ${attempt.provider}` : what;
+}
@@ -0,0 +1,183 @@
+/**
+ * Local media processing with ffmpeg.
+ *
+ * Provider output is downloaded into a scratch directory and handed to the
+ * ffmpeg binary configured as `ffmpegPath`. Everything that needs frames or
+ * files rather than URLs goes through the MediaTools interface, so tests and
+ * hosts without ffmpeg can swap in their own implementation.
+ */
+
+import { execFile } from "node:child_process";
+import { copyFile, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { OutputFormat, Trim } from "./postprocess.js";
+
+export const DEFAULT_FFMPEG_PATH = "ffmpeg";
+
+/** Longest a single ffmpeg run may take before it is killed. */
+const FFMPEG_TIMEOUT_MS = 120_000;
+
+/** GIFs are for previews; full-size frames at full rate would make them huge. */
+const GIF_FPS = 12;
+const GIF_WIDTH = 480;
+
+/** Height compressed uploads are scaled down to. */
+const COMPRESSED_HEIGHT = 480;
+
+export interface TranscodeOptions {
+  format: OutputFormat;
+  loop?: boolean;
+  trim?: Trim;
+}
+
+export interface MediaTools {
+  /** The final frame of a video, as a JPEG data URI. */
+  lastFrame(videoUrl: string): Promise<string>;
+  /** Join videos end to end into the file at `output`. */
+  concat(videoUrls: string[], output: string): Promise<void>;
+  /** Convert, trim or loop a video into the file at `output`. */
+  transcode(videoUrl: string, output: string, options: TranscodeOptions): Promise<void>;
+  /** Write the first frame of a video as a JPEG to `output`. */
+  thumbnail(videoUrl: string, output: string): Promise<void>;
+  /** Re-encode a video as a small MP4 at `output`, for channels with tight upload limits. */
+  compress(videoUrl: string, output: string): Promise<void>;
+}
+
+/**
+ * ffmpeg arguments that turn `input` into `output` as described. Generated
+ * clips are silent, so audio is dropped rather than re-encoded (a looped
+ * clip couldn't keep it in sync anyway).
+ */
+export function transcodeArgs(input: string, output: string, options: TranscodeOptions): string[] {
+  const args: string[] = [];
+  const { start, end } = options.trim ?? {};
+  // Seek on the input so only the kept part is decoded
+  if (start !== undefined) args.push("-ss", String(start));
+  if (end !== undefined) args.push("-t", String(end - (start ?? 0)));
+  args.push("-i", input, "-an");
+
+  const filters: string[] = [];
+  if (options.format === "gif") filters.push(`fps=${GIF_FPS}`, `scale=${GIF_WIDTH}:-2:flags=lanczos`);
+  const chain = filters.length > 0 ? `${filters.join(",")},` : "";
+  const looped = options.loop ? "split[fwd][rev];[rev]reverse[back];[fwd][back]concat=n=2:v=1:a=0," : "";
+
+  if (options.format === "gif") {
+    // A per-clip palette keeps GIF colours from banding; GIFs always repeat
+    args.push("-vf", `${chain}${looped}split[a][b];[a]palettegen[p];[b][p]paletteuse`, "-loop", "0");
+  } else {
+    const graph = `${chain}${looped}`.replace(/,$/, "");
+    if (graph) args.push("-vf", graph);
+    if (options.format === "webm") args.push("-c:v", "libvpx-vp9", "-b:v", "0", "-crf", "32");
+    else args.push("-c:v", "libx264", "-pix_fmt", "yuv420p", "-movflags", "+faststart");
+  }
+  args.push(output);
+  return args;
+}
+
+export function runFfmpeg(ffmpegPath: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      ffmpegPath,
+      ["-hide_banner", "-loglevel", "error", "-y", ...args],
+      { timeout: FFMPEG_TIMEOUT_MS },
+      (error, _stdout, stderr) => {
+        if (error) reject(new Error(`ffmpeg failed: ${String(stderr).trim() || error.message}`));
+        else resolve();
+      },
+    );
+  });
+}
+
+async function download(url: string, file: string): Promise<void> {
+  // Stitched storyboards and earlier conversions are already on disk
+  if (url.startsWith("file:")) {
+    await copyFile(fileURLToPath(url), file);
+    return;
+  }
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Downloading ${url} failed with HTTP ${response.status}`);
+  await writeFile(file, Buffer.from(await response.arrayBuffer()));
+}
+
+async function withScratchDir<T>(work: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "videogen-"));
+  try {
+    return await work(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** MediaTools backed by the ffmpeg binary. The path is read on every call so config changes apply. */
+export function ffmpegTools(ffmpegPath: () => string): MediaTools {
+  return {
+    lastFrame: (videoUrl) =>
+      withScratchDir(async (dir) => {
+        const input = join(dir, "input.mp4");
+        const frame = join(dir, "last.jpg");
+        await download(videoUrl, input);
+        // Decode the final second and keep overwriting one image, so the last frame is what remains
+        await runFfmpeg(ffmpegPath(), ["-sseof", "-1", "-i", input, "-update", "1", "-q:v", "2", frame]);
+        return `data:image/jpeg;base64,${(await readFile(frame)).toString("base64")}`;
+      }),
+
+    concat: (videoUrls, output) =>
+      withScratchDir(async (dir) => {
+        const files: string[] = [];
+        for (const [index, url] of videoUrls.entries()) {
+          const file = join(dir, `part-${index}.mp4`);
+          await download(url, file);
+          files.push(file);
+        }
+        const list = join(dir, "parts.txt");
+        await writeFile(list, files.map((file) => `file '${file}'`).join("\n"));
+        await mkdir(dirname(output), { recursive: true });
+        // Clips from one model share a codec, so they can be joined without re-encoding
+        await runFfmpeg(ffmpegPath(), ["-f", "concat", "-safe", "0", "-i", list, "-c", "copy", output]);
+      }),
+
+    transcode: (videoUrl, output, options) =>
+      withScratchDir(async (dir) => {
+        const input = join(dir, "input");
+        await download(videoUrl, input);
+        await mkdir(dirname(output), { recursive: true });
+        await runFfmpeg(ffmpegPath(), transcodeArgs(input, output, options));
+      }),
+
+    thumbnail: (videoUrl, output) =>
+      withScratchDir(async (dir) => {
+        const input = join(dir, "input");
+        await download(videoUrl, input);
+        await mkdir(dirname(output), { recursive: true });
+        await runFfmpeg(ffmpegPath(), ["-i", input, "-frames:v", "1", "-q:v", "2", output]);
+      }),
+
+    compress: (videoUrl, output) =>
+      withScratchDir(async (dir) => {
+        const input = join(dir, "input");
+        await download(videoUrl, input);
+        await mkdir(dirname(output), { recursive: true });
+        // 480p at a high CRF is still watchable in a chat window and usually a tenth of the size
+        await runFfmpeg(ffmpegPath(), [
+          "-i",
+          input,
+          "-an",
+          "-vf",
+          `scale=-2:'min(${COMPRESSED_HEIGHT},ih)'`,
+          "-c:v",
+          "libx264",
+          "-preset",
+          "veryfast",
+          "-crf",
+          "32",
+          "-pix_fmt",
+          "yuv420p",
+          "-movflags",
+          "+faststart",
+          output,
+        ]);
+      }),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Generation history.
+ *
+ * Every job record is kept in the job store, so the history is a read-only
+ * view over it: who asked for what, where, with which parameters, and how it
+ * turned out. Repository filters only reach top-level columns, so model and
+ * text filters scan the most recent jobs in scope and match in memory.
+ */
+
+import type { ParseResult } from "./args.js";
+import { HOST_ONLY_NOTE, isHostOnlyUrl } from "./artifacts.js";
+import { describeImage } from "./image.js";
+import type { JobStatus, VideoJob } from "./jobs.js";
+import type { Repository } from "./types.js";
+
+export const DEFAULT_HISTORY_LIMIT = 10;
+export const MAX_HISTORY_LIMIT = 50;
+
+/** How many recent jobs a text search looks through. */
+export const SEARCH_SCAN_LIMIT = 500;
+
+/** History filters; every field given must match. */
+export interface HistoryQuery {
+  requester?: string;
+  /** Only requesters starting with this, e.g. "a2a" for everything asked through A2A. */
+  requesterPrefix?: string;
+  channelId?: string;
+  model?: string;
+  status?: JobStatus;
+  /** Case-insensitive text to find in the prompt or negative prompt. */
+  text?: string;
+  limit?: number;
+}
+
+export class VideoHistory {
+  constructor(private readonly repo: Repository<VideoJob>) {}
+
+  async get(id: string): Promise<VideoJob | null> {
+    return this.repo.findById(id);
+  }
+
+  /** Matching jobs, newest first. */
+  async find(query: HistoryQuery = {}): Promise<VideoJob[]> {
+    const limit = Math.min(query.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+    const where = {
+      ...(query.requester ? { requester: query.requester } : {}),
+      ...(query.requesterPrefix && !query.requester ? { requester: { $startsWith: query.requesterPrefix } } : {}),
+      ...(query.channelId ? { channelId: query.channelId } : {}),
+      ...(query.status ? { status: query.status } : {}),
+    };
+    const text = query.text?.trim().toLowerCase();
+    const recent = await this.repo
+      .query()
+      .where(where)
+      .orderBy("createdAt", "desc")
+      .limit(text || query.model ? SEARCH_SCAN_LIMIT : limit)
+      .execute();
+
+    return recent
+      .filter((job: VideoJob) => !query.model || job.input.model === query.model)
+      .filter(
+        (job: VideoJob) =>
+          !text ||
+          job.input.prompt.toLowerCase().includes(text) ||
+          (job.input.negativePrompt?.toLowerCase().includes(text) ?? false),
+      )
+      .slice(0, limit);
+  }
+}
+
+// ============================================================================
+// /video history arguments
+// ============================================================================
+
+export interface HistoryArgs {
+  mine: boolean;
+  limit: number;
+}
+
+export function parseHistoryArgs(args: string[]): ParseResult<HistoryArgs> {
+  const result: HistoryArgs = { mine: false, limit: DEFAULT_HISTORY_LIMIT };
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split("=", 2);
+    if (flag === "--mine") {
+      result.mine = true;
+    } else if (flag === "--limit") {
+      const value = inline ?? args[++i];
+      const limit = Number(value);
+      if (!value || !Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+        return { ok: false, error: `Option \`--limit\` must be a whole number from 1 to ${MAX_HISTORY_LIMIT}.` };
+      }
+      result.limit = limit;
+    } else {
+      return { ok: false, error: `Unknown option \`${args[i]}\`. Usage: \`/video history [--mine] [--limit n]\`` };
+    }
+  }
+  return { ok: true, value: result };
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+function shorten(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/** Chat listing for `/video history` and `/video search`. */
+export function formatHistory(jobs: VideoJob[], title: string, empty: string): string {
+  if (jobs.length === 0) return empty;
+  const lines = jobs.map((job) => {
+    const when = new Date(job.createdAt).toISOString().slice(0, 16).replace("T", " ");
+    const link = job.resultUrl && isHostOnlyUrl(job.resultUrl) ? `(${HOST_ONLY_NOTE})` : job.resultUrl;
+    const result = job.status === "succeeded" && link ? `\n    ${link}` : "";
+    return `\`${job.id}\` — ${when} — ${job.status} — ${job.input.model} — ${shorten(job.input.prompt, 50)}${result}`;
+  });
+  return `**${title}**\n\n${lines.join("\n")}\n\nUse \`/video show <id>\` for details.`;
+}
+
+/** JSON-friendly history entry for the list_video_history A2A tool. */
+export function historyEntry(job: VideoJob): Record<string, unknown> {
+  const { image, ...params } = job.input;
+  return {
+    id: job.id,
+    status: job.status,
+    ...params,
+    ...(image ? { image: describeImage(image) } : {}),
+    requester: job.requester,
+    ...(job.channelId ? { channel: { type: job.channelType, id: job.channelId } } : {}),
+    createdAt: new Date(job.createdAt).toISOString(),
+    ...(job.completedAt ? { completedAt: new Date(job.completedAt).toISOString() } : {}),
+    ...(job.resultUrl ? { resultUrl: job.resultUrl } : {}),
+    ...(job.outputs ? { outputs: job.outputs } : {}),
+    ...(job.error ? { error: job.error } : {}),
+    ...(job.cached ? { cached: true } : {}),
+    ...(job.parentId ? { kind: job.kind, parentId: job.parentId } : {}),
+  };
+}
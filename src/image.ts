@@ -0,0 +1,92 @@
+/**
+ * Reference image validation for image-to-video generation.
+ *
+ * A reference image can be an https:// URL (typed with --image, passed by an
+ * A2A caller, or attached to the triggering message) or an inline
+ * data:image/...;base64 URI. The provider fetches URLs itself, so we can only
+ * check what we know up front: the scheme, the MIME type (from the data URI
+ * header, the attachment's content type or the file extension) and the size.
+ */
+
+/** MIME types every supported video model accepts as a reference image. */
+export const ALLOWED_IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp"] as const;
+
+/** Providers reject reference images above this size. */
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  heic: "image/heic",
+};
+
+/** What the channel told us about an attached file, when anything. */
+export interface ImageHints {
+  contentType?: string;
+  size?: number;
+}
+
+function isAllowedMimeType(mimeType: string): boolean {
+  return (ALLOWED_IMAGE_MIME_TYPES as readonly string[]).includes(mimeType.toLowerCase());
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function mimeTypeError(mimeType: string): string {
+  return `Unsupported image type ${mimeType}. Use PNG, JPEG or WebP.`;
+}
+
+function validateDataUri(value: string): string | null {
+  const match = /^data:([^;,]+);base64,([A-Za-z0-9+/=\s]+)$/.exec(value);
+  if (!match) return "Inline images must be base64 data URIs (data:image/png;base64,...).";
+  const [, mimeType, payload] = match;
+  if (!isAllowedMimeType(mimeType)) return mimeTypeError(mimeType);
+  const bytes = Math.floor((payload.replace(/\s/g, "").length * 3) / 4);
+  if (bytes > MAX_IMAGE_BYTES) {
+    return `Reference image is too large (${formatMegabytes(bytes)}). The limit is ${formatMegabytes(MAX_IMAGE_BYTES)}.`;
+  }
+  return null;
+}
+
+function validateUrl(value: string, hints: ImageHints): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Reference image must be a valid https:// URL.";
+  }
+  if (url.protocol !== "https:") return "Reference image URLs must use https://.";
+
+  const extension = /\.([a-z0-9]+)$/i.exec(url.pathname)?.[1]?.toLowerCase();
+  const mimeType = hints.contentType?.split(";")[0].trim() ?? (extension ? EXTENSION_MIME_TYPES[extension] : undefined);
+  if (mimeType && !isAllowedMimeType(mimeType)) return mimeTypeError(mimeType);
+
+  if (hints.size !== undefined && hints.size > MAX_IMAGE_BYTES) {
+    return `Reference image is too large (${formatMegabytes(hints.size)}). The limit is ${formatMegabytes(MAX_IMAGE_BYTES)}.`;
+  }
+  return null;
+}
+
+/**
+ * Validate a reference image URL or data URI. Returns a user-facing error
+ * message, or null if the image is acceptable.
+ */
+export function validateImageInput(value: string, hints: ImageHints = {}): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return "Reference image is empty.";
+  return trimmed.startsWith("data:") ? validateDataUri(trimmed) : validateUrl(trimmed, hints);
+}
+
+/** Short description of an image for chat messages — never echo a whole data URI. */
+export function describeImage(value: string): string {
+  return value.startsWith("data:") ? "inline image" : value;
+}
@@ -6,7 +6,166 @@
  * Contains ZERO billing logic — socket handles credits.
  */
 
-import type { A2AToolResult, ChannelCommandContext, ConfigSchema, WOPRPlugin, WOPRPluginContext } from "./types.js";
+import { join } from "node:path";
+import { type ParseResult, parseVideoArgs } from "./args.js";
+import {
+  type Artifact,
+  type ArtifactConfig,
+  ArtifactStore,
+  artifactBackendFromConfig,
+  artifactLimitsFromConfig,
+  DEFAULT_ARTIFACT_QUOTA_MB,
+  DEFAULT_ARTIFACT_RETENTION_DAYS,
+  formatArtifactStorage,
+  HOST_ONLY_NOTE,
+  isHostOnlyUrl,
+} from "./artifacts.js";
+import { expandBatch, newBatchId } from "./batch.js";
+import { type CachedResult, DEFAULT_CACHE_TTL_HOURS, ResultCache } from "./cache.js";
+import { CAPABILITY_SESSION, requestVideo, type VideoGenerationInput } from "./capability.js";
+import { DEFAULT_COMFYUI_URL } from "./comfyui.js";
+import {
+  ApprovalQueue,
+  type ConsentConfig,
+  consentPolicyFromConfig,
+  consentRequirement,
+  DEFAULT_CONSENT_TIMEOUT_SECONDS,
+  formatConsentPolicy,
+  isAffirmative,
+  withTimeout,
+} from "./consent.js";
+import {
+  type CostConfig,
+  creditsPerSecondFromConfig,
+  DEFAULT_CREDITS_PER_SECOND,
+  dailyBudgetsFromConfig,
+  estimateCost,
+  formatBudgets,
+  formatCredits,
+  roundCredits,
+  totalCost,
+} from "./cost.js";
+import { channelDeliveryFromConfig, type DeliveryItem, formatChannelDelivery, MediaDelivery } from "./delivery.js";
+import { enhancePrompt, enhanceQuestion, reviewEnhancement } from "./enhance.js";
+import { errorCode, errorMessage, errorPayload, errorSummary } from "./errors.js";
+import {
+  DEFAULT_RETRIES,
+  DEFAULT_RETRY_DELAY_SECONDS,
+  describeSubstitute,
+  type FailoverConfig,
+  failoverPolicyFromConfig,
+  formatFailoverPolicy,
+  type JobAttempt,
+  substituteAttempt,
+} from "./failover.js";
+import { DEFAULT_FFMPEG_PATH, ffmpegTools } from "./ffmpeg.js";
+import { formatHistory, historyEntry, parseHistoryArgs, VideoHistory } from "./history.js";
+import { describeImage, validateImageInput } from "./image.js";
+import { isTerminal, JobManager, type JobOrigin, type SubmitOptions, type VideoJob } from "./jobs.js";
+import {
+  type BudgetStatus,
+  DEFAULT_RATE_LIMITS,
+  formatRateLimits,
+  formatWait,
+  type LimitDecision,
+  type RateEvent,
+  type RateLimitConfig,
+  RateLimiter,
+  rateLimitsFromConfig,
+} from "./limiter.js";
+import {
+  allAspectRatios,
+  allDurations,
+  allResolutions,
+  applyModelDefaults,
+  aspectRatioLabel,
+  DEFAULT_MODEL_ID,
+  formatModelList,
+  getModel,
+  modelCatalog,
+  modelIds,
+  VIDEO_MODELS,
+  validateModelParams,
+} from "./models.js";
+import {
+  A2A_MODERATION_KEY,
+  capabilityModeration,
+  formatModerationRecord,
+  formatModerationSettings,
+  localModeration,
+  type ModerationConfig,
+  type ModerationRecord,
+  type ModerationScope,
+  Moderator,
+  moderationMessage,
+  moderationSettingsFromConfig,
+} from "./moderation.js";
+import { OPENAI_API_URL } from "./openai-videos.js";
+import {
+  describePostProcess,
+  type JobOutput,
+  outputLabel,
+  type PostProcessOptions,
+  postProcessOptions,
+  processVideo,
+  trimIssue,
+} from "./postprocess.js";
+import { applyPreset, fillTemplate, formatPreset, type Preset, PresetStore } from "./presets.js";
+import {
+  CAPABILITY_PROVIDERS,
+  describeRoute,
+  PROVIDERS,
+  type ProviderConfig,
+  providerFromConfig,
+  providerIssue,
+} from "./provider.js";
+import { extendInput, extendSourceError, remixInput } from "./remix.js";
+import { type QueueTicket, Scheduler } from "./scheduler.js";
+import {
+  type DerivedArgs,
+  derivedArgsSchema,
+  enhanceVideoPromptInputSchema,
+  extendVideoInputSchema,
+  fieldIssues,
+  formatCommandErrors,
+  generateStoryboardInputSchema,
+  generateVideoBatchInputSchema,
+  generateVideoInputSchema,
+  invalidInputResult,
+  invalidParamsResult,
+  jobIdInputSchema,
+  listVideoHistoryInputSchema,
+  MAX_BATCH_SIZE,
+  MAX_STORYBOARD_SHOTS,
+  presetArgsSchema,
+  remixVideoInputSchema,
+  storyboardSpecSchema,
+  toInputSchema,
+  type VideoSpec,
+  videoArgsSchema,
+} from "./schemas.js";
+import { STORAGE_NAMESPACE, storageSchema } from "./storage.js";
+import {
+  parseStoryboardJson,
+  planStoryboard,
+  type Storyboard,
+  type StoryboardPlan,
+  StoryboardRunner,
+  shotInput,
+  storyboardIssue,
+  totalDuration,
+} from "./storyboard.js";
+import type {
+  A2AToolResult,
+  ChannelCommand,
+  ChannelRef,
+  ConfigSchema,
+  OutgoingAttachment,
+  VideoChannelProvider,
+  VideoCommandContext,
+  WOPRPlugin,
+  WOPRPluginContext,
+} from "./types.js";
 
 // ============================================================================
 // Config Schema
@@ -23,32 +182,25 @@ const configSchema: ConfigSchema = {
       options: [
         { value: "replicate", label: "Replicate (Hosted)" },
         { value: "custom", label: "Custom Endpoint" },
+        { value: "comfyui", label: "ComfyUI (Local)" },
+        { value: "openai", label: "OpenAI-compatible /v1/videos" },
       ],
       default: "replicate",
-      description: "Video generation provider to use",
+      description: "Video generation provider to use by default (pick another per request with --provider)",
     },
     {
       name: "model",
       type: "select",
       label: "Default Model",
-      options: [
-        { value: "minimax-video", label: "Minimax Video-01" },
-        { value: "wan-2.1", label: "Wan 2.1" },
-        { value: "kling-1.6", label: "Kling 1.6" },
-        { value: "luma-ray2", label: "Luma Ray2" },
-      ],
-      default: "minimax-video",
+      options: VIDEO_MODELS.map((m) => ({ value: m.id, label: m.name })),
+      default: DEFAULT_MODEL_ID,
       description: "Default video model for generation",
     },
     {
       name: "duration",
       type: "select",
       label: "Default Duration",
-      options: [
-        { value: "3", label: "3 seconds" },
-        { value: "5", label: "5 seconds" },
-        { value: "10", label: "10 seconds" },
-      ],
+      options: allDurations().map((d) => ({ value: String(d), label: `${d} seconds` })),
       default: "5",
       description: "Default video duration in seconds",
     },
@@ -56,11 +208,7 @@ const configSchema: ConfigSchema = {
       name: "aspectRatio",
       type: "select",
       label: "Default Aspect Ratio",
-      options: [
-        { value: "16:9", label: "16:9 (Landscape)" },
-        { value: "9:16", label: "9:16 (Portrait)" },
-        { value: "1:1", label: "1:1 (Square)" },
-      ],
+      options: allAspectRatios().map((r) => ({ value: r, label: aspectRatioLabel(r) })),
       default: "16:9",
       description: "Default aspect ratio for generated videos",
     },
@@ -69,10 +217,347 @@ const configSchema: ConfigSchema = {
       type: "password",
       label: "API Key (BYOK)",
       placeholder: "r8_...",
-      description: "Your own API key for the provider (optional — uses hosted credits if empty)",
+      description:
+        "Your own API key for the provider (optional — uses hosted credits if empty). With a key, videos are " +
+        "requested from the provider directly",
+      secret: true,
+      setupFlow: "paste",
+    },
+    {
+      name: "endpointUrl",
+      type: "text",
+      label: "Custom Endpoint URL",
+      placeholder: "https://video.example.com/generate",
+      description: "Where the Custom Endpoint provider POSTs requests; it should respond once the video is ready",
+    },
+    {
+      name: "endpointAuthHeader",
+      type: "text",
+      label: "Custom Endpoint Auth Header",
+      default: "Authorization",
+      description: "Header the API key is sent in (as a bearer token for Authorization, verbatim otherwise)",
+    },
+    {
+      name: "endpointRequestTemplate",
+      type: "text",
+      label: "Custom Endpoint Request Body",
+      placeholder: '{"input": {"text": "{{prompt}}", "seconds": "{{duration}}"}}',
+      description:
+        "JSON body with {{field}} placeholders for prompt, model, duration, aspectRatio, resolution, image, " +
+        "negativePrompt and seed (sends the request as-is if empty)",
+    },
+    {
+      name: "endpointResponsePath",
+      type: "text",
+      label: "Custom Endpoint Video URL Path",
+      default: "url",
+      placeholder: "data.video.url",
+      description: "Dot path to the video URL in the endpoint's JSON response",
+    },
+    {
+      name: "comfyuiUrl",
+      type: "text",
+      label: "ComfyUI Server URL",
+      default: DEFAULT_COMFYUI_URL,
+      description: "Address of the ComfyUI server the ComfyUI provider queues workflows on",
+    },
+    {
+      name: "comfyuiWorkflow",
+      type: "text",
+      label: "ComfyUI Workflow",
+      placeholder: '{"6": {"class_type": "CLIPTextEncode", "inputs": {"text": "{{prompt}}"}}, ...}',
+      description:
+        "Workflow exported with Save (API Format), with {{field}} placeholders for the request fields plus " +
+        "width, height, frames and seed",
+    },
+    {
+      name: "openaiBaseUrl",
+      type: "text",
+      label: "OpenAI-compatible Base URL",
+      default: OPENAI_API_URL,
+      description: "Base URL of the /v1/videos API the OpenAI-compatible provider calls",
+    },
+    {
+      name: "openaiApiKey",
+      type: "password",
+      label: "OpenAI-compatible API Key",
+      placeholder: "sk-...",
+      description: "API key for the OpenAI-compatible provider (leave empty for servers without auth)",
       secret: true,
       setupFlow: "paste",
     },
+    {
+      name: "openaiModel",
+      type: "text",
+      label: "OpenAI-compatible Model",
+      placeholder: "sora-2",
+      description: "Model name sent to the OpenAI-compatible endpoint (the request's model ID if empty)",
+    },
+    {
+      name: "fallbackChains",
+      type: "text",
+      label: "Model Fallback Chains",
+      placeholder: "kling-1.6 > minimax-video, luma-ray2 > wan-2.1",
+      description: "Models to try, in order, when a model keeps failing; separate chains with commas",
+    },
+    {
+      name: "failoverProviders",
+      type: "text",
+      label: "Failover Providers",
+      placeholder: "comfyui, openai",
+      description: "Providers to try, in order, when the request's own provider fails",
+    },
+    {
+      name: "retryAttempts",
+      type: "number",
+      label: "Retries",
+      default: DEFAULT_RETRIES,
+      description: "How often a temporary failure (timeout, overloaded provider) is retried before failing over",
+    },
+    {
+      name: "retryDelaySeconds",
+      type: "number",
+      label: "Retry Delay (seconds)",
+      default: DEFAULT_RETRY_DELAY_SECONDS,
+      description: "Wait before the first retry; doubles with each further one",
+    },
+    {
+      name: "maxConcurrentPerUser",
+      type: "number",
+      label: "Max Concurrent Jobs per User",
+      default: DEFAULT_RATE_LIMITS.maxConcurrentPerUser,
+      description: "Videos one user can have in progress at once (0 = unlimited)",
+    },
+    {
+      name: "maxConcurrentPerChannel",
+      type: "number",
+      label: "Max Concurrent Jobs per Channel",
+      default: DEFAULT_RATE_LIMITS.maxConcurrentPerChannel,
+      description: "Videos one channel can have in progress at once (0 = unlimited)",
+    },
+    {
+      name: "maxConcurrentGlobal",
+      type: "number",
+      label: "Max Concurrent Jobs (Total)",
+      default: DEFAULT_RATE_LIMITS.maxConcurrentGlobal,
+      description: "Videos rendering at once across all users and channels; the rest wait in line (0 = unlimited)",
+    },
+    {
+      name: "maxQueueLength",
+      type: "number",
+      label: "Max Queue Length",
+      default: DEFAULT_RATE_LIMITS.maxQueueLength,
+      description: "Videos allowed to wait for a free slot before new requests are refused (0 = unlimited)",
+    },
+    {
+      name: "maxRequestsPerWindow",
+      type: "number",
+      label: "Max Requests per User",
+      default: DEFAULT_RATE_LIMITS.maxRequestsPerWindow,
+      description: "Videos one user can request within the rate window (0 = unlimited)",
+    },
+    {
+      name: "rateWindowMinutes",
+      type: "number",
+      label: "Rate Window (minutes)",
+      default: DEFAULT_RATE_LIMITS.windowMs / 60_000,
+      description: "Length of the rolling window for the per-user request limit",
+    },
+    {
+      name: "creditsPerSecond",
+      type: "number",
+      label: "Credits per Second",
+      default: DEFAULT_CREDITS_PER_SECOND,
+      description:
+        "Estimated credits for one second of 720p video on a model with cost ×1 (see /video models); " +
+        "used for cost quotes and budgets",
+    },
+    {
+      name: "dailyBudgetPerUser",
+      type: "number",
+      label: "Daily Budget per User (credits)",
+      default: 0,
+      description: "Estimated credits one user can spend per day, reset at midnight UTC (0 = unlimited)",
+    },
+    {
+      name: "dailyBudgetPerChannel",
+      type: "number",
+      label: "Daily Budget per Channel (credits)",
+      default: 0,
+      description: "Estimated credits one channel can spend per day, reset at midnight UTC (0 = unlimited)",
+    },
+    {
+      name: "consentPolicy",
+      type: "select",
+      label: "Consent Policy",
+      options: [
+        { value: "always", label: "Always confirm" },
+        { value: "above_cost", label: "Confirm above a cost threshold" },
+        { value: "trusted", label: "Trusted users skip confirmation" },
+        { value: "admin", label: "A video admin approves" },
+      ],
+      default: "always",
+      description: "Who has to agree before a request spends credits",
+    },
+    {
+      name: "consentCostThreshold",
+      type: "number",
+      label: "Confirm Above (credits)",
+      default: 0,
+      description: "Requests estimated to cost more than this are confirmed (Confirm above a cost threshold)",
+    },
+    {
+      name: "trustedUsers",
+      type: "text",
+      label: "Trusted Users",
+      placeholder: "alice, bob, a2a:planner",
+      description: "Users who skip confirmation (Trusted users skip confirmation); A2A sessions as a2a:<session>",
+    },
+    {
+      name: "consentAdmins",
+      type: "text",
+      label: "Video Admins",
+      placeholder: "alice, carol",
+      description: "Users who approve everyone else's requests with /video approve (A video admin approves)",
+    },
+    {
+      name: "consentTimeoutSeconds",
+      type: "number",
+      label: "Confirmation Timeout (seconds)",
+      default: DEFAULT_CONSENT_TIMEOUT_SECONDS,
+      description: "Confirmations and approvals without an answer in this time count as a no",
+    },
+    {
+      name: "moderationLevel",
+      type: "select",
+      label: "Prompt Moderation",
+      options: [
+        { value: "off", label: "Off" },
+        { value: "relaxed", label: "Relaxed (severe content and the blocklist)" },
+        { value: "standard", label: "Standard" },
+        { value: "strict", label: "Strict (also graphic violence and drugs)" },
+      ],
+      default: "standard",
+      description: "How strictly prompts are checked before any credits are spent",
+    },
+    {
+      name: "moderationLevels",
+      type: "text",
+      label: "Moderation per Channel",
+      placeholder: "discord=strict, 1234567890=relaxed, a2a=standard",
+      description: "Levels by channel ID or channel type; A2A requests use a2a",
+    },
+    {
+      name: "moderationBlocklist",
+      type: "text",
+      label: "Blocked Terms",
+      placeholder: "brand name, /celebrit(y|ies)/",
+      description: "Words, phrases or /regex/ patterns that block a prompt at any level but off",
+    },
+    {
+      name: "externalModeration",
+      type: "select",
+      label: "External Moderation",
+      options: [
+        { value: "auto", label: "Use a moderation capability when one is installed" },
+        { value: "off", label: "Off" },
+      ],
+      default: "auto",
+      description: "Also ask a moderation capability at standard and strict levels",
+    },
+    {
+      name: "cacheTtlHours",
+      type: "number",
+      label: "Result Cache (hours)",
+      default: DEFAULT_CACHE_TTL_HOURS,
+      description: "How long identical requests reuse an earlier video instead of generating a new one (0 = off)",
+    },
+    {
+      name: "ffmpegPath",
+      type: "text",
+      label: "ffmpeg Path",
+      default: DEFAULT_FFMPEG_PATH,
+      description: "ffmpeg binary used to convert videos and stitch storyboard shots together",
+    },
+    {
+      name: "deliveryModes",
+      type: "text",
+      label: "Delivery per Channel Type",
+      placeholder: "discord=attachment:10, slack=link",
+      description:
+        "How finished videos are posted: uploaded as a file up to a size in MB, or as a link. " +
+        "Unlisted channel types use the built-in limits for Discord, Telegram, WhatsApp and Slack, otherwise a link.",
+    },
+    {
+      name: "artifactBackend",
+      type: "select",
+      label: "Video Storage",
+      options: [
+        { value: "local", label: "Plugin directory" },
+        { value: "s3", label: "S3-compatible bucket" },
+      ],
+      default: "local",
+      description: "Where generated videos are kept, since provider links expire within hours",
+    },
+    {
+      name: "artifactBaseUrl",
+      type: "text",
+      label: "Public URL of Stored Videos",
+      placeholder: "https://videos.example.com",
+      description:
+        "Where the plugin directory's artifacts folder is served from (local storage; if empty, provider URLs are handed out instead)",
+    },
+    {
+      name: "artifactRetentionDays",
+      type: "number",
+      label: "Keep Videos (days)",
+      default: DEFAULT_ARTIFACT_RETENTION_DAYS,
+      description: "Stored videos older than this are deleted (0 = keep forever)",
+    },
+    {
+      name: "artifactQuotaMb",
+      type: "number",
+      label: "Storage Quota (MB)",
+      default: DEFAULT_ARTIFACT_QUOTA_MB,
+      description: "The oldest stored videos are deleted to stay under this size (0 = no quota)",
+    },
+    {
+      name: "s3Endpoint",
+      type: "text",
+      label: "S3 Endpoint",
+      placeholder: "https://s3.us-east-1.amazonaws.com",
+      description: "S3-compatible endpoint, e.g. MinIO or R2",
+    },
+    {
+      name: "s3Bucket",
+      type: "text",
+      label: "S3 Bucket",
+    },
+    {
+      name: "s3Region",
+      type: "text",
+      label: "S3 Region",
+      default: "us-east-1",
+    },
+    {
+      name: "s3AccessKeyId",
+      type: "text",
+      label: "S3 Access Key ID",
+    },
+    {
+      name: "s3SecretAccessKey",
+      type: "password",
+      label: "S3 Secret Access Key",
+      secret: true,
+    },
+    {
+      name: "s3PublicUrl",
+      type: "text",
+      label: "S3 Public URL",
+      placeholder: "https://cdn.example.com",
+      description:
+        "Base URL stored videos are linked under (defaults to the endpoint and bucket, which must allow public reads)",
+    },
   ],
 };
 
@@ -80,189 +565,1772 @@ const configSchema: ConfigSchema = {
 // Video generation config type
 // ============================================================================
 
-interface VideoGenConfig {
-  provider?: string;
+interface VideoGenConfig
+  extends RateLimitConfig,
+    CostConfig,
+    ConsentConfig,
+    ModerationConfig,
+    ArtifactConfig,
+    ProviderConfig,
+    FailoverConfig {
   model?: string;
   duration?: string;
   aspectRatio?: string;
-  apiKey?: string;
+  cacheTtlHours?: number | string;
+  ffmpegPath?: string;
+  deliveryModes?: string;
+}
+
+function cacheTtlHours(config: VideoGenConfig): number {
+  const raw = config.cacheTtlHours;
+  const hours = raw === undefined || raw === "" ? DEFAULT_CACHE_TTL_HOURS : Number(raw);
+  return Number.isFinite(hours) && hours > 0 ? hours : 0;
+}
+
+/** Long-lived plugin services the command handler works with. */
+interface VideoServices {
+  jobs: JobManager;
+  limiter: RateLimiter;
+  scheduler: Scheduler;
+  cache: ResultCache;
+  history: VideoHistory;
+  storyboards: StoryboardRunner;
+  artifacts: ArtifactStore;
+  moderator: Moderator;
+  presets: PresetStore;
 }
 
 // ============================================================================
-// Helper: parse /video command arguments
+// Helper: format job records for chat
 // ============================================================================
 
-function parseVideoArgs(args: string[]): {
-  prompt: string;
-  model?: string;
-  duration?: string;
-  aspectRatio?: string;
-} {
-  const result: { prompt: string; model?: string; duration?: string; aspectRatio?: string } = {
-    prompt: "",
+function formatJobStatus(job: VideoJob, queuePosition?: number | null): string {
+  const { input } = job;
+  let msg =
+    `**Video Job \`${job.id}\`** — ${job.status}\n` +
+    `**Prompt:** ${input.prompt}\n` +
+    `**Model:** ${input.model} | **Duration:** ${input.duration}s | **Aspect:** ${input.aspectRatio}` +
+    (input.resolution ? ` | **Resolution:** ${input.resolution}` : "") +
+    (input.seed !== undefined ? ` | **Seed:** ${input.seed}` : "") +
+    (input.provider ? ` | **Provider:** ${input.provider}` : "") +
+    "\n" +
+    `**Requested:** ${new Date(job.createdAt).toISOString()}`;
+  if (job.parentId) msg += `\n**${job.kind === "extend" ? "Extends" : "Remix of"}:** \`${job.parentId}\``;
+  if (job.batchId) msg += `\n**Batch:** \`${job.batchId}\` (${(job.batchIndex ?? 0) + 1} of ${job.batchSize})`;
+  if (queuePosition) msg += `\n**Queue position:** #${queuePosition}`;
+  if (input.negativePrompt) msg += `\n**Negative:** ${input.negativePrompt}`;
+  if (input.image) msg += `\n**Image:** ${describeImage(input.image)}`;
+  if (job.completedAt) msg += `\n**Finished:** ${new Date(job.completedAt).toISOString()}`;
+  if (job.postProcess) msg += `\n**Output:** ${describePostProcess(job.postProcess)}`;
+  if (job.cost !== undefined && !job.cached) msg += `\n**Estimated cost:** ${formatCredits(job.cost)}`;
+  if (job.moderation) msg += `\n**Moderation:** ${formatModerationRecord(job.moderation)}`;
+  if (job.resultUrl) msg += `\n**Result:** ${chatLink(job.resultUrl)}`;
+  msg += formatOutputs(job);
+  msg += formatAttempts(job);
+  if (job.error) msg += `\n**Error:** ${job.error}`;
+  if (job.partial) msg += "\n**Note:** cancelled after the render started — credits may have been used";
+  return msg;
+}
+
+function formatJobList(jobs: VideoJob[]): string {
+  if (jobs.length === 0) return "You have no video jobs yet.";
+  const lines = jobs.map((job) => {
+    const prompt = job.input.prompt.length > 40 ? `${job.input.prompt.slice(0, 40)}…` : job.input.prompt;
+    return `\`${job.id}\` — ${job.status} — ${prompt}`;
+  });
+  return `**Your Video Jobs**\n\n${lines.join("\n")}`;
+}
+
+/** A video's URL for chat, or why there's no link to it (see isHostOnlyUrl). */
+function chatLink(url: string): string {
+  return isHostOnlyUrl(url) ? `(${HOST_ONLY_NOTE})` : url;
+}
+
+/**
+ * A URL for A2A callers as `{ [key]: url }`, or, when it only works on this
+ * host, why there's no link as `{ [errorKey]: ... }`.
+ */
+function linkable<K extends string, E extends string>(
+  url: string | undefined,
+  key: K,
+  errorKey: E,
+): Partial<Record<K | E, string>> {
+  if (!url) return {};
+  return (isHostOnlyUrl(url) ? { [errorKey]: HOST_ONLY_NOTE } : { [key]: url }) as Partial<Record<K | E, string>>;
+}
+
+/** Post-processing outputs for A2A callers, without URLs they couldn't fetch. */
+function linkableOutputs(outputs: JobOutput[]): Array<Omit<JobOutput, "url"> & { url?: string; error?: string }> {
+  return outputs.map(({ url, ...output }) => ({ ...output, ...linkable(url, "url", "error") }));
+}
+
+/** Post-processing outputs listed under the original URL, or why there are none. */
+function formatOutputs(job: VideoJob, indent = "", attachedUrl?: string): string {
+  const lines = (job.outputs ?? []).map((output: JobOutput) => {
+    const link = output.url === attachedUrl ? "attached" : chatLink(output.url);
+    return `${indent}**${outputLabel(output)}:** ${link}`;
+  });
+  if (job.postProcessError) lines.push(`${indent}(the video couldn't be converted: ${job.postProcessError})`);
+  return lines.map((line) => `\n${line}`).join("");
+}
+
+/** Failed attempts before the job's outcome, and the model that stood in if it wasn't the one asked for. */
+function formatAttempts(job: VideoJob): string {
+  const failed = (job.attempts ?? []).filter((attempt: JobAttempt) => attempt.error);
+  if (failed.length === 0) return "";
+  const lines = failed.map(
+    (attempt: JobAttempt) =>
+      `• ${attempt.model}${attempt.provider ? ` via ${attempt.provider}` : ""}: ${attempt.error} (${attempt.code})`,
+  );
+  const substitute = substituteAttempt(job.input, job.attempts);
+  return (
+    `\n**Attempts:** ${job.attempts?.length}` +
+    (substitute ? ` — made with ${describeSubstitute(job.input, substitute)}` : "") +
+    `\n${lines.join("\n")}`
+  );
+}
+
+/** Note on a finished job's result when a fallback model or provider made it. */
+function substituteNote(job: VideoJob): string {
+  const substitute = substituteAttempt(job.input, job.attempts);
+  return substitute ? `(made with ${describeSubstitute(job.input, substitute)} — the first choice failed)` : "";
+}
+
+/** The video to upload for a finished job: its converted version if it asked for one, else the original. */
+function deliveryItem(job: VideoJob): DeliveryItem | null {
+  if (job.status !== "succeeded" || !job.resultUrl) return null;
+  const converted = job.outputs?.find((output: JobOutput) => output.kind === "video");
+  return converted
+    ? { url: converted.url, name: `${job.id}.${converted.format}` }
+    : { url: job.resultUrl, name: `${job.id}.mp4` };
+}
+
+/** User-facing message for a settled job. `attachedUrl` is the video uploaded with it, if any. */
+function jobResultMessage(job: VideoJob, attachedUrl?: string): string {
+  if (job.status === "succeeded") {
+    if (!job.resultUrl) return "Video generation completed but no URL was returned.";
+    const video =
+      job.resultUrl === attachedUrl
+        ? `Video job \`${job.id}\` is ready — it's attached.`
+        : isHostOnlyUrl(job.resultUrl)
+          ? `Video job \`${job.id}\` is ready, but it's ${HOST_ONLY_NOTE}.`
+          : job.resultUrl;
+    const note = substituteNote(job);
+    return (
+      (job.cached ? `${video}\n(identical earlier request — no credits used)` : video) +
+      (note ? `\n${note}` : "") +
+      formatOutputs(job, "", attachedUrl)
+    );
+  }
+  if (job.status === "cancelled") {
+    return job.error === "shutdown"
+      ? `Video job \`${job.id}\` was cancelled because the video service is shutting down. Please try again shortly.`
+      : `Video job \`${job.id}\` was cancelled.`;
+  }
+  return errorMessage(errorCode(job.error ?? "generation_failed"));
+}
+
+/** One grouped reply for a finished batch. `attachedUrls` are the videos uploaded with it. */
+function batchResultMessage(batchId: string, jobs: VideoJob[], attachedUrls = new Set<string>()): string {
+  const ready = jobs.filter((job) => job.status === "succeeded" && job.resultUrl).length;
+  const lines = jobs.map((job, index) => {
+    const seed = job.input.seed !== undefined ? ` (seed ${job.input.seed})` : "";
+    const outcome =
+      job.status === "succeeded" && job.resultUrl
+        ? (attachedUrls.has(job.resultUrl) ? "attached" : chatLink(job.resultUrl)) +
+          (job.cached ? " (reused — no credits used)" : "") +
+          (substituteNote(job) ? ` ${substituteNote(job)}` : "") +
+          formatOutputs(job, "    ", job.outputs?.find((output: JobOutput) => attachedUrls.has(output.url))?.url)
+        : job.status === "cancelled"
+          ? "cancelled"
+          : errorSummary(errorCode(job.error ?? "generation_failed"));
+    return `${index + 1}. \`${job.id}\` — ${job.input.prompt}${seed}\n    ${outcome}`;
+  });
+  return `**Batch \`${batchId}\`** — ${ready} of ${jobs.length} videos ready\n\n${lines.join("\n")}`;
+}
+
+/** Full history record for `/video show`. */
+function formatHistoryDetail(job: VideoJob): string {
+  let msg = formatJobStatus(job);
+  msg += `\n**Requested by:** ${job.requester}`;
+  if (job.channelId) msg += `\n**Channel:** ${job.channelId}${job.channelType ? ` (${job.channelType})` : ""}`;
+  if (job.cached) msg += "\n**Cached:** reused an identical earlier video";
+  return msg;
+}
+
+function cancelledMessage(job: VideoJob): string {
+  return job.partial
+    ? `Cancelled video job \`${job.id}\`. The render had already started, so some credits may have been used.`
+    : `Cancelled video job \`${job.id}\`.`;
+}
+
+/** Numbered shot list with each shot's job and, once rendered, its URL. */
+function formatShots(storyboard: Storyboard): string {
+  return storyboard.shots
+    .map(
+      (shot, index) =>
+        `${index + 1}. ${shot.prompt} (${shot.duration}s)` +
+        (shot.jobId ? ` — \`${shot.jobId}\`` : "") +
+        (shot.carried ? " — continues the previous shot" : "") +
+        (shot.url ? `\n    ${chatLink(shot.url)}` : ""),
+    )
+    .join("\n");
+}
+
+function storyboardFailureReason(storyboard: Storyboard): string {
+  if (storyboard.error === "insufficient_credits") return "you don't have enough credits";
+  if (storyboard.error === "shutdown") return "the video service is shutting down";
+  if (storyboard.error === "interrupted") return "the video service restarted";
+  const code = errorCode(storyboard.error ?? "generation_failed");
+  return code === "generation_failed" ? "the video generation failed" : `a shot failed (${errorSummary(code)})`;
+}
+
+function formatStoryboardStatus(storyboard: Storyboard): string {
+  let msg =
+    `**Storyboard \`${storyboard.id}\`** — ${storyboard.status}\n` +
+    `**Model:** ${storyboard.model} | **Length:** ${totalDuration(storyboard)}s | **Aspect:** ${storyboard.aspectRatio}` +
+    (storyboard.resolution ? ` | **Resolution:** ${storyboard.resolution}` : "") +
+    (storyboard.seed !== undefined ? ` | **Seed:** ${storyboard.seed}` : "") +
+    "\n" +
+    `**Requested:** ${new Date(storyboard.createdAt).toISOString()}`;
+  if (storyboard.completedAt) msg += `\n**Finished:** ${new Date(storyboard.completedAt).toISOString()}`;
+  if (storyboard.finalUrl) msg += `\n**Result:** ${chatLink(storyboard.finalUrl)}`;
+  if (storyboard.stitchError) msg += `\n**Stitching failed:** ${storyboard.stitchError}`;
+  if (storyboard.error) msg += `\n**Error:** ${storyboard.error}`;
+  return `${msg}\n\n${formatShots(storyboard)}`;
+}
+
+/** User-facing message for a settled storyboard. */
+function storyboardResultMessage(storyboard: Storyboard, attached = false): string {
+  if (storyboard.status === "succeeded") {
+    const result = storyboard.finalUrl
+      ? attached
+        ? "The video is attached."
+        : isHostOnlyUrl(storyboard.finalUrl)
+          ? `The video is ${HOST_ONLY_NOTE}.`
+          : storyboard.finalUrl
+      : `The shots couldn't be joined into one video (${storyboard.stitchError}), so here they are one by one.`;
+    return `**Storyboard \`${storyboard.id}\`** — ${totalDuration(storyboard)}s\n${result}\n\n${formatShots(storyboard)}`;
+  }
+  if (storyboard.status === "cancelled" && storyboard.error !== "shutdown") {
+    return `Storyboard \`${storyboard.id}\` was cancelled.`;
+  }
+  const shot = storyboard.failedShot !== undefined ? ` at shot ${storyboard.failedShot + 1}` : "";
+  const finished = storyboard.shots.some((s) => s.url) ? `\n\n${formatShots(storyboard)}` : "";
+  const code = errorCode(storyboard.error ?? "generation_failed");
+  const advice = ["generation_failed", "insufficient_credits", "cancelled"].includes(code)
+    ? ""
+    : ` ${errorMessage(code)}`;
+  return `Storyboard \`${storyboard.id}\` stopped${shot} because ${storyboardFailureReason(storyboard)}.${advice}${finished}`;
+}
+
+// ============================================================================
+// Helper: deliver a finished job back to the channel it came from
+// ============================================================================
+
+/** Send a result, uploading whichever videos could be attached. */
+async function sendResult(
+  provider: VideoChannelProvider,
+  channelId: string,
+  content: string,
+  attachments: Array<OutgoingAttachment | null>,
+): Promise<void> {
+  const files = attachments.filter((attachment): attachment is OutgoingAttachment => attachment !== null);
+  if (files.length === 0) await provider.send(channelId, content);
+  else await provider.send(channelId, content, { attachments: files });
+}
+
+async function deliverJobResult(
+  ctx: WOPRPluginContext,
+  jobs: JobManager,
+  delivery: MediaDelivery,
+  job: VideoJob,
+): Promise<void> {
+  if (!job.channelProvider || !job.channelId) return; // A2A jobs are polled, not pushed
+  if (job.storyboardId) return; // Shots are posted with their storyboard
+  const provider = ctx.getChannelProvider(job.channelProvider) as VideoChannelProvider | undefined;
+  if (!provider) {
+    ctx.log.warn(`Channel provider ${job.channelProvider} is gone; cannot deliver video job ${job.id}`);
+    return;
+  }
+  if (!job.batchId) {
+    const item = deliveryItem(job);
+    const [attachment] = item ? await delivery.attachments(job.channelType, [item]) : [null];
+    await sendResult(provider, job.channelId, jobResultMessage(job, attachment ? item?.url : undefined), [attachment]);
+    return;
+  }
+
+  // Batches are posted as one reply once every job in them has settled
+  const batch = await jobs.listBatch(job.batchId);
+  if (batch.length < (job.batchSize ?? 0) || !batch.every((j) => isTerminal(j.status))) return;
+  if (deliveredBatches.has(job.batchId)) return;
+  deliveredBatches.add(job.batchId);
+  const items = batch.map(deliveryItem).filter((item): item is DeliveryItem => item !== null);
+  const attachments = await delivery.attachments(job.channelType, items);
+  const attachedUrls = new Set(items.filter((_, index) => attachments[index]).map((item) => item.url));
+  await sendResult(provider, job.channelId, batchResultMessage(job.batchId, batch, attachedUrls), attachments);
+}
+
+/** Tell a waiting chat user where their job is in the queue. */
+async function deliverQueuePosition(ctx: WOPRPluginContext, jobs: JobManager, ticket: QueueTicket, position: number) {
+  const job = await jobs.get(ticket.jobId);
+  // Batch and storyboard results arrive together, so their place in line would only be noise
+  if (!job?.channelProvider || !job.channelId || job.batchId || job.storyboardId) return;
+  const provider = ctx.getChannelProvider(job.channelProvider);
+  if (!provider) return;
+  const place = position === 1 ? "you are next in line" : `you are #${position} in line`;
+  await provider.send(job.channelId, `Video job \`${job.id}\` is waiting for a free slot — ${place}.`);
+}
+
+async function deliverStoryboardResult(
+  ctx: WOPRPluginContext,
+  delivery: MediaDelivery,
+  storyboard: Storyboard,
+): Promise<void> {
+  if (!storyboard.channelProvider || !storyboard.channelId) return;
+  const provider = ctx.getChannelProvider(storyboard.channelProvider) as VideoChannelProvider | undefined;
+  if (!provider) {
+    ctx.log.warn(`Channel provider ${storyboard.channelProvider} is gone; cannot deliver storyboard ${storyboard.id}`);
+    return;
+  }
+  const [attachment] =
+    storyboard.status === "succeeded" && storyboard.finalUrl
+      ? await delivery.attachments(storyboard.channelType, [
+          { url: storyboard.finalUrl, name: `storyboard-${storyboard.id}.mp4` },
+        ])
+      : [null];
+  await sendResult(provider, storyboard.channelId, storyboardResultMessage(storyboard, Boolean(attachment)), [
+    attachment,
+  ]);
+}
+
+// ============================================================================
+// Helper: consent
+// ============================================================================
+
+interface ConsentRequest {
+  requester: string;
+  channel?: { type: string; id: string; name: string };
+  cost: number;
+  /** What the credits buy, e.g. "a video (approx. 5s at 16:9)". */
+  what: string;
+  /** Posts where the requester will see it; admin approval notices go here. */
+  announce?: (message: string) => Promise<void>;
+}
+
+type ConsentResult =
+  | { ok: true }
+  | { ok: false; code: "consent_declined" | "consent_timeout" | "consent_denied"; reason: string };
+
+/**
+ * Get whatever agreement the consent policy asks for before a request spends
+ * credits: none, a yes from the requester, or a video admin's approval.
+ */
+async function obtainConsent(
+  ctx: WOPRPluginContext,
+  config: VideoGenConfig,
+  request: ConsentRequest,
+): Promise<ConsentResult> {
+  const policy = consentPolicyFromConfig(config);
+  const { requester, channel, cost, what } = request;
+  const requirement = consentRequirement(policy, requester, cost);
+  if (requirement === "none") return { ok: true };
+
+  if (requirement === "requester") {
+    const answer = await withTimeout<string | null | undefined>(
+      ctx.inject("__confirm__", `This will use about ${formatCredits(cost)} to generate ${what}. Proceed? (yes/no)`, {
+        from: requester,
+        ...(channel ? { channel } : {}),
+        silent: false,
+      }),
+      policy.timeoutMs,
+    );
+    if (answer === null) {
+      return {
+        ok: false,
+        code: "consent_timeout",
+        reason: "No answer to the confirmation — video generation cancelled.",
+      };
+    }
+    return isAffirmative(answer)
+      ? { ok: true }
+      : { ok: false, code: "consent_declined", reason: "Video generation cancelled." };
+  }
+
+  if (policy.admins.length === 0) {
+    return {
+      ok: false,
+      code: "consent_denied",
+      reason: "Video requests need a video admin's approval, but no admins are configured (`consentAdmins`).",
+    };
+  }
+  const pending = approvals.request(
+    { requester, channelId: channel?.id, summary: `${what} (about ${formatCredits(cost)})` },
+    policy.timeoutMs,
+  );
+  ctx.log.info(`Video request ${pending.request.id} from ${requester} is waiting for approval`);
+  await request.announce?.(
+    `This request needs a video admin's approval (about ${formatCredits(cost)} for ${what}).\n` +
+      `An admin can run \`/video approve ${pending.request.id}\` or \`/video deny ${pending.request.id}\` ` +
+      `${formatWait(policy.timeoutMs)}.`,
+  );
+  const { outcome, approver } = await pending.outcome;
+  if (outcome === "approved") return { ok: true };
+  return outcome === "denied"
+    ? { ok: false, code: "consent_denied", reason: `${approver} denied the video request.` }
+    : {
+        ok: false,
+        code: "consent_timeout",
+        reason: "No video admin approved the request in time — video generation cancelled.",
+      };
+}
+
+/** A2A refusal for a request the consent policy turned down. */
+function consentRefusedResult(consent: Extract<ConsentResult, { ok: false }>): A2AToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify({ error: consent.code, message: consent.reason }) }],
+    isError: true,
   };
-  const promptParts: string[] = [];
-
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
-    if (arg === "--model" && i + 1 < args.length) {
-      result.model = args[++i];
-    } else if (arg === "--duration" && i + 1 < args.length) {
-      result.duration = args[++i];
-    } else if (arg === "--aspect" && i + 1 < args.length) {
-      result.aspectRatio = args[++i];
-    } else {
-      promptParts.push(arg);
+}
+
+/**
+ * The consent an A2A request needs. Sessions that belong to a human
+ * (ctx.getSessions) are held to the consent policy, asked in the session's
+ * first channel; other agents act on consent given upstream. Admin approval
+ * notices go to that channel through its provider, or into the session when
+ * no provider serves it.
+ */
+async function obtainToolConsent(
+  sessionId: string | undefined,
+  requester: string,
+  cost: number,
+  what: string,
+): Promise<ConsentResult> {
+  if (!pluginCtx || !sessionId) return { ok: true };
+  const sessions: string[] = pluginCtx.getSessions?.() ?? [];
+  if (!sessions.includes(sessionId)) return { ok: true };
+  const linked = pluginCtx.getChannelsForSession?.(sessionId)?.[0];
+  const channel = linked ? { type: linked.type, id: linked.id, name: linked.name ?? "video-a2a" } : undefined;
+  const ctx = pluginCtx;
+  const announce = async (message: string): Promise<void> => {
+    const provider = channel ? ctx.getChannelProvider(channel.type) : undefined;
+    try {
+      if (provider && channel) await provider.send(channel.id, message);
+      else await ctx.inject(sessionId, message, { from: requester, ...(channel ? { channel } : {}), silent: false });
+    } catch (error: unknown) {
+      // The request still shows up in `/video approvals`
+      ctx.log.warn(`Could not post the approval notice for ${requester}`, error);
+    }
+  };
+  return obtainConsent(ctx, ctx.getConfig<VideoGenConfig>() ?? {}, { requester, channel, cost, what, announce });
+}
+
+// ============================================================================
+// Helper: handle /video command
+// ============================================================================
+
+async function handleVideoCommand(
+  cmdCtx: VideoCommandContext,
+  ctx: WOPRPluginContext,
+  config: VideoGenConfig,
+  services: VideoServices,
+  providerId: string,
+): Promise<void> {
+  const { args } = cmdCtx;
+  const { jobs, scheduler, history, storyboards, artifacts } = services;
+
+  // Sub-command: /video settings
+  if (args[0] === "settings") {
+    const settingsMsg =
+      `**Video Generation Settings**\n\n` +
+      `**Provider:** ${config.provider ?? "replicate"}\n` +
+      `**Model:** ${config.model ?? DEFAULT_MODEL_ID}\n` +
+      `**Duration:** ${config.duration ?? "5"}s\n` +
+      `**Aspect Ratio:** ${config.aspectRatio ?? "16:9"}\n` +
+      `**BYOK:** ${config.apiKey ? "Configured" : "Using hosted credits"}\n` +
+      `**Requests:** ${describeRoute(config)}\n` +
+      `**Failover:** ${formatFailoverPolicy(failoverPolicyFromConfig(config))}\n` +
+      `**Consent:** ${formatConsentPolicy(consentPolicyFromConfig(config))}\n` +
+      `**Moderation:** ${formatModerationSettings(moderationSettingsFromConfig(config))}\n` +
+      `**Result cache:** ${cacheTtlHours(config) > 0 ? `${cacheTtlHours(config)}h` : "off"}\n` +
+      `**Delivery:** ${formatChannelDelivery(channelDeliveryFromConfig(config.deliveryModes))}\n` +
+      `**Storage:** ${formatArtifactStorage(config.artifactBackend || "local", artifactLimitsFromConfig(config), await artifacts.usage())}\n\n` +
+      `**Limits**\n${formatRateLimits(rateLimitsFromConfig(config))}\n` +
+      `**Cost:** about ${formatCredits(creditsPerSecondFromConfig(config))} per second of 720p video at cost ×1\n` +
+      formatBudgets(dailyBudgetsFromConfig(config));
+    await cmdCtx.reply(settingsMsg);
+    return;
+  }
+
+  // Sub-command: /video cost [prompt] [options]
+  if (args[0] === "cost") {
+    await cmdCtx.reply(await quoteCost(cmdCtx, config, services.limiter, services.presets, args.slice(1)));
+    return;
+  }
+
+  // Sub-command: /video models
+  if (args[0] === "models") {
+    await cmdCtx.reply(formatModelList());
+    return;
+  }
+
+  // Sub-command: /video status <jobId>
+  if (args[0] === "status") {
+    const storyboard = args[1] ? await storyboards.get(args[1]) : null;
+    if (storyboard && isVisibleTo(cmdCtx, storyboard)) {
+      await cmdCtx.reply(formatStoryboardStatus(storyboard));
+      return;
     }
+    const job = await visibleJob(cmdCtx, history, args[1], "status");
+    if (job) await cmdCtx.reply(formatJobStatus(job, scheduler.position(job.id)));
+    return;
   }
 
-  result.prompt = promptParts.join(" ");
-  return result;
+  // Sub-command: /video jobs
+  if (args[0] === "jobs") {
+    await cmdCtx.reply(formatJobList(await jobs.listFor(cmdCtx.sender)));
+    return;
+  }
+
+  // Sub-command: /video history [--mine] [--limit n]
+  if (args[0] === "history") {
+    const parsed = parseHistoryArgs(args.slice(1));
+    if (!parsed.ok) {
+      await cmdCtx.reply(parsed.error);
+      return;
+    }
+    const { mine, limit } = parsed.value;
+    const entries = await history.find(
+      mine ? { requester: cmdCtx.sender, limit } : { channelId: cmdCtx.channel, limit },
+    );
+    await cmdCtx.reply(
+      formatHistory(
+        entries,
+        mine ? "Your Video History" : "Video History",
+        mine ? "You haven't generated any videos yet." : "No videos have been generated in this channel yet.",
+      ),
+    );
+    return;
+  }
+
+  // Sub-command: /video show <jobId>
+  if (args[0] === "show") {
+    // Only the requester and the channel it was made in can see a record
+    const job = await visibleJob(cmdCtx, history, args[1], "show");
+    if (job) await cmdCtx.reply(formatHistoryDetail(job));
+    return;
+  }
+
+  // Sub-command: /video search <text>
+  if (args[0] === "search") {
+    const text = args.slice(1).join(" ").trim();
+    if (!text) {
+      await cmdCtx.reply("**Usage:** `/video search <text>`");
+      return;
+    }
+    const entries = await history.find({ channelId: cmdCtx.channel, text });
+    await cmdCtx.reply(
+      formatHistory(entries, `Videos matching "${text}"`, `No videos in this channel match "${text}".`),
+    );
+    return;
+  }
+
+  // Sub-command: /video cancel [jobId]
+  if (args[0] === "cancel") {
+    const storyboard = args[1] ? await storyboards.get(args[1]) : null;
+    if (storyboard && storyboard.requester === cmdCtx.sender) {
+      if (storyboard.status !== "running") {
+        await cmdCtx.reply(
+          `Storyboard \`${storyboard.id}\` has already ${storyboard.status === "cancelled" ? "been cancelled" : "finished"}.`,
+        );
+        return;
+      }
+      await storyboards.cancel(storyboard.id);
+      await cmdCtx.reply(`Cancelled storyboard \`${storyboard.id}\`.`);
+      return;
+    }
+    const target = args[1] ? await jobs.get(args[1]) : await jobs.latestActiveFor(cmdCtx.sender);
+    if (!target || target.requester !== cmdCtx.sender) {
+      await cmdCtx.reply(
+        args[1] ? `No video job found with ID \`${args[1]}\`.` : "You have no video jobs in progress.",
+      );
+      return;
+    }
+    if (isTerminal(target.status)) {
+      await cmdCtx.reply(
+        `Video job \`${target.id}\` has already ${target.status === "cancelled" ? "been cancelled" : "finished"}.`,
+      );
+      return;
+    }
+    // A cancelled batch job may be the last one its batch was waiting on
+    const cancelled = await jobs.cancel(target.id, "cancelled", Boolean(target.batchId));
+    await cmdCtx.reply(cancelledMessage(cancelled ?? target));
+    return;
+  }
+
+  // Sub-command: /video approvals
+  if (args[0] === "approvals") {
+    const pending = approvals.list();
+    await cmdCtx.reply(
+      pending.length === 0
+        ? "No video requests are waiting for approval."
+        : `**Waiting for approval**\n${pending
+            .map(
+              (request) =>
+                `• \`${request.id}\` — ${request.requester}: ${request.summary}, expires ${formatWait(request.expiresAt - Date.now())}`,
+            )
+            .join("\n")}`,
+    );
+    return;
+  }
+
+  // Sub-command: /video approve <id> | /video deny <id>
+  if (args[0] === "approve" || args[0] === "deny") {
+    if (!args[1]) {
+      await cmdCtx.reply(`**Usage:** \`/video ${args[0]} <id>\``);
+      return;
+    }
+    const approved = args[0] === "approve";
+    const decision = approvals.decide(args[1], cmdCtx.sender, approved, consentPolicyFromConfig(config).admins);
+    await cmdCtx.reply(
+      decision.ok
+        ? `${approved ? "Approved" : "Denied"} ${decision.request.requester}'s video request \`${decision.request.id}\`.`
+        : decision.error,
+    );
+    return;
+  }
+
+  // Sub-command: /video remix <jobId> [prompt] [flags]
+  if (args[0] === "remix") {
+    const original = await visibleJob(cmdCtx, history, args[1], "remix");
+    if (!original) return;
+    const options = await parseDerivedArgs(cmdCtx, args.slice(2));
+    if (!options) return;
+    const image = await messageImage(cmdCtx, options.image);
+    if (image === null) return;
+    const input = remixInput(original.input, { ...options, image });
+    // A remix asks for something new, so never hand back the original from the cache
+    await submitChatRequest(
+      cmdCtx,
+      ctx,
+      services,
+      providerId,
+      input,
+      {
+        noCache: true,
+        derivedFrom: { kind: "remix", parentId: original.id },
+        postProcess: postProcessOptions(options),
+      },
+      options.count,
+    );
+    return;
+  }
+
+  // Sub-command: /video extend <jobId> [prompt] [flags]
+  if (args[0] === "extend") {
+    const original = await visibleJob(cmdCtx, history, args[1], "extend");
+    if (!original) return;
+    const sourceError = extendSourceError(original);
+    if (sourceError) {
+      await cmdCtx.reply(sourceError);
+      return;
+    }
+    const options = await parseDerivedArgs(cmdCtx, args.slice(2));
+    if (!options) return;
+    if (options.aspectRatio || options.image) {
+      await cmdCtx.reply("An extension keeps the original video's framing, so `--aspect` and `--image` can't be used.");
+      return;
+    }
+    await submitChatRequest(
+      cmdCtx,
+      ctx,
+      services,
+      providerId,
+      extendInput(original, options),
+      {
+        noCache: options.noCache,
+        derivedFrom: { kind: "extend", parentId: original.id },
+        postProcess: postProcessOptions(options),
+      },
+      options.count,
+    );
+    return;
+  }
+
+  // Sub-command: /video storyboard <json>
+  if (args[0] === "storyboard") {
+    await handleStoryboardCommand(cmdCtx, ctx, config, services, providerId, args.slice(1).join(" ").trim());
+    return;
+  }
+
+  // Sub-command: /video preset list|save|delete
+  if (args[0] === "preset") {
+    await cmdCtx.reply(await presetCommand(cmdCtx, config, services.presets, args.slice(1)));
+    return;
+  }
+
+  // Main: /video <prompt> [--model X] [--duration X] [--aspect X]
+  const parsed = parseVideoArgs(args);
+  if (!parsed.ok) {
+    await cmdCtx.reply(parsed.error);
+    return;
+  }
+
+  if (!parsed.value.prompt) {
+    await cmdCtx.reply(
+      `**Usage:** \`/video <prompt>\`\n\n` +
+        `**Options:**\n` +
+        `\`--model <name>\` — Model to use (${modelIds().join(", ")})\n` +
+        `\`--duration <seconds>\` — Duration (${allDurations().join(", ")}; depends on model)\n` +
+        `\`--aspect <ratio>\` — Aspect ratio (${allAspectRatios().join(", ")}; depends on model)\n` +
+        `\`--resolution <res>\` — Output resolution (${allResolutions().join(", ")}; depends on model)\n` +
+        `\`--image <url>\` — Reference image to animate (or attach one to your message)\n` +
+        `\`--negative "<text>"\` — Things to keep out of the video\n` +
+        `\`--seed <n>\` — Fixed seed for reproducible results\n` +
+        `\`--count <n>\` — Make n variations with different seeds (up to ${MAX_BATCH_SIZE})\n` +
+        `\`--format <gif|webm|mp4>\` — Also convert the video, e.g. to a GIF for previews\n` +
+        `\`--loop\` — Also make a version that plays forwards then backwards, so it loops seamlessly\n` +
+        `\`--trim <start:end>\` — Also make a version cut to this range in seconds, e.g. \`1:4\`\n` +
+        `\`--provider <name>\` — Backend to render with (${PROVIDERS.join(", ")}; defaults to the configured one)\n` +
+        `\`--no-cache\` — Generate a new video even if an identical one was made recently\n` +
+        `\`--enhance\` — Have the prompt rewritten into a detailed description first; you review it before ` +
+        `anything is charged\n` +
+        `\`--preset <name>\` — Apply a style preset (see \`/video preset list\`); your own options win\n` +
+        `Short forms: \`-m\`, \`-d\`, \`-a\`, \`-p\`, \`-e\`. Quote prompts with spaces or use \`--flag=value\`; ` +
+        `everything after \`--\` is prompt text. Write \`{a|b}\` in the prompt to make a video for each option, ` +
+        `e.g. \`{sunset|night} city {drone|street} shot\`.\n\n` +
+        `**Sub-commands:**\n` +
+        `\`/video settings\` — Show current settings\n` +
+        `\`/video models\` — List available models\n` +
+        `\`/video cost [prompt] [options]\` — What a request would cost, without making it\n` +
+        `\`/video status <jobId>\` — Check on a video job\n` +
+        `\`/video jobs\` — List your recent video jobs\n` +
+        `\`/video cancel [jobId]\` — Cancel a video job (defaults to your latest)\n` +
+        `\`/video approvals\` — Requests waiting for a video admin\n` +
+        `\`/video approve <id>\` / \`/video deny <id>\` — Decide on a waiting request (video admins)\n` +
+        `\`/video history [--mine] [--limit n]\` — Videos made in this channel (or all of yours)\n` +
+        `\`/video show <jobId>\` — Full record of an earlier video\n` +
+        `\`/video search <text>\` — Find earlier videos in this channel by prompt\n` +
+        `\`/video remix <jobId> [prompt] [options]\` — Re-run an earlier video with changes\n` +
+        `\`/video extend <jobId> [prompt] [options]\` — Continue an earlier video from its last frame\n` +
+        `\`/video storyboard <json>\` — Render several shots and join them into one video\n` +
+        `\`/video preset list|save|delete\` — Style presets: a prompt template with default settings`,
+    );
+    return;
+  }
+
+  const validated = videoArgsSchema.safeParse(parsed.value);
+  if (!validated.success) {
+    await cmdCtx.reply(formatCommandErrors(validated.error));
+    return;
+  }
+  const preset = validated.data.preset ? await services.presets.get(validated.data.preset) : undefined;
+  if (preset === null) {
+    await cmdCtx.reply(unknownPresetMessage(validated.data.preset ?? ""));
+    return;
+  }
+  const options = preset ? applyPreset(preset, validated.data) : validated.data;
+
+  const model = options.model ?? config.model ?? DEFAULT_MODEL_ID;
+  const { duration, aspectRatio } = applyModelDefaults(
+    getModel(model),
+    { duration: options.duration, aspectRatio: options.aspectRatio },
+    { duration: Number(config.duration ?? "5"), aspectRatio: config.aspectRatio ?? "16:9" },
+  );
+  const { resolution, negativePrompt, seed, provider } = options;
+
+  const image = await messageImage(cmdCtx, options.image);
+  if (image === null) return;
+
+  const input: VideoGenerationInput = {
+    prompt: options.prompt,
+    model,
+    duration,
+    aspectRatio,
+    ...(resolution ? { resolution } : {}),
+    ...(image ? { image } : {}),
+    ...(negativePrompt ? { negativePrompt } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+    ...(provider ? { provider } : {}),
+  };
+  await submitChatRequest(
+    cmdCtx,
+    ctx,
+    services,
+    providerId,
+    input,
+    { noCache: options.noCache, postProcess: postProcessOptions(options), enhance: options.enhance },
+    options.count,
+  );
+}
+
+/** Whether a chat user may see a job or storyboard: their own, or one made in the current channel. */
+function isVisibleTo(cmdCtx: VideoCommandContext, record: { requester: string; channelId?: string }): boolean {
+  return record.requester === cmdCtx.sender || record.channelId === cmdCtx.channel;
+}
+
+/**
+ * A job the user may see or build on (see isVisibleTo). Replies and returns
+ * null when there is none.
+ */
+async function visibleJob(
+  cmdCtx: VideoCommandContext,
+  history: VideoHistory,
+  jobId: string | undefined,
+  subcommand: string,
+): Promise<VideoJob | null> {
+  if (!jobId) {
+    await cmdCtx.reply(`**Usage:** \`/video ${subcommand} <jobId>\``);
+    return null;
+  }
+  const job = await history.get(jobId);
+  if (!job || !isVisibleTo(cmdCtx, job)) {
+    await cmdCtx.reply(`No video job found with ID \`${jobId}\`.`);
+    return null;
+  }
+  return job;
+}
+
+/** Flags for `/video remix` and `/video extend`. Replies and returns null when they are invalid. */
+async function parseDerivedArgs(cmdCtx: VideoCommandContext, args: string[]): Promise<DerivedArgs | null> {
+  const parsed = parseVideoArgs(args);
+  if (!parsed.ok) {
+    await cmdCtx.reply(parsed.error);
+    return null;
+  }
+  const validated = derivedArgsSchema.safeParse({ ...parsed.value, prompt: parsed.value.prompt || undefined });
+  if (!validated.success) {
+    await cmdCtx.reply(formatCommandErrors(validated.error));
+    return null;
+  }
+  if (validated.data.enhance) {
+    await cmdCtx.reply("`--enhance` works on new prompts: `/video --enhance <prompt>`.");
+    return null;
+  }
+  if (validated.data.preset) {
+    await cmdCtx.reply("`--preset` works on new prompts: `/video --preset <name> <prompt>`.");
+    return null;
+  }
+  return validated.data;
+}
+
+/**
+ * Rewrite a chat prompt with the host's text provider and let the requester
+ * accept the rewrite, edit it, keep their own prompt or cancel. Replies and
+ * returns null when the request should go no further.
+ */
+async function enhanceForChat(
+  cmdCtx: VideoCommandContext,
+  ctx: WOPRPluginContext,
+  prompt: string,
+  model: string,
+): Promise<string | null> {
+  const enhanced = await enhancePrompt(ctx, prompt, getModel(model));
+  if (!enhanced.ok) {
+    await cmdCtx.reply(enhanced.error);
+    return null;
+  }
+  const answer = await withTimeout<string | null | undefined>(
+    ctx.inject("__confirm__", enhanceQuestion(enhanced.value), {
+      from: cmdCtx.sender,
+      channel: { type: cmdCtx.channelType, id: cmdCtx.channel, name: "video-command" },
+      silent: false,
+    }),
+    consentPolicyFromConfig(ctx.getConfig<VideoGenConfig>() ?? {}).timeoutMs,
+  );
+  if (answer === null || answer === undefined) {
+    await cmdCtx.reply("No answer about the enhanced prompt — video generation cancelled.");
+    return null;
+  }
+  const review = reviewEnhancement(answer, prompt, enhanced.value);
+  if (review.action === "cancel") {
+    await cmdCtx.reply("Video generation cancelled.");
+    return null;
+  }
+  if (review.action === "invalid") {
+    await cmdCtx.reply(review.error);
+    return null;
+  }
+  return review.prompt;
+}
+
+/**
+ * The reference image for a request: an explicit `--image` wins, otherwise the
+ * first image attached to the message. Replies and returns null when the
+ * attachment is unusable.
+ */
+async function messageImage(cmdCtx: VideoCommandContext, explicit?: string): Promise<string | undefined | null> {
+  if (explicit) return explicit;
+  const attachment = cmdCtx.attachments?.find(
+    (a) => a.contentType?.startsWith("image/") ?? /\.(png|jpe?g|webp)$/i.test(a.url),
+  );
+  if (!attachment) return undefined;
+  const imageError = validateImageInput(attachment.url, attachment);
+  if (imageError) {
+    await cmdCtx.reply(imageError);
+    return null;
+  }
+  return attachment.url;
+}
+
+/**
+ * Record a request whose prompt moderation blocked as a failed job, so the
+ * decision is kept, and explain it to the requester.
+ */
+async function blockedReply(
+  ctx: WOPRPluginContext,
+  jobs: JobManager,
+  input: VideoGenerationInput,
+  origin: JobOrigin,
+  moderation: ModerationRecord,
+): Promise<string> {
+  const job = await jobs.submit(input, origin, { moderation });
+  ctx.log.info(`Video job ${job.id} from ${origin.requester} blocked by moderation (${moderation.rule})`);
+  return `${moderationMessage(moderation)}\n**Job:** \`${job.id}\``;
+}
+
+/** A chat request that passed moderation and the limits, with what it costs. */
+interface ScreenedRequest {
+  moderation: ModerationRecord;
+  /** Per input, the identical earlier video it reuses, if any. */
+  cachedUrls: Array<string | null>;
+  /** Videos that will be generated rather than reused. */
+  paid: number;
+  cost: number;
+}
+
+/**
+ * Moderate a chat request's prompts, price it — identical earlier videos cost
+ * nothing — and check it against the limits. Replies and returns null when it
+ * can go no further.
+ */
+async function screenChatRequest(
+  cmdCtx: VideoCommandContext,
+  ctx: WOPRPluginContext,
+  services: VideoServices,
+  inputs: VideoGenerationInput[],
+  origin: JobOrigin & { channel: ChannelRef },
+  noCache?: boolean,
+): Promise<ScreenedRequest | null> {
+  const { jobs, limiter, cache, moderator } = services;
+  const { channel } = origin;
+
+  // Moderate the prompts before anything is confirmed or charged
+  const moderation = await moderator.check(
+    inputs.map((item) => item.prompt),
+    { channelId: channel.id, channelType: channel.type },
+  );
+  if (moderation.decision === "blocked") {
+    await cmdCtx.reply(await blockedReply(ctx, jobs, inputs[0], origin, moderation));
+    return null;
+  }
+
+  // Identical earlier videos cost nothing, so only the rest need confirming and count against budgets
+  const cachedUrls = await Promise.all(inputs.map((item) => (noCache ? null : cache.lookup(item))));
+  const paid = cachedUrls.filter((url) => !url).length;
+  const cost = roundCredits(
+    paid * estimateCost(inputs[0], creditsPerSecondFromConfig(ctx.getConfig<VideoGenConfig>() ?? {})),
+  );
+
+  // Check the limits before asking for confirmation so nobody agrees to a job we then refuse
+  const precheck = await limiter.check(
+    { requester: origin.requester, channelId: channel.id },
+    inputs.length,
+    Date.now(),
+    cost,
+  );
+  if (!precheck.allowed) {
+    await cmdCtx.reply(precheck.reason);
+    return null;
+  }
+  return { moderation, cachedUrls, paid, cost };
+}
+
+/**
+ * Queue a chat request once it is fully resolved: batch expansion, model
+ * checks, moderation and limits, the `--enhance` rewrite, credit
+ * confirmation, then the acknowledgement. Results are posted back to the
+ * channel when the jobs finish.
+ */
+async function submitChatRequest(
+  cmdCtx: VideoCommandContext,
+  ctx: WOPRPluginContext,
+  services: VideoServices,
+  providerId: string,
+  input: VideoGenerationInput,
+  { enhance, ...options }: Omit<SubmitOptions, "batch"> & { enhance?: boolean },
+  count = 1,
+): Promise<void> {
+  const { jobs, limiter } = services;
+  const { model, duration, aspectRatio, resolution, image, negativePrompt, extendVideo } = input;
+  const channel = { type: cmdCtx.channelType, id: cmdCtx.channel, name: "video-command" };
+  const origin = { requester: cmdCtx.sender, channelProvider: providerId, channel };
+
+  const expanded = expandBatch(input, count);
+  if (!expanded.ok) {
+    await cmdCtx.reply(expanded.error);
+    return;
+  }
+  let inputs = expanded.value;
+  if (enhance && inputs.length > count) {
+    await cmdCtx.reply("`--enhance` works on a single prompt — leave out the `{a|b}` options.");
+    return;
+  }
+
+  // Reject combinations the model can't produce before any credits are spent
+  const paramsIssue = validateModelParams(model, { duration, aspectRatio, resolution, image, extendVideo });
+  if (paramsIssue) {
+    await cmdCtx.reply(paramsIssue.message);
+    return;
+  }
+  const trimmed = trimIssue(options.postProcess, duration);
+  if (trimmed) {
+    await cmdCtx.reply(trimmed.message);
+    return;
+  }
+  const unavailable = providerIssue(ctx.getConfig<VideoGenConfig>() ?? {}, input.provider);
+  if (unavailable) {
+    await cmdCtx.reply(unavailable.message);
+    return;
+  }
+
+  let screened = await screenChatRequest(cmdCtx, ctx, services, inputs, origin, options.noCache);
+  if (!screened) return;
+
+  // The rewrite costs a text-provider call, so it only happens once the request could go ahead.
+  // Whatever prompt comes back of the review is moderated and priced again.
+  if (enhance) {
+    const prompt = await enhanceForChat(cmdCtx, ctx, input.prompt, model);
+    if (prompt === null) return;
+    inputs = inputs.map((item) => ({ ...item, prompt }));
+    screened = await screenChatRequest(cmdCtx, ctx, services, inputs, origin, options.noCache);
+    if (!screened) return;
+  }
+  const { moderation, cachedUrls, paid, cost } = screened;
+  const subject = { requester: cmdCtx.sender, channelId: channel.id };
+
+  // Credit consent — video generation is expensive, so the consent policy decides who has to agree
+  const consent = await obtainConsent(ctx, ctx.getConfig<VideoGenConfig>() ?? {}, {
+    requester: cmdCtx.sender,
+    channel,
+    cost,
+    what:
+      paid === 1
+        ? `a video (approx. ${duration}s at ${aspectRatio})`
+        : `${paid} videos (approx. ${duration}s each at ${aspectRatio}, ${paid * duration}s in total)`,
+    announce: (message) => cmdCtx.reply(message),
+  });
+  if (!consent.ok) {
+    await cmdCtx.reply(consent.reason);
+    return;
+  }
+
+  // Queue the jobs — they run in the background and the results are posted back
+  // to this channel when they finish, so the handler does not block for 30s-2min.
+  // The limits are checked again here: others may have started jobs while we waited.
+  const batchId = inputs.length > 1 ? newBatchId() : undefined;
+  const admitted = await limiter.admit(
+    subject,
+    async () => {
+      const submitted: VideoJob[] = [];
+      for (const [index, item] of inputs.entries()) {
+        const batch = batchId ? { batch: { id: batchId, index, size: inputs.length } } : {};
+        submitted.push(await jobs.submit(item, origin, { ...options, ...batch, moderation }));
+      }
+      return submitted;
+    },
+    inputs.length,
+    cost,
+  );
+  if (!admitted.allowed) {
+    await cmdCtx.reply(admitted.reason);
+    return;
+  }
+  const submitted = admitted.value;
+  const lineage = options.derivedFrom
+    ? `**${options.derivedFrom.kind === "remix" ? "Remix of" : "Extending"}:** \`${options.derivedFrom.parentId}\`\n`
+    : "";
+  const settings =
+    `**Model:** ${model} | **Duration:** ${duration}s | **Aspect:** ${aspectRatio}` +
+    (resolution ? ` | **Resolution:** ${resolution}` : "");
+  const extras =
+    (negativePrompt ? `\n**Negative:** ${negativePrompt}` : "") +
+    (image ? `\n**Image:** ${describeImage(image)}` : "") +
+    (options.postProcess ? `\n**Output:** ${describePostProcess(options.postProcess)}` : "");
+
+  if (batchId) {
+    const lines = submitted.map(
+      (job, index) =>
+        `${index + 1}. \`${job.id}\` — ${job.input.prompt}` +
+        (job.input.seed !== undefined ? ` (seed ${job.input.seed})` : "") +
+        (cachedUrls[index] ? " — reused" : ""),
+    );
+    await cmdCtx.reply(
+      `Generating ${submitted.length} videos... The results will be posted together when they're all done.\n` +
+        `**Batch:** \`${batchId}\`\n` +
+        lineage +
+        settings +
+        extras +
+        `\n\n${lines.join("\n")}`,
+    );
+    return;
+  }
+
+  const [job] = submitted;
+  await cmdCtx.reply(
+    (cachedUrls[0]
+      ? "Reusing an identical earlier video — no credits used. Add `--no-cache` to generate a new one.\n"
+      : `Generating video... This may take 30s-2min.\n`) +
+      `**Job:** \`${job.id}\` — check progress with \`/video status ${job.id}\`\n` +
+      lineage +
+      `**Prompt:** ${job.input.prompt}\n` +
+      settings +
+      (job.input.seed !== undefined ? ` | **Seed:** ${job.input.seed}` : "") +
+      extras,
+  );
+}
+
+/** What is left of the day's budgets, for `/video cost`. Empty when no budget applies. */
+function formatBudgetStatus(status: BudgetStatus): string {
+  const parts = [
+    status.user ? `${formatCredits(status.user.left)} of ${status.user.budget} left for you` : "",
+    status.channel ? `${formatCredits(status.channel.left)} of ${status.channel.budget} left in this channel` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? `\n**Today's budget:** ${parts.join(", ")}` : "";
+}
+
+/** `/video cost [prompt] [options]`: the estimated cost of a request, without queuing anything. */
+async function quoteCost(
+  cmdCtx: VideoCommandContext,
+  config: VideoGenConfig,
+  limiter: RateLimiter,
+  presets: PresetStore,
+  args: string[],
+): Promise<string> {
+  const parsed = parseVideoArgs(args);
+  if (!parsed.ok) return parsed.error;
+  // The prompt only matters for `{a|b}` options, so a quote doesn't need one
+  const validated = derivedArgsSchema.safeParse({ ...parsed.value, prompt: parsed.value.prompt || undefined });
+  if (!validated.success) return formatCommandErrors(validated.error);
+  const { prompt, ...settings } = validated.data;
+  const preset = settings.preset ? await presets.get(settings.preset) : undefined;
+  if (preset === null) return unknownPresetMessage(settings.preset ?? "");
+  const options = preset
+    ? { ...applyPreset(preset, { ...settings, prompt: "" }), prompt: prompt && fillTemplate(preset.template, prompt) }
+    : validated.data;
+
+  const model = options.model ?? config.model ?? DEFAULT_MODEL_ID;
+  const { duration, aspectRatio } = applyModelDefaults(
+    getModel(model),
+    { duration: options.duration, aspectRatio: options.aspectRatio },
+    { duration: Number(config.duration ?? "5"), aspectRatio: config.aspectRatio ?? "16:9" },
+  );
+  const { resolution } = options;
+  const issue = validateModelParams(model, { duration, aspectRatio, resolution });
+  if (issue) return issue.message;
+  const input = { prompt: options.prompt ?? "", model, duration, aspectRatio, ...(resolution ? { resolution } : {}) };
+  const expanded = options.prompt ? expandBatch(input, options.count) : null;
+  if (expanded && !expanded.ok) return expanded.error;
+
+  const count = expanded ? expanded.value.length : (options.count ?? 1);
+  const each = estimateCost(input, creditsPerSecondFromConfig(config));
+  const shown = resolution ?? getModel(model)?.resolutions[0];
+  const budgets = await limiter.budgetStatus({ requester: cmdCtx.sender, channelId: cmdCtx.channel });
+  return (
+    `**Estimated cost:** ${formatCredits(roundCredits(each * count))}\n` +
+    `${model} · ${duration}s · ${shown}` +
+    (count > 1 ? ` × ${count} videos (${formatCredits(each)} each)` : "") +
+    formatBudgetStatus(budgets) +
+    "\n\nIdentical recent requests reuse their earlier video for free."
+  );
 }
 
-// ============================================================================
-// Helper: parse socket response (JSON or plain URL)
-// ============================================================================
-
-function parseSocketResponse(raw: string): { url?: string; error?: string } {
-  try {
-    return JSON.parse(raw) as { url?: string; error?: string };
-  } catch {
-    return raw.startsWith("http") ? { url: raw } : { error: raw };
-  }
+/** Estimated credits for every shot of a storyboard. */
+function storyboardCost(plan: StoryboardPlan, creditsPerSecond: number): number {
+  return totalCost(
+    plan.shots.map(({ duration }) => ({ model: plan.model, duration, resolution: plan.resolution })),
+    creditsPerSecond,
+  );
 }
 
-// ============================================================================
-// Helper: handle /video command
-// ============================================================================
+const STORYBOARD_USAGE =
+  `**Usage:** \`/video storyboard <json>\`\n\n` +
+  `Up to ${MAX_STORYBOARD_SHOTS} shots, rendered in order and joined into one video. ` +
+  `Each shot continues from the previous shot's last frame unless it has its own \`image\` ` +
+  `(on models that accept images; set \`"carryFrames": false\` to turn this off).\n\n` +
+  "```json\n" +
+  `{\n` +
+  `  "model": "kling-1.6",\n` +
+  `  "aspectRatio": "16:9",\n` +
+  `  "shots": [\n` +
+  `    { "prompt": "a lighthouse on a cliff at dawn", "duration": 5 },\n` +
+  `    { "prompt": "the camera flies towards the lighthouse door" },\n` +
+  `    { "prompt": "inside, a keeper lights the lamp", "image": "https://example.com/keeper.png" }\n` +
+  `  ]\n` +
+  `}\n` +
+  "```\n" +
+  `Optional settings for every shot: \`resolution\`, \`negativePrompt\`, \`seed\`, \`noCache\`.`;
 
-async function handleVideoCommand(
-  cmdCtx: ChannelCommandContext,
+/** `/video storyboard <json>`: validate, check limits, confirm and start the storyboard. */
+async function handleStoryboardCommand(
+  cmdCtx: VideoCommandContext,
   ctx: WOPRPluginContext,
   config: VideoGenConfig,
+  services: VideoServices,
+  providerId: string,
+  text: string,
 ): Promise<void> {
-  const { args } = cmdCtx;
-
-  // Sub-command: /video settings
-  if (args[0] === "settings") {
-    const settingsMsg =
-      `**Video Generation Settings**\n\n` +
-      `**Provider:** ${config.provider ?? "replicate"}\n` +
-      `**Model:** ${config.model ?? "minimax-video"}\n` +
-      `**Duration:** ${config.duration ?? "5"}s\n` +
-      `**Aspect Ratio:** ${config.aspectRatio ?? "16:9"}\n` +
-      `**BYOK:** ${config.apiKey ? "Configured" : "Using hosted credits"}`;
-    await cmdCtx.reply(settingsMsg);
+  const { jobs, limiter, storyboards, moderator } = services;
+  if (!text) {
+    await cmdCtx.reply(STORYBOARD_USAGE);
     return;
   }
 
-  // Sub-command: /video models
-  if (args[0] === "models") {
-    const modelsMsg =
-      `**Available Video Models**\n\n` +
-      "`minimax-video` — Minimax Video-01 (fast, good quality)\n" +
-      "`wan-2.1` — Wan 2.1 (high quality, slower)\n" +
-      "`kling-1.6` — Kling 1.6 (cinematic)\n" +
-      "`luma-ray2` — Luma Ray2 (photorealistic)\n\n" +
-      "Use: `/video <prompt> --model <name>`";
-    await cmdCtx.reply(modelsMsg);
+  const json = parseStoryboardJson(text);
+  if (!json.ok) {
+    await cmdCtx.reply(json.error);
+    return;
+  }
+  const validated = storyboardSpecSchema.safeParse(json.value);
+  if (!validated.success) {
+    const lines = fieldIssues(validated.error).map(({ field, message }) => `• \`${field}\`: ${message}`);
+    await cmdCtx.reply(`**Invalid storyboard:**\n${lines.join("\n")}`);
+    return;
+  }
+  const plan = planStoryboard(validated.data, {
+    model: config.model ?? DEFAULT_MODEL_ID,
+    duration: Number(config.duration ?? "5"),
+    aspectRatio: config.aspectRatio ?? "16:9",
+  });
+  const issue = storyboardIssue(plan);
+  if (issue) {
+    await cmdCtx.reply(issue.message);
     return;
   }
 
-  // Main: /video <prompt> [--model X] [--duration X] [--aspect X]
-  const parsed = parseVideoArgs(args);
-
-  if (!parsed.prompt) {
-    await cmdCtx.reply(
-      `**Usage:** \`/video <prompt>\`\n\n` +
-        `**Options:**\n` +
-        `\`--model <name>\` — Model to use (minimax-video, wan-2.1, kling-1.6, luma-ray2)\n` +
-        `\`--duration <seconds>\` — Duration (3, 5, 10)\n` +
-        `\`--aspect <ratio>\` — Aspect ratio (16:9, 9:16, 1:1)\n\n` +
-        `**Sub-commands:**\n` +
-        `\`/video settings\` — Show current settings\n` +
-        `\`/video models\` — List available models`,
-    );
+  const channel = { type: cmdCtx.channelType, id: cmdCtx.channel, name: "video-command" };
+  const moderation = await moderator.check(
+    plan.shots.map(({ prompt }) => prompt),
+    { channelId: channel.id, channelType: channel.type },
+  );
+  const origin = { requester: cmdCtx.sender, channelProvider: providerId, channel };
+  if (moderation.decision === "blocked") {
+    await cmdCtx.reply(await blockedReply(ctx, jobs, shotInput(plan, plan.shots[0]), origin, moderation));
     return;
   }
 
-  const model = parsed.model ?? config.model ?? "minimax-video";
-  const duration = parsed.duration ?? config.duration ?? "5";
-  const aspectRatio = parsed.aspectRatio ?? config.aspectRatio ?? "16:9";
+  const subject = { requester: cmdCtx.sender, channelId: channel.id };
+  const shots = plan.shots.length;
+  const cost = storyboardCost(plan, creditsPerSecondFromConfig(config));
+  const precheck = await limiter.check(subject, shots, Date.now(), cost);
+  if (!precheck.allowed) {
+    await cmdCtx.reply(precheck.reason);
+    return;
+  }
 
-  // Credit confirmation — video generation is expensive; require explicit consent
-  const confirmation = await ctx.inject(
-    "__confirm__",
-    `This will consume credits to generate a video (approx. ${duration}s at ${aspectRatio}). Proceed? (yes/no)`,
-    {
-      from: cmdCtx.sender,
-      channel: { type: cmdCtx.channelType, id: cmdCtx.channel, name: "video-command" },
-      silent: false,
-    },
-  );
-  if (!confirmation || !["yes", "y"].includes(confirmation.trim().toLowerCase())) {
-    await cmdCtx.reply("Video generation cancelled.");
+  const consent = await obtainConsent(ctx, config, {
+    requester: cmdCtx.sender,
+    channel,
+    cost,
+    what: `a ${shots}-shot storyboard (approx. ${totalDuration(plan)}s of video at ${plan.aspectRatio})`,
+    announce: (message) => cmdCtx.reply(message),
+  });
+  if (!consent.ok) {
+    await cmdCtx.reply(consent.reason);
     return;
   }
 
-  // Show progress indicator — video generation is slow (30s-2min)
+  const admitted = await limiter.admit(subject, () => storyboards.start(plan, origin, moderation), shots, cost);
+  if (!admitted.allowed) {
+    await cmdCtx.reply(admitted.reason);
+    return;
+  }
+  const storyboard = admitted.value;
   await cmdCtx.reply(
-    `Generating video... This may take 30s-2min.\n` +
-      `**Prompt:** ${parsed.prompt}\n` +
-      `**Model:** ${model} | **Duration:** ${duration}s | **Aspect:** ${aspectRatio}`,
+    `Generating a ${shots}-shot storyboard... The finished video will be posted here when every shot is done.\n` +
+      `**Storyboard:** \`${storyboard.id}\` — check progress with \`/video status ${storyboard.id}\`\n` +
+      `**Model:** ${plan.model} | **Length:** ${totalDuration(plan)}s | **Aspect:** ${plan.aspectRatio}` +
+      (plan.resolution ? ` | **Resolution:** ${plan.resolution}` : "") +
+      `\n\n${formatShots(storyboard)}`,
   );
+}
 
-  // Route through socket layer via ctx.inject as a capability request
-  // The socket layer handles: credit check, adapter routing, billing
-  // Plugin contains ZERO billing logic
-  try {
-    const capabilityRequest = JSON.stringify({
-      capability: "video-generation",
-      input: {
-        prompt: parsed.prompt,
-        model,
-        duration: Number(duration),
-        aspectRatio,
-        ...(config.apiKey ? { apiKey: config.apiKey } : {}),
-      },
-    });
+function unknownPresetMessage(name: string): string {
+  return `No preset named \`${name}\`. See \`/video preset list\`.`;
+}
 
-    const raw = await ctx.inject("__capability__", capabilityRequest, {
-      from: cmdCtx.sender,
-      channel: { type: cmdCtx.channelType, id: cmdCtx.channel, name: "video-command" },
-      silent: true,
-    });
+const PRESET_USAGE =
+  `**Usage:**\n` +
+  `\`/video preset list\` — Built-in and saved presets\n` +
+  `\`/video preset save <name> <template> [--negative "<text>"] [--model X] [--duration X] [--aspect X]\` — ` +
+  `Save a preset everyone here can use; write \`{prompt}\` in the template where the prompt goes, or leave it ` +
+  `out to add the template after the prompt\n` +
+  `\`/video preset delete <name>\` — Delete a preset you saved\n\n` +
+  `Apply one with \`/video --preset <name> <prompt>\`, e.g. ` +
+  `\`/video preset save brand "{prompt}, shot on 35mm, golden hour, shallow depth of field" --aspect 16:9\`.`;
 
-    const result = parseSocketResponse(raw);
+/** Settings a preset can hold, by their raw `/video` argument keys. */
+const PRESET_ARG_KEYS = new Set(["prompt", "negativePrompt", "model", "duration", "aspectRatio"]);
 
-    if (result.error) {
-      if (result.error === "insufficient_credits") {
-        await cmdCtx.reply("You don't have enough credits for video generation. Add credits to continue.");
-      } else {
-        ctx.log.error("Video generation API error", result.error);
-        await cmdCtx.reply("Video generation failed. Please try again.");
-      }
-      return;
-    }
+/** `/video preset list|save|delete`: the reply to send. */
+async function presetCommand(
+  cmdCtx: VideoCommandContext,
+  config: VideoGenConfig,
+  presets: PresetStore,
+  args: string[],
+): Promise<string> {
+  const [action, name] = args;
+  const { admins } = consentPolicyFromConfig(config);
+
+  if (action === "list") {
+    return `**Presets:**\n${(await presets.list()).map(formatPreset).join("\n")}`;
+  }
+
+  if (action === "delete" && name) {
+    const deleted = await presets.delete(name, cmdCtx.sender, admins);
+    return deleted.ok ? `Deleted preset \`${deleted.value.name}\`.` : deleted.error;
+  }
 
-    if (result.url) {
-      await cmdCtx.reply(result.url);
-    } else {
-      await cmdCtx.reply("Video generation completed but no URL was returned.");
+  if (action === "save" && name) {
+    const parsed = parseVideoArgs(args.slice(2));
+    if (!parsed.ok) return parsed.error;
+    if (!parsed.value.prompt) return PRESET_USAGE;
+    if (Object.keys(parsed.value).some((key) => !PRESET_ARG_KEYS.has(key))) {
+      return "Presets hold a template, `--negative`, `--model`, `--duration` and `--aspect` — nothing else.";
     }
-  } catch (error: unknown) {
-    ctx.log.error("Video generation failed", error);
-    await cmdCtx.reply("Video generation failed. Please try again.");
+    const validated = presetArgsSchema.safeParse(parsed.value);
+    if (!validated.success) return formatCommandErrors(validated.error);
+    const { prompt: template, ...settings } = validated.data;
+    const model = settings.model ? getModel(settings.model) : undefined;
+    if (model) {
+      const issue = validateModelParams(
+        model.id,
+        applyModelDefaults(model, settings, { duration: model.durations[0], aspectRatio: model.aspectRatios[0] }),
+      );
+      if (issue) return issue.message;
+    }
+    const saved = await presets.save(name, { template, ...settings }, cmdCtx.sender, admins);
+    if (!saved.ok) return saved.error;
+    const { preset, replaced } = saved.value;
+    return (
+      `${replaced ? "Updated" : "Saved"} preset \`${preset.name}\`. ` +
+      `Use it with \`/video --preset ${preset.name} <prompt>\`.\n${formatPreset(preset)}`
+    );
   }
+
+  return PRESET_USAGE;
 }
 
 // ============================================================================
 // Plugin Definition
 // ============================================================================
 
+/** Leave headroom inside the manifest's 120s shutdownTimeoutMs for cancelling leftovers. */
+const SHUTDOWN_DRAIN_MS = 110_000;
+
 let pluginCtx: WOPRPluginContext | null = null;
+let jobManager: JobManager | null = null;
+let rateLimiter: RateLimiter | null = null;
+let scheduler: Scheduler | null = null;
+let resultCache: ResultCache | null = null;
+let videoHistory: VideoHistory | null = null;
+let storyboardRunner: StoryboardRunner | null = null;
+let artifactStore: ArtifactStore | null = null;
+let promptModerator: Moderator | null = null;
+let presetStore: PresetStore | null = null;
 const registeredProviderIds: string[] = [];
 const cleanups: Array<() => void> = [];
+/** Batches whose grouped result has been posted, so it is only sent once. */
+const deliveredBatches = new Set<string>();
+/** Requests waiting for a video admin under the `admin` consent policy. */
+const approvals = new ApprovalQueue();
+
+function videoCommand(providerId: string): ChannelCommand {
+  return {
+    name: "video",
+    description: "Generate a video from a text prompt",
+    async handler(cmdCtx: VideoCommandContext) {
+      if (!pluginCtx || !jobManager || !rateLimiter || !scheduler || !resultCache || !videoHistory) return;
+      if (!storyboardRunner || !artifactStore || !promptModerator || !presetStore) return;
+      const currentConfig = pluginCtx.getConfig<VideoGenConfig>();
+      const services = {
+        jobs: jobManager,
+        limiter: rateLimiter,
+        scheduler,
+        cache: resultCache,
+        history: videoHistory,
+        storyboards: storyboardRunner,
+        artifacts: artifactStore,
+        moderator: promptModerator,
+        presets: presetStore,
+      };
+      await handleVideoCommand(cmdCtx, pluginCtx, currentConfig, services, providerId);
+    },
+  };
+}
+
+function jobToolResult(job: VideoJob): A2AToolResult {
+  const { resultUrl, outputs, ...rest } = job;
+  const shown = {
+    ...rest,
+    ...linkable(resultUrl, "resultUrl", "resultError"),
+    ...(outputs ? { outputs: linkableOutputs(outputs) } : {}),
+  };
+  return { content: [{ type: "text", text: JSON.stringify(shown, null, 2) }] };
+}
+
+/** A storyboard for A2A callers, without URLs they couldn't fetch. */
+function storyboardToolView(storyboard: Storyboard): Record<string, unknown> {
+  const { finalUrl, shots, ...rest } = storyboard;
+  return {
+    ...rest,
+    ...linkable(finalUrl, "finalUrl", "finalError"),
+    shots: shots.map(({ url, ...shot }) => ({ ...shot, ...linkable(url, "url", "error") })),
+  };
+}
+
+/**
+ * Whether an A2A caller may see or build on a job or storyboard: only those
+ * started through A2A, never a user's chat request.
+ */
+function isA2AVisible(record: { requester: string } | null | undefined): boolean {
+  return !!record?.requester.startsWith("a2a");
+}
+
+function jobNotFoundResult(jobId: string): A2AToolResult {
+  return { content: [{ type: "text", text: `No video job found with ID ${jobId}` }], isError: true };
+}
+
+function rateLimitedResult(decision: Extract<LimitDecision, { allowed: false }>): A2AToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          error: decision.code ?? "rate_limited",
+          message: decision.reason,
+          ...(decision.retryAfterMs !== undefined
+            ? { retryAfterSeconds: Math.ceil(decision.retryAfterMs / 1000) }
+            : {}),
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/** Refusal for a request estimated to cost more than the caller's `maxCost`. */
+function overMaxCostResult(cost: number, maxCost: number): A2AToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          error: "max_cost_exceeded",
+          message: `This would cost about ${formatCredits(cost)}, more than maxCost (${maxCost}).`,
+          estimatedCost: cost,
+          maxCost,
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/** A2A requests are moderated at the level configured for `a2a`. */
+const A2A_MODERATION_SCOPE: ModerationScope = { channelType: A2A_MODERATION_KEY };
+
+/** Refusal for a request whose prompt moderation blocked; `jobId` is the failed job recording it. */
+function blockedToolResult(moderation: ModerationRecord, jobId: string): A2AToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          ...errorPayload("prompt_blocked"),
+          ...(moderation.reason ? { message: moderation.reason } : {}),
+          category: moderation.category,
+          jobId,
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/** Estimated credits at the configured rate. */
+function creditRate(): number {
+  return creditsPerSecondFromConfig(pluginCtx?.getConfig<VideoGenConfig>() ?? {});
+}
+
+/** An A2A video spec with its `preset` applied. */
+async function presetSpec<T extends VideoSpec>(spec: T): Promise<ParseResult<T>> {
+  if (!spec.preset) return { ok: true, value: spec };
+  const preset = await presetStore?.get(spec.preset);
+  return preset
+    ? { ok: true, value: applyPreset(preset, spec) }
+    : { ok: false, error: unknownPresetMessage(spec.preset) };
+}
+
+/** Capability input for an A2A video spec, with the configured defaults filled in. */
+function specInput(spec: VideoSpec, config: VideoGenConfig | undefined): VideoGenerationInput {
+  const { prompt, resolution, image, negativePrompt, seed, provider } = spec;
+  const model = spec.model ?? config?.model ?? DEFAULT_MODEL_ID;
+  const { duration, aspectRatio } = applyModelDefaults(
+    getModel(model),
+    { duration: spec.duration, aspectRatio: spec.aspectRatio },
+    { duration: Number(config?.duration ?? "5"), aspectRatio: config?.aspectRatio ?? "16:9" },
+  );
+  return {
+    prompt,
+    model,
+    duration,
+    aspectRatio,
+    ...(resolution ? { resolution } : {}),
+    ...(image ? { image } : {}),
+    ...(negativePrompt ? { negativePrompt } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+    ...(provider ? { provider } : {}),
+  };
+}
+
+/**
+ * Queue a job for an A2A tool and, unless `async` is set, wait for the video.
+ *
+ * A2A callers are usually AI agents acting on behalf of users who have already
+ * consented at the orchestration level, so they skip the confirmation. Sessions
+ * that belong to a human go through the consent policy like chat requests do
+ * (see obtainToolConsent). The socket layer still enforces credit checks and
+ * will return "insufficient_credits" if the account cannot cover the cost.
+ */
+async function submitToolJob(
+  input: VideoGenerationInput,
+  sessionId: string | undefined,
+  options: SubmitOptions & { async?: boolean; maxCost?: number },
+): Promise<A2AToolResult> {
+  if (!pluginCtx || !jobManager || !rateLimiter || !promptModerator) {
+    return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+  }
+  const { async, maxCost, ...submitOptions } = options;
+  const issue =
+    trimIssue(submitOptions.postProcess, input.duration) ??
+    providerIssue(pluginCtx.getConfig<VideoGenConfig>() ?? {}, input.provider);
+  if (issue) return invalidParamsResult(issue);
+  const requester = sessionId ? `a2a:${sessionId}` : "a2a";
+  const moderation = await promptModerator.check([input.prompt], A2A_MODERATION_SCOPE);
+  if (moderation.decision === "blocked") {
+    const blocked = await jobManager.submit(input, { requester }, { ...submitOptions, moderation });
+    return blockedToolResult(moderation, blocked.id);
+  }
+  // An identical earlier video costs nothing, so it never goes over maxCost
+  const cached = submitOptions.noCache ? null : await resultCache?.lookup(input);
+  const cost = cached ? 0 : estimateCost(input, creditRate());
+  if (maxCost !== undefined && cost > maxCost) return overMaxCostResult(cost, maxCost);
+  const consent = await obtainToolConsent(
+    sessionId,
+    requester,
+    cost,
+    `a video (approx. ${input.duration}s at ${input.aspectRatio})`,
+  );
+  if (!consent.ok) return consentRefusedResult(consent);
+  try {
+    const manager = jobManager;
+    const admitted = await rateLimiter.admit(
+      { requester },
+      () => manager.submit(input, { requester }, { ...submitOptions, moderation }),
+      1,
+      cost,
+    );
+    if (!admitted.allowed) return rateLimitedResult(admitted);
+    const job = admitted.value;
+
+    if (async) {
+      return { content: [{ type: "text", text: JSON.stringify({ jobId: job.id, status: job.status }) }] };
+    }
+
+    const settled = await jobManager.wait(job.id);
+    if (settled?.status !== "succeeded") {
+      const code = settled?.status === "cancelled" ? "cancelled" : errorCode(settled?.error ?? "generation_failed");
+      return {
+        content: [{ type: "text", text: JSON.stringify({ ...errorPayload(code), jobId: job.id }) }],
+        isError: true,
+      };
+    }
+
+    // Callers that asked for one model are told when another one made the video
+    const substitute = substituteAttempt(settled.input, settled.attempts);
+    if (settled.postProcess || substitute) {
+      const { postProcessError } = settled;
+      const outputs = settled.outputs && linkableOutputs(settled.outputs);
+      const madeWith = substitute ? { model: substitute.model, provider: substitute.provider } : undefined;
+      const result = {
+        ...linkable(settled.resultUrl, "resultUrl", "resultError"),
+        outputs,
+        postProcessError,
+        madeWith,
+      };
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+    if (settled.resultUrl && isHostOnlyUrl(settled.resultUrl)) {
+      return { content: [{ type: "text", text: JSON.stringify({ jobId: settled.id, resultError: HOST_ONLY_NOTE }) }] };
+    }
+    return { content: [{ type: "text", text: settled.resultUrl ?? "No URL returned" }] };
+  } catch (error: unknown) {
+    pluginCtx.log.error("Video generation error", error);
+    return {
+      content: [{ type: "text", text: "Video generation failed. Please try again." }],
+      isError: true,
+    };
+  }
+}
+
+/** Queue a batch for generate_video_batch and, unless `async` is set, wait for every video. */
+async function submitToolBatch(
+  items: Array<{ input: VideoGenerationInput; noCache?: boolean; postProcess?: PostProcessOptions }>,
+  sessionId: string | undefined,
+  { async, maxCost }: { async?: boolean; maxCost?: number },
+): Promise<A2AToolResult> {
+  if (!pluginCtx || !jobManager || !rateLimiter || !promptModerator) {
+    return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+  }
+  const requester = sessionId ? `a2a:${sessionId}` : "a2a";
+  const moderation = await promptModerator.check(
+    items.map(({ input }) => input.prompt),
+    A2A_MODERATION_SCOPE,
+  );
+  if (moderation.decision === "blocked") {
+    const blocked = await jobManager.submit(items[0].input, { requester }, { moderation });
+    return blockedToolResult(moderation, blocked.id);
+  }
+  // Identical earlier videos cost nothing, so only the rest count against maxCost
+  const cachedUrls = await Promise.all(
+    items.map(({ input, noCache }) => (noCache ? null : (resultCache?.lookup(input) ?? null))),
+  );
+  const cost = totalCost(
+    items.filter((_, index) => !cachedUrls[index]).map(({ input }) => input),
+    creditRate(),
+  );
+  if (maxCost !== undefined && cost > maxCost) return overMaxCostResult(cost, maxCost);
+  const consent = await obtainToolConsent(sessionId, requester, cost, `${items.length} videos`);
+  if (!consent.ok) return consentRefusedResult(consent);
+  try {
+    const manager = jobManager;
+    const batchId = newBatchId();
+    const admitted = await rateLimiter.admit(
+      { requester },
+      async () => {
+        const submitted: VideoJob[] = [];
+        for (const [index, { input, noCache, postProcess }] of items.entries()) {
+          const batch = { id: batchId, index, size: items.length };
+          submitted.push(await manager.submit(input, { requester }, { noCache, batch, postProcess, moderation }));
+        }
+        return submitted;
+      },
+      items.length,
+      cost,
+    );
+    if (!admitted.allowed) return rateLimitedResult(admitted);
+
+    if (async) {
+      const jobs = admitted.value.map((job) => ({ jobId: job.id, status: job.status }));
+      return { content: [{ type: "text", text: JSON.stringify({ batchId, jobs }) }] };
+    }
+
+    const settled = await Promise.all(admitted.value.map(async (job) => (await manager.wait(job.id)) ?? job));
+    const jobs = settled.map((job) => ({
+      jobId: job.id,
+      status: job.status,
+      prompt: job.input.prompt,
+      ...linkable(job.resultUrl, "resultUrl", "resultError"),
+      ...(job.outputs ? { outputs: linkableOutputs(job.outputs) } : {}),
+      ...(job.postProcessError ? { postProcessError: job.postProcessError } : {}),
+      ...(job.status === "failed" || job.status === "cancelled"
+        ? errorPayload(job.status === "cancelled" ? "cancelled" : errorCode(job.error ?? "generation_failed"))
+        : {}),
+    }));
+    return {
+      content: [{ type: "text", text: JSON.stringify({ batchId, jobs }, null, 2) }],
+      ...(settled.some((job) => job.status === "succeeded") ? {} : { isError: true }),
+    };
+  } catch (error: unknown) {
+    pluginCtx.log.error("Video batch generation error", error);
+    return {
+      content: [{ type: "text", text: "Video generation failed. Please try again." }],
+      isError: true,
+    };
+  }
+}
+
+/** Start a storyboard for generate_storyboard and, unless `async` is set, wait for the final video. */
+async function submitToolStoryboard(
+  plan: StoryboardPlan,
+  sessionId: string | undefined,
+  { async, maxCost }: { async?: boolean; maxCost?: number },
+): Promise<A2AToolResult> {
+  if (!pluginCtx || !jobManager || !storyboardRunner || !rateLimiter || !promptModerator) {
+    return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+  }
+  const requester = sessionId ? `a2a:${sessionId}` : "a2a";
+  const moderation = await promptModerator.check(
+    plan.shots.map(({ prompt }) => prompt),
+    A2A_MODERATION_SCOPE,
+  );
+  if (moderation.decision === "blocked") {
+    const blocked = await jobManager.submit(shotInput(plan, plan.shots[0]), { requester }, { moderation });
+    return blockedToolResult(moderation, blocked.id);
+  }
+  const cost = storyboardCost(plan, creditRate());
+  if (maxCost !== undefined && cost > maxCost) return overMaxCostResult(cost, maxCost);
+  const consent = await obtainToolConsent(
+    sessionId,
+    requester,
+    cost,
+    `a ${plan.shots.length}-shot storyboard (approx. ${totalDuration(plan)}s of video at ${plan.aspectRatio})`,
+  );
+  if (!consent.ok) return consentRefusedResult(consent);
+  try {
+    const runner = storyboardRunner;
+    const admitted = await rateLimiter.admit(
+      { requester },
+      () => runner.start(plan, { requester }, moderation),
+      plan.shots.length,
+      cost,
+    );
+    if (!admitted.allowed) return rateLimitedResult(admitted);
+    const started = admitted.value;
+
+    if (async) {
+      return {
+        content: [{ type: "text", text: JSON.stringify({ storyboardId: started.id, status: started.status }) }],
+      };
+    }
+
+    const storyboard = (await runner.wait(started.id)) ?? started;
+    const result = {
+      storyboardId: storyboard.id,
+      status: storyboard.status,
+      ...linkable(storyboard.finalUrl, "finalUrl", "finalError"),
+      ...(storyboard.stitchError ? { stitchError: storyboard.stitchError } : {}),
+      ...(storyboard.error ? { ...errorPayload(errorCode(storyboard.error)), failedShot: storyboard.failedShot } : {}),
+      shots: storyboard.shots.map((shot) => ({
+        prompt: shot.prompt,
+        duration: shot.duration,
+        ...(shot.jobId ? { jobId: shot.jobId } : {}),
+        ...linkable(shot.url, "url", "error"),
+      })),
+    };
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      ...(storyboard.status === "succeeded" ? {} : { isError: true }),
+    };
+  } catch (error: unknown) {
+    pluginCtx.log.error("Storyboard generation error", error);
+    return {
+      content: [{ type: "text", text: "Video generation failed. Please try again." }],
+      isError: true,
+    };
+  }
+}
 
 const plugin: WOPRPlugin = {
   name: "@wopr-network/wopr-plugin-videogen",
@@ -277,17 +2345,15 @@ const plugin: WOPRPlugin = {
     requires: {
       network: {
         outbound: true,
-        hosts: ["api.replicate.com"],
+        hosts: ["api.replicate.com", "api.openai.com"],
       },
     },
     provides: {
-      capabilities: [
-        {
-          type: "video-generation",
-          id: "videogen-replicate",
-          displayName: "Video Generation (Replicate)",
-        },
-      ],
+      capabilities: CAPABILITY_PROVIDERS.map(({ id, name }) => ({
+        type: "video-generation",
+        id,
+        displayName: name,
+      })),
     },
     icon: "🎬",
     category: "creative",
@@ -304,12 +2370,129 @@ const plugin: WOPRPlugin = {
 
     // 1. Register config schema
     ctx.registerConfigSchema("wopr-plugin-videogen", configSchema);
-    const config = ctx.getConfig<VideoGenConfig>();
 
-    // 1b. Register capability provider
-    ctx.registerCapabilityProvider("video-generation", {
-      id: "videogen-replicate",
-      name: "Video Generation (Replicate)",
+    // 1b. Register a capability provider per backend
+    for (const { id, name } of CAPABILITY_PROVIDERS) {
+      ctx.registerCapabilityProvider("video-generation", { id, name });
+    }
+
+    // 1c. Register storage and start the job manager behind the fair scheduler
+    await ctx.storage.register(storageSchema);
+    const limits = () => rateLimitsFromConfig(ctx.getConfig<VideoGenConfig>() ?? {});
+    const queue = new Scheduler({
+      maxConcurrent: () => limits().maxConcurrentGlobal,
+      maxPerSender: () => limits().maxConcurrentPerUser,
+      maxPerChannel: () => limits().maxConcurrentPerChannel,
+      onPosition: (ticket, position) => {
+        deliverQueuePosition(ctx, jobs, ticket, position).catch((error: unknown) =>
+          ctx.log.error(`Failed to send queue position for video job ${ticket.jobId}`, error),
+        );
+      },
+    });
+    scheduler = queue;
+    const cache = new ResultCache({
+      repo: ctx.storage.getRepository<CachedResult>(STORAGE_NAMESPACE, "results"),
+      ttlMs: () => cacheTtlHours(ctx.getConfig<VideoGenConfig>() ?? {}) * 60 * 60 * 1000,
+      log: ctx.log,
+    });
+    resultCache = cache;
+    const media = ffmpegTools(() => ctx.getConfig<VideoGenConfig>()?.ffmpegPath || DEFAULT_FFMPEG_PATH);
+    const delivery = new MediaDelivery({
+      media,
+      rules: () => channelDeliveryFromConfig(ctx.getConfig<VideoGenConfig>()?.deliveryModes),
+      log: ctx.log,
+    });
+    const artifacts = new ArtifactStore({
+      repo: ctx.storage.getRepository<Artifact>(STORAGE_NAMESPACE, "artifacts"),
+      backend: (name) => artifactBackendFromConfig(ctx.getConfig<VideoGenConfig>() ?? {}, ctx.getPluginDir(), name),
+      limits: () => artifactLimitsFromConfig(ctx.getConfig<VideoGenConfig>() ?? {}),
+      log: ctx.log,
+    });
+    artifactStore = artifacts;
+    const expired = await artifacts.prune();
+    if (expired > 0) ctx.log.info(`Deleted ${expired} stored video file(s) past their retention period`);
+    const jobRepo = ctx.storage.getRepository<VideoJob>(STORAGE_NAMESPACE, "jobs");
+    /** Requests sent to a provider directly, so cancelling a job can abort them. */
+    const directRequests = new Map<string, AbortController>();
+    videoHistory = new VideoHistory(jobRepo);
+    const jobs: JobManager = new JobManager({
+      repo: jobRepo,
+      runner: async (job, input) => {
+        // BYOK, custom endpoints, ComfyUI and OpenAI-style servers go straight to the provider
+        const adapter = providerFromConfig(ctx.getConfig<VideoGenConfig>() ?? {}, input.provider);
+        if (adapter) {
+          const controller = new AbortController();
+          directRequests.set(job.id, controller);
+          try {
+            return await adapter.generate(input, controller.signal);
+          } finally {
+            directRequests.delete(job.id);
+          }
+        }
+        // Otherwise route through socket layer via ctx.inject as a capability request
+        // The socket layer handles: credit check, adapter routing, billing
+        // Plugin contains ZERO billing logic
+        return requestVideo(ctx, input, {
+          from: job.requester,
+          ...(job.channelId && job.channelType
+            ? { channel: { type: job.channelType, id: job.channelId, name: "video-command" } }
+            : {}),
+        });
+      },
+      log: ctx.log,
+      onSettled: (job) => deliverJobResult(ctx, jobs, delivery, job),
+      scheduler: queue,
+      cache,
+      abort: (job, sole) => {
+        const direct = directRequests.get(job.id);
+        // Cancelling the socket session would take every other job's request with it
+        if (!direct) return sole && ctx.cancelInject(CAPABILITY_SESSION);
+        direct.abort();
+        return true;
+      },
+      postProcess: (job, videoUrl) =>
+        processVideo(media, videoUrl, job.postProcess ?? {}, join(ctx.getPluginDir(), "outputs", job.id)),
+      artifacts,
+      failover: () => failoverPolicyFromConfig(ctx.getConfig<VideoGenConfig>() ?? {}),
+      price: (input) => estimateCost(input, creditsPerSecondFromConfig(ctx.getConfig<VideoGenConfig>() ?? {})),
+    });
+    jobManager = jobs;
+    rateLimiter = new RateLimiter({
+      events: ctx.storage.getRepository<RateEvent>(STORAGE_NAMESPACE, "rate_events"),
+      countActive: (filter) => jobs.countActive(filter),
+      limits,
+      budgets: () => dailyBudgetsFromConfig(ctx.getConfig<VideoGenConfig>() ?? {}),
+      spent: (filter, since) => jobs.spentSince(filter, since),
+    });
+    const interrupted = await jobs.recover();
+    if (interrupted > 0) ctx.log.warn(`Marked ${interrupted} interrupted video job(s) as failed`);
+    const storyboards = new StoryboardRunner({
+      repo: ctx.storage.getRepository<Storyboard>(STORAGE_NAMESPACE, "storyboards"),
+      jobs,
+      media,
+      outputDir: () => join(ctx.getPluginDir(), "storyboards"),
+      log: ctx.log,
+      onSettled: (storyboard) => deliverStoryboardResult(ctx, delivery, storyboard),
+      artifacts,
+    });
+    storyboardRunner = storyboards;
+    promptModerator = new Moderator({
+      checks: [localModeration, capabilityModeration(ctx, ctx.log)],
+      settings: () => moderationSettingsFromConfig(ctx.getConfig<VideoGenConfig>() ?? {}),
+    });
+    presetStore = new PresetStore({ repo: ctx.storage.getRepository<Preset>(STORAGE_NAMESPACE, "presets") });
+    const interruptedStoryboards = await storyboards.recover();
+    if (interruptedStoryboards > 0) {
+      ctx.log.warn(`Marked ${interruptedStoryboards} interrupted storyboard(s) as failed`);
+    }
+
+    // 1d. Report queue depth so operators can see when requests back up
+    ctx.registerHealthProbe("videogen-queue", async () => {
+      const { maxQueueLength } = limits();
+      return {
+        healthy: maxQueueLength === 0 || queue.depth < maxQueueLength,
+        details: { queued: queue.depth, running: queue.running, maxQueueLength },
+      };
     });
 
     // 2. Register A2A tools for AI agents
@@ -322,81 +2505,264 @@ const plugin: WOPRPlugin = {
             name: "generate_video",
             description:
               "Generate a video from a text prompt. Returns a URL to the generated video. " +
-              "Video generation takes 30s-2min. Credit checks are enforced by the socket layer — " +
+              "Video generation takes 30s-2min; pass async=true to get a job ID back immediately and poll " +
+              "it with get_video_job. An identical recent request returns its cached video without spending " +
+              "credits unless noCache=true. Pass maxCost to refuse requests estimated to cost more credits than that. " +
+              "Credit checks are enforced by the socket layer — " +
               "no interactive confirmation is required from the caller; ensure the user has consented " +
               "before invoking this tool.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                prompt: {
-                  type: "string",
-                  description: "Text description of the video to generate",
-                },
-                model: {
-                  type: "string",
-                  description: "Video model to use (minimax-video, wan-2.1, kling-1.6, luma-ray2)",
-                },
-                duration: {
-                  type: "number",
-                  description: "Video duration in seconds (3, 5, or 10)",
-                },
-                aspectRatio: {
-                  type: "string",
-                  description: "Aspect ratio (16:9, 9:16, 1:1)",
-                },
-                sessionId: {
-                  type: "string",
-                  description: "Session ID for context",
-                },
-              },
-              required: ["prompt"],
+            inputSchema: toInputSchema(generateVideoInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!pluginCtx || !jobManager || !rateLimiter) {
+                return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+              }
+
+              const input = generateVideoInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const { noCache, sessionId } = input.data;
+              const spec = await presetSpec(input.data);
+              if (!spec.ok) return invalidParamsResult({ field: "preset", message: spec.error });
+
+              const video = specInput(spec.value, pluginCtx.getConfig<VideoGenConfig>());
+              const paramsIssue = validateModelParams(video.model, video);
+              if (paramsIssue) return invalidParamsResult(paramsIssue);
+
+              return submitToolJob(video, sessionId, {
+                noCache,
+                postProcess: postProcessOptions(input.data),
+                async: input.data.async,
+                maxCost: input.data.maxCost,
+              });
             },
+          },
+          {
+            name: "generate_video_batch",
+            description:
+              `Generate up to ${MAX_BATCH_SIZE} videos in one request — e.g. variations of a prompt with ` +
+              "different seeds, or every shot of a storyboard. Each spec takes the same fields as " +
+              "generate_video. Returns each job's result URL, or with async=true the job IDs to poll with " +
+              "get_video_job. The whole batch is checked against the rate limits up front and consumes " +
+              "credits for every video.",
+            inputSchema: toInputSchema(generateVideoBatchInputSchema),
             async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
-              if (!pluginCtx) {
+              const input = generateVideoBatchInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+
+              const specs = [];
+              for (const [index, spec] of input.data.specs.entries()) {
+                const applied = await presetSpec(spec);
+                if (!applied.ok) return invalidParamsResult({ field: `specs.${index}.preset`, message: applied.error });
+                specs.push(applied.value);
+              }
+              const config = pluginCtx?.getConfig<VideoGenConfig>();
+              const items = specs.map((spec) => ({
+                input: specInput(spec, config),
+                noCache: spec.noCache,
+                postProcess: postProcessOptions(spec),
+              }));
+              for (const [index, { input: video, postProcess }] of items.entries()) {
+                const issue =
+                  validateModelParams(video.model, video) ??
+                  trimIssue(postProcess, video.duration) ??
+                  providerIssue(config ?? {}, video.provider);
+                if (issue) return invalidParamsResult({ ...issue, field: `specs.${index}.${issue.field}` });
+              }
+
+              const { sessionId, async, maxCost } = input.data;
+              return submitToolBatch(items, sessionId, { async, maxCost });
+            },
+          },
+          {
+            name: "generate_storyboard",
+            description:
+              `Generate a multi-shot video: up to ${MAX_STORYBOARD_SHOTS} shots rendered in order, each with its ` +
+              "own prompt, duration and optional reference image, then joined into one video. On models that " +
+              "accept images a shot without its own image starts from the previous shot's last frame " +
+              "(carryFrames=false turns this off). Returns the final video URL and every shot's URL, or with " +
+              "async=true the storyboard ID to poll with get_video_job. Consumes credits for every shot.",
+            inputSchema: toInputSchema(generateStoryboardInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!pluginCtx || !storyboardRunner || !rateLimiter) {
                 return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
               }
 
-              const prompt = args.prompt as string;
-              const model = (args.model as string | undefined) ?? config?.model ?? "minimax-video";
-              const duration = (args.duration as number | undefined) ?? Number(config?.duration ?? "5");
-              const aspectRatio = (args.aspectRatio as string | undefined) ?? config?.aspectRatio ?? "16:9";
-
-              // A2A callers are AI agents acting on behalf of users who have already consented
-              // at the orchestration level (e.g. the human approved the agent task). There is no
-              // interactive user present to respond to a __confirm__ prompt, so we skip that step
-              // here. The socket layer still enforces credit checks and will return
-              // "insufficient_credits" if the account cannot cover the cost.
-              try {
-                const capabilityRequest = JSON.stringify({
-                  capability: "video-generation",
-                  input: {
-                    prompt,
-                    model,
-                    duration,
-                    aspectRatio,
-                    ...(config?.apiKey ? { apiKey: config.apiKey } : {}),
-                  },
-                });
-
-                const raw = await pluginCtx.inject("__capability__", capabilityRequest, { silent: true });
-                const result = parseSocketResponse(raw);
-
-                if (result.error) {
-                  pluginCtx.log.error("Video generation API error", result.error);
-                  return {
-                    content: [{ type: "text", text: "Video generation failed. Please try again." }],
-                    isError: true,
-                  };
-                }
-
-                return { content: [{ type: "text", text: result.url ?? "No URL returned" }] };
-              } catch (error: unknown) {
-                pluginCtx.log.error("Video generation error", error);
+              const input = generateStoryboardInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const { async, sessionId, maxCost, ...spec } = input.data;
+
+              const config = pluginCtx.getConfig<VideoGenConfig>();
+              const plan = planStoryboard(spec, {
+                model: config?.model ?? DEFAULT_MODEL_ID,
+                duration: Number(config?.duration ?? "5"),
+                aspectRatio: config?.aspectRatio ?? "16:9",
+              });
+              const issue = storyboardIssue(plan);
+              if (issue) return invalidParamsResult(issue);
+
+              return submitToolStoryboard(plan, sessionId, { async, maxCost });
+            },
+          },
+          {
+            name: "remix_video",
+            description:
+              "Re-run an earlier video job with changes. Every parameter left out is taken from the original " +
+              "job; the seed is only reused if given again, so an unchanged remix is a fresh variation. " +
+              "Waits for the video like generate_video unless async=true. Consumes credits like generate_video.",
+            inputSchema: toInputSchema(remixVideoInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!jobManager) {
+                return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+              }
+
+              const input = remixVideoInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const { jobId, sessionId, async, maxCost, noCache: _, format, loop, trim, ...overrides } = input.data;
+
+              const original = await jobManager.get(jobId);
+              if (!original || !isA2AVisible(original)) return jobNotFoundResult(jobId);
+
+              const remixed = remixInput(original.input, overrides);
+              const paramsIssue = validateModelParams(remixed.model, remixed);
+              if (paramsIssue) return invalidParamsResult(paramsIssue);
+
+              return submitToolJob(remixed, sessionId, {
+                noCache: true,
+                derivedFrom: { kind: "remix", parentId: original.id },
+                postProcess: postProcessOptions({ format, loop, trim }),
+                async,
+                maxCost,
+              });
+            },
+          },
+          {
+            name: "extend_video",
+            description:
+              "Continue a finished video from its last frame, keeping its aspect ratio. The prompt describes " +
+              "what happens next and defaults to the original's. Only some models can extend — see " +
+              "list_video_models (extension: true). Waits for the video unless async=true. Consumes credits.",
+            inputSchema: toInputSchema(extendVideoInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!jobManager) {
+                return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+              }
+
+              const input = extendVideoInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const { jobId, sessionId, async, maxCost, noCache, format, loop, trim, ...overrides } = input.data;
+
+              const original = await jobManager.get(jobId);
+              if (!original || !isA2AVisible(original)) return jobNotFoundResult(jobId);
+              const sourceError = extendSourceError(original);
+              if (sourceError) return invalidParamsResult({ field: "jobId", message: sourceError });
+
+              const extended = extendInput(original, overrides);
+              const paramsIssue = validateModelParams(extended.model, extended);
+              if (paramsIssue) return invalidParamsResult(paramsIssue);
+
+              return submitToolJob(extended, sessionId, {
+                noCache,
+                derivedFrom: { kind: "extend", parentId: original.id },
+                postProcess: postProcessOptions({ format, loop, trim }),
+                async,
+                maxCost,
+              });
+            },
+          },
+          {
+            name: "get_video_job",
+            description:
+              "Get the status and result URL of a video generation job started with generate_video, or of a " +
+              "storyboard started with generate_storyboard",
+            inputSchema: toInputSchema(jobIdInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!jobManager) {
+                return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+              }
+              const input = jobIdInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const { jobId } = input.data;
+              const job = await jobManager.get(jobId);
+              if (job) return isA2AVisible(job) ? jobToolResult(job) : jobNotFoundResult(jobId);
+              const storyboard = await storyboardRunner?.get(jobId);
+              if (!storyboard || !isA2AVisible(storyboard)) return jobNotFoundResult(jobId);
+              return { content: [{ type: "text", text: JSON.stringify(storyboardToolView(storyboard), null, 2) }] };
+            },
+          },
+          {
+            name: "cancel_video",
+            description:
+              "Cancel a video generation job started with generate_video. If the render had already started " +
+              "the result reports partial=true, meaning credits may have been consumed.",
+            inputSchema: toInputSchema(jobIdInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!jobManager) {
+                return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+              }
+              const input = jobIdInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const { jobId } = input.data;
+              const job = await jobManager.get(jobId);
+              if (!job || !isA2AVisible(job)) return jobNotFoundResult(jobId);
+              if (isTerminal(job.status)) {
+                return {
+                  content: [{ type: "text", text: `Video job ${job.id} is already ${job.status}` }],
+                  isError: true,
+                };
+              }
+              return jobToolResult((await jobManager.cancel(job.id)) ?? job);
+            },
+          },
+          {
+            name: "list_video_history",
+            description:
+              "Search earlier video generations made through A2A — prompt, parameters, model, requester, " +
+              "timestamps, outcome and result URL. Check here for a matching succeeded video before paying to generate " +
+              "a new one.",
+            inputSchema: toInputSchema(listVideoHistoryInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!videoHistory) {
+                return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+              }
+              const input = listVideoHistoryInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const { query, model, status, limit } = input.data;
+              // Chat users' requests stay private to chat, as in get_video_job
+              const entries = await videoHistory.find({ text: query, model, status, limit, requesterPrefix: "a2a" });
+              const visible = entries.map((job) => {
+                const { resultUrl: _, ...entry } = historyEntry(job);
+                return {
+                  ...entry,
+                  ...linkable(job.resultUrl, "resultUrl", "resultError"),
+                  ...(job.outputs ? { outputs: linkableOutputs(job.outputs) } : {}),
+                };
+              });
+              return { content: [{ type: "text", text: JSON.stringify(visible, null, 2) }] };
+            },
+          },
+          {
+            name: "enhance_video_prompt",
+            description:
+              "Rewrite a short video prompt into a detailed cinematic description in the style the target model " +
+              "responds to best. Generates nothing and uses no video credits; pass the result to generate_video.",
+            inputSchema: toInputSchema(enhanceVideoPromptInputSchema),
+            async handler(args: Record<string, unknown>): Promise<A2AToolResult> {
+              if (!pluginCtx) {
+                return { content: [{ type: "text", text: "Plugin not initialized" }], isError: true };
+              }
+              const input = enhanceVideoPromptInputSchema.safeParse(args);
+              if (!input.success) return invalidInputResult(input.error);
+              const model = input.data.model ?? pluginCtx.getConfig<VideoGenConfig>()?.model ?? DEFAULT_MODEL_ID;
+              const enhanced = await enhancePrompt(pluginCtx, input.data.prompt, getModel(model));
+              if (!enhanced.ok) {
                 return {
-                  content: [{ type: "text", text: "Video generation failed. Please try again." }],
+                  content: [
+                    { type: "text", text: JSON.stringify({ error: "enhance_unavailable", message: enhanced.error }) },
+                  ],
                   isError: true,
                 };
               }
+              const result = { prompt: input.data.prompt, enhanced: enhanced.value, model };
+              return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
             },
           },
           {
@@ -407,13 +2773,7 @@ const plugin: WOPRPlugin = {
               properties: {},
             },
             async handler(): Promise<A2AToolResult> {
-              const models = [
-                { id: "minimax-video", name: "Minimax Video-01", speed: "fast", quality: "good" },
-                { id: "wan-2.1", name: "Wan 2.1", speed: "slow", quality: "high" },
-                { id: "kling-1.6", name: "Kling 1.6", speed: "medium", quality: "cinematic" },
-                { id: "luma-ray2", name: "Luma Ray2", speed: "medium", quality: "photorealistic" },
-              ];
-              return { content: [{ type: "text", text: JSON.stringify(models, null, 2) }] };
+              return { content: [{ type: "text", text: JSON.stringify(modelCatalog(), null, 2) }] };
             },
           },
           {
@@ -425,6 +2785,7 @@ const plugin: WOPRPlugin = {
             },
             async handler(): Promise<A2AToolResult> {
               const currentConfig = pluginCtx?.getConfig<VideoGenConfig>() ?? {};
+              const { blocklist, ...moderation } = moderationSettingsFromConfig(currentConfig);
               return {
                 content: [
                   {
@@ -432,10 +2793,25 @@ const plugin: WOPRPlugin = {
                     text: JSON.stringify(
                       {
                         provider: currentConfig.provider ?? "replicate",
-                        model: currentConfig.model ?? "minimax-video",
+                        model: currentConfig.model ?? DEFAULT_MODEL_ID,
                         duration: currentConfig.duration ?? "5",
                         aspectRatio: currentConfig.aspectRatio ?? "16:9",
                         byokConfigured: !!currentConfig.apiKey,
+                        route: describeRoute(currentConfig),
+                        failover: failoverPolicyFromConfig(currentConfig),
+                        consent: consentPolicyFromConfig(currentConfig),
+                        moderation: { ...moderation, blocklist: blocklist.map(String) },
+                        presets: ((await presetStore?.list()) ?? []).map(({ name }) => name),
+                        cacheTtlHours: cacheTtlHours(currentConfig),
+                        delivery: channelDeliveryFromConfig(currentConfig.deliveryModes),
+                        storage: {
+                          backend: currentConfig.artifactBackend || "local",
+                          ...artifactLimitsFromConfig(currentConfig),
+                          ...(await artifactStore?.usage()),
+                        },
+                        limits: rateLimitsFromConfig(currentConfig),
+                        creditsPerSecond: creditsPerSecondFromConfig(currentConfig),
+                        dailyBudgets: dailyBudgetsFromConfig(currentConfig),
                       },
                       null,
                       2,
@@ -453,15 +2829,7 @@ const plugin: WOPRPlugin = {
     // 3. Register /video command on all available channel providers
     const channelProviders = ctx.getChannelProviders();
     for (const provider of channelProviders) {
-      provider.registerCommand({
-        name: "video",
-        description: "Generate a video from a text prompt",
-        async handler(cmdCtx: ChannelCommandContext) {
-          if (!pluginCtx) return;
-          const currentConfig = pluginCtx.getConfig<VideoGenConfig>();
-          await handleVideoCommand(cmdCtx, pluginCtx, currentConfig);
-        },
-      });
+      provider.registerCommand(videoCommand(provider.id));
       registeredProviderIds.push(provider.id);
       ctx.log.info(`Registered /video command on ${provider.id} channel`);
     }
@@ -474,15 +2842,7 @@ const plugin: WOPRPlugin = {
       const providers = pluginCtx.getChannelProviders();
       for (const provider of providers) {
         if (!registeredProviderIds.includes(provider.id)) {
-          provider.registerCommand({
-            name: "video",
-            description: "Generate a video from a text prompt",
-            async handler(cmdCtx: ChannelCommandContext) {
-              if (!pluginCtx) return;
-              const currentConfig = pluginCtx.getConfig<VideoGenConfig>();
-              await handleVideoCommand(cmdCtx, pluginCtx, currentConfig);
-            },
-          });
+          provider.registerCommand(videoCommand(provider.id));
           registeredProviderIds.push(provider.id);
           pluginCtx.log.info(`Registered /video command on late-joining ${provider.id} channel`);
         }
@@ -509,12 +2869,30 @@ const plugin: WOPRPlugin = {
     }
     registeredProviderIds.length = 0;
 
-    // Unregister capability provider
-    pluginCtx.unregisterCapabilityProvider("video-generation", "videogen-replicate");
+    // Let in-flight renders finish within the drain window, then cancel the rest
+    if (jobManager) {
+      await jobManager.drain(SHUTDOWN_DRAIN_MS);
+    }
+
+    // Unregister capability providers
+    for (const { id } of CAPABILITY_PROVIDERS) {
+      pluginCtx.unregisterCapabilityProvider("video-generation", id);
+    }
 
     // Unregister config schema
     pluginCtx.unregisterConfigSchema("wopr-plugin-videogen");
 
+    jobManager = null;
+    rateLimiter = null;
+    scheduler = null;
+    resultCache = null;
+    videoHistory = null;
+    storyboardRunner = null;
+    artifactStore = null;
+    promptModerator = null;
+    presetStore = null;
+    deliveredBatches.clear();
+    approvals.clear();
     pluginCtx = null;
   },
 };
@@ -0,0 +1,486 @@
+/**
+ * Video job manager.
+ *
+ * Every generation request becomes a job with a short ID. Jobs are persisted
+ * through ctx.storage so `/video status` and the `get_video_job` A2A tool can
+ * report on them, and they run in the background so command handlers return
+ * immediately instead of blocking for the whole render.
+ */
+
+import { randomBytes } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+import { z } from "zod";
+import { type ArtifactStore, isHostOnlyUrl } from "./artifacts.js";
+import type { CacheOutcome, ResultCache } from "./cache.js";
+import type { CapabilityResult, VideoGenerationInput } from "./capability.js";
+import { type ErrorCode, errorCode } from "./errors.js";
+import {
+  attemptPlan,
+  backoffDelay,
+  canFallBack,
+  type FailoverPolicy,
+  type JobAttempt,
+  jobAttemptSchema,
+  NO_FAILOVER,
+  shouldRetry,
+  substituteAttempt,
+} from "./failover.js";
+import { type ModerationRecord, moderationRecordSchema } from "./moderation.js";
+import { type JobOutput, jobOutputSchema, type PostProcessOptions, postProcessSchema } from "./postprocess.js";
+import type { Scheduler } from "./scheduler.js";
+import type { ChannelRef, PluginLogger, Repository } from "./types.js";
+
+// ============================================================================
+// Job record
+// ============================================================================
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const videoJobSchema = z.object({
+  id: z.string(),
+  status: z.enum(JOB_STATUSES),
+  input: z.object({
+    prompt: z.string(),
+    model: z.string(),
+    duration: z.number(),
+    aspectRatio: z.string(),
+    resolution: z.string().optional(),
+    image: z.string().optional(),
+    negativePrompt: z.string().optional(),
+    seed: z.number().optional(),
+    extendVideo: z.string().optional(),
+    provider: z.string().optional(),
+  }),
+  requester: z.string(),
+  channelProvider: z.string().optional(),
+  channelId: z.string().optional(),
+  channelType: z.string().optional(),
+  resultUrl: z.string().optional(),
+  error: z.string().optional(),
+  /** Cancelled after the capability request was dispatched — credits may have been consumed. */
+  partial: z.boolean().optional(),
+  /** Skip the result cache and always generate a new video. */
+  noCache: z.boolean().optional(),
+  /** Served from the result cache or an identical in-flight request — no credits were spent. */
+  cached: z.boolean().optional(),
+  /** How the job relates to `parentId`: a remix re-runs it with changes, an extend continues it. */
+  kind: z.enum(["remix", "extend"]).optional(),
+  parentId: z.string().optional(),
+  /** Jobs submitted together by one batch request, and this job's place in it. */
+  batchId: z.string().optional(),
+  batchIndex: z.number().optional(),
+  batchSize: z.number().optional(),
+  /** The storyboard this job renders a shot of. */
+  storyboardId: z.string().optional(),
+  /** Conversions to run on the provider's video once it arrives. */
+  postProcess: postProcessSchema.optional(),
+  /** Files produced from `resultUrl` by post-processing. */
+  outputs: z.array(jobOutputSchema).optional(),
+  /** Why post-processing failed; the job still succeeds with `resultUrl`. */
+  postProcessError: z.string().optional(),
+  /** Every request made for the job, including retries and fallbacks, in order. */
+  attempts: z.array(jobAttemptSchema).optional(),
+  /** Estimated credits, recorded when the job was accepted (see cost.ts). */
+  cost: z.number().optional(),
+  /** The prompt moderation decision made before the job was accepted (see moderation.ts). */
+  moderation: moderationRecordSchema.optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  completedAt: z.number().optional(),
+});
+
+export type VideoJob = z.infer<typeof videoJobSchema>;
+
+/** Where a job came from — used to deliver the result back. */
+export interface JobOrigin {
+  requester: string;
+  channelProvider?: string;
+  channel?: ChannelRef;
+}
+
+export interface SubmitOptions {
+  noCache?: boolean;
+  /** The earlier job this one was derived from. */
+  derivedFrom?: { kind: "remix" | "extend"; parentId: string };
+  /** The batch this job belongs to; `size` is the total number of jobs in it. */
+  batch?: { id: string; index: number; size: number };
+  storyboardId?: string;
+  postProcess?: PostProcessOptions;
+  /** Recorded on the job. A blocked prompt is stored as a failed job and never runs. */
+  moderation?: ModerationRecord;
+}
+
+/** Executes one capability request for a job — `input` differs from the job's on fallback attempts. */
+export type JobRunner = (job: VideoJob, input: VideoGenerationInput) => Promise<CapabilityResult>;
+
+/** Produces a job's post-processing outputs from its provider video. */
+export type PostProcessor = (job: VideoJob, videoUrl: string) => Promise<JobOutput[]>;
+
+/** Called once a job reaches a terminal state. */
+export type JobListener = (job: VideoJob) => Promise<void>;
+
+export interface JobManagerOptions {
+  repo: Repository<VideoJob>;
+  runner: JobRunner;
+  log: PluginLogger;
+  onSettled?: JobListener;
+  /** Queues capability requests fairly behind the global concurrency limit. Jobs run immediately without one. */
+  scheduler?: Scheduler;
+  /** Serves repeat requests from earlier results and merges identical in-flight ones. */
+  cache?: ResultCache;
+  /**
+   * Abort the job's pending capability request; never called for a request
+   * other jobs are sharing. `sole` says whether it is the only request in
+   * flight: ctx.cancelInject works on the whole capability session, so socket
+   * requests can only be aborted then, while requests sent to a provider
+   * directly have their own signal. Returns true if the request was actually
+   * aborted.
+   */
+  abort?: (job: VideoJob, sole: boolean) => boolean;
+  /** Runs the conversions jobs ask for. Without one, `postProcess` is ignored. */
+  postProcess?: PostProcessor;
+  /** Keeps durable copies of results, so jobs hand out stored URLs rather than expiring provider ones. */
+  artifacts?: ArtifactStore;
+  /** Read for every job so config changes apply without a restart. One attempt per job without it. */
+  failover?: () => FailoverPolicy;
+  /** Estimates a job's credit cost when it is accepted, so daily budgets can count it. */
+  price?: (input: VideoGenerationInput) => number;
+}
+
+export function isTerminal(status: JobStatus): boolean {
+  return status === "succeeded" || status === "failed" || status === "cancelled";
+}
+
+function newJobId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+// ============================================================================
+// JobManager
+// ============================================================================
+
+export class JobManager {
+  private readonly inFlight = new Map<string, Promise<VideoJob>>();
+  /** Jobs whose capability request has actually been sent (past the scheduler queue). */
+  private readonly dispatched = new Set<string>();
+  private readonly repo: Repository<VideoJob>;
+  private readonly runner: JobRunner;
+  private readonly log: PluginLogger;
+  private readonly onSettled?: JobListener;
+  private readonly scheduler?: Scheduler;
+  private readonly cache?: ResultCache;
+  private readonly abort?: (job: VideoJob, sole: boolean) => boolean;
+  private readonly postProcess?: PostProcessor;
+  private readonly artifacts?: ArtifactStore;
+  private readonly failover?: () => FailoverPolicy;
+  private readonly price?: (input: VideoGenerationInput) => number;
+
+  constructor(options: JobManagerOptions) {
+    this.repo = options.repo;
+    this.runner = options.runner;
+    this.log = options.log;
+    this.onSettled = options.onSettled;
+    this.scheduler = options.scheduler;
+    this.cache = options.cache;
+    this.abort = options.abort;
+    this.postProcess = options.postProcess;
+    this.artifacts = options.artifacts;
+    this.failover = options.failover;
+    this.price = options.price;
+  }
+
+  /** Number of jobs currently executing in this process. */
+  get activeCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Persist a new job and start it in the background. Jobs whose prompt
+   * moderation blocked are stored as failed and not run.
+   */
+  async submit(input: VideoGenerationInput, origin: JobOrigin, options: SubmitOptions = {}): Promise<VideoJob> {
+    const now = Date.now();
+    const blocked = options.moderation?.decision === "blocked";
+    const job = await this.repo.insert({
+      id: newJobId(),
+      status: blocked ? "failed" : "queued",
+      input,
+      requester: origin.requester,
+      ...(origin.channelProvider ? { channelProvider: origin.channelProvider } : {}),
+      ...(origin.channel ? { channelId: origin.channel.id, channelType: origin.channel.type } : {}),
+      ...(options.noCache ? { noCache: true } : {}),
+      ...(options.derivedFrom ?? {}),
+      ...(options.batch
+        ? { batchId: options.batch.id, batchIndex: options.batch.index, batchSize: options.batch.size }
+        : {}),
+      ...(options.storyboardId ? { storyboardId: options.storyboardId } : {}),
+      ...(options.postProcess ? { postProcess: options.postProcess } : {}),
+      ...(this.price && !blocked ? { cost: this.price(input) } : {}),
+      ...(options.moderation ? { moderation: options.moderation } : {}),
+      ...(blocked ? { error: "prompt_blocked", completedAt: now } : {}),
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (blocked) return job;
+
+    const run = this.run(job)
+      .catch((error: unknown) => {
+        this.log.error(`Video job ${job.id} could not be recorded`, error);
+        return job;
+      })
+      .finally(() => this.inFlight.delete(job.id));
+    this.inFlight.set(job.id, run);
+    return job;
+  }
+
+  async get(id: string): Promise<VideoJob | null> {
+    return this.repo.findById(id);
+  }
+
+  /** Most recent jobs for a requester, newest first. */
+  async listFor(requester: string, limit = 10): Promise<VideoJob[]> {
+    return this.repo.query().where({ requester }).orderBy("createdAt", "desc").limit(limit).execute();
+  }
+
+  /** Every job of a batch submitted so far, in batch order. */
+  async listBatch(batchId: string): Promise<VideoJob[]> {
+    return this.repo.query().where({ batchId }).orderBy("batchIndex", "asc").execute();
+  }
+
+  /** Resolve once the job settles. Returns the stored record for jobs not running here. */
+  async wait(id: string): Promise<VideoJob | null> {
+    return (await this.inFlight.get(id)) ?? this.repo.findById(id);
+  }
+
+  /** The requester's most recent job that has not finished yet. */
+  async latestActiveFor(requester: string): Promise<VideoJob | null> {
+    const [job] = await this.repo
+      .query()
+      .where({ requester, status: { $in: ["queued", "running"] } })
+      .orderBy("createdAt", "desc")
+      .limit(1)
+      .execute();
+    return job ?? null;
+  }
+
+  /** Number of queued or running jobs, optionally narrowed to a requester or channel. */
+  async countActive(filter: { requester?: string; channelId?: string } = {}): Promise<number> {
+    return this.repo.count({ ...filter, status: { $in: ["queued", "running"] } });
+  }
+
+  /**
+   * Estimated credits of the matching jobs created since `since` that spent,
+   * or may still spend, credits: not cached, not failed, and not cancelled
+   * before their render started.
+   */
+  async spentSince(filter: { requester?: string; channelId?: string }, since: number): Promise<number> {
+    const jobs = await this.repo.findMany({ ...filter, createdAt: { $gte: since } });
+    return jobs
+      .filter((job: VideoJob) => !job.cached && job.status !== "failed" && (job.status !== "cancelled" || job.partial))
+      .reduce((sum: number, job: VideoJob) => sum + (job.cost ?? 0), 0);
+  }
+
+  /**
+   * Cancel a job. Queued jobs are simply dropped (and leave the scheduler queue); running jobs have their
+   * capability request aborted where possible and are flagged `partial`,
+   * because the provider may already have started (and billed) the render.
+   * Returns the updated record, the unchanged record if it had already
+   * finished, or null if there is no such job.
+   */
+  async cancel(id: string, reason = "cancelled", notify = false): Promise<VideoJob | null> {
+    const job = await this.repo.findById(id);
+    if (!job || isTerminal(job.status)) return job;
+
+    const wasRunning = job.status === "running";
+    this.scheduler?.remove(id);
+    const cancelled = await this.update(id, {
+      status: "cancelled",
+      error: reason,
+      ...(wasRunning ? { partial: true } : {}),
+      completedAt: Date.now(),
+    });
+
+    // Never abort a request other jobs are sharing
+    const shared = this.cache?.isShared(job.input) ?? false;
+    const sole = this.dispatched.size === 1 && this.dispatched.has(id);
+    if (wasRunning && this.abort && !shared) {
+      if (!this.abort(cancelled, sole)) {
+        this.log.warn(`Video job ${id} could not be aborted; the render may still complete upstream`);
+      }
+    }
+    // A request we could not abort may never return — don't let it hold up drain()
+    this.inFlight.delete(id);
+
+    if (notify) await this.notify(cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Wait up to `timeoutMs` for in-flight jobs to finish, then cancel whatever
+   * is still running so its requester is told instead of left hanging.
+   */
+  async drain(timeoutMs: number): Promise<void> {
+    if (this.inFlight.size === 0) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    });
+    await Promise.race([Promise.allSettled([...this.inFlight.values()]), deadline]);
+    clearTimeout(timer);
+
+    for (const id of [...this.inFlight.keys()]) {
+      await this.cancel(id, "shutdown", true);
+    }
+  }
+
+  /**
+   * Mark jobs left queued or running by a previous process as failed — their
+   * capability requests died with it and will never report back.
+   */
+  async recover(): Promise<number> {
+    const stale = await this.repo.findMany({ status: { $in: ["queued", "running"] } });
+    const orphaned = stale.filter((job: VideoJob) => !this.inFlight.has(job.id));
+    for (const job of orphaned) {
+      await this.update(job.id, { status: "failed", error: "interrupted", completedAt: Date.now() });
+    }
+    return orphaned.length;
+  }
+
+  /** Post-process a finished video. A failure is recorded on the job but doesn't fail it. */
+  private async processOutputs(job: VideoJob, videoUrl: string): Promise<Partial<VideoJob>> {
+    if (!job.postProcess || !this.postProcess) return {};
+    try {
+      const outputs = await this.postProcess(job, videoUrl);
+      if (!this.artifacts) return { outputs };
+      const stored: JobOutput[] = [];
+      for (const output of outputs) {
+        const url = await this.artifacts.keep(job.id, output.url, `${output.kind}.${output.format}`, { move: true });
+        stored.push({ ...output, url });
+      }
+      return { outputs: stored };
+    } catch (error: unknown) {
+      this.log.warn(`Post-processing failed for video job ${job.id}`, error);
+      return { postProcessError: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Work through the job's attempt plan until one succeeds or an error rules
+   * out further tries, recording each attempt on the job as it finishes.
+   */
+  private async attempt(job: VideoJob): Promise<CacheOutcome> {
+    const policy = this.failover?.() ?? NO_FAILOVER;
+    const attempts: JobAttempt[] = [];
+    let result: CapabilityResult = { error: "generation_failed", code: "generation_failed" };
+    for (const input of attemptPlan(job.input, policy)) {
+      for (let retry = 0; ; retry++) {
+        if (attempts.length > 0 && (await this.repo.findById(job.id))?.status === "cancelled") return result;
+        const startedAt = Date.now();
+        try {
+          result = await this.runner(job, input);
+        } catch (error: unknown) {
+          // A cancelled job's request is aborted on purpose; anything else is a failed attempt
+          if ((await this.repo.findById(job.id))?.status === "cancelled") throw error;
+          result = { error: error instanceof Error ? error.message : String(error) };
+        }
+        const code = result.error ? (result.code ?? errorCode(result.error)) : undefined;
+        attempts.push({
+          model: input.model,
+          ...(input.provider ? { provider: input.provider } : {}),
+          startedAt,
+          finishedAt: Date.now(),
+          ...(result.error ? { error: result.error, code } : {}),
+        });
+        await this.update(job.id, { attempts });
+        if (!code) return substituteAttempt(job.input, attempts) ? { ...result, substitute: true } : result;
+        result = { ...result, code };
+        if (!canFallBack(code)) return result;
+        if (!shouldRetry(code) || retry >= policy.retries) break;
+        const delay = backoffDelay(policy, retry);
+        this.log.warn(`Video job ${job.id} attempt failed (${result.error}); retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+    return result;
+  }
+
+  private async run(job: VideoJob): Promise<VideoJob> {
+    let settled: VideoJob;
+    try {
+      const start = async (): Promise<CacheOutcome | null> => {
+        const current = await this.repo.findById(job.id);
+        if (current?.status === "cancelled") return null;
+        await this.update(job.id, { status: "running" });
+        this.dispatched.add(job.id);
+        let result: CacheOutcome;
+        try {
+          result = await this.attempt(job);
+        } finally {
+          this.dispatched.delete(job.id);
+        }
+        // Stored before the cache sees it, so repeat requests get the durable copy too. Adapters
+        // that have to download the video themselves hand over a scratch file, which is moved in.
+        if (!result.url || result.error) return result;
+        const url = this.artifacts
+          ? await this.artifacts.keep(job.id, result.url, "original.mp4", { move: true })
+          : result.url;
+        // Still the provider's URL: the cache mustn't hand it out after it expires
+        const transient = url === result.url && !isHostOnlyUrl(url);
+        return { ...result, url, ...(transient ? { transient } : {}) };
+      };
+      const ticket = { jobId: job.id, requester: job.requester, channelId: job.channelId };
+      const scheduled = () => (this.scheduler ? this.scheduler.run(ticket, start) : start());
+      const result: CacheOutcome | null = await (this.cache
+        ? this.cache.run(job.input, scheduled, { bypass: job.noCache })
+        : scheduled());
+
+      // Cancelled before it left the queue
+      if (!result) return (await this.repo.findById(job.id)) ?? job;
+
+      // Cancelled while the request was in flight — keep any late result on
+      // the record (it was likely paid for) but don't report it as a success.
+      const latest = await this.repo.findById(job.id);
+      if (latest?.status === "cancelled") {
+        return result.url ? this.update(job.id, { resultUrl: result.url }) : latest;
+      }
+
+      if (result.error) {
+        this.log.error("Video generation API error", result.error);
+        // Jobs keep only the category; the provider's wording is on the attempts
+        const code: ErrorCode = result.code ?? errorCode(result.error);
+        settled = await this.update(job.id, { status: "failed", error: code, completedAt: Date.now() });
+      } else {
+        settled = await this.update(job.id, {
+          status: "succeeded",
+          ...(result.url ? { resultUrl: result.url } : {}),
+          ...(result.cached ? { cached: true } : {}),
+          ...(result.url ? await this.processOutputs(job, result.url) : {}),
+          completedAt: Date.now(),
+        });
+      }
+    } catch (error: unknown) {
+      const latest = await this.repo.findById(job.id);
+      if (latest?.status === "cancelled") return latest;
+      this.log.error("Video generation failed", error);
+      settled = await this.update(job.id, { status: "failed", error: "generation_failed", completedAt: Date.now() });
+    }
+
+    await this.notify(settled);
+    return settled;
+  }
+
+  private async notify(job: VideoJob): Promise<void> {
+    if (!this.onSettled) return;
+    try {
+      await this.onSettled(job);
+    } catch (error: unknown) {
+      this.log.error(`Failed to deliver result for video job ${job.id}`, error);
+    }
+  }
+
+  private async update(id: string, patch: Partial<VideoJob>): Promise<VideoJob> {
+    return this.repo.update(id, { ...patch, updatedAt: Date.now() });
+  }
+}
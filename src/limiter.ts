@@ -0,0 +1,299 @@
+/**
+ * Per-user, per-channel and global limits on video generation.
+ *
+ * Three kinds of limit apply:
+ * - Concurrency caps count queued and running jobs in the job store, so they
+ *   survive restarts exactly as the jobs do. The global cap doesn't reject:
+ *   jobs beyond it wait in the scheduler queue, and only a full queue
+ *   turns requests away.
+ * - A rolling request window per user, backed by a `rate_events` table in
+ *   ctx.storage so a restart doesn't hand everyone a fresh allowance.
+ * - Daily credit budgets per user and per channel, checked against the
+ *   estimated cost of the request and of the day's earlier jobs (cost.ts).
+ *
+ * A limit of 0 means unlimited.
+ */
+
+import { randomBytes } from "node:crypto";
+import { z } from "zod";
+import { budgetDayStart, type DailyBudgets, formatCredits, roundCredits, untilBudgetReset } from "./cost.js";
+import type { Repository } from "./types.js";
+
+export interface RateLimits {
+  maxConcurrentPerUser: number;
+  maxConcurrentPerChannel: number;
+  maxConcurrentGlobal: number;
+  /** Jobs allowed to wait for a slot once the global cap is reached. */
+  maxQueueLength: number;
+  maxRequestsPerWindow: number;
+  windowMs: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  maxConcurrentPerUser: 2,
+  maxConcurrentPerChannel: 4,
+  maxConcurrentGlobal: 8,
+  maxQueueLength: 20,
+  maxRequestsPerWindow: 10,
+  windowMs: 60 * 60 * 1000,
+};
+
+/** Raw config values — the config UI may store numbers as strings. */
+export interface RateLimitConfig {
+  maxConcurrentPerUser?: number | string;
+  maxConcurrentPerChannel?: number | string;
+  maxConcurrentGlobal?: number | string;
+  maxQueueLength?: number | string;
+  maxRequestsPerWindow?: number | string;
+  rateWindowMinutes?: number | string;
+}
+
+function nonNegative(value: number | string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value === undefined || value === "" || !Number.isFinite(n) || n < 0 ? fallback : Math.floor(n);
+}
+
+export function rateLimitsFromConfig(config: RateLimitConfig): RateLimits {
+  const d = DEFAULT_RATE_LIMITS;
+  const windowMinutes = nonNegative(config.rateWindowMinutes, d.windowMs / 60_000);
+  return {
+    maxConcurrentPerUser: nonNegative(config.maxConcurrentPerUser, d.maxConcurrentPerUser),
+    maxConcurrentPerChannel: nonNegative(config.maxConcurrentPerChannel, d.maxConcurrentPerChannel),
+    maxConcurrentGlobal: nonNegative(config.maxConcurrentGlobal, d.maxConcurrentGlobal),
+    maxQueueLength: nonNegative(config.maxQueueLength, d.maxQueueLength),
+    maxRequestsPerWindow: nonNegative(config.maxRequestsPerWindow, d.maxRequestsPerWindow),
+    windowMs: Math.max(windowMinutes, 1) * 60_000,
+  };
+}
+
+export function formatWait(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  if (minutes <= 1) return "in about a minute";
+  if (minutes < 120) return `in ${minutes} minutes`;
+  return `in about ${Math.round(minutes / 60)} hours`;
+}
+
+export function formatRateLimits(limits: RateLimits): string {
+  const show = (n: number) => (n === 0 ? "unlimited" : String(n));
+  return (
+    `**Concurrent jobs:** ${show(limits.maxConcurrentPerUser)} per user, ` +
+    `${show(limits.maxConcurrentPerChannel)} per channel, ${show(limits.maxConcurrentGlobal)} total\n` +
+    `**Queue:** up to ${show(limits.maxQueueLength)} waiting\n` +
+    `**Requests:** ${show(limits.maxRequestsPerWindow)} per user every ${Math.round(limits.windowMs / 60_000)} min`
+  );
+}
+
+// ============================================================================
+// Rate event record
+// ============================================================================
+
+export const rateEventSchema = z.object({
+  id: z.string(),
+  subject: z.string(),
+  at: z.number(),
+});
+
+export type RateEvent = z.infer<typeof rateEventSchema>;
+
+// ============================================================================
+// RateLimiter
+// ============================================================================
+
+/** Who is asking — the requester and, for chat, the channel they're in. */
+export interface LimitSubject {
+  requester: string;
+  channelId?: string;
+}
+
+export type LimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string; retryAfterMs?: number; code?: "budget_exceeded" };
+
+/** Counts queued and running jobs matching the filter. */
+export type ActiveJobCounter = (filter: { requester?: string; channelId?: string }) => Promise<number>;
+
+/** Sums the estimated cost of jobs matching the filter created since `since`. */
+export type SpendCounter = (filter: { requester?: string; channelId?: string }, since: number) => Promise<number>;
+
+/** What is left of each daily budget that applies; absent where there is no budget. */
+export interface BudgetStatus {
+  user?: { budget: number; left: number };
+  channel?: { budget: number; left: number };
+}
+
+export interface RateLimiterOptions {
+  events: Repository<RateEvent>;
+  countActive: ActiveJobCounter;
+  /** Read on every check so config changes apply without a restart. */
+  limits: () => RateLimits;
+  /** Daily budgets, read on every check. Nothing is budgeted without them and `spent`. */
+  budgets?: () => DailyBudgets;
+  spent?: SpendCounter;
+}
+
+export class RateLimiter {
+  private readonly events: Repository<RateEvent>;
+  private readonly countActive: ActiveJobCounter;
+  private readonly getLimits: () => RateLimits;
+  private readonly getBudgets?: () => DailyBudgets;
+  private readonly spent?: SpendCounter;
+  /** Serializes admit() so two requests can't both squeeze into the last slot. */
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(options: RateLimiterOptions) {
+    this.events = options.events;
+    this.countActive = options.countActive;
+    this.getLimits = options.limits;
+    this.getBudgets = options.budgets;
+    this.spent = options.spent;
+  }
+
+  /**
+   * Check whether the subject may start `jobs` more jobs costing about `cost`
+   * credits, without using up any allowance. A batch only needs one free
+   * concurrency slot to be accepted — the scheduler holds the rest back until
+   * the caps allow them — but every job counts against the queue and the
+   * request window, and the whole cost against the budgets.
+   */
+  async check(subject: LimitSubject, jobs = 1, now = Date.now(), cost = 0): Promise<LimitDecision> {
+    const limits = this.getLimits();
+
+    if (limits.maxConcurrentPerUser > 0) {
+      const active = await this.countActive({ requester: subject.requester });
+      if (active >= limits.maxConcurrentPerUser) {
+        return {
+          allowed: false,
+          reason:
+            `You already have ${active} video${active === 1 ? "" : "s"} in progress ` +
+            `(limit ${limits.maxConcurrentPerUser}). Try again once one finishes.`,
+        };
+      }
+    }
+    if (limits.maxConcurrentPerChannel > 0 && subject.channelId) {
+      const active = await this.countActive({ channelId: subject.channelId });
+      if (active >= limits.maxConcurrentPerChannel) {
+        return {
+          allowed: false,
+          reason:
+            `This channel already has ${active} videos in progress (limit ${limits.maxConcurrentPerChannel}). ` +
+            "Try again once one finishes.",
+        };
+      }
+    }
+    if (limits.maxConcurrentGlobal > 0 && limits.maxQueueLength > 0) {
+      const active = await this.countActive({});
+      const room = limits.maxConcurrentGlobal + limits.maxQueueLength - active;
+      if (room < jobs) {
+        return {
+          allowed: false,
+          reason:
+            room > 0
+              ? `The video queue only has room for ${room} more video${room === 1 ? "" : "s"}. ` +
+                "Ask for fewer or try again in a few minutes."
+              : `The video queue is full (${limits.maxQueueLength} waiting). Try again in a few minutes.`,
+          retryAfterMs: 5 * 60_000,
+        };
+      }
+    }
+
+    if (cost > 0) {
+      const budgets = await this.budgetStatus(subject, now);
+      const scopes = [
+        { status: budgets.user, whose: "your" },
+        { status: budgets.channel, whose: "this channel's" },
+      ];
+      for (const { status, whose } of scopes) {
+        if (!status || cost <= status.left) continue;
+        const retryAfterMs = untilBudgetReset(now);
+        const budget = `${whose} daily budget of ${formatCredits(status.budget)}`;
+        return {
+          allowed: false,
+          code: "budget_exceeded",
+          reason:
+            status.left === 0
+              ? `${budget[0].toUpperCase()}${budget.slice(1)} is used up. It resets ${formatWait(retryAfterMs)}.`
+              : `That would cost about ${formatCredits(cost)}, but only ${formatCredits(status.left)} of ${budget} ` +
+                `is left. It resets ${formatWait(retryAfterMs)}.`,
+          retryAfterMs,
+        };
+      }
+    }
+
+    if (limits.maxRequestsPerWindow > 0) {
+      const window = `${limits.maxRequestsPerWindow} videos per ${Math.round(limits.windowMs / 60_000)} minutes`;
+      if (jobs > limits.maxRequestsPerWindow) {
+        return { allowed: false, reason: `That's ${jobs} videos at once, more than the limit of ${window}.` };
+      }
+      const recent = await this.recentEvents(subject.requester, limits.windowMs, now);
+      const excess = recent.length + jobs - limits.maxRequestsPerWindow;
+      if (excess > 0) {
+        // Wait until enough of the oldest requests have left the window
+        const freedAt = recent.map((e) => e.at).sort((a, b) => a - b)[excess - 1];
+        const retryAfterMs = freedAt + limits.windowMs - now;
+        return {
+          allowed: false,
+          reason:
+            recent.length >= limits.maxRequestsPerWindow
+              ? `You've reached the limit of ${window}. You can try again ${formatWait(retryAfterMs)}.`
+              : `That's ${jobs} videos, but you only have ${limits.maxRequestsPerWindow - recent.length} left ` +
+                `of your ${window}. You can make all ${jobs} ${formatWait(retryAfterMs)}.`,
+          retryAfterMs,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /** What is left today of the budgets that apply to the subject. */
+  async budgetStatus(subject: LimitSubject, now = Date.now()): Promise<BudgetStatus> {
+    const budgets = this.getBudgets?.();
+    const spent = this.spent;
+    if (!budgets || !spent) return {};
+    const since = budgetDayStart(now);
+    const left = async (budget: number, filter: { requester?: string; channelId?: string }) => ({
+      budget,
+      left: Math.max(0, roundCredits(budget - (await spent(filter, since)))),
+    });
+    return {
+      ...(budgets.perUser > 0 ? { user: await left(budgets.perUser, { requester: subject.requester }) } : {}),
+      ...(budgets.perChannel > 0 && subject.channelId
+        ? { channel: await left(budgets.perChannel, { channelId: subject.channelId }) }
+        : {}),
+    };
+  }
+
+  /**
+   * Atomically check the limits and, if allowed, record the request and run
+   * `start` (which should create the `jobs` jobs, so they count towards
+   * concurrency and the budgets before the next caller is checked).
+   */
+  async admit<T>(
+    subject: LimitSubject,
+    start: () => Promise<T>,
+    jobs = 1,
+    cost = 0,
+  ): Promise<{ allowed: true; value: T } | Extract<LimitDecision, { allowed: false }>> {
+    const run = this.lock.then(async () => {
+      const now = Date.now();
+      const decision = await this.check(subject, jobs, now, cost);
+      if (!decision.allowed) return decision;
+      await this.record(subject.requester, jobs, now);
+      return { allowed: true as const, value: await start() };
+    });
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async recentEvents(subject: string, windowMs: number, now: number): Promise<RateEvent[]> {
+    return this.events.findMany({ subject, at: { $gt: now - windowMs } });
+  }
+
+  private async record(subject: string, jobs: number, now: number): Promise<void> {
+    for (let i = 0; i < jobs; i++) {
+      await this.events.insert({ id: randomBytes(8).toString("hex"), subject, at: now });
+    }
+    // Drop events no window could still count
+    await this.events.deleteMany({ subject, at: { $lte: now - this.getLimits().windowMs } });
+  }
+}
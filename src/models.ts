@@ -0,0 +1,251 @@
+/**
+ * Video model registry — the single source of truth for which models exist
+ * and what each one accepts.
+ *
+ * The config schema options, `/video models` and command help, and the A2A
+ * tool schemas are all generated from this list, and requests are checked
+ * against it before anything is sent to the socket layer (and billed).
+ */
+
+export type ModelSpeed = "fast" | "medium" | "slow";
+
+export interface VideoModel {
+  id: string;
+  name: string;
+  /** One-line description shown in `/video models`. */
+  description: string;
+  /** Clip lengths in seconds the model can produce. */
+  durations: number[];
+  aspectRatios: string[];
+  /** Output resolutions; the first entry is the provider default. */
+  resolutions: string[];
+  /** Whether the model accepts a reference image (image-to-video). */
+  imageInput: boolean;
+  /** Whether the model can continue an existing video from its last frame. */
+  extension: boolean;
+  /** Relative cost per second of video (1 = cheapest). */
+  relativeCost: number;
+  speed: ModelSpeed;
+  quality: string;
+  /** How prompts for this model are best written, for `--enhance` (see enhance.ts). */
+  promptStyle: string;
+}
+
+export const VIDEO_MODELS: readonly VideoModel[] = [
+  {
+    id: "minimax-video",
+    name: "Minimax Video-01",
+    description: "fast, good quality",
+    durations: [3, 5, 10],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["720p"],
+    imageInput: true,
+    extension: false,
+    relativeCost: 1,
+    speed: "fast",
+    quality: "good",
+    promptStyle: "one clear subject and one main action in plain sentences, with the camera movement stated explicitly",
+  },
+  {
+    id: "wan-2.1",
+    name: "Wan 2.1",
+    description: "high quality, slower",
+    durations: [3, 5],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["480p", "720p"],
+    imageInput: true,
+    extension: false,
+    relativeCost: 2,
+    speed: "slow",
+    quality: "high",
+    promptStyle:
+      "a detailed scene description: subject, setting, lighting and colour palette first, then the motion, " +
+      "in a few comma-separated phrases",
+  },
+  {
+    id: "kling-1.6",
+    name: "Kling 1.6",
+    description: "cinematic",
+    durations: [5, 10],
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["720p", "1080p"],
+    imageInput: true,
+    extension: true,
+    relativeCost: 3,
+    speed: "medium",
+    quality: "cinematic",
+    promptStyle:
+      "film language: shot type, lens, camera movement, lighting and mood, as if describing a single shot " +
+      "in a screenplay",
+  },
+  {
+    id: "luma-ray2",
+    name: "Luma Ray2",
+    description: "photorealistic",
+    durations: [5, 10],
+    aspectRatios: ["16:9", "9:16", "1:1", "4:3", "21:9"],
+    resolutions: ["540p", "720p", "1080p"],
+    imageInput: true,
+    extension: true,
+    relativeCost: 3,
+    speed: "medium",
+    quality: "photorealistic",
+    promptStyle:
+      "photorealistic detail: materials, textures, natural light and believable physics, with a steady, " +
+      "described camera",
+  },
+];
+
+export const DEFAULT_MODEL_ID = "minimax-video";
+
+const ASPECT_RATIO_LABELS: Record<string, string> = {
+  "16:9": "Landscape",
+  "9:16": "Portrait",
+  "1:1": "Square",
+  "4:3": "Classic",
+  "21:9": "Ultrawide",
+};
+
+export function getModel(id: string): VideoModel | undefined {
+  return VIDEO_MODELS.find((m) => m.id === id);
+}
+
+export function modelIds(): string[] {
+  return VIDEO_MODELS.map((m) => m.id);
+}
+
+function union<T>(pick: (m: VideoModel) => T[]): T[] {
+  return [...new Set(VIDEO_MODELS.flatMap(pick))];
+}
+
+/** Every duration some model supports, ascending. */
+export function allDurations(): number[] {
+  return union((m) => m.durations).sort((a, b) => a - b);
+}
+
+/** Every aspect ratio some model supports, in registry order. */
+export function allAspectRatios(): string[] {
+  return union((m) => m.aspectRatios);
+}
+
+/** Every resolution some model supports, in registry order. */
+export function allResolutions(): string[] {
+  return union((m) => m.resolutions);
+}
+
+export function aspectRatioLabel(ratio: string): string {
+  const label = ASPECT_RATIO_LABELS[ratio];
+  return label ? `${ratio} (${label})` : ratio;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export interface ModelParams {
+  duration: number;
+  aspectRatio: string;
+  resolution?: string;
+  image?: string;
+  /** Video to continue from its last frame. */
+  extendVideo?: string;
+}
+
+/** A request field the chosen model can't accept, with a user-facing explanation. */
+export interface ModelParamIssue {
+  field: "model" | keyof ModelParams;
+  message: string;
+}
+
+/**
+ * Check a request against the model's constraints. Returns the first
+ * offending field, or null if the combination is valid.
+ */
+export function validateModelParams(modelId: string, params: ModelParams): ModelParamIssue | null {
+  const model = getModel(modelId);
+  if (!model) {
+    return { field: "model", message: `Unknown model \`${modelId}\`. Available models: ${modelIds().join(", ")}.` };
+  }
+
+  if (!model.durations.includes(params.duration)) {
+    return {
+      field: "duration",
+      message: `${model.name} supports durations of ${model.durations.join(", ")} seconds, not ${params.duration}.`,
+    };
+  }
+  if (!model.aspectRatios.includes(params.aspectRatio)) {
+    return {
+      field: "aspectRatio",
+      message: `${model.name} supports aspect ratios ${model.aspectRatios.join(", ")}, not ${params.aspectRatio}.`,
+    };
+  }
+  if (params.resolution !== undefined && !model.resolutions.includes(params.resolution)) {
+    return {
+      field: "resolution",
+      message: `${model.name} supports resolutions ${model.resolutions.join(", ")}, not ${params.resolution}.`,
+    };
+  }
+  if (params.image !== undefined && !model.imageInput) {
+    return { field: "image", message: `${model.name} does not accept a reference image.` };
+  }
+  if (params.extendVideo !== undefined && !model.extension) {
+    const capable = VIDEO_MODELS.filter((m) => m.extension).map((m) => m.id);
+    return {
+      field: "extendVideo",
+      message: `${model.name} can't extend videos. Pick one that can with \`--model\`: ${capable.join(", ")}.`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Pick the duration and aspect ratio to use when the user didn't specify
+ * them: the configured default if the model supports it, otherwise the
+ * model's own first choice. Explicit values are returned untouched so that
+ * validation can reject them.
+ */
+export function applyModelDefaults(
+  model: VideoModel | undefined,
+  explicit: { duration?: number; aspectRatio?: string },
+  defaults: { duration: number; aspectRatio: string },
+): { duration: number; aspectRatio: string } {
+  const pick = <T>(value: T | undefined, fallback: T, allowed: T[] | undefined): T => {
+    if (value !== undefined) return value;
+    return !allowed || allowed.includes(fallback) ? fallback : allowed[0];
+  };
+  return {
+    duration: pick(explicit.duration, defaults.duration, model?.durations),
+    aspectRatio: pick(explicit.aspectRatio, defaults.aspectRatio, model?.aspectRatios),
+  };
+}
+
+// ============================================================================
+// Generated text
+// ============================================================================
+
+/** The `/video models` reply. */
+export function formatModelList(): string {
+  const lines = VIDEO_MODELS.map(
+    (m) =>
+      `\`${m.id}\` — ${m.name} (${m.description})\n` +
+      `    ${m.durations.join("/")}s · ${m.aspectRatios.join(", ")} · ${m.resolutions.join(", ")} · ` +
+      `${m.speed} · cost ×${m.relativeCost}${m.imageInput ? " · image input" : ""}${m.extension ? " · extend" : ""}`,
+  );
+  return `**Available Video Models**\n\n${lines.join("\n")}\n\nUse: \`/video <prompt> --model <name>\``;
+}
+
+/** JSON-friendly model descriptions for the list_video_models A2A tool. */
+export function modelCatalog(): Array<Record<string, unknown>> {
+  return VIDEO_MODELS.map((m) => ({
+    id: m.id,
+    name: m.name,
+    speed: m.speed,
+    quality: m.quality,
+    relativeCost: m.relativeCost,
+    durations: m.durations,
+    aspectRatios: m.aspectRatios,
+    resolutions: m.resolutions,
+    imageInput: m.imageInput,
+    extension: m.extension,
+  }));
+}
@@ -0,0 +1,389 @@
+/**
+ * Prompt moderation before any credits are spent.
+ *
+ * Providers enforce their own content policies, but only after the request
+ * has been accepted and billed. Every prompt is therefore checked here first,
+ * by a list of moderation checks run in order until one flags it:
+ * - `local`: built-in pattern rules plus the configured `moderationBlocklist`
+ *   (words, phrases or `/regex/` entries).
+ * - `capability`: an external `moderation` capability, used when
+ *   ctx.hasCapability reports one and `externalModeration` isn't off. If it
+ *   fails or takes too long the request goes ahead on the local rules alone.
+ *
+ * How strict the checks are depends on the channel. `moderationLevel` is the
+ * default and `moderationLevels` overrides it per channel ID or channel type,
+ * e.g. `discord=strict, 1234567890=relaxed`; A2A requests use the key `a2a`.
+ * - `off`: nothing is checked.
+ * - `relaxed`: only the severe rules and the blocklist.
+ * - `standard`: adds sexual content, self-harm, hate and deepfakes, and the
+ *   external capability.
+ * - `strict`: adds graphic violence and drugs.
+ *
+ * The decision is recorded on the job; blocked prompts become failed jobs
+ * with the code `prompt_blocked` (see jobs.ts).
+ */
+
+import { z } from "zod";
+import { CAPABILITY_SESSION } from "./capability.js";
+import { withTimeout } from "./consent.js";
+import type { PluginLogger, WOPRPluginContext } from "./types.js";
+
+export const MODERATION_LEVELS = ["off", "relaxed", "standard", "strict"] as const;
+export type ModerationLevel = (typeof MODERATION_LEVELS)[number];
+
+export const DEFAULT_MODERATION_LEVEL: ModerationLevel = "standard";
+
+/** Key of `moderationLevels` that A2A requests are looked up under. */
+export const A2A_MODERATION_KEY = "a2a";
+
+const EXTERNAL_TIMEOUT_MS = 10_000;
+
+function atLeast(level: ModerationLevel, min: ModerationLevel): boolean {
+  return MODERATION_LEVELS.indexOf(level) >= MODERATION_LEVELS.indexOf(min);
+}
+
+// ============================================================================
+// Decision record
+// ============================================================================
+
+export const moderationRecordSchema = z.object({
+  decision: z.enum(["allowed", "blocked"]),
+  level: z.enum(MODERATION_LEVELS),
+  /** The checks that looked at the prompt, in order. */
+  checks: z.array(z.string()),
+  /** The check and rule that blocked it, e.g. `local:gore`. */
+  rule: z.string().optional(),
+  category: z.string().optional(),
+  /** Why it was blocked, for the requester. */
+  reason: z.string().optional(),
+  checkedAt: z.number(),
+});
+
+export type ModerationRecord = z.infer<typeof moderationRecordSchema>;
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/** Raw moderation config values. */
+export interface ModerationConfig {
+  moderationLevel?: string;
+  moderationLevels?: string;
+  moderationBlocklist?: string;
+  externalModeration?: string;
+}
+
+export interface ModerationSettings {
+  level: ModerationLevel;
+  /** Levels by channel ID or channel type. */
+  channels: Record<string, ModerationLevel>;
+  blocklist: RegExp[];
+  /** Whether an external moderation capability may be asked. */
+  external: boolean;
+}
+
+function isLevel(value: string): value is ModerationLevel {
+  return (MODERATION_LEVELS as readonly string[]).includes(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** One blocklist entry as a pattern: `/regex/flags`, or a word or phrase matched as a whole. */
+function blocklistPattern(entry: string): RegExp | null {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(entry);
+  try {
+    return regex
+      ? new RegExp(regex[1], regex[2].includes("i") ? regex[2] : `${regex[2]}i`)
+      : new RegExp(`\\b${escapeRegExp(entry)}\\b`, "i");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the moderation settings. Unknown levels fall back to the default and
+ * invalid blocklist patterns are ignored.
+ */
+export function moderationSettingsFromConfig(config: ModerationConfig): ModerationSettings {
+  const channels: Record<string, ModerationLevel> = {};
+  for (const entry of (config.moderationLevels ?? "").split(",")) {
+    const match = /^\s*([^=\s]+)\s*=\s*(\w+)\s*$/.exec(entry);
+    const level = match?.[2].toLowerCase() ?? "";
+    if (match && isLevel(level)) channels[match[1].toLowerCase()] = level;
+  }
+  const blocklist = (config.moderationBlocklist ?? "")
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(blocklistPattern)
+    .filter((pattern): pattern is RegExp => pattern !== null);
+  const level = config.moderationLevel?.toLowerCase() ?? "";
+  return {
+    level: isLevel(level) ? level : DEFAULT_MODERATION_LEVEL,
+    channels,
+    blocklist,
+    external: config.externalModeration !== "off",
+  };
+}
+
+export function formatModerationSettings(settings: ModerationSettings): string {
+  const channels = Object.entries(settings.channels).map(([key, level]) => `${key}: ${level}`);
+  return (
+    `${settings.level}` +
+    (channels.length > 0 ? ` (${channels.join(", ")})` : "") +
+    `; ${settings.blocklist.length} blocklist entr${settings.blocklist.length === 1 ? "y" : "ies"}` +
+    `; external: ${settings.external ? "when available" : "off"}`
+  );
+}
+
+/** Where a request comes from, for picking the level. */
+export interface ModerationScope {
+  channelId?: string;
+  channelType?: string;
+}
+
+/** The level for a channel: its ID's entry, else its type's, else the default. */
+export function moderationLevelFor(settings: ModerationSettings, scope: ModerationScope): ModerationLevel {
+  const byId = scope.channelId ? settings.channels[scope.channelId.toLowerCase()] : undefined;
+  const byType = scope.channelType ? settings.channels[scope.channelType.toLowerCase()] : undefined;
+  return byId ?? byType ?? settings.level;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+export type ModerationVerdict =
+  | { flagged: false }
+  | {
+      flagged: true;
+      category: string;
+      reason: string;
+      /** The rule that matched, when the check has several. */
+      rule?: string;
+    };
+
+/** One stage of moderation. Checks are run in order until one flags the prompt. */
+export interface ModerationCheck {
+  /** Recorded on jobs, e.g. `local`. */
+  name: string;
+  /** A verdict, or null if the check doesn't apply at this level or couldn't run. */
+  check(prompt: string, level: ModerationLevel, settings: ModerationSettings): Promise<ModerationVerdict | null>;
+}
+
+interface ModerationRule {
+  id: string;
+  category: string;
+  /** Lowest level the rule applies at. */
+  level: ModerationLevel;
+  pattern: RegExp;
+  reason: string;
+}
+
+const MINORS = String.raw`\b(child(ren)?|kids?|minors?|underage|toddlers?|schoolgirls?|schoolboys?|pre-?teens?|loli)\b`;
+const SEXUAL = String.raw`\b(nude|naked|nudity|sexual|sexy|erotic|porn\w*|lingerie|undress\w*)\b`;
+
+/** Built-in rules, checked in order. */
+const RULES: ModerationRule[] = [
+  {
+    id: "minors",
+    category: "sexual_minors",
+    level: "relaxed",
+    pattern: new RegExp(`${MINORS}.*${SEXUAL}|${SEXUAL}.*${MINORS}`, "i"),
+    reason: "Sexual content involving minors is never allowed.",
+  },
+  {
+    id: "sexual",
+    category: "sexual",
+    level: "standard",
+    pattern: /\b(nude|naked|nudity|porn\w*|sex|sexual|erotic|nsfw|hentai|topless|genitals?)\b/i,
+    reason: "Sexual or nude content isn't allowed here.",
+  },
+  {
+    id: "deepfake",
+    category: "impersonation",
+    level: "standard",
+    pattern: /\bdeep ?fakes?\b|\bfake (video|footage|clip) of\b/i,
+    reason: "Deepfakes and fake footage of real people aren't allowed.",
+  },
+  {
+    id: "self_harm",
+    category: "self_harm",
+    level: "standard",
+    pattern: /\b(suicide|self[- ]harm|kill(s|ing)? (himself|herself|themselves|myself))\b/i,
+    reason: "Content showing suicide or self-harm isn't allowed here.",
+  },
+  {
+    id: "hate",
+    category: "hate",
+    level: "standard",
+    pattern: /\b(ethnic cleansing|hate speech|white power|nazi propaganda|lynching)\b/i,
+    reason: "Hateful content isn't allowed.",
+  },
+  {
+    id: "gore",
+    category: "violence",
+    level: "strict",
+    pattern: /\b(gore|gory|dismember\w*|decapitat\w*|disembowel\w*|mutilat\w*|blood[- ]?(bath|soaked|splatter\w*))\b/i,
+    reason: "Graphic violence and gore aren't allowed in this channel.",
+  },
+  {
+    id: "attacks",
+    category: "violence",
+    level: "strict",
+    pattern: /\b(mass shooting|school shooting|terror(ist)? attack|suicide bomb\w*)\b/i,
+    reason: "Depictions of real-world attacks aren't allowed in this channel.",
+  },
+  {
+    id: "drugs",
+    category: "drugs",
+    level: "strict",
+    pattern: /\b(cocaine|heroin|meth(amphetamine)?|snorting|shooting up)\b/i,
+    reason: "Drug use isn't allowed in this channel.",
+  },
+];
+
+/** The built-in rules and the configured blocklist. */
+export const localModeration: ModerationCheck = {
+  name: "local",
+  async check(prompt, level, settings) {
+    if (level === "off") return null;
+    if (settings.blocklist.some((pattern) => pattern.test(prompt))) {
+      return {
+        flagged: true,
+        category: "blocklist",
+        rule: "blocklist",
+        reason: "The prompt contains a term this server has blocked.",
+      };
+    }
+    const rule = RULES.find((candidate) => atLeast(level, candidate.level) && candidate.pattern.test(prompt));
+    return rule ? { flagged: true, category: rule.category, rule: rule.id, reason: rule.reason } : { flagged: false };
+  },
+};
+
+interface CapabilityVerdict {
+  flagged?: unknown;
+  categories?: unknown;
+  reason?: unknown;
+  error?: unknown;
+}
+
+/** The first flagged category of a reply: a list of names or a map of name → flagged. */
+function flaggedCategory(categories: unknown): string | undefined {
+  if (Array.isArray(categories)) return categories.find((category) => typeof category === "string");
+  if (categories && typeof categories === "object") {
+    return Object.entries(categories).find(([, flagged]) => flagged === true)?.[0];
+  }
+  return undefined;
+}
+
+/**
+ * The `moderation` capability, asked through the socket layer like video
+ * requests are. It runs from `standard` up, and expects a reply such as
+ * `{ "flagged": true, "categories": ["violence"], "reason": "..." }`.
+ */
+export function capabilityModeration(
+  ctx: WOPRPluginContext,
+  log: PluginLogger,
+  timeoutMs = EXTERNAL_TIMEOUT_MS,
+): ModerationCheck {
+  return {
+    name: "capability",
+    async check(prompt, level, settings) {
+      if (!settings.external || !atLeast(level, "standard") || !ctx.hasCapability?.("moderation")) return null;
+      const request = JSON.stringify({ capability: "moderation", input: { text: prompt } });
+      try {
+        const raw = await withTimeout<string>(ctx.inject(CAPABILITY_SESSION, request, { silent: true }), timeoutMs);
+        if (raw === null) {
+          log.warn("The moderation capability timed out; using the local rules only");
+          return null;
+        }
+        const reply = JSON.parse(raw) as CapabilityVerdict;
+        if (reply.error || typeof reply.flagged !== "boolean") {
+          log.warn(
+            `The moderation capability failed (${String(reply.error ?? "no verdict")}); using the local rules only`,
+          );
+          return null;
+        }
+        if (!reply.flagged) return { flagged: false };
+        const category = flaggedCategory(reply.categories) ?? "flagged";
+        return {
+          flagged: true,
+          category,
+          reason:
+            typeof reply.reason === "string" && reply.reason
+              ? reply.reason
+              : `The moderation service flagged the prompt (${category}).`,
+        };
+      } catch (error: unknown) {
+        log.warn("The moderation capability failed; using the local rules only", error);
+        return null;
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Moderator
+// ============================================================================
+
+export interface ModeratorOptions {
+  /** Run in order until one flags the prompt. */
+  checks: ModerationCheck[];
+  /** Read for every request so config changes apply without a restart. */
+  settings: () => ModerationSettings;
+}
+
+export class Moderator {
+  private readonly checks: ModerationCheck[];
+  private readonly settings: () => ModerationSettings;
+
+  constructor(options: ModeratorOptions) {
+    this.checks = options.checks;
+    this.settings = options.settings;
+  }
+
+  /** Check every prompt of a request. One flagged prompt blocks the whole request. */
+  async check(prompts: string[], scope: ModerationScope): Promise<ModerationRecord> {
+    const settings = this.settings();
+    const level = moderationLevelFor(settings, scope);
+    const ran = new Set<string>();
+    for (const prompt of new Set(prompts)) {
+      for (const check of this.checks) {
+        const verdict = await check.check(prompt, level, settings);
+        if (!verdict) continue;
+        ran.add(check.name);
+        if (verdict.flagged) {
+          return {
+            decision: "blocked",
+            level,
+            checks: [...ran],
+            rule: verdict.rule ? `${check.name}:${verdict.rule}` : check.name,
+            category: verdict.category,
+            reason: verdict.reason,
+            checkedAt: Date.now(),
+          };
+        }
+      }
+    }
+    return { decision: "allowed", level, checks: [...ran], checkedAt: Date.now() };
+  }
+}
+
+/** One-line summary of a decision, for job status. */
+export function formatModerationRecord(record: ModerationRecord): string {
+  const checks = record.checks.length > 0 ? record.checks.join(", ") : "no checks";
+  return record.decision === "blocked"
+    ? `blocked at ${record.level} by ${record.rule} (${record.category})`
+    : `allowed at ${record.level} (${checks})`;
+}
+
+/** Why a request was blocked, for the requester. */
+export function moderationMessage(record: ModerationRecord): string {
+  return (
+    `**Prompt blocked** — ${record.reason ?? "it goes against this channel's content rules."}\n` +
+    "Nothing was charged. Rephrase the prompt and try again."
+  );
+}
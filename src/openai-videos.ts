@@ -0,0 +1,94 @@
+/**
+ * Adapter for OpenAI-style `/v1/videos` endpoints — OpenAI itself, or a
+ * self-hosted server that speaks the same API.
+ *
+ * The video is created with POST /videos, polled at /videos/{id} and, once
+ * completed, downloaded from /videos/{id}/content. That download needs the
+ * API key, so unlike other providers the video is handed over as a local
+ * file, which the artifact store then takes in.
+ */
+
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { pathToFileURL } from "node:url";
+import { errorDetail, frameSize, type ProviderAdapter } from "./provider.js";
+
+export const OPENAI_API_URL = "https://api.openai.com/v1";
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface OpenAIVideosOptions {
+  baseUrl: string;
+  apiKey?: string;
+  /** Model name sent to the endpoint; the request's model ID if unset. */
+  model?: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+interface VideoObject {
+  id: string;
+  status: "queued" | "in_progress" | "completed" | "failed";
+  error?: { message?: string } | null;
+}
+
+export function openaiVideosAdapter(options: OpenAIVideosOptions): ProviderAdapter {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    ...(options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {}),
+  };
+
+  return {
+    id: "openai",
+    name: "OpenAI-compatible endpoint",
+    async generate(input, signal) {
+      if (input.image || input.extendVideo) {
+        return { error: "Reference images and extensions aren't supported through OpenAI-style endpoints" };
+      }
+      const { width, height } = frameSize(input);
+      const created = await fetch(`${baseUrl}/videos`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: options.model || input.model,
+          prompt: input.prompt,
+          seconds: String(input.duration),
+          size: `${width}x${height}`,
+        }),
+        signal,
+      });
+      if (created.status === 402) return { error: "insufficient_credits" };
+      if (!created.ok) {
+        const detail = await errorDetail(created);
+        // OpenAI reports an exhausted balance as 429 insufficient_quota
+        if (created.status === 429 && /quota/i.test(detail)) return { error: "insufficient_credits" };
+        return { error: `The video endpoint rejected the request (HTTP ${created.status}): ${detail}` };
+      }
+
+      let video = (await created.json()) as VideoObject;
+      const deadline = Date.now() + timeoutMs;
+      while (video.status === "queued" || video.status === "in_progress") {
+        if (Date.now() >= deadline) return { error: `Video ${video.id} timed out` };
+        await sleep(pollIntervalMs, undefined, { signal });
+        const polled = await fetch(`${baseUrl}/videos/${video.id}`, { headers, signal });
+        if (!polled.ok) return { error: `Checking video ${video.id} failed with HTTP ${polled.status}` };
+        video = (await polled.json()) as VideoObject;
+      }
+      if (video.status !== "completed") {
+        return { error: `Video ${video.id} ${video.status}: ${video.error?.message ?? "no details"}` };
+      }
+
+      const content = await fetch(`${baseUrl}/videos/${video.id}/content`, { headers, signal });
+      if (!content.ok) return { error: `Downloading video ${video.id} failed with HTTP ${content.status}` };
+      const file = join(await mkdtemp(join(tmpdir(), "videogen-openai-")), `${video.id}.mp4`);
+      await writeFile(file, Buffer.from(await content.arrayBuffer()));
+      return { url: pathToFileURL(file).href };
+    },
+  };
+}
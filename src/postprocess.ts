@@ -0,0 +1,126 @@
+/**
+ * Post-processing of finished videos.
+ *
+ * Providers hand back a single MP4, but channels want other shapes of it: a
+ * GIF for chat previews, WebM for the web UI, a trimmed clip or one that
+ * loops seamlessly. When a job asks for any of that, the provider's video is
+ * run through ffmpeg once it arrives and each output is stored next to the
+ * original, together with a poster thumbnail. The original URL always stays
+ * on the job, and a failed conversion never fails the job itself.
+ *
+ * The result cache holds the provider's video, not the processed outputs, so
+ * a repeat request with different options still costs no credits.
+ */
+
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { z } from "zod";
+import type { MediaTools } from "./ffmpeg.js";
+import type { FieldIssue } from "./schemas.js";
+
+export const OUTPUT_FORMATS = ["mp4", "webm", "gif"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// ============================================================================
+// Job fields
+// ============================================================================
+
+const trimSchema = z.object({
+  /** Seconds into the video to start from. */
+  start: z.number().optional(),
+  /** Seconds into the video to stop at. */
+  end: z.number().optional(),
+});
+
+export type Trim = z.infer<typeof trimSchema>;
+
+/** What to produce from the provider's video. */
+export const postProcessSchema = z.object({
+  format: z.enum(OUTPUT_FORMATS).optional(),
+  /** Play the clip forwards then backwards, so it repeats without a jump. */
+  loop: z.boolean().optional(),
+  trim: trimSchema.optional(),
+});
+
+export type PostProcessOptions = z.infer<typeof postProcessSchema>;
+
+export const jobOutputSchema = z.object({
+  kind: z.enum(["video", "thumbnail"]),
+  format: z.string(),
+  url: z.string(),
+});
+
+export type JobOutput = z.infer<typeof jobOutputSchema>;
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/** The post-processing a request asked for, or undefined if it asked for none. */
+export function postProcessOptions(args: PostProcessOptions): PostProcessOptions | undefined {
+  const { format, loop, trim } = args;
+  if (!format && !loop && !trim) return undefined;
+  return { ...(format ? { format } : {}), ...(loop ? { loop: true } : {}), ...(trim ? { trim } : {}) };
+}
+
+/** Check a trim against the length of the video it will be applied to. */
+export function trimIssue(options: PostProcessOptions | undefined, duration: number): FieldIssue | null {
+  const trim = options?.trim;
+  if (!trim) return null;
+  if ((trim.start ?? 0) >= duration) {
+    return { field: "trim", message: `The trim starts at ${trim.start}s, but the video is only ${duration}s long.` };
+  }
+  if (trim.end !== undefined && trim.end > duration) {
+    return { field: "trim", message: `The trim ends at ${trim.end}s, but the video is only ${duration}s long.` };
+  }
+  return null;
+}
+
+/** Whether the video itself has to be re-encoded, rather than just getting a thumbnail. */
+function needsTranscode(options: PostProcessOptions): boolean {
+  return (options.format !== undefined && options.format !== "mp4") || Boolean(options.loop || options.trim);
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+/**
+ * Produce the requested outputs from a finished video into `dir`: the
+ * converted video, if any conversion is needed, and a thumbnail of the final
+ * result. Throws if ffmpeg fails.
+ */
+export async function processVideo(
+  media: MediaTools,
+  videoUrl: string,
+  options: PostProcessOptions,
+  dir: string,
+): Promise<JobOutput[]> {
+  const outputs: JobOutput[] = [];
+  let finalUrl = videoUrl;
+  if (needsTranscode(options)) {
+    const format = options.format ?? "mp4";
+    const file = join(dir, `video.${format}`);
+    await media.transcode(videoUrl, file, { format, loop: options.loop, trim: options.trim });
+    finalUrl = pathToFileURL(file).href;
+    outputs.push({ kind: "video", format, url: finalUrl });
+  }
+  const poster = join(dir, "thumbnail.jpg");
+  await media.thumbnail(finalUrl, poster);
+  outputs.push({ kind: "thumbnail", format: "jpg", url: pathToFileURL(poster).href });
+  return outputs;
+}
+
+/** Short summary of the requested post-processing, e.g. "GIF, looped, 1s–4s". */
+export function describePostProcess(options: PostProcessOptions): string {
+  const parts: string[] = [(options.format ?? "mp4").toUpperCase()];
+  if (options.loop) parts.push("looped");
+  if (options.trim)
+    parts.push(`${options.trim.start ?? 0}s–${options.trim.end !== undefined ? `${options.trim.end}s` : "end"}`);
+  return parts.join(", ");
+}
+
+/** How an output is labelled next to the original URL in chat. */
+export function outputLabel(output: JobOutput): string {
+  return output.kind === "thumbnail" ? "Thumbnail" : output.format.toUpperCase();
+}
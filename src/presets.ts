@@ -0,0 +1,217 @@
+/**
+ * Style presets — named bundles of a prompt template, negative prompt, model,
+ * duration and aspect ratio.
+ *
+ * `/video --preset <name> <prompt>` and the A2A `preset` parameter fill the
+ * template with the request's prompt and use the preset's settings wherever
+ * the request doesn't set its own. A template marks where the prompt goes
+ * with `{prompt}`; one without it is appended to the prompt, so a saved
+ * "shot on 35mm, golden hour" works as a suffix.
+ *
+ * The built-in presets ship with the plugin and can't be changed. Presets
+ * users save with `/video preset save` live in ctx.storage and are shared by
+ * everyone on the server: anyone can use them, but only whoever saved one, or
+ * a video admin (`consentAdmins`), can replace or delete it.
+ */
+
+import { z } from "zod";
+import type { ParseResult } from "./args.js";
+import type { Repository } from "./types.js";
+
+/** Where the request's prompt goes in a template. */
+export const PROMPT_PLACEHOLDER = "{prompt}";
+
+/** Lowercase letters, digits and dashes, starting with a letter or digit. */
+export const PRESET_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+/** Owner recorded on the built-in presets. */
+const BUILT_IN_OWNER = "built-in";
+
+// ============================================================================
+// Preset record
+// ============================================================================
+
+export const presetSchema = z.object({
+  name: z.string(),
+  template: z.string(),
+  negativePrompt: z.string().optional(),
+  model: z.string().optional(),
+  duration: z.number().optional(),
+  aspectRatio: z.string().optional(),
+  /** Who saved the preset, or "built-in". */
+  owner: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number().optional(),
+});
+
+export type Preset = z.infer<typeof presetSchema>;
+
+/** What a preset sets; everything but the template is optional. */
+export type PresetSettings = Pick<Preset, "template" | "negativePrompt" | "model" | "duration" | "aspectRatio">;
+
+const builtIn = (name: string, settings: PresetSettings): Preset => ({
+  name,
+  ...settings,
+  owner: BUILT_IN_OWNER,
+  createdAt: 0,
+});
+
+export const BUILT_IN_PRESETS: readonly Preset[] = [
+  builtIn("cinematic", {
+    template:
+      "{prompt}, cinematic film still, shot on 35mm, golden hour light, shallow depth of field, slow dolly " +
+      "movement, subtle film grain",
+    negativePrompt: "cartoon, illustration, oversaturated, low quality, blurry, text, watermark",
+    aspectRatio: "16:9",
+  }),
+  builtIn("anime", {
+    template: "{prompt}, anime style, cel shading, clean line art, vibrant colors, expressive motion",
+    negativePrompt: "photorealistic, live action, 3d render, blurry, deformed hands",
+  }),
+  builtIn("product-shot", {
+    template:
+      "{prompt}, studio product shot, seamless white backdrop, soft box lighting, slow turntable rotation, " +
+      "crisp focus, reflections on a glossy surface",
+    negativePrompt: "clutter, people, hands, text, logos, watermark, blurry",
+    aspectRatio: "1:1",
+  }),
+  builtIn("vertical-reel", {
+    template: "{prompt}, vertical framing for social media, subject centered, bold colors, dynamic handheld camera",
+    negativePrompt: "letterboxing, black bars, text, watermark",
+    duration: 5,
+    aspectRatio: "9:16",
+  }),
+];
+
+export function isBuiltInPreset(preset: Preset): boolean {
+  return preset.owner === BUILT_IN_OWNER;
+}
+
+// ============================================================================
+// Applying presets
+// ============================================================================
+
+/** The prompt a template makes of `prompt`. */
+export function fillTemplate(template: string, prompt: string): string {
+  return template.includes(PROMPT_PLACEHOLDER)
+    ? template.split(PROMPT_PLACEHOLDER).join(prompt)
+    : `${prompt}, ${template}`;
+}
+
+/** Request fields a preset fills in. */
+export interface PresetTarget {
+  prompt: string;
+  negativePrompt?: string;
+  model?: string;
+  duration?: number;
+  aspectRatio?: string;
+}
+
+/**
+ * A request with the preset applied: the prompt filled into its template and
+ * the preset's settings used wherever the request has none of its own.
+ */
+export function applyPreset<T extends PresetTarget>(preset: Preset, request: T): T {
+  // Saved presets were validated against the same fields as the request, so their values fit T
+  return {
+    ...request,
+    prompt: fillTemplate(preset.template, request.prompt),
+    negativePrompt: request.negativePrompt ?? preset.negativePrompt,
+    model: request.model ?? preset.model,
+    duration: request.duration ?? preset.duration,
+    aspectRatio: request.aspectRatio ?? preset.aspectRatio,
+  } as T;
+}
+
+/** One line of `/video preset list`. */
+export function formatPreset(preset: Preset): string {
+  const settings = [
+    preset.model,
+    preset.duration !== undefined ? `${preset.duration}s` : undefined,
+    preset.aspectRatio,
+    preset.negativePrompt ? `avoids "${preset.negativePrompt}"` : undefined,
+  ].filter(Boolean);
+  const owner = isBuiltInPreset(preset) ? "" : ` (by ${preset.owner})`;
+  const details = settings.length > 0 ? `\n    ${settings.join(" · ")}` : "";
+  return `\`${preset.name}\`${owner} — ${preset.template}${details}`;
+}
+
+// ============================================================================
+// PresetStore
+// ============================================================================
+
+export interface PresetStoreOptions {
+  repo: Repository<Preset>;
+}
+
+export class PresetStore {
+  private readonly repo: Repository<Preset>;
+
+  constructor(options: PresetStoreOptions) {
+    this.repo = options.repo;
+  }
+
+  /** A built-in or saved preset, by name (case-insensitive). */
+  async get(name: string): Promise<Preset | null> {
+    const key = name.trim().toLowerCase();
+    return BUILT_IN_PRESETS.find((preset) => preset.name === key) ?? (await this.repo.findById(key));
+  }
+
+  /** The built-in presets, then every saved one by name. */
+  async list(): Promise<Preset[]> {
+    const saved = await this.repo.findMany({});
+    return [...BUILT_IN_PRESETS, ...saved.sort((a: Preset, b: Preset) => a.name.localeCompare(b.name))];
+  }
+
+  /**
+   * Save a preset as `owner`, replacing one of the same name that they saved
+   * (or that anyone saved, for `admins`).
+   */
+  async save(
+    name: string,
+    settings: PresetSettings,
+    owner: string,
+    admins: string[],
+  ): Promise<ParseResult<{ preset: Preset; replaced: boolean }>> {
+    const key = name.trim().toLowerCase();
+    if (!PRESET_NAME_PATTERN.test(key)) {
+      return {
+        ok: false,
+        error: "Preset names use lowercase letters, digits and dashes, up to 32 characters, e.g. `brand-promo`.",
+      };
+    }
+    const existing = await this.get(key);
+    const refused = existing && this.refusal(existing, owner, admins, "replace");
+    if (refused) return { ok: false, error: refused };
+
+    const now = Date.now();
+    if (existing) {
+      // Replaced whole, so settings the new version leaves out don't linger
+      const preset: Preset = { ...settings, name: key, owner, createdAt: existing.createdAt, updatedAt: now };
+      await this.repo.delete(key);
+      await this.repo.insert(preset);
+      return { ok: true, value: { preset, replaced: true } };
+    }
+    const preset: Preset = { ...settings, name: key, owner, createdAt: now };
+    await this.repo.insert(preset);
+    return { ok: true, value: { preset, replaced: false } };
+  }
+
+  /** Delete a saved preset on behalf of `requester`. */
+  async delete(name: string, requester: string, admins: string[]): Promise<ParseResult<Preset>> {
+    const preset = await this.get(name);
+    if (!preset) return { ok: false, error: `No preset named \`${name}\`. See \`/video preset list\`.` };
+    const refused = this.refusal(preset, requester, admins, "delete");
+    if (refused) return { ok: false, error: refused };
+    await this.repo.delete(preset.name);
+    return { ok: true, value: preset };
+  }
+
+  private refusal(preset: Preset, user: string, admins: string[], action: "replace" | "delete"): string | null {
+    if (isBuiltInPreset(preset)) return `\`${preset.name}\` is a built-in preset and can't be changed.`;
+    if (preset.owner !== user && !admins.includes(user)) {
+      return `\`${preset.name}\` was saved by ${preset.owner}; only they or a video admin can ${action} it.`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Direct provider adapters.
+ *
+ * Hosted-credit requests go through the socket layer (see capability.ts),
+ * which routes, bills and talks to the provider itself. With a BYOK API key,
+ * or for backends the socket can't reach, the plugin calls the provider
+ * directly through its adapter:
+ * - `replicate` creates a Replicate prediction and polls it (replicate.ts).
+ *   Used with a BYOK key; without one, Replicate is reached via the socket.
+ * - `custom` posts to `endpointUrl` with a configurable body and auth header
+ *   and reads the video URL out of the response (custom-endpoint.ts).
+ * - `comfyui` queues a workflow on a local ComfyUI server (comfyui.ts).
+ * - `openai` talks to an OpenAI-style `/v1/videos` endpoint (openai-videos.ts).
+ *
+ * The configured `provider` is the default; `--provider` (or the A2A
+ * `provider` parameter) picks one per request.
+ */
+
+import type { CapabilityResult, VideoGenerationInput } from "./capability.js";
+import { comfyuiAdapter, DEFAULT_COMFYUI_URL } from "./comfyui.js";
+import { customEndpointAdapter } from "./custom-endpoint.js";
+import { getModel } from "./models.js";
+import { OPENAI_API_URL, openaiVideosAdapter } from "./openai-videos.js";
+import { replicateAdapter } from "./replicate.js";
+import type { FieldIssue } from "./schemas.js";
+
+export const PROVIDERS = ["replicate", "custom", "comfyui", "openai"] as const;
+export type ProviderId = (typeof PROVIDERS)[number];
+
+/** Capability providers registered with WOPR, one per backend it can route to. */
+export const CAPABILITY_PROVIDERS = [
+  { id: "videogen-replicate", name: "Video Generation (Replicate)" },
+  { id: "videogen-comfyui", name: "Video Generation (ComfyUI)" },
+  { id: "videogen-openai", name: "Video Generation (OpenAI-compatible)" },
+] as const;
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  name: string;
+  /** Render a video. Resolves an error rather than throwing when the provider refuses or fails. */
+  generate(input: VideoGenerationInput, signal?: AbortSignal): Promise<CapabilityResult>;
+}
+
+/** Raw provider config values. */
+export interface ProviderConfig {
+  provider?: string;
+  apiKey?: string;
+  endpointUrl?: string;
+  endpointAuthHeader?: string;
+  endpointRequestTemplate?: string;
+  endpointResponsePath?: string;
+  comfyuiUrl?: string;
+  comfyuiWorkflow?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  openaiModel?: string;
+}
+
+/**
+ * The adapter to call directly for `requested` (by default the configured
+ * provider), or null if the request should go through the socket layer.
+ */
+export function providerFromConfig(config: ProviderConfig, requested?: string): ProviderAdapter | null {
+  switch (requested ?? config.provider) {
+    case "custom":
+      if (!config.endpointUrl) return null;
+      return customEndpointAdapter({
+        url: config.endpointUrl,
+        ...(config.apiKey ? { apiKey: config.apiKey } : {}),
+        ...(config.endpointAuthHeader ? { authHeader: config.endpointAuthHeader } : {}),
+        ...(config.endpointRequestTemplate ? { requestTemplate: config.endpointRequestTemplate } : {}),
+        ...(config.endpointResponsePath ? { responsePath: config.endpointResponsePath } : {}),
+      });
+    case "comfyui":
+      return comfyuiAdapter({
+        url: config.comfyuiUrl || DEFAULT_COMFYUI_URL,
+        ...(config.comfyuiWorkflow ? { workflow: config.comfyuiWorkflow } : {}),
+      });
+    case "openai":
+      return openaiVideosAdapter({
+        baseUrl: config.openaiBaseUrl || OPENAI_API_URL,
+        ...(config.openaiApiKey ? { apiKey: config.openaiApiKey } : {}),
+        ...(config.openaiModel ? { model: config.openaiModel } : {}),
+      });
+    default:
+      return config.apiKey ? replicateAdapter({ apiKey: config.apiKey }) : null;
+  }
+}
+
+/** Why a request for `provider` can't be served with the current config, or null if it can. */
+export function providerIssue(config: ProviderConfig, provider: string | undefined): FieldIssue | null {
+  if (provider === "custom" && !config.endpointUrl) {
+    return {
+      field: "provider",
+      message: "The custom provider needs an endpoint URL — set `endpointUrl` in the plugin settings.",
+    };
+  }
+  if (provider === "comfyui" && !config.comfyuiWorkflow) {
+    return {
+      field: "provider",
+      message: "ComfyUI needs a workflow — export one with Save (API Format) into the `comfyuiWorkflow` setting.",
+    };
+  }
+  return null;
+}
+
+/** Short description of how requests are routed by default, for `/video settings`. */
+export function describeRoute(config: ProviderConfig): string {
+  const adapter = providerFromConfig(config);
+  if (!adapter)
+    return config.provider === "custom"
+      ? "hosted credits (set an endpoint URL to call your own endpoint)"
+      : "hosted credits";
+  const key = adapter.id === "openai" ? config.openaiApiKey : adapter.id === "comfyui" ? undefined : config.apiKey;
+  return `direct to ${adapter.name}${key ? " with your API key" : ""}`;
+}
+
+/**
+ * Frame size for a request, for backends that take pixels rather than an
+ * aspect ratio: the resolution is the short side, and both sides are
+ * multiples of 16 as video models expect.
+ */
+export function frameSize(input: VideoGenerationInput): { width: number; height: number } {
+  const resolution = input.resolution ?? getModel(input.model)?.resolutions[0] ?? "720p";
+  const short = Number.parseInt(resolution, 10) || 720;
+  const [w, h] = input.aspectRatio.split(":").map(Number);
+  const long = Math.round((short * Math.max(w, h)) / Math.min(w, h) / 16) * 16;
+  const side = Math.round(short / 16) * 16;
+  return w >= h ? { width: long, height: side } : { width: side, height: long };
+}
+
+/** Pull a message out of a provider's JSON error body, if it has one. */
+export async function errorDetail(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  try {
+    const body = JSON.parse(text) as { detail?: unknown; error?: unknown; message?: unknown };
+    const detail = body.detail ?? body.error ?? body.message;
+    if (typeof detail === "string") return detail;
+    if (detail && typeof detail === "object" && "message" in detail) return String(detail.message);
+  } catch {
+    // Not JSON; fall through to the raw text
+  }
+  return text.slice(0, 200);
+}
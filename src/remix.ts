@@ -0,0 +1,96 @@
+/**
+ * Remix and extend — new jobs derived from an earlier one.
+ *
+ * Both start from the parameters stored on the original job record:
+ * - A remix re-runs the job with whatever the caller changes. The original
+ *   seed is dropped unless a new one is given, so an unchanged remix is a
+ *   fresh variation rather than a copy.
+ * - An extend asks the provider to continue the original video from its last
+ *   frame, keeping its framing. Only models with `extension` support it.
+ */
+
+import { HOST_ONLY_NOTE, isHostOnlyUrl } from "./artifacts.js";
+import type { VideoGenerationInput } from "./capability.js";
+import type { VideoJob } from "./jobs.js";
+import { applyModelDefaults, getModel } from "./models.js";
+
+/** Parameters the caller wants to change. Anything left out comes from the original. */
+export interface DerivedOverrides {
+  prompt?: string;
+  model?: string;
+  duration?: number;
+  aspectRatio?: string;
+  resolution?: string;
+  image?: string;
+  negativePrompt?: string;
+  seed?: number;
+  provider?: string;
+}
+
+export function remixInput(original: VideoGenerationInput, overrides: DerivedOverrides): VideoGenerationInput {
+  const model = overrides.model ?? original.model;
+  const { duration, aspectRatio } = applyModelDefaults(
+    getModel(model),
+    { duration: overrides.duration, aspectRatio: overrides.aspectRatio },
+    { duration: original.duration, aspectRatio: original.aspectRatio },
+  );
+  // A different model may not offer the original resolution; fall back to its own default
+  const resolution = overrides.resolution ?? (model === original.model ? original.resolution : undefined);
+  const image = overrides.image ?? original.image;
+  const negativePrompt = overrides.negativePrompt ?? original.negativePrompt;
+  const provider = overrides.provider ?? original.provider;
+  return {
+    prompt: overrides.prompt ?? original.prompt,
+    model,
+    duration,
+    aspectRatio,
+    ...(resolution ? { resolution } : {}),
+    ...(image ? { image } : {}),
+    ...(negativePrompt ? { negativePrompt } : {}),
+    ...(overrides.seed !== undefined ? { seed: overrides.seed } : {}),
+    ...(original.extendVideo ? { extendVideo: original.extendVideo } : {}),
+    ...(provider ? { provider } : {}),
+  };
+}
+
+/** Why a job can't be extended, or null if it can. */
+export function extendSourceError(job: VideoJob): string | null {
+  if (job.status !== "succeeded" || !job.resultUrl) {
+    return `Video job \`${job.id}\` didn't produce a video, so there's nothing to extend.`;
+  }
+  // A provider can't fetch a file or loopback URL on the plugin host
+  if (isHostOnlyUrl(job.resultUrl)) {
+    return `Video job \`${job.id}\` can't be extended: its video is ${HOST_ONLY_NOTE}.`;
+  }
+  return null;
+}
+
+/** Continue a finished job's video. Check extendSourceError() first. */
+export function extendInput(
+  original: VideoJob,
+  overrides: Omit<DerivedOverrides, "aspectRatio" | "image">,
+): VideoGenerationInput {
+  const source = original.input;
+  const model = overrides.model ?? source.model;
+  const spec = getModel(model);
+  // Extensions default to the shortest clip the model makes — "a few more seconds"
+  const { duration } = applyModelDefaults(
+    spec,
+    { duration: overrides.duration },
+    { duration: spec?.durations[0] ?? source.duration, aspectRatio: source.aspectRatio },
+  );
+  const resolution = overrides.resolution ?? (model === source.model ? source.resolution : undefined);
+  const negativePrompt = overrides.negativePrompt ?? source.negativePrompt;
+  const provider = overrides.provider ?? source.provider;
+  return {
+    prompt: overrides.prompt ?? source.prompt,
+    model,
+    duration,
+    aspectRatio: source.aspectRatio,
+    ...(resolution ? { resolution } : {}),
+    ...(negativePrompt ? { negativePrompt } : {}),
+    ...(overrides.seed !== undefined ? { seed: overrides.seed } : {}),
+    ...(original.resultUrl ? { extendVideo: original.resultUrl } : {}),
+    ...(provider ? { provider } : {}),
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Replicate adapter.
+ *
+ * Creates a prediction on the model's Replicate deployment, polls it until it
+ * settles and returns its output URL. Cancelling the job cancels the
+ * prediction too, so an abandoned render stops billing.
+ */
+
+import { setTimeout as sleep } from "node:timers/promises";
+import type { CapabilityResult, VideoGenerationInput } from "./capability.js";
+import { errorDetail, type ProviderAdapter } from "./provider.js";
+
+export const REPLICATE_API_URL = "https://api.replicate.com/v1";
+
+export interface ReplicateOptions {
+  apiKey: string;
+  baseUrl?: string;
+  pollIntervalMs?: number;
+  /** Give up (and cancel the prediction) after this long. */
+  timeoutMs?: number;
+}
+
+interface ReplicateModel {
+  /** `owner/name` of the Replicate model for this request. */
+  slug: (input: VideoGenerationInput) => string;
+  /** Input field the model takes its reference image in. */
+  imageField: string;
+}
+
+/** Where each model in the registry lives on Replicate. */
+const REPLICATE_MODELS: Record<string, ReplicateModel> = {
+  "minimax-video": { slug: () => "minimax/video-01", imageField: "first_frame_image" },
+  "wan-2.1": {
+    slug: (input) => `wavespeedai/wan-2.1-${input.image ? "i2v" : "t2v"}-${input.resolution ?? "480p"}`,
+    imageField: "image",
+  },
+  "kling-1.6": {
+    slug: (input) => (input.resolution === "1080p" ? "kwaivgi/kling-v1.6-pro" : "kwaivgi/kling-v1.6-standard"),
+    imageField: "start_image",
+  },
+  "luma-ray2": { slug: (input) => `luma/ray-2-${input.resolution ?? "540p"}`, imageField: "start_image_url" },
+};
+
+interface Prediction {
+  id: string;
+  status: "starting" | "processing" | "succeeded" | "failed" | "canceled";
+  output?: unknown;
+  error?: unknown;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** The prediction input for a request. */
+function replicateInput(model: ReplicateModel, input: VideoGenerationInput): Record<string, unknown> {
+  return {
+    prompt: input.prompt,
+    duration: input.duration,
+    aspect_ratio: input.aspectRatio,
+    ...(input.image ? { [model.imageField]: input.image } : {}),
+    ...(input.negativePrompt ? { negative_prompt: input.negativePrompt } : {}),
+    ...(input.seed !== undefined ? { seed: input.seed } : {}),
+  };
+}
+
+function outputUrl(output: unknown): string | undefined {
+  if (typeof output === "string") return output;
+  if (Array.isArray(output)) return output.find((item): item is string => typeof item === "string");
+  return undefined;
+}
+
+export function replicateAdapter(options: ReplicateOptions): ProviderAdapter {
+  const baseUrl = (options.baseUrl ?? REPLICATE_API_URL).replace(/\/+$/, "");
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const headers = { authorization: `Bearer ${options.apiKey}`, "content-type": "application/json" };
+
+  const call = async (path: string, init: RequestInit = {}): Promise<Prediction | CapabilityResult> => {
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+    if (response.status === 402) return { error: "insufficient_credits" };
+    if (!response.ok) {
+      return { error: `Replicate rejected the request (HTTP ${response.status}): ${await errorDetail(response)}` };
+    }
+    return (await response.json()) as Prediction;
+  };
+
+  const cancel = (id: string): void => {
+    fetch(`${baseUrl}/predictions/${id}/cancel`, { method: "POST", headers }).catch(() => {});
+  };
+
+  return {
+    id: "replicate",
+    name: "Replicate",
+    async generate(input, signal) {
+      const model = REPLICATE_MODELS[input.model];
+      if (!model) return { error: `${input.model} isn't available on Replicate` };
+      if (input.extendVideo) return { error: `Extending videos isn't supported on Replicate for ${input.model}` };
+
+      let prediction = await call(`/models/${model.slug(input)}/predictions`, {
+        method: "POST",
+        body: JSON.stringify({ input: replicateInput(model, input) }),
+        signal,
+      });
+      const deadline = Date.now() + timeoutMs;
+      while ("id" in prediction && (prediction.status === "starting" || prediction.status === "processing")) {
+        const id = prediction.id;
+        if (Date.now() >= deadline) {
+          cancel(id);
+          return { error: `Replicate prediction ${id} timed out` };
+        }
+        try {
+          await sleep(pollIntervalMs, undefined, { signal });
+          prediction = await call(`/predictions/${id}`, { signal });
+        } catch (error: unknown) {
+          if (signal?.aborted) cancel(id);
+          throw error;
+        }
+      }
+
+      if (!("id" in prediction)) return prediction;
+      if (prediction.status !== "succeeded") {
+        return { error: `Replicate prediction ${prediction.status}: ${String(prediction.error ?? "no details")}` };
+      }
+      const url = outputUrl(prediction.output);
+      return url ? { url } : { error: "Replicate returned no video" };
+    },
+  };
+}
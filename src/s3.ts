@@ -0,0 +1,145 @@
+/**
+ * S3-compatible artifact backend.
+ *
+ * Talks to AWS S3, MinIO, R2 and friends with plain fetch and hand-signed
+ * (SigV4) requests, using path-style URLs so self-hosted endpoints work
+ * without wildcard DNS. Objects are handed out under `publicUrl` when set —
+ * a CDN or a bucket website — and otherwise straight from the endpoint, so
+ * the bucket has to allow public reads for those links to open.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import type { ArtifactBackend } from "./artifacts.js";
+
+export interface S3Settings {
+  /** e.g. `https://s3.us-east-1.amazonaws.com` or `http://localhost:9000` for MinIO. */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Base URL objects are served from; defaults to `<endpoint>/<bucket>`. */
+  publicUrl?: string;
+}
+
+export interface S3Credentials {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** `20130524T000000Z` */
+function amzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/** Percent-encode the way SigV4 wants: everything but unreserved characters. */
+function encode(text: string): string {
+  return encodeURIComponent(text).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * The headers that authorize an S3 request: `headers` plus `x-amz-date`,
+ * `x-amz-content-sha256` and `authorization`. `host` is signed but left out,
+ * since fetch sets it from the URL.
+ */
+export function signS3Request(
+  request: { method: string; url: URL; headers?: Record<string, string>; body?: Buffer },
+  credentials: S3Credentials,
+  now = new Date(),
+): Record<string, string> {
+  const timestamp = amzDate(now);
+  const date = timestamp.slice(0, 8);
+  const payloadHash = sha256(request.body ?? "");
+  const headers: Record<string, string> = {
+    ...request.headers,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": timestamp,
+  };
+
+  const signed = Object.entries({ ...headers, host: request.url.host })
+    .map(([name, value]) => [name.toLowerCase(), value.trim()] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = signed.map(([name]) => name).join(";");
+  const query = [...request.url.searchParams]
+    .map(([name, value]) => `${encode(name)}=${encode(value)}`)
+    .sort()
+    .join("&");
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    query,
+    ...signed.map(([name, value]) => `${name}:${value}`),
+    "",
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", timestamp, scope, sha256(canonicalRequest)].join("\n");
+  let key = hmac(`AWS4${credentials.secretAccessKey}`, date);
+  for (const part of [credentials.region, "s3", "aws4_request"]) key = hmac(key, part);
+  const signature = createHmac("sha256", key).update(stringToSign).digest("hex");
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+// ============================================================================
+// Backend
+// ============================================================================
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function objectUrl(settings: S3Settings, key: string): URL {
+  const path = [settings.bucket, ...key.split("/")].map(encode).join("/");
+  return new URL(`${trimSlash(settings.endpoint)}/${path}`);
+}
+
+export function s3Backend(settings: S3Settings): ArtifactBackend {
+  const send = async (method: string, key: string, body?: Buffer, contentType?: string): Promise<void> => {
+    const url = objectUrl(settings, key);
+    const headers = signS3Request(
+      { method, url, body, headers: contentType ? { "content-type": contentType } : {} },
+      settings,
+    );
+    const response = await fetch(url, { method, headers, ...(body ? { body: new Uint8Array(body) } : {}) });
+    if (!response.ok) {
+      const detail = (await response.text()).match(/<Code>([^<]+)<\/Code>/)?.[1];
+      throw new Error(`S3 ${method} ${key} failed with HTTP ${response.status}${detail ? ` (${detail})` : ""}`);
+    }
+  };
+
+  return {
+    name: "s3",
+    linkable: true,
+    async put(key, data, contentType) {
+      await send("PUT", key, data, contentType);
+      return settings.publicUrl ? `${trimSlash(settings.publicUrl)}/${key}` : objectUrl(settings, key).href;
+    },
+    async delete(key) {
+      await send("DELETE", key);
+    },
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Fair scheduler in front of the `__capability__` inject call.
+ *
+ * At most `maxConcurrent` capability requests run at once; the rest wait in
+ * an in-memory queue. When a slot frees up the next job is picked round-robin:
+ * first across channels (A2A callers count as their own channel), then across
+ * senders within that channel, and only then by arrival. One busy channel or
+ * one prolific user therefore can't starve everyone else. Optional per-sender
+ * and per-channel caps hold back the rest of a batch while its first jobs
+ * render, skipping over them to whoever is next.
+ *
+ * Waiting jobs are told their place in line when they join and whenever they
+ * move up. The queue itself is not persisted — queued jobs live in the job
+ * store, and JobManager.recover() fails any a restart leaves behind.
+ */
+
+/** The job a queued task belongs to, for fairness and position updates. */
+export interface QueueTicket {
+  jobId: string;
+  requester: string;
+  channelId?: string;
+}
+
+/** Called with a job's 1-based place in line when it joins and when it moves up. */
+export type PositionListener = (ticket: QueueTicket, position: number) => void;
+
+export interface SchedulerOptions {
+  /** Read on every dispatch so config changes apply without a restart. 0 = unlimited. */
+  maxConcurrent: () => number;
+  /** Most requests one sender may have in flight. 0 = unlimited. */
+  maxPerSender?: () => number;
+  /** Most requests one chat channel may have in flight. 0 = unlimited. */
+  maxPerChannel?: () => number;
+  onPosition?: PositionListener;
+}
+
+interface QueueEntry {
+  ticket: QueueTicket;
+  seq: number;
+  /** Last position reported to the listener. */
+  reported?: number;
+  start: () => void;
+  drop: () => void;
+}
+
+function laneKey(ticket: QueueTicket): string {
+  return `channel:${ticket.channelId ?? ticket.requester}`;
+}
+
+function senderKey(ticket: QueueTicket): string {
+  return `sender:${ticket.requester}`;
+}
+
+export class Scheduler {
+  private readonly maxConcurrent: () => number;
+  private readonly maxPerSender: () => number;
+  private readonly maxPerChannel: () => number;
+  private readonly onPosition?: PositionListener;
+  private queue: QueueEntry[] = [];
+  private runningCount = 0;
+  /** In-flight requests per sender and channel key. */
+  private readonly runningBy = new Map<string, number>();
+  private seq = 0;
+  private tick = 0;
+  /** When each channel and sender was last served, for round-robin ordering. */
+  private readonly lastServed = new Map<string, number>();
+
+  constructor(options: SchedulerOptions) {
+    this.maxConcurrent = options.maxConcurrent;
+    this.maxPerSender = options.maxPerSender ?? (() => 0);
+    this.maxPerChannel = options.maxPerChannel ?? (() => 0);
+    this.onPosition = options.onPosition;
+  }
+
+  /** Jobs waiting for a slot. */
+  get depth(): number {
+    return this.queue.length;
+  }
+
+  /** Capability requests currently in flight. */
+  get running(): number {
+    return this.runningCount;
+  }
+
+  /**
+   * Run `task` once a slot is free. Resolves with the task's result, or with
+   * null if the job was removed from the queue before it started.
+   */
+  run<T>(ticket: QueueTicket, task: () => Promise<T>): Promise<T | null> {
+    return new Promise<T | null>((resolve, reject) => {
+      const entry: QueueEntry = {
+        ticket,
+        seq: this.seq++,
+        start: () => {
+          this.runningCount++;
+          this.adjustRunning(ticket, 1);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.runningCount--;
+              this.adjustRunning(ticket, -1);
+              this.pump();
+            });
+        },
+        drop: () => resolve(null),
+      };
+      this.queue.push(entry);
+      this.pump();
+    });
+  }
+
+  /** Take a waiting job out of the queue. Returns false if it isn't queued (e.g. already running). */
+  remove(jobId: string): boolean {
+    const entry = this.queue.find((e) => e.ticket.jobId === jobId);
+    if (!entry) return false;
+    this.queue = this.queue.filter((e) => e !== entry);
+    entry.drop();
+    this.reportPositions();
+    return true;
+  }
+
+  /** 1-based place in line, or null if the job isn't waiting. */
+  position(jobId: string): number | null {
+    const index = this.ordered().findIndex((e) => e.ticket.jobId === jobId);
+    return index === -1 ? null : index + 1;
+  }
+
+  private pump(): void {
+    const limit = this.maxConcurrent();
+    while (this.queue.length > 0 && (limit <= 0 || this.runningCount < limit)) {
+      const next = this.ordered().find((e) => this.mayStart(e.ticket));
+      if (!next) break;
+      this.queue = this.queue.filter((e) => e !== next);
+      this.markServed(this.lastServed, next.ticket, ++this.tick);
+      next.start();
+    }
+    this.reportPositions();
+  }
+
+  /** Whether the ticket's sender and channel are below their caps. */
+  private mayStart(ticket: QueueTicket): boolean {
+    const below = (key: string, cap: number) => cap <= 0 || (this.runningBy.get(key) ?? 0) < cap;
+    return (
+      below(senderKey(ticket), this.maxPerSender()) &&
+      (!ticket.channelId || below(laneKey(ticket), this.maxPerChannel()))
+    );
+  }
+
+  private adjustRunning(ticket: QueueTicket, delta: number): void {
+    for (const key of [senderKey(ticket), laneKey(ticket)]) {
+      const count = (this.runningBy.get(key) ?? 0) + delta;
+      if (count > 0) this.runningBy.set(key, count);
+      else this.runningBy.delete(key);
+    }
+  }
+
+  /** The queue in the order jobs will be dispatched, given no new arrivals. */
+  private ordered(): QueueEntry[] {
+    const served = new Map(this.lastServed);
+    const pending = [...this.queue];
+    const result: QueueEntry[] = [];
+    let tick = this.tick;
+    while (pending.length > 0) {
+      let best = 0;
+      for (let i = 1; i < pending.length; i++) {
+        if (this.compare(pending[i], pending[best], served) < 0) best = i;
+      }
+      const [next] = pending.splice(best, 1);
+      this.markServed(served, next.ticket, ++tick);
+      result.push(next);
+    }
+    return result;
+  }
+
+  private compare(a: QueueEntry, b: QueueEntry, served: Map<string, number>): number {
+    const at = (key: string) => served.get(key) ?? 0;
+    return (
+      at(laneKey(a.ticket)) - at(laneKey(b.ticket)) ||
+      at(senderKey(a.ticket)) - at(senderKey(b.ticket)) ||
+      a.seq - b.seq
+    );
+  }
+
+  private markServed(served: Map<string, number>, ticket: QueueTicket, tick: number): void {
+    served.set(laneKey(ticket), tick);
+    served.set(senderKey(ticket), tick);
+  }
+
+  /** Tell waiting jobs their place in line when they first join and whenever it improves. */
+  private reportPositions(): void {
+    if (!this.onPosition) return;
+    this.ordered().forEach((entry, index) => {
+      const position = index + 1;
+      if (entry.reported === undefined || position < entry.reported) {
+        entry.reported = position;
+        this.onPosition?.(entry.ticket, position);
+      }
+    });
+  }
+}
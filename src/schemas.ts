@@ -0,0 +1,365 @@
+/**
+ * Zod schemas for /video arguments and A2A tool inputs.
+ *
+ * Field definitions are shared between the chat command and the A2A tools,
+ * and the tools' JSON Schema `inputSchema` is derived from the same zod
+ * objects, so what we advertise and what we accept cannot drift apart.
+ * Cross-field model constraints live in models.ts (validateModelParams).
+ */
+
+import { z } from "zod";
+import { MAX_HISTORY_LIMIT } from "./history.js";
+import { validateImageInput } from "./image.js";
+import { JOB_STATUSES } from "./jobs.js";
+import { allAspectRatios, allDurations, allResolutions, type ModelParamIssue, modelIds } from "./models.js";
+import { OUTPUT_FORMATS } from "./postprocess.js";
+import { PRESET_NAME_PATTERN } from "./presets.js";
+import { PROVIDERS } from "./provider.js";
+import type { A2AToolResult } from "./types.js";
+
+export const MAX_PROMPT_LENGTH = 2000;
+
+// ============================================================================
+// Shared fields
+// ============================================================================
+
+function oneOf(values: readonly (string | number)[]): string {
+  return `must be one of ${values.join(", ")}`;
+}
+
+const promptField = z
+  .string({ error: "must be text" })
+  .trim()
+  .min(1, "is required")
+  .max(MAX_PROMPT_LENGTH, `must be at most ${MAX_PROMPT_LENGTH} characters`);
+
+const modelField = z.enum(modelIds(), { error: oneOf(modelIds()) });
+
+const durationField = z.literal(allDurations(), { error: `${oneOf(allDurations())} seconds` });
+
+const aspectRatioField = z.enum(allAspectRatios(), { error: oneOf(allAspectRatios()) });
+
+const resolutionField = z.enum(allResolutions(), { error: oneOf(allResolutions()) });
+
+const negativePromptField = z
+  .string({ error: "must be text" })
+  .trim()
+  .min(1, "must not be empty")
+  .max(MAX_PROMPT_LENGTH, `must be at most ${MAX_PROMPT_LENGTH} characters`);
+
+export const MAX_SEED = 4_294_967_295;
+
+/** Most videos a single request may produce, counting every `--count` and `{a|b}` combination. */
+export const MAX_BATCH_SIZE = 8;
+
+const seedField = z
+  .number({ error: "must be a whole number" })
+  .int("must be a whole number")
+  .min(0, `must be between 0 and ${MAX_SEED}`)
+  .max(MAX_SEED, `must be between 0 and ${MAX_SEED}`);
+
+const countField = z
+  .number({ error: "must be a whole number" })
+  .int("must be a whole number")
+  .min(1, `must be between 1 and ${MAX_BATCH_SIZE}`)
+  .max(MAX_BATCH_SIZE, `must be between 1 and ${MAX_BATCH_SIZE}`);
+
+const formatField = z.enum(OUTPUT_FORMATS, { error: oneOf(OUTPUT_FORMATS) });
+
+const loopField = z.boolean({ error: "must be true or false" });
+
+const trimSecondsField = z.number({ error: "must be a number of seconds" }).min(0, "must not be negative");
+
+const trimField = z
+  .object({ start: trimSecondsField.optional(), end: trimSecondsField.optional() })
+  .refine((trim) => trim.start !== undefined || trim.end !== undefined, "needs a start or an end")
+  .refine((trim) => (trim.start ?? 0) < (trim.end ?? Number.POSITIVE_INFINITY), "must end after it starts");
+
+const providerField = z.enum(PROVIDERS, { error: oneOf(PROVIDERS) });
+
+const presetField = z
+  .string({ error: "must be a preset name" })
+  .trim()
+  .toLowerCase()
+  .regex(PRESET_NAME_PATTERN, "must be a preset name — see `/video preset list`");
+
+const maxCostField = z
+  .number({ error: "must be a number of credits" })
+  .min(0, "must not be negative")
+  .describe("Refuse the request instead of running it if its estimated cost in credits is higher than this");
+
+const imageField = z.string({ error: "must be a URL or data URI" }).superRefine((value, ctx) => {
+  const error = validateImageInput(value);
+  if (error) ctx.addIssue({ code: "custom", message: error });
+});
+
+// ============================================================================
+// /video command arguments
+// ============================================================================
+
+/** Parsed `/video` flags. Values arrive as strings and are coerced here. */
+export const videoArgsSchema = z.object({
+  prompt: promptField,
+  model: modelField.optional(),
+  duration: z
+    .string()
+    .regex(/^\d+$/, "must be a whole number of seconds")
+    .transform(Number)
+    .pipe(durationField)
+    .optional(),
+  aspectRatio: aspectRatioField.optional(),
+  resolution: resolutionField.optional(),
+  image: imageField.optional(),
+  negativePrompt: negativePromptField.optional(),
+  seed: z.string().regex(/^\d+$/, "must be a whole number").transform(Number).pipe(seedField).optional(),
+  count: z.string().regex(/^\d+$/, "must be a whole number").transform(Number).pipe(countField).optional(),
+  format: formatField.optional(),
+  loop: z.boolean().optional(),
+  trim: z
+    .string()
+    .regex(/^(\d+(\.\d+)?)?:(\d+(\.\d+)?)?$/, "must be start:end in seconds, e.g. 1:4, 2: or :3")
+    .transform((text) => {
+      const [start, end] = text.split(":");
+      return { ...(start ? { start: Number(start) } : {}), ...(end ? { end: Number(end) } : {}) };
+    })
+    .pipe(trimField)
+    .optional(),
+  provider: providerField.optional(),
+  noCache: z.boolean().optional(),
+  enhance: z.boolean().optional(),
+  preset: presetField.optional(),
+});
+
+export type VideoArgs = z.output<typeof videoArgsSchema>;
+
+/** `/video remix` and `/video extend` flags — the prompt is optional and defaults to the original's. */
+export const derivedArgsSchema = videoArgsSchema.extend({ prompt: promptField.optional() });
+
+export type DerivedArgs = z.output<typeof derivedArgsSchema>;
+
+/** `/video preset save` flags — the prompt is the preset's template. */
+export const presetArgsSchema = videoArgsSchema.pick({
+  prompt: true,
+  negativePrompt: true,
+  model: true,
+  duration: true,
+  aspectRatio: true,
+});
+
+/** How each field is spelled on the command line, for error messages. */
+const COMMAND_FLAGS: Record<string, string> = {
+  prompt: "prompt",
+  model: "--model",
+  duration: "--duration",
+  aspectRatio: "--aspect",
+  resolution: "--resolution",
+  image: "--image",
+  negativePrompt: "--negative",
+  seed: "--seed",
+  count: "--count",
+  format: "--format",
+  loop: "--loop",
+  trim: "--trim",
+  provider: "--provider",
+  noCache: "--no-cache",
+  enhance: "--enhance",
+  preset: "--preset",
+};
+
+// ============================================================================
+// A2A tool inputs
+// ============================================================================
+
+export const generateVideoInputSchema = z.object({
+  prompt: promptField.describe("Text description of the video to generate"),
+  model: modelField
+    .optional()
+    .describe("Video model to use — see list_video_models for each model's supported options"),
+  duration: durationField.optional().describe("Video duration in seconds (must be supported by the model)"),
+  aspectRatio: aspectRatioField.optional().describe("Aspect ratio (must be supported by the model)"),
+  resolution: resolutionField
+    .optional()
+    .describe("Output resolution (must be supported by the model; defaults to the model's own)"),
+  image: imageField
+    .optional()
+    .describe("Reference image to animate: an https:// URL or a base64 data URI (PNG, JPEG or WebP, max 10 MB)"),
+  negativePrompt: negativePromptField.optional().describe("Things the video should not contain"),
+  seed: seedField.optional().describe("Fixed seed for reproducible results"),
+  format: formatField
+    .optional()
+    .describe("Also convert the video to this format (gif for chat previews, webm for the web); mp4 by default"),
+  loop: loopField.optional().describe("Also make a version that plays forwards then backwards, so it loops seamlessly"),
+  trim: trimField.optional().describe("Also make a version cut to this range, in seconds from the start of the video"),
+  provider: providerField
+    .optional()
+    .describe("Backend to render with: replicate, custom, comfyui or openai; the configured one by default"),
+  noCache: z
+    .boolean({ error: "must be true or false" })
+    .optional()
+    .describe("Always generate a new video instead of returning a cached result for an identical request"),
+  preset: presetField
+    .optional()
+    .describe(
+      "Style preset to apply: its template wraps the prompt, and its negative prompt, model, duration and aspect " +
+        "ratio fill in whatever isn't given. Built-ins: cinematic, anime, product-shot, vertical-reel",
+    ),
+  maxCost: maxCostField.optional(),
+  async: z
+    .boolean({ error: "must be true or false" })
+    .optional()
+    .describe("Return a job ID immediately instead of waiting for the video"),
+  sessionId: z.string({ error: "must be text" }).optional().describe("Session ID for context"),
+});
+
+export type GenerateVideoInput = z.output<typeof generateVideoInputSchema>;
+
+/** One video in a generate_video_batch request. */
+export const videoSpecSchema = generateVideoInputSchema.omit({ maxCost: true, async: true, sessionId: true });
+
+export type VideoSpec = z.output<typeof videoSpecSchema>;
+
+export const generateVideoBatchInputSchema = z.object({
+  specs: z
+    .array(videoSpecSchema, { error: "must be a list of video specs" })
+    .min(1, "must list at least one video")
+    .max(MAX_BATCH_SIZE, `must list at most ${MAX_BATCH_SIZE} videos`)
+    .describe("The videos to generate; each takes the same fields as generate_video"),
+  maxCost: maxCostField.optional().describe("Refuse the batch if its estimated total cost in credits is higher"),
+  async: generateVideoInputSchema.shape.async.describe("Return the job IDs immediately instead of waiting"),
+  sessionId: generateVideoInputSchema.shape.sessionId,
+});
+
+const jobIdField = z.string({ error: "is required" }).trim().min(1, "is required");
+
+export const jobIdInputSchema = z.object({
+  jobId: jobIdField.describe("Job ID returned by generate_video"),
+});
+
+export const remixVideoInputSchema = generateVideoInputSchema.omit({ preset: true }).extend({
+  jobId: jobIdField.describe("ID of the earlier job to re-run"),
+  prompt: promptField.optional().describe("New prompt; defaults to the original's"),
+});
+
+export const extendVideoInputSchema = generateVideoInputSchema
+  .omit({ aspectRatio: true, image: true, preset: true })
+  .extend({
+    jobId: jobIdField.describe("ID of the finished job whose video should be continued"),
+    prompt: promptField.optional().describe("What happens next; defaults to the original prompt"),
+    duration: durationField
+      .optional()
+      .describe("Seconds to add (must be supported by the model; defaults to its shortest clip)"),
+  });
+
+export const enhanceVideoPromptInputSchema = z.object({
+  prompt: promptField.describe("The prompt to rewrite, e.g. a few words like 'a cat'"),
+  model: modelField
+    .optional()
+    .describe("Video model the prompt is for; its preferred prompt style is used (the configured one by default)"),
+});
+
+export const listVideoHistoryInputSchema = z.object({
+  query: z
+    .string({ error: "must be text" })
+    .trim()
+    .min(1, "must not be empty")
+    .optional()
+    .describe("Text to look for in earlier prompts (case-insensitive)"),
+  model: modelField.optional().describe("Only videos made with this model"),
+  status: z
+    .enum(JOB_STATUSES, { error: oneOf(JOB_STATUSES) })
+    .optional()
+    .describe("Only jobs with this outcome — use succeeded to find reusable videos"),
+  limit: z
+    .number({ error: "must be a whole number" })
+    .int("must be a whole number")
+    .min(1, `must be between 1 and ${MAX_HISTORY_LIMIT}`)
+    .max(MAX_HISTORY_LIMIT, `must be between 1 and ${MAX_HISTORY_LIMIT}`)
+    .optional()
+    .describe("Maximum number of entries to return, newest first (default 10)"),
+});
+
+// ============================================================================
+// Storyboards
+// ============================================================================
+
+export const MAX_STORYBOARD_SHOTS = 8;
+
+const storyboardShotSchema = z.object({
+  prompt: promptField.describe("What happens in this shot"),
+  duration: durationField.optional().describe("Shot length in seconds (must be supported by the model)"),
+  image: imageField
+    .optional()
+    .describe("Reference image for the shot; without one the previous shot's last frame is used"),
+});
+
+/** The storyboard JSON format — see storyboard.ts for a worked example. */
+export const storyboardSpecSchema = z.object({
+  shots: z
+    .array(storyboardShotSchema, { error: "must be a list of shots" })
+    .min(1, "must list at least one shot")
+    .max(MAX_STORYBOARD_SHOTS, `must list at most ${MAX_STORYBOARD_SHOTS} shots`)
+    .describe("The shots in the order they should play"),
+  model: generateVideoInputSchema.shape.model.describe("Video model for every shot"),
+  aspectRatio: generateVideoInputSchema.shape.aspectRatio.describe("Aspect ratio for every shot"),
+  resolution: generateVideoInputSchema.shape.resolution,
+  negativePrompt: negativePromptField.optional().describe("Things no shot should contain"),
+  seed: seedField.optional().describe("Fixed seed for every shot"),
+  carryFrames: z
+    .boolean({ error: "must be true or false" })
+    .optional()
+    .describe("Start each shot from the previous shot's last frame (default true)"),
+  noCache: generateVideoInputSchema.shape.noCache,
+});
+
+export type StoryboardSpec = z.output<typeof storyboardSpecSchema>;
+
+export const generateStoryboardInputSchema = storyboardSpecSchema.extend({
+  maxCost: maxCostField.optional().describe("Refuse the storyboard if its estimated cost for every shot is higher"),
+  async: generateVideoInputSchema.shape.async.describe("Return the storyboard ID immediately instead of waiting"),
+  sessionId: generateVideoInputSchema.shape.sessionId,
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+export function fieldIssues(error: z.ZodError): FieldIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join(".") : "input",
+    message: issue.message,
+  }));
+}
+
+/** Derive a tool's JSON Schema `inputSchema` from its zod schema. */
+export function toInputSchema(schema: z.ZodObject): Record<string, unknown> {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, { io: "input" });
+  return jsonSchema;
+}
+
+/** Chat reply listing every invalid flag. */
+export function formatCommandErrors(error: z.ZodError): string {
+  const lines = fieldIssues(error).map(({ field, message }) => `• \`${COMMAND_FLAGS[field] ?? field}\`: ${message}`);
+  return `**Invalid options:**\n${lines.join("\n")}`;
+}
+
+function issuesResult(issues: FieldIssue[]): A2AToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify({ error: "invalid_input", issues }) }],
+    isError: true,
+  };
+}
+
+/** Structured A2A error result listing every invalid field. */
+export function invalidInputResult(error: z.ZodError): A2AToolResult {
+  return issuesResult(fieldIssues(error));
+}
+
+/** Structured A2A error result for a model constraint violation or an unusable source job. */
+export function invalidParamsResult(issue: ModelParamIssue | FieldIssue): A2AToolResult {
+  return issuesResult([issue]);
+}
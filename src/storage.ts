@@ -0,0 +1,58 @@
+/**
+ * Storage schema for the VideoGen plugin.
+ *
+ * All persistent plugin state lives in the "videogen" namespace of ctx.storage.
+ * Bump `version` whenever a table is added or changed.
+ */
+
+import { artifactSchema } from "./artifacts.js";
+import { cachedResultSchema } from "./cache.js";
+import { videoJobSchema } from "./jobs.js";
+import { rateEventSchema } from "./limiter.js";
+import { presetSchema } from "./presets.js";
+import { storyboardSchema } from "./storyboard.js";
+import type { PluginSchema } from "./types.js";
+
+export const STORAGE_NAMESPACE = "videogen";
+
+export const storageSchema: PluginSchema = {
+  namespace: STORAGE_NAMESPACE,
+  version: 8,
+  tables: {
+    jobs: {
+      schema: videoJobSchema,
+      primaryKey: "id",
+      indexes: [
+        { fields: ["requester"] },
+        { fields: ["status"] },
+        { fields: ["channelId"] },
+        { fields: ["createdAt"] },
+        { fields: ["batchId"] },
+      ],
+    },
+    rate_events: {
+      schema: rateEventSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["subject", "at"] }],
+    },
+    results: {
+      schema: cachedResultSchema,
+      primaryKey: "key",
+    },
+    storyboards: {
+      schema: storyboardSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["requester"] }, { fields: ["status"] }],
+    },
+    artifacts: {
+      schema: artifactSchema,
+      primaryKey: "key",
+      indexes: [{ fields: ["owner"] }, { fields: ["createdAt"] }],
+    },
+    presets: {
+      schema: presetSchema,
+      primaryKey: "name",
+      indexes: [{ fields: ["owner"] }],
+    },
+  },
+};
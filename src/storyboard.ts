@@ -0,0 +1,357 @@
+/**
+ * Multi-shot storyboards stitched into one video.
+ *
+ * A storyboard is a JSON document listing shots in playing order. Settings
+ * at the top level apply to every shot; each shot has its own prompt and
+ * optionally its own duration and reference image:
+ *
+ *     {
+ *       "model": "kling-1.6",
+ *       "aspectRatio": "16:9",
+ *       "shots": [
+ *         { "prompt": "a lighthouse on a cliff at dawn", "duration": 5 },
+ *         { "prompt": "the camera flies towards the lighthouse door" },
+ *         { "prompt": "inside, a keeper lights the lamp", "image": "https://example.com/keeper.png" }
+ *       ]
+ *     }
+ *
+ * Optional top-level fields: `resolution`, `negativePrompt`, `seed`,
+ * `noCache`, and `carryFrames` (default true). Shots without a duration use
+ * the configured default. See storyboardSpecSchema for the exact rules.
+ *
+ * Shots render one after another, each as an ordinary job through the
+ * capability path, limits and cache. When the model accepts images, a shot
+ * without its own image starts from the previous shot's last frame so the
+ * cut is seamless. Finished shots are joined with ffmpeg; if that fails the
+ * storyboard still succeeds with its per-shot URLs and the reason recorded.
+ */
+
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { z } from "zod";
+import type { ParseResult } from "./args.js";
+import type { ArtifactStore } from "./artifacts.js";
+import type { VideoGenerationInput } from "./capability.js";
+import type { MediaTools } from "./ffmpeg.js";
+import type { JobManager, JobOrigin } from "./jobs.js";
+import { applyModelDefaults, getModel, validateModelParams } from "./models.js";
+import type { ModerationRecord } from "./moderation.js";
+import type { FieldIssue, StoryboardSpec } from "./schemas.js";
+import type { PluginLogger, Repository } from "./types.js";
+
+// ============================================================================
+// Storyboard record
+// ============================================================================
+
+export const STORYBOARD_STATUSES = ["running", "succeeded", "failed", "cancelled"] as const;
+export type StoryboardStatus = (typeof STORYBOARD_STATUSES)[number];
+
+const storyboardShotSchema = z.object({
+  prompt: z.string(),
+  duration: z.number(),
+  image: z.string().optional(),
+  jobId: z.string().optional(),
+  url: z.string().optional(),
+  /** Started from the previous shot's last frame. */
+  carried: z.boolean().optional(),
+});
+
+export type StoryboardShot = z.infer<typeof storyboardShotSchema>;
+
+export const storyboardSchema = z.object({
+  id: z.string(),
+  status: z.enum(STORYBOARD_STATUSES),
+  requester: z.string(),
+  channelProvider: z.string().optional(),
+  channelId: z.string().optional(),
+  channelType: z.string().optional(),
+  model: z.string(),
+  aspectRatio: z.string(),
+  resolution: z.string().optional(),
+  negativePrompt: z.string().optional(),
+  seed: z.number().optional(),
+  carryFrames: z.boolean(),
+  noCache: z.boolean().optional(),
+  shots: z.array(storyboardShotSchema),
+  /** The stitched video. */
+  finalUrl: z.string().optional(),
+  /** Why the shots couldn't be stitched, when they all rendered but finalUrl is missing. */
+  stitchError: z.string().optional(),
+  /** Job error code of the shot that stopped the storyboard. */
+  error: z.string().optional(),
+  /** 0-based index of that shot. */
+  failedShot: z.number().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  completedAt: z.number().optional(),
+});
+
+export type Storyboard = z.infer<typeof storyboardSchema>;
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/** A storyboard spec with every default filled in, ready to run. */
+export type StoryboardPlan = Pick<
+  Storyboard,
+  "model" | "aspectRatio" | "resolution" | "negativePrompt" | "seed" | "carryFrames" | "noCache"
+> & { shots: Array<Pick<StoryboardShot, "prompt" | "duration" | "image">> };
+
+export interface StoryboardDefaults {
+  model: string;
+  duration: number;
+  aspectRatio: string;
+}
+
+export function planStoryboard(spec: StoryboardSpec, defaults: StoryboardDefaults): StoryboardPlan {
+  const model = spec.model ?? defaults.model;
+  const spec0 = getModel(model);
+  const { aspectRatio } = applyModelDefaults(spec0, { aspectRatio: spec.aspectRatio }, defaults);
+  return {
+    model,
+    aspectRatio,
+    ...(spec.resolution ? { resolution: spec.resolution } : {}),
+    ...(spec.negativePrompt ? { negativePrompt: spec.negativePrompt } : {}),
+    ...(spec.seed !== undefined ? { seed: spec.seed } : {}),
+    carryFrames: spec.carryFrames ?? true,
+    ...(spec.noCache ? { noCache: true } : {}),
+    shots: spec.shots.map((shot) => ({
+      prompt: shot.prompt,
+      duration: applyModelDefaults(spec0, { duration: shot.duration }, defaults).duration,
+      ...(shot.image ? { image: shot.image } : {}),
+    })),
+  };
+}
+
+/** The first shot the model can't produce, with the field path into the spec. */
+export function storyboardIssue(plan: StoryboardPlan): FieldIssue | null {
+  for (const [index, shot] of plan.shots.entries()) {
+    const issue = validateModelParams(plan.model, { ...plan, duration: shot.duration, image: shot.image });
+    if (issue) {
+      const shotField = issue.field === "duration" || issue.field === "image";
+      return {
+        field: shotField ? `shots.${index}.${issue.field}` : issue.field,
+        message: shotField ? `Shot ${index + 1}: ${issue.message}` : issue.message,
+      };
+    }
+  }
+  return null;
+}
+
+/** The generation request for one shot of a storyboard. */
+export function shotInput(
+  board: Pick<StoryboardPlan, "model" | "aspectRatio" | "resolution" | "negativePrompt" | "seed">,
+  shot: Pick<StoryboardShot, "prompt" | "duration" | "image">,
+): VideoGenerationInput {
+  return {
+    prompt: shot.prompt,
+    model: board.model,
+    duration: shot.duration,
+    aspectRatio: board.aspectRatio,
+    ...(board.resolution ? { resolution: board.resolution } : {}),
+    ...(shot.image ? { image: shot.image } : {}),
+    ...(board.negativePrompt ? { negativePrompt: board.negativePrompt } : {}),
+    ...(board.seed !== undefined ? { seed: board.seed } : {}),
+  };
+}
+
+export function totalDuration(plan: Pick<StoryboardPlan, "shots">): number {
+  return plan.shots.reduce((sum, shot) => sum + shot.duration, 0);
+}
+
+/** Parse storyboard JSON typed into chat, where phones like to curl the quotes. */
+export function parseStoryboardJson(text: string): ParseResult<unknown> {
+  try {
+    return { ok: true, value: JSON.parse(text.replace(/[“”]/g, '"')) };
+  } catch (error: unknown) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, error: `The storyboard isn't valid JSON: ${reason}` };
+  }
+}
+
+// ============================================================================
+// StoryboardRunner
+// ============================================================================
+
+/** Called once a storyboard finishes, fails or is cancelled. */
+export type StoryboardListener = (storyboard: Storyboard) => Promise<void>;
+
+export interface StoryboardRunnerOptions {
+  repo: Repository<Storyboard>;
+  jobs: JobManager;
+  media: MediaTools;
+  /** Where stitched videos are written. */
+  outputDir: () => string;
+  log: PluginLogger;
+  onSettled?: StoryboardListener;
+  /** Takes stitched videos off `outputDir` into durable storage. */
+  artifacts?: ArtifactStore;
+}
+
+export class StoryboardRunner {
+  private readonly inFlight = new Map<string, Promise<Storyboard>>();
+  private readonly repo: Repository<Storyboard>;
+  private readonly jobs: JobManager;
+  private readonly media: MediaTools;
+  private readonly outputDir: () => string;
+  private readonly log: PluginLogger;
+  private readonly onSettled?: StoryboardListener;
+  private readonly artifacts?: ArtifactStore;
+
+  constructor(options: StoryboardRunnerOptions) {
+    this.repo = options.repo;
+    this.jobs = options.jobs;
+    this.media = options.media;
+    this.outputDir = options.outputDir;
+    this.log = options.log;
+    this.onSettled = options.onSettled;
+    this.artifacts = options.artifacts;
+  }
+
+  /**
+   * Persist a storyboard and start rendering its shots in the background.
+   * `moderation` is the decision on its prompts, recorded on every shot's job.
+   */
+  async start(plan: StoryboardPlan, origin: JobOrigin, moderation?: ModerationRecord): Promise<Storyboard> {
+    const now = Date.now();
+    const storyboard = await this.repo.insert({
+      id: randomBytes(4).toString("hex"),
+      status: "running",
+      requester: origin.requester,
+      ...(origin.channelProvider ? { channelProvider: origin.channelProvider } : {}),
+      ...(origin.channel ? { channelId: origin.channel.id, channelType: origin.channel.type } : {}),
+      ...plan,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const run = this.run(storyboard, origin, moderation)
+      .catch(async (error: unknown) => {
+        this.log.error(`Storyboard ${storyboard.id} failed`, error);
+        return this.finish(storyboard.id, { status: "failed", error: "generation_failed" });
+      })
+      .finally(() => this.inFlight.delete(storyboard.id));
+    this.inFlight.set(storyboard.id, run);
+    return storyboard;
+  }
+
+  async get(id: string): Promise<Storyboard | null> {
+    return this.repo.findById(id);
+  }
+
+  /** Resolve once the storyboard settles. Returns the stored record for storyboards not running here. */
+  async wait(id: string): Promise<Storyboard | null> {
+    return (await this.inFlight.get(id)) ?? this.repo.findById(id);
+  }
+
+  /** Stop a storyboard: the shot in progress is cancelled and no further shots start. */
+  async cancel(id: string): Promise<Storyboard | null> {
+    const storyboard = await this.repo.findById(id);
+    if (storyboard?.status !== "running") return storyboard;
+    const cancelled = await this.update(id, { status: "cancelled", error: "cancelled", completedAt: Date.now() });
+    const current = storyboard.shots.find((shot: StoryboardShot) => shot.jobId && !shot.url);
+    if (current?.jobId) await this.jobs.cancel(current.jobId);
+    return cancelled;
+  }
+
+  /** Mark storyboards a previous process left running as failed; their shot jobs died with it. */
+  async recover(): Promise<number> {
+    const stale = await this.repo.findMany({ status: "running" });
+    const orphaned = stale.filter((storyboard: Storyboard) => !this.inFlight.has(storyboard.id));
+    for (const storyboard of orphaned) {
+      await this.update(storyboard.id, { status: "failed", error: "interrupted", completedAt: Date.now() });
+    }
+    return orphaned.length;
+  }
+
+  private async run(storyboard: Storyboard, origin: JobOrigin, moderation?: ModerationRecord): Promise<Storyboard> {
+    const shots = [...storyboard.shots];
+    const canCarry = storyboard.carryFrames && (getModel(storyboard.model)?.imageInput ?? false);
+    let previousUrl: string | undefined;
+
+    for (const [index, shot] of shots.entries()) {
+      if ((await this.repo.findById(storyboard.id))?.status !== "running") return this.settled(storyboard.id);
+
+      let image = shot.image;
+      let carried = false;
+      if (!image && previousUrl && canCarry) {
+        try {
+          image = await this.media.lastFrame(previousUrl);
+          carried = true;
+        } catch (error: unknown) {
+          // A hard cut is better than no storyboard at all
+          this.log.warn(`Could not carry the last frame into shot ${index + 1} of storyboard ${storyboard.id}`, error);
+        }
+      }
+
+      const input = shotInput(storyboard, { ...shot, image });
+      const job = await this.jobs.submit(input, origin, {
+        noCache: storyboard.noCache,
+        storyboardId: storyboard.id,
+        ...(moderation ? { moderation } : {}),
+      });
+      shots[index] = { ...shot, jobId: job.id, ...(carried ? { carried: true } : {}) };
+      await this.update(storyboard.id, { shots });
+
+      const settled = await this.jobs.wait(job.id);
+      if (settled?.status !== "succeeded" || !settled.resultUrl) {
+        const cancelled = settled?.status === "cancelled";
+        return this.finish(storyboard.id, {
+          status: cancelled ? "cancelled" : "failed",
+          error: settled?.error ?? (cancelled ? "cancelled" : "generation_failed"),
+          failedShot: index,
+        });
+      }
+      shots[index] = { ...shots[index], url: settled.resultUrl };
+      await this.update(storyboard.id, { shots });
+      previousUrl = settled.resultUrl;
+    }
+
+    return this.finish(storyboard.id, { status: "succeeded", ...(await this.stitch(storyboard.id, shots)) });
+  }
+
+  private async stitch(id: string, shots: StoryboardShot[]): Promise<Partial<Storyboard>> {
+    const urls = shots.map((shot) => shot.url ?? "");
+    if (urls.length === 1) return { finalUrl: urls[0] };
+    const output = join(this.outputDir(), `${id}.mp4`);
+    try {
+      await this.media.concat(urls, output);
+      const url = pathToFileURL(output).href;
+      return { finalUrl: this.artifacts ? await this.artifacts.keep(id, url, "storyboard.mp4", { move: true }) : url };
+    } catch (error: unknown) {
+      this.log.warn(`Could not stitch storyboard ${id}`, error);
+      return { stitchError: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /** Record the outcome — unless the storyboard was cancelled meanwhile — and notify the listener. */
+  private async finish(id: string, patch: Partial<Storyboard>): Promise<Storyboard> {
+    const latest = await this.repo.findById(id);
+    const settled =
+      latest && latest.status !== "running" ? latest : await this.update(id, { ...patch, completedAt: Date.now() });
+    await this.notify(settled);
+    return settled;
+  }
+
+  private async settled(id: string): Promise<Storyboard> {
+    const latest = await this.repo.findById(id);
+    if (!latest) throw new Error(`Storyboard ${id} disappeared`);
+    await this.notify(latest);
+    return latest;
+  }
+
+  private async notify(storyboard: Storyboard): Promise<void> {
+    if (!this.onSettled) return;
+    try {
+      await this.onSettled(storyboard);
+    } catch (error: unknown) {
+      this.log.error(`Failed to deliver storyboard ${storyboard.id}`, error);
+    }
+  }
+
+  private async update(id: string, patch: Partial<Storyboard>): Promise<Storyboard> {
+    return this.repo.update(id, { ...patch, updatedAt: Date.now() });
+  }
+}
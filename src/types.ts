@@ -4,6 +4,8 @@
  * Shared types are re-exported from @wopr-network/plugin-types.
  */
 
+import type { ChannelCommandContext, ChannelProvider } from "@wopr-network/plugin-types";
+
 export type {
   A2AServerConfig,
   A2AToolDefinition,
@@ -11,15 +13,49 @@ export type {
   ChannelCommand,
   ChannelCommandContext,
   ChannelProvider,
+  ChannelRef,
   ConfigField,
   ConfigSchema,
   ManifestProviderEntry,
   PluginInjectOptions,
   PluginLogger,
   PluginManifest,
+  PluginSchema,
   ProviderOption,
+  Repository,
   SetupFlowType,
   StreamMessage,
   WOPRPlugin,
   WOPRPluginContext,
 } from "@wopr-network/plugin-types";
+
+/** A file attached to the message that triggered a channel command. */
+export interface CommandAttachment {
+  url: string;
+  contentType?: string;
+  size?: number;
+  name?: string;
+}
+
+/**
+ * Command context as seen by /video. Channel providers that support
+ * attachments pass them alongside the standard fields.
+ */
+export interface VideoCommandContext extends ChannelCommandContext {
+  attachments?: CommandAttachment[];
+}
+
+/** A file to upload with a channel message. */
+export interface OutgoingAttachment {
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Channel provider as seen by result delivery. Providers that support
+ * uploads take attachments as an optional third argument to `send`.
+ */
+export interface VideoChannelProvider extends ChannelProvider {
+  send(channel: string, content: string, options?: { attachments?: OutgoingAttachment[] }): Promise<void>;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { parseVideoArgs } from "../src/args.js";
+
+/** Channel providers hand us whitespace-split words. */
+function parse(line: string) {
+  return parseVideoArgs(line.split(/\s+/).filter(Boolean));
+}
+
+describe("parseVideoArgs", () => {
+  it("collects plain words into the prompt", () => {
+    expect(parse("a cat dancing")).toEqual({ ok: true, value: { prompt: "a cat dancing" } });
+  });
+
+  it("parses long flags, --flag=value and short aliases", () => {
+    const result = parse("a cat --model=kling-1.6 -d 10 -a 9:16 --resolution 1080p");
+    expect(result).toEqual({
+      ok: true,
+      value: { prompt: "a cat", model: "kling-1.6", duration: "10", aspectRatio: "9:16", resolution: "1080p" },
+    });
+  });
+
+  it("keeps quoted strings together, including flag values and curly quotes", () => {
+    const result = parse('"a cat --model in a hat" --negative "blurry, low quality" --seed 42');
+    expect(result).toEqual({
+      ok: true,
+      value: { prompt: "a cat --model in a hat", negativePrompt: "blurry, low quality", seed: "42" },
+    });
+    expect(parse("--negative=“no text” sunset")).toEqual({
+      ok: true,
+      value: { prompt: "sunset", negativePrompt: "no text" },
+    });
+  });
+
+  it("does not treat apostrophes as quotes", () => {
+    expect(parse("the cat's 'big' day")).toEqual({ ok: true, value: { prompt: "the cat's big day" } });
+  });
+
+  it("treats everything after -- as prompt text", () => {
+    expect(parse("-m wan-2.1 -- --model is a word here")).toEqual({
+      ok: true,
+      value: { prompt: "--model is a word here", model: "wan-2.1" },
+    });
+  });
+
+  it("treats negative numbers and lone dashes as prompt text", () => {
+    expect(parse("-5 degrees - brr")).toEqual({ ok: true, value: { prompt: "-5 degrees - brr" } });
+  });
+
+  it("rejects unknown flags with the nearest valid suggestion", () => {
+    expect(parse("a cat --modle wan-2.1")).toEqual({
+      ok: false,
+      error: "Unknown option `--modle`. Did you mean `--model`?",
+    });
+    expect(parse("a cat --frobnicate")).toEqual({ ok: false, error: "Unknown option `--frobnicate`." });
+  });
+
+  it("rejects flags without a value", () => {
+    expect(parse("a cat --model")).toEqual({ ok: false, error: "Option `--model` needs a value." });
+    expect(parse("a cat --model --duration 5")).toEqual({ ok: false, error: "Option `--model` needs a value." });
+    expect(parse("a cat --seed=")).toEqual({ ok: false, error: "Option `--seed` needs a value." });
+  });
+
+  it("treats --no-cache as a switch without a value", () => {
+    expect(parse("a cat --no-cache --seed 3")).toEqual({
+      ok: true,
+      value: { prompt: "a cat", noCache: true, seed: "3" },
+    });
+    expect(parse("a cat --no-cache=yes")).toEqual({ ok: false, error: "Option `--no-cache` doesn't take a value." });
+  });
+
+  it("parses --count and its -n alias", () => {
+    expect(parse("a cat --count 4")).toEqual({ ok: true, value: { prompt: "a cat", count: "4" } });
+    expect(parse("-n=2 {a|b} cat")).toEqual({ ok: true, value: { prompt: "{a|b} cat", count: "2" } });
+  });
+
+  it("parses the post-processing flags", () => {
+    expect(parse("a cat -f gif --loop --trim 1:4")).toEqual({
+      ok: true,
+      value: { prompt: "a cat", format: "gif", loop: true, trim: "1:4" },
+    });
+  });
+
+  it("parses --enhance and its -e alias as switches", () => {
+    expect(parse("--enhance a cat")).toEqual({ ok: true, value: { prompt: "a cat", enhance: true } });
+    expect(parse("a cat -e -m veo-2")).toEqual({ ok: true, value: { prompt: "a cat", enhance: true, model: "veo-2" } });
+  });
+
+  it("parses --preset", () => {
+    expect(parse("--preset cinematic a cat")).toEqual({ ok: true, value: { prompt: "a cat", preset: "cinematic" } });
+  });
+
+  it("parses --provider and its -p alias", () => {
+    expect(parse("a cat --provider comfyui")).toEqual({ ok: true, value: { prompt: "a cat", provider: "comfyui" } });
+    expect(parse("-p=openai a cat")).toEqual({ ok: true, value: { prompt: "a cat", provider: "openai" } });
+  });
+
+  it("rejects unterminated quotes", () => {
+    expect(parse('a "cat')).toEqual({ ok: false, error: 'Unterminated quote " in arguments.' });
+  });
+});
@@ -0,0 +1,160 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type Artifact,
+  type ArtifactBackend,
+  ArtifactStore,
+  artifactBackendFromConfig,
+  artifactLimitsFromConfig,
+  isHostOnlyUrl,
+  localBackend,
+} from "../src/artifacts.js";
+import { createMemoryRepository } from "./helpers/memory-storage.js";
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("artifact config", () => {
+  it("defaults to 30 days and 5 GB and treats 0 as no limit", () => {
+    expect(artifactLimitsFromConfig({})).toEqual({ retentionMs: 30 * DAY, quotaBytes: 5120 * 1024 * 1024 });
+    expect(artifactLimitsFromConfig({ artifactRetentionDays: "0", artifactQuotaMb: 0 })).toEqual({
+      retentionMs: 0,
+      quotaBytes: 0,
+    });
+  });
+
+  it("only uses S3 once it is fully configured", () => {
+    expect(artifactBackendFromConfig({}, "/plugin")?.name).toBe("local");
+    expect(artifactBackendFromConfig({ artifactBackend: "s3", s3Endpoint: "http://minio:9000" }, "/plugin")).toBeNull();
+    const s3 = {
+      s3Endpoint: "http://minio:9000",
+      s3Bucket: "videos",
+      s3AccessKeyId: "id",
+      s3SecretAccessKey: "secret",
+    };
+    expect(artifactBackendFromConfig({ artifactBackend: "s3", ...s3 }, "/plugin")?.name).toBe("s3");
+  });
+
+  it("treats files and loopback servers as host-only", () => {
+    expect(isHostOnlyUrl("file:///tmp/v.mp4")).toBe(true);
+    expect(isHostOnlyUrl("http://127.0.0.1:8188/view?filename=v.mp4")).toBe(true);
+    expect(isHostOnlyUrl("http://localhost:8188/view?filename=v.mp4")).toBe(true);
+    expect(isHostOnlyUrl("http://[::1]:8188/view?filename=v.mp4")).toBe(true);
+    expect(isHostOnlyUrl("https://example.com/v.mp4")).toBe(false);
+    expect(isHostOnlyUrl("http://comfyui.lan:8188/view?filename=v.mp4")).toBe(false);
+  });
+});
+
+describe("ArtifactStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "videogen-artifacts-test-"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function setup(
+    limits = { retentionMs: 0, quotaBytes: 0 },
+    backend: ArtifactBackend = localBackend(join(dir, "store")),
+  ) {
+    const repo = createMemoryRepository<Artifact>("key");
+    const store = new ArtifactStore({ repo, backend: () => backend, limits: () => limits, log });
+    return { repo, store };
+  }
+
+  async function source(name: string, content: string): Promise<string> {
+    await writeFile(join(dir, name), content);
+    return pathToFileURL(join(dir, name)).href;
+  }
+
+  it("copies remote videos into the local store and records them", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("video"));
+    const { repo, store } = setup();
+
+    const url = await store.keep("job1", "https://example.com/v.mp4", "original.mp4");
+
+    // Without a base URL the local copy can't be linked, so the original is handed out
+    expect(url).toBe("https://example.com/v.mp4");
+    // A stalled download must not hold the job forever
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      "https://example.com/v.mp4",
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    );
+    expect(await readFile(join(dir, "store", "job1", "original.mp4"), "utf8")).toBe("video");
+    expect(await repo.findById("job1/original.mp4")).toMatchObject({
+      owner: "job1",
+      backend: "local",
+      size: 5,
+      contentType: "video/mp4",
+    });
+  });
+
+  it("hands out the stored copy of a loopback source", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("video"));
+    const { store } = setup();
+
+    // The ComfyUI address is no more reachable than the stored file
+    const url = await store.keep("job1", "http://127.0.0.1:8188/view?filename=v.mp4", "original.mp4");
+    expect(url).toBe(pathToFileURL(join(dir, "store", "job1", "original.mp4")).href);
+  });
+
+  it("links local artifacts under the configured base URL", async () => {
+    const { store } = setup(undefined, localBackend(join(dir, "store"), "https://videos.example.com/"));
+    expect(await store.keep("job1", await source("a.gif", "gif"), "video.gif")).toBe(
+      "https://videos.example.com/job1/video.gif",
+    );
+  });
+
+  it("moves working files into the store", async () => {
+    const { store } = setup();
+    const working = await source("stitched.mp4", "video");
+    expect(await store.keep("sb1", working, "storyboard.mp4", { move: true })).toBe(
+      pathToFileURL(join(dir, "store", "sb1", "storyboard.mp4")).href,
+    );
+    await expect(readFile(join(dir, "stitched.mp4"))).rejects.toThrow();
+  });
+
+  it("hands back the original URL when the file can't be stored", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+    const { repo, store } = setup();
+    expect(await store.keep("job1", "https://example.com/v.mp4", "original.mp4")).toBe("https://example.com/v.mp4");
+    expect(await repo.count({})).toBe(0);
+  });
+
+  it("evicts the oldest artifacts to stay under the quota", async () => {
+    const { repo, store } = setup({ retentionMs: 0, quotaBytes: 10 });
+    await store.keep("job1", await source("1.mp4", "1234"), "original.mp4");
+    await store.keep("job2", await source("2.mp4", "1234"), "original.mp4");
+    await store.keep("job3", await source("3.mp4", "1234"), "original.mp4");
+
+    expect((await repo.findMany({})).map((artifact) => artifact.owner).sort()).toEqual(["job2", "job3"]);
+    await expect(readFile(join(dir, "store", "job1", "original.mp4"))).rejects.toThrow();
+    expect(await store.usage()).toEqual({ count: 2, bytes: 8 });
+  });
+
+  it("leaves files larger than the whole quota at their original URL", async () => {
+    const { repo, store } = setup({ retentionMs: 0, quotaBytes: 3 });
+    const url = await source("big.mp4", "1234");
+    expect(await store.keep("job1", url, "original.mp4")).toBe(url);
+    expect(await repo.count({})).toBe(0);
+  });
+
+  it("deletes artifacts past the retention period", async () => {
+    vi.useFakeTimers({ now: 0, toFake: ["Date"] });
+    const { repo, store } = setup({ retentionMs: DAY, quotaBytes: 0 });
+    await store.keep("old", await source("old.mp4", "old"), "original.mp4");
+    vi.setSystemTime(2 * DAY);
+    await store.keep("new", await source("new.mp4", "new"), "original.mp4");
+
+    expect((await repo.findMany({})).map((artifact) => artifact.owner)).toEqual(["new"]);
+    expect(await store.prune()).toBe(0);
+  });
+});
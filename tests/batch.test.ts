@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { expandBatch, expandPromptMatrix } from "../src/batch.js";
+
+const input = { prompt: "a cat", model: "minimax-video", duration: 5, aspectRatio: "16:9" };
+
+describe("expandPromptMatrix", () => {
+  it("expands every combination in reading order", () => {
+    expect(expandPromptMatrix("{sunset|night} city {drone|street} shot")).toEqual({
+      ok: true,
+      value: ["sunset city drone shot", "sunset city street shot", "night city drone shot", "night city street shot"],
+    });
+  });
+
+  it("leaves plain prompts alone and collapses the gaps empty options leave", () => {
+    expect(expandPromptMatrix("a cat")).toEqual({ ok: true, value: ["a cat"] });
+    expect(expandPromptMatrix("a {|slow motion} cat")).toEqual({ ok: true, value: ["a cat", "a slow motion cat"] });
+  });
+
+  it("rejects unbalanced, nested and oversized matrices", () => {
+    expect(expandPromptMatrix("a {cat|dog")).toMatchObject({ ok: false, error: expect.stringContaining("`{`") });
+    expect(expandPromptMatrix("a cat}")).toMatchObject({ ok: false, error: expect.stringContaining("`}`") });
+    expect(expandPromptMatrix("{a {b|c}|d}")).toMatchObject({ ok: false, error: expect.stringContaining("nested") });
+    expect(expandPromptMatrix("{a|b|c} {d|e|f}")).toMatchObject({
+      ok: false,
+      error: expect.stringContaining("9 videos"),
+    });
+    expect(expandPromptMatrix("{|}")).toMatchObject({ ok: false });
+  });
+});
+
+describe("expandBatch", () => {
+  it("gives each repeat its own random seed", () => {
+    const result = expandBatch(input, 3);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toHaveLength(3);
+    expect(new Set(result.value.map((v) => v.seed)).size).toBe(3);
+    expect(result.value.every((v) => v.prompt === "a cat")).toBe(true);
+  });
+
+  it("counts up from a fixed seed", () => {
+    const result = expandBatch({ ...input, seed: 10 }, 2);
+    expect(result.ok && result.value.map((v) => v.seed)).toEqual([10, 11]);
+  });
+
+  it("keeps a single request unchanged", () => {
+    expect(expandBatch(input)).toEqual({ ok: true, value: [input] });
+  });
+
+  it("multiplies matrices by the count and enforces the batch limit", () => {
+    const result = expandBatch({ ...input, prompt: "a {cat|dog}" }, 2);
+    expect(result.ok && result.value.map((v) => v.prompt)).toEqual(["a cat", "a cat", "a dog", "a dog"]);
+    expect(expandBatch({ ...input, prompt: "a {cat|dog}" }, 5)).toMatchObject({
+      ok: false,
+      error: expect.stringContaining("10 videos (2 prompts × 5)"),
+    });
+  });
+});
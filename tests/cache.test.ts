@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from "vitest";
+import { type CachedResult, cacheKey, PROVIDER_URL_TTL_MS, ResultCache } from "../src/cache.js";
+import { createMemoryRepository } from "./helpers/memory-storage.js";
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+const input = { prompt: "a cat", model: "minimax-video", duration: 5, aspectRatio: "16:9" };
+
+function createCache(ttlMs = 60_000) {
+  const repo = createMemoryRepository<CachedResult>("key");
+  const cache = new ResultCache({ repo, ttlMs: () => ttlMs, log });
+  return { cache, repo };
+}
+
+describe("cacheKey", () => {
+  it("ignores whitespace differences and fills in the model's default resolution", () => {
+    expect(cacheKey({ ...input, prompt: "  a   cat " })).toBe(cacheKey(input));
+    expect(cacheKey({ ...input, resolution: "720p" })).toBe(cacheKey(input));
+  });
+
+  it("distinguishes every parameter that changes the output", () => {
+    const base = cacheKey(input);
+    expect(cacheKey({ ...input, seed: 1 })).not.toBe(base);
+    expect(cacheKey({ ...input, duration: 10 })).not.toBe(base);
+    expect(cacheKey({ ...input, negativePrompt: "text" })).not.toBe(base);
+    expect(cacheKey({ ...input, model: "wan-2.1" })).not.toBe(base);
+  });
+});
+
+describe("ResultCache", () => {
+  it("stores successful results and serves repeats without calling produce", async () => {
+    const { cache } = createCache();
+    const produce = vi.fn(async () => ({ url: "https://example.com/v.mp4" }));
+
+    expect(await cache.run(input, produce)).toEqual({ url: "https://example.com/v.mp4" });
+    expect(await cache.run({ ...input, prompt: "a  cat" }, produce)).toEqual({
+      url: "https://example.com/v.mp4",
+      cached: true,
+    });
+    expect(produce).toHaveBeenCalledTimes(1);
+    expect(await cache.lookup(input)).toBe("https://example.com/v.mp4");
+  });
+
+  it("does not cache failures", async () => {
+    const { cache, repo } = createCache();
+    await cache.run(input, async () => ({ error: "insufficient_credits" }));
+    expect(repo.rows.size).toBe(0);
+  });
+
+  it("expires entries after the TTL", async () => {
+    const { cache, repo } = createCache(1000);
+    await repo.insert({ key: cacheKey(input), url: "https://example.com/old.mp4", model: input.model, createdAt: 0 });
+    expect(await cache.lookup(input)).toBeNull();
+    expect(repo.rows.size).toBe(0);
+  });
+
+  it("serves a provider's own URL for at most PROVIDER_URL_TTL_MS", async () => {
+    const { cache } = createCache(24 * 60 * 60 * 1000);
+    await cache.run(input, async () => ({ url: "https://provider.example.com/v.mp4", transient: true }));
+    expect(await cache.lookup(input)).toBe("https://provider.example.com/v.mp4");
+
+    vi.useFakeTimers({ now: Date.now() + PROVIDER_URL_TTL_MS, toFake: ["Date"] });
+    try {
+      expect(await cache.lookup(input)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("is disabled with a TTL of 0", async () => {
+    const { cache, repo } = createCache(0);
+    const produce = vi.fn(async () => ({ url: "https://example.com/v.mp4" }));
+    await cache.run(input, produce);
+    await cache.run(input, produce);
+    expect(produce).toHaveBeenCalledTimes(2);
+    expect(repo.rows.size).toBe(0);
+  });
+
+  it("bypass generates a fresh video and refreshes the entry", async () => {
+    const { cache } = createCache();
+    await cache.run(input, async () => ({ url: "https://example.com/old.mp4" }));
+    const result = await cache.run(input, async () => ({ url: "https://example.com/new.mp4" }), { bypass: true });
+    expect(result).toEqual({ url: "https://example.com/new.mp4" });
+    expect(await cache.lookup(input)).toBe("https://example.com/new.mp4");
+  });
+
+  it("merges identical in-flight requests into one call", async () => {
+    const { cache } = createCache();
+    let release: (url: string) => void = () => {};
+    const produce = vi.fn(
+      () =>
+        new Promise<{ url: string }>((resolve) => {
+          release = (url) => resolve({ url });
+        }),
+    );
+
+    const first = cache.run(input, produce);
+    await vi.waitFor(() => expect(produce).toHaveBeenCalled());
+    const second = cache.run(input, produce);
+    await vi.waitFor(() => expect(cache.isShared(input)).toBe(true));
+
+    release("https://example.com/v.mp4");
+    expect(await first).toEqual({ url: "https://example.com/v.mp4" });
+    expect(await second).toEqual({ url: "https://example.com/v.mp4", cached: true });
+    expect(produce).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets joiners make their own request when the one they joined never started", async () => {
+    const { cache } = createCache();
+    let drop: () => void = () => {};
+    const dropped = vi.fn(
+      () =>
+        new Promise<null>((resolve) => {
+          drop = () => resolve(null);
+        }),
+    );
+    const first = cache.run(input, dropped);
+    await vi.waitFor(() => expect(dropped).toHaveBeenCalled());
+    const own = vi.fn(async () => ({ url: "https://example.com/mine.mp4" }));
+    const second = cache.run(input, own);
+    await vi.waitFor(() => expect(cache.isShared(input)).toBe(true));
+
+    drop();
+    expect(await first).toBeNull();
+    expect(await second).toEqual({ url: "https://example.com/mine.mp4" });
+    expect(own).toHaveBeenCalledTimes(1);
+  });
+
+  it("still returns the video when the cache write fails", async () => {
+    const { cache, repo } = createCache();
+    vi.spyOn(repo, "insert").mockRejectedValueOnce(new Error("disk full"));
+    expect(await cache.run(input, async () => ({ url: "https://example.com/v.mp4" }))).toEqual({
+      url: "https://example.com/v.mp4",
+    });
+    expect(log.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { comfyuiAdapter, workflowValues } from "../src/comfyui.js";
+import { type MockHandler, startMockServer } from "./helpers/mock-server.js";
+
+const input = { prompt: "a cat", model: "wan-2.1", duration: 5, aspectRatio: "16:9", resolution: "480p" };
+
+const workflow = JSON.stringify({
+  "6": { class_type: "CLIPTextEncode", inputs: { text: "{{prompt}}" } },
+  "40": {
+    class_type: "EmptyHunyuanLatentVideo",
+    inputs: { width: "{{width}}", height: "{{height}}", length: "{{frames}}" },
+  },
+  "3": { class_type: "KSampler", inputs: { seed: "{{seed}}" } },
+});
+
+describe("workflowValues", () => {
+  it("adds the frame size and count and always sets a seed", () => {
+    expect(workflowValues({ ...input, seed: 7 })).toMatchObject({ width: 848, height: 480, frames: 81, seed: 7 });
+    expect(typeof workflowValues(input).seed).toBe("number");
+  });
+});
+
+describe("comfyuiAdapter", () => {
+  let close: () => Promise<void> = async () => {};
+
+  afterEach(async () => {
+    await close();
+  });
+
+  async function adapter(handler: MockHandler) {
+    const server = await startMockServer(handler);
+    close = server.close;
+    return {
+      comfyui: comfyuiAdapter({ url: server.url, workflow, pollIntervalMs: 5 }),
+      url: server.url,
+      requests: server.requests,
+    };
+  }
+
+  it("queues the filled-in workflow, polls the history and returns the video's /view URL", async () => {
+    let polls = 0;
+    const { comfyui, url, requests } = await adapter(({ method }) => {
+      if (method === "POST") return { body: { prompt_id: "q1", number: 1 } };
+      if (++polls < 2) return { body: {} };
+      return {
+        body: {
+          q1: {
+            status: { status_str: "success", completed: true },
+            outputs: {
+              "9": { images: [{ filename: "preview.png", type: "temp" }] },
+              "10": { gifs: [{ filename: "wan_00001.mp4", subfolder: "video", type: "output" }] },
+            },
+          },
+        },
+      };
+    });
+
+    const result = await comfyui.generate({ ...input, seed: 7 });
+
+    expect(result).toEqual({ url: `${url}/view?filename=wan_00001.mp4&subfolder=video&type=output` });
+    expect(requests[0]).toMatchObject({
+      method: "POST",
+      path: "/prompt",
+      body: {
+        prompt: {
+          "6": { inputs: { text: "a cat" } },
+          "40": { inputs: { width: 848, height: 480, length: 81 } },
+          "3": { inputs: { seed: 7 } },
+        },
+      },
+    });
+    expect(requests.slice(1).map((request) => request.path)).toEqual(["/history/q1", "/history/q1"]);
+  });
+
+  it("reports workflow errors", async () => {
+    const failed = await adapter(({ method }) =>
+      method === "POST"
+        ? { body: { prompt_id: "q2" } }
+        : {
+            body: {
+              q2: {
+                status: {
+                  status_str: "error",
+                  messages: [["execution_error", { exception_message: "Out of memory\n" }]],
+                },
+              },
+            },
+          },
+    );
+    expect(await failed.comfyui.generate(input)).toEqual({ error: "ComfyUI failed: Out of memory" });
+    await close();
+
+    const rejected = await adapter(() => ({
+      status: 400,
+      body: { error: { message: "Prompt outputs failed validation" } },
+    }));
+    expect(await rejected.comfyui.generate(input)).toEqual({
+      error: "ComfyUI rejected the workflow (HTTP 400): Prompt outputs failed validation",
+    });
+  });
+
+  it("dequeues the prompt when the job is aborted", async () => {
+    const { comfyui, requests } = await adapter(({ method }) =>
+      method === "POST" ? { body: { prompt_id: "q3" } } : { body: {} },
+    );
+    const controller = new AbortController();
+    const pending = comfyui.generate(input, controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(requests.at(-1)).toMatchObject({ method: "POST", path: "/queue", body: { delete: ["q3"] } });
+  });
+
+  it("needs a workflow", async () => {
+    expect((await comfyuiAdapter({ url: "http://127.0.0.1:1" }).generate(input)).error).toMatch(
+      /^ComfyUI needs a workflow/,
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ApprovalQueue,
+  consentPolicyFromConfig,
+  consentRequirement,
+  formatConsentPolicy,
+  isAffirmative,
+  withTimeout,
+} from "../src/consent.js";
+
+describe("consentPolicyFromConfig", () => {
+  it("defaults to always confirming within two minutes", () => {
+    expect(consentPolicyFromConfig({})).toEqual({
+      mode: "always",
+      costThreshold: 0,
+      trustedUsers: [],
+      admins: [],
+      timeoutMs: 120_000,
+    });
+  });
+
+  it("reads thresholds, user lists and timeouts, ignoring invalid values", () => {
+    const policy = consentPolicyFromConfig({
+      consentPolicy: "above_cost",
+      consentCostThreshold: "20",
+      trustedUsers: "alice, bob\ncarol alice",
+      consentAdmins: "dave",
+      consentTimeoutSeconds: "30",
+    });
+    expect(policy).toMatchObject({ mode: "above_cost", costThreshold: 20, admins: ["dave"], timeoutMs: 30_000 });
+    expect(policy.trustedUsers).toEqual(["alice", "bob", "carol"]);
+    expect(consentPolicyFromConfig({ consentPolicy: "never", consentTimeoutSeconds: -5 })).toMatchObject({
+      mode: "always",
+      timeoutMs: 120_000,
+    });
+  });
+
+  it("describes each policy", () => {
+    expect(formatConsentPolicy(consentPolicyFromConfig({}))).toBe("always confirm; unanswered after 120s");
+    expect(formatConsentPolicy(consentPolicyFromConfig({ consentPolicy: "admin" }))).toContain("no admins set");
+    expect(
+      formatConsentPolicy(consentPolicyFromConfig({ consentPolicy: "above_cost", consentCostThreshold: 10 })),
+    ).toContain("confirm above 10 credits");
+  });
+});
+
+describe("consentRequirement", () => {
+  const policy = (config: Parameters<typeof consentPolicyFromConfig>[0]) => consentPolicyFromConfig(config);
+
+  it("never asks about free requests", () => {
+    expect(consentRequirement(policy({}), "alice", 0)).toBe("none");
+    expect(consentRequirement(policy({ consentPolicy: "admin" }), "alice", 0)).toBe("none");
+  });
+
+  it("confirms everything under always", () => {
+    expect(consentRequirement(policy({}), "alice", 1)).toBe("requester");
+  });
+
+  it("confirms only requests over the threshold under above_cost", () => {
+    const aboveTen = policy({ consentPolicy: "above_cost", consentCostThreshold: 10 });
+    expect(consentRequirement(aboveTen, "alice", 10)).toBe("none");
+    expect(consentRequirement(aboveTen, "alice", 10.5)).toBe("requester");
+  });
+
+  it("lets trusted users skip confirmation", () => {
+    const trusted = policy({ consentPolicy: "trusted", trustedUsers: "alice" });
+    expect(consentRequirement(trusted, "alice", 50)).toBe("none");
+    expect(consentRequirement(trusted, "bob", 50)).toBe("requester");
+  });
+
+  it("sends everyone but admins to an admin", () => {
+    const admin = policy({ consentPolicy: "admin", consentAdmins: "dave" });
+    expect(consentRequirement(admin, "alice", 5)).toBe("admin");
+    expect(consentRequirement(admin, "dave", 5)).toBe("requester");
+  });
+});
+
+describe("isAffirmative", () => {
+  it("accepts common ways of saying yes", () => {
+    for (const answer of ["yes", "Y", " OK ", "sure!", "Proceed."]) expect(isAffirmative(answer)).toBe(true);
+  });
+
+  it("treats anything else as a no", () => {
+    for (const answer of ["no", "yes please", "", null, undefined]) expect(isAffirmative(answer)).toBe(false);
+  });
+});
+
+describe("withTimeout", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("passes the value through when it arrives in time", async () => {
+    await expect(withTimeout(Promise.resolve("yes"), 1000)).resolves.toBe("yes");
+  });
+
+  it("gives null when the promise takes too long", async () => {
+    vi.useFakeTimers();
+    const answer = withTimeout(new Promise<string>(() => {}), 1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(answer).resolves.toBeNull();
+  });
+});
+
+describe("ApprovalQueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("settles a request when an admin approves it", async () => {
+    const queue = new ApprovalQueue();
+    const { request, outcome } = queue.request({ requester: "alice", summary: "a video" }, 60_000);
+    expect(queue.list()).toEqual([request]);
+
+    expect(queue.decide(request.id, "dave", true, ["dave"])).toEqual({ ok: true, request });
+    await expect(outcome).resolves.toEqual({ outcome: "approved", approver: "dave" });
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("settles a request when an admin denies it", async () => {
+    const queue = new ApprovalQueue();
+    const { request, outcome } = queue.request({ requester: "alice", summary: "a video" }, 60_000);
+    queue.decide(request.id, "dave", false, ["dave"]);
+    await expect(outcome).resolves.toEqual({ outcome: "denied", approver: "dave" });
+  });
+
+  it("only lets admins decide, and only on pending requests", () => {
+    const queue = new ApprovalQueue();
+    const { request } = queue.request({ requester: "alice", summary: "a video" }, 60_000);
+    expect(queue.decide(request.id, "alice", true, ["dave"])).toEqual({
+      ok: false,
+      error: "Only video admins can approve or deny requests.",
+    });
+    expect(queue.decide("nope", "dave", true, ["dave"])).toMatchObject({ ok: false });
+    expect(queue.list()).toHaveLength(1);
+    queue.clear();
+  });
+
+  it("expires requests nobody decides on", async () => {
+    vi.useFakeTimers();
+    const queue = new ApprovalQueue();
+    const { request, outcome } = queue.request({ requester: "alice", summary: "a video" }, 60_000);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await expect(outcome).resolves.toEqual({ outcome: "expired" });
+    expect(queue.decide(request.id, "dave", true, ["dave"])).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  budgetDayStart,
+  creditsPerSecondFromConfig,
+  dailyBudgetsFromConfig,
+  estimateCost,
+  formatBudgets,
+  formatCredits,
+  totalCost,
+  untilBudgetReset,
+} from "../src/cost.js";
+
+describe("estimateCost", () => {
+  it("scales by duration, model cost and resolution", () => {
+    expect(estimateCost({ model: "minimax-video", duration: 5 })).toBe(5);
+    expect(estimateCost({ model: "kling-1.6", duration: 10 })).toBe(30);
+    expect(estimateCost({ model: "kling-1.6", duration: 10, resolution: "1080p" })).toBe(45);
+    // Without a resolution the model's own default is priced: 480p for Wan
+    expect(estimateCost({ model: "wan-2.1", duration: 5 })).toBe(7.5);
+    expect(estimateCost({ model: "minimax-video", duration: 5 }, 0.2)).toBe(1);
+  });
+
+  it("adds up several videos without float noise", () => {
+    const shots = [
+      { model: "luma-ray2", duration: 5, resolution: "540p" },
+      { model: "luma-ray2", duration: 5, resolution: "540p" },
+    ];
+    expect(totalCost(shots, 0.1)).toBe(2.56);
+  });
+});
+
+describe("config", () => {
+  it("reads rates and budgets, treating missing or invalid values as the defaults", () => {
+    expect(creditsPerSecondFromConfig({})).toBe(1);
+    expect(creditsPerSecondFromConfig({ creditsPerSecond: "0.5" })).toBe(0.5);
+    expect(creditsPerSecondFromConfig({ creditsPerSecond: -2 })).toBe(1);
+    expect(dailyBudgetsFromConfig({ dailyBudgetPerUser: "50" })).toEqual({ perUser: 50, perChannel: 0 });
+  });
+
+  it("formats credits and budgets", () => {
+    expect(formatCredits(1)).toBe("1 credit");
+    expect(formatCredits(7.5)).toBe("7.5 credits");
+    expect(formatBudgets({ perUser: 50, perChannel: 0 })).toBe(
+      "**Daily budget:** 50 credits per user, unlimited per channel",
+    );
+  });
+});
+
+describe("budget day", () => {
+  it("runs from midnight UTC to midnight UTC", () => {
+    const now = Date.UTC(2026, 3, 2, 18, 30);
+    expect(budgetDayStart(now)).toBe(Date.UTC(2026, 3, 2));
+    expect(untilBudgetReset(now)).toBe(5.5 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { customEndpointAdapter, fillTemplate, valueAt } from "../src/custom-endpoint.js";
+import { type MockHandler, startMockServer } from "./helpers/mock-server.js";
+
+const input = { prompt: "a cat", model: "minimax-video", duration: 5, aspectRatio: "16:9" };
+
+describe("fillTemplate", () => {
+  it("keeps the type of whole placeholders and drops unset ones", () => {
+    const template = { text: "{{prompt}}", seconds: "{{ duration }}", seed: "{{seed}}", tags: ["{{image}}", "x"] };
+    expect(fillTemplate(template, input)).toEqual({ text: "a cat", seconds: 5, tags: ["x"] });
+  });
+
+  it("interpolates placeholders inside longer strings", () => {
+    expect(fillTemplate("{{prompt}}, {{aspectRatio}} {{seed}}", input)).toBe("a cat, 16:9 ");
+  });
+});
+
+describe("valueAt", () => {
+  it("follows dot paths through objects and arrays", () => {
+    expect(valueAt({ data: { videos: [{ url: "u" }] } }, "data.videos.0.url")).toBe("u");
+    expect(valueAt({ data: null }, "data.url")).toBeUndefined();
+  });
+});
+
+describe("customEndpointAdapter", () => {
+  let close: () => Promise<void> = async () => {};
+
+  afterEach(async () => {
+    await close();
+  });
+
+  async function server(handler: MockHandler) {
+    const mock = await startMockServer(handler);
+    close = mock.close;
+    return mock;
+  }
+
+  it("posts the request as-is and reads `url` by default", async () => {
+    const mock = await server(() => ({ body: { url: "https://cdn.example.com/v.mp4" } }));
+    const result = await customEndpointAdapter({ url: `${mock.url}/generate`, apiKey: "k" }).generate(input);
+
+    expect(result).toEqual({ url: "https://cdn.example.com/v.mp4" });
+    expect(mock.requests[0]).toMatchObject({ method: "POST", path: "/generate", body: input });
+    expect(mock.requests[0].headers.authorization).toBe("Bearer k");
+  });
+
+  it("maps the request and response and sends the key in a custom header", async () => {
+    const mock = await server(() => ({ body: { data: { videos: ["https://cdn.example.com/v.mp4"] } } }));
+    const adapter = customEndpointAdapter({
+      url: mock.url,
+      apiKey: "k",
+      authHeader: "X-API-Key",
+      requestTemplate: '{"input": {"text": "{{prompt}}", "seconds": "{{duration}}"}}',
+      responsePath: "data.videos.0",
+    });
+
+    expect(await adapter.generate(input)).toEqual({ url: "https://cdn.example.com/v.mp4" });
+    expect(mock.requests[0].body).toEqual({ input: { text: "a cat", seconds: 5 } });
+    expect(mock.requests[0].headers["x-api-key"]).toBe("k");
+    expect(mock.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it("explains failures", async () => {
+    const failing = await server(() => ({ status: 500, body: { error: "GPU on fire" } }));
+    expect(await customEndpointAdapter({ url: failing.url }).generate(input)).toEqual({
+      error: "The custom endpoint failed with HTTP 500: GPU on fire",
+    });
+    await close();
+
+    const empty = await server(() => ({ body: { status: "ok" } }));
+    expect(await customEndpointAdapter({ url: empty.url }).generate(input)).toEqual({
+      error: "The custom endpoint's response has no video URL at `url`",
+    });
+    expect(await customEndpointAdapter({ url: empty.url, requestTemplate: "{prompt" }).generate(input)).toEqual({
+      error: "The custom endpoint's request template isn't valid JSON",
+    });
+  });
+});
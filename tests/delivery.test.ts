@@ -0,0 +1,107 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { channelDeliveryFromConfig, formatChannelDelivery, MediaDelivery } from "../src/delivery.js";
+import type { MediaTools } from "../src/ffmpeg.js";
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+const MB = 1024 * 1024;
+
+describe("channelDeliveryFromConfig", () => {
+  it("starts from the built-in limits", () => {
+    expect(channelDeliveryFromConfig(undefined).discord).toEqual({ mode: "attachment", maxBytes: 10 * MB });
+  });
+
+  it("overrides modes and limits per channel type and skips malformed entries", () => {
+    const rules = channelDeliveryFromConfig("Discord=attachment:25, slack=link, matrix = attachment:0.5, irc=upload");
+    expect(rules.discord).toEqual({ mode: "attachment", maxBytes: 25 * MB });
+    expect(rules.slack).toEqual({ mode: "link", maxBytes: 0 });
+    expect(rules.matrix).toEqual({ mode: "attachment", maxBytes: MB / 2 });
+    expect(rules.irc).toBeUndefined();
+  });
+
+  it("keeps the built-in limit when only the mode is given", () => {
+    expect(channelDeliveryFromConfig("telegram=attachment").telegram.maxBytes).toBe(50 * MB);
+  });
+
+  it("summarizes the rules for /video settings", () => {
+    expect(formatChannelDelivery(channelDeliveryFromConfig("slack=link"))).toBe(
+      "discord: upload up to 10 MB, telegram: upload up to 50 MB, whatsapp: upload up to 16 MB, slack: link; others: link",
+    );
+  });
+});
+
+describe("MediaDelivery", () => {
+  let dir: string;
+  let media: MediaTools;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "videogen-delivery-test-"));
+    media = {
+      lastFrame: vi.fn(),
+      concat: vi.fn(),
+      transcode: vi.fn(),
+      thumbnail: vi.fn(),
+      compress: vi.fn(async (_url: string, output: string) => writeFile(output, "small")),
+    };
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function file(name: string, content: string): Promise<string> {
+    await writeFile(join(dir, name), content);
+    return pathToFileURL(join(dir, name)).href;
+  }
+
+  function delivery(rules = "test=attachment:0.00001") {
+    // 0.00001 MB is 10 bytes
+    return new MediaDelivery({ media, rules: () => channelDeliveryFromConfig(rules), log });
+  }
+
+  it("posts links to channel types without an attachment rule", async () => {
+    const fetch = vi.spyOn(globalThis, "fetch");
+    expect(await delivery().attachments("irc", [{ url: "https://example.com/a.mp4", name: "a.mp4" }])).toEqual([null]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("uploads videos that fit", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("video"));
+    const [attachment] = await delivery().attachments("test", [{ url: "https://example.com/a.mp4", name: "a.mp4" }]);
+    expect(attachment).toEqual({ name: "a.mp4", contentType: "video/mp4", data: Buffer.from("video") });
+  });
+
+  it("uploads a compressed copy of a video that doesn't fit", async () => {
+    const url = await file("big.webm", "much too large");
+    const [attachment] = await delivery().attachments("test", [{ url, name: "job1.webm" }]);
+    expect(media.compress).toHaveBeenCalledWith(url, expect.stringMatching(/job1\.mp4$/));
+    expect(attachment).toEqual({ name: "job1.mp4", contentType: "video/mp4", data: Buffer.from("small") });
+  });
+
+  it("doesn't compress GIFs", async () => {
+    const url = await file("big.gif", "much too large");
+    expect(await delivery().attachments("test", [{ url, name: "job1.gif" }])).toEqual([null]);
+    expect(media.compress).not.toHaveBeenCalled();
+  });
+
+  it("shares the per-message limit between videos", async () => {
+    const first = await file("one.mp4", "1234567");
+    const second = await file("two.mp4", "1234567");
+    const attachments = await delivery().attachments("test", [
+      { url: first, name: "one.mp4" },
+      { url: second, name: "two.mp4" },
+    ]);
+    // The second video only gets the 3 bytes left, and compressing it to 5 doesn't help
+    expect(attachments.map((attachment) => attachment?.name ?? null)).toEqual(["one.mp4", null]);
+  });
+
+  it("falls back to a link when the download fails", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("gone", { status: 404 }));
+    expect(await delivery().attachments("test", [{ url: "https://example.com/a.mp4", name: "a.mp4" }])).toEqual([null]);
+    expect(log.warn).toHaveBeenCalledWith("Could not upload a.mp4; sending a link instead", expect.any(Error));
+  });
+});
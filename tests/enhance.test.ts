@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ENHANCE_SESSION,
+  enhanceInstructions,
+  enhancePrompt,
+  enhanceQuestion,
+  parseEnhancedPrompt,
+  reviewEnhancement,
+} from "../src/enhance.js";
+import { getModel } from "../src/models.js";
+import type { WOPRPluginContext } from "../src/types.js";
+
+const minimax = getModel("minimax-video");
+
+function context(inject: () => Promise<string>) {
+  return {
+    inject: vi.fn(inject),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as WOPRPluginContext;
+}
+
+describe("enhanceInstructions", () => {
+  it("asks for the target model's prompt style", () => {
+    const instructions = enhanceInstructions("a cat", minimax);
+    expect(instructions).toContain(minimax?.name);
+    expect(instructions).toContain(minimax?.promptStyle);
+    expect(instructions).toMatch(/Prompt: a cat$/);
+  });
+
+  it("falls back to a generic request for unknown models", () => {
+    expect(enhanceInstructions("a cat", undefined)).toContain("for a text-to-video model");
+  });
+});
+
+describe("parseEnhancedPrompt", () => {
+  it("strips fences, labels and quotes", () => {
+    expect(parseEnhancedPrompt('```\nPrompt: "A tabby cat\n naps in warm sunlight."\n```')).toBe(
+      "A tabby cat naps in warm sunlight.",
+    );
+    expect(parseEnhancedPrompt("  A cat.  ")).toBe("A cat.");
+  });
+
+  it("returns null for empty or oversized replies", () => {
+    expect(parseEnhancedPrompt("  ")).toBeNull();
+    expect(parseEnhancedPrompt("x".repeat(5000))).toBeNull();
+  });
+});
+
+describe("enhancePrompt", () => {
+  it("sends the instructions to its own session", async () => {
+    const ctx = context(async () => "A tabby cat naps on a sunlit windowsill, slow dolly in.");
+    expect(await enhancePrompt(ctx, "a cat", minimax)).toEqual({
+      ok: true,
+      value: "A tabby cat naps on a sunlit windowsill, slow dolly in.",
+    });
+    expect(ctx.inject).toHaveBeenCalledWith(ENHANCE_SESSION, enhanceInstructions("a cat", minimax), {
+      silent: true,
+    });
+  });
+
+  it("reports the rewrite as unavailable when the provider fails, times out or replies with nothing", async () => {
+    const failed = context(async () => {
+      throw new Error("no text provider");
+    });
+    expect(await enhancePrompt(failed, "a cat", minimax)).toMatchObject({ ok: false });
+    expect(failed.log.warn).toHaveBeenCalled();
+
+    const slow = context(() => new Promise<string>(() => {}));
+    expect(await enhancePrompt(slow, "a cat", minimax, 10)).toMatchObject({
+      ok: false,
+      error: expect.stringContaining("isn't available"),
+    });
+
+    expect(
+      await enhancePrompt(
+        context(async () => ""),
+        "a cat",
+        minimax,
+      ),
+    ).toMatchObject({ ok: false });
+  });
+});
+
+describe("reviewEnhancement", () => {
+  const review = (answer: string) => reviewEnhancement(answer, "a cat", "A tabby cat naps in the sun.");
+
+  it("shows the rewrite and the possible answers", () => {
+    expect(enhanceQuestion("A tabby cat naps in the sun.")).toContain("> A tabby cat naps in the sun.");
+  });
+
+  it("accepts, keeps the original or cancels", () => {
+    expect(review("Yes!")).toEqual({ action: "accept", prompt: "A tabby cat naps in the sun." });
+    expect(review("accept")).toEqual({ action: "accept", prompt: "A tabby cat naps in the sun." });
+    expect(review("original")).toEqual({ action: "original", prompt: "a cat" });
+    expect(review("Keep mine")).toEqual({ action: "original", prompt: "a cat" });
+    expect(review("no")).toEqual({ action: "cancel" });
+    expect(review("  ")).toEqual({ action: "cancel" });
+  });
+
+  it("takes anything else as an edited prompt", () => {
+    expect(review(" A black cat naps in the sun. ")).toEqual({
+      action: "edit",
+      prompt: "A black cat naps in the sun.",
+    });
+    expect(review("x".repeat(5000))).toMatchObject({ action: "invalid" });
+  });
+});
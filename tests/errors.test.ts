@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { parseSocketResponse } from "../src/capability.js";
+import {
+  ERROR_CODES,
+  errorCode,
+  errorMessage,
+  errorPayload,
+  errorSummary,
+  isErrorCode,
+  isRetryable,
+} from "../src/errors.js";
+
+describe("errorCode", () => {
+  it("keeps codes and maps the socket layer's other spellings", () => {
+    for (const code of ERROR_CODES) expect(errorCode(code)).toBe(code);
+    expect(errorCode("payment_required")).toBe("insufficient_credits");
+    expect(errorCode("NSFW")).toBe("content_policy");
+    expect(errorCode("invalid_input")).toBe("invalid_params");
+    expect(errorCode("rate_limited")).toBe("quota_exceeded");
+    expect(errorCode("deadline_exceeded")).toBe("provider_timeout");
+    expect(errorCode("model_unavailable")).toBe("provider_outage");
+    expect(errorCode("url_expired")).toBe("expired_url");
+    expect(errorCode("canceled")).toBe("cancelled");
+  });
+
+  it("recognizes each category in provider and adapter messages", () => {
+    expect(errorCode("The video endpoint rejected the request (HTTP 402): add funds")).toBe("insufficient_credits");
+    expect(errorCode("Replicate prediction failed: NSFW content detected")).toBe("content_policy");
+    expect(errorCode("Video video_2 failed: blocked by our safety system")).toBe("content_policy");
+    expect(errorCode("Replicate rejected the request (HTTP 422): duration must be 5 or 10")).toBe("invalid_params");
+    expect(errorCode("Extending videos isn't supported on Replicate for kling-1.6")).toBe("invalid_params");
+    expect(errorCode("The video endpoint rejected the request (HTTP 429): slow down")).toBe("quota_exceeded");
+    expect(errorCode("Replicate prediction p1 timed out")).toBe("provider_timeout");
+    expect(errorCode("The custom endpoint failed with HTTP 503: overloaded")).toBe("provider_outage");
+    expect(errorCode("fetch failed")).toBe("provider_outage");
+    expect(errorCode("Fetching the input image failed with HTTP 403")).toBe("expired_url");
+    expect(errorCode("The signed URL has expired")).toBe("expired_url");
+    expect(errorCode("Prediction p1 was canceled")).toBe("cancelled");
+    expect(errorCode("Something odd happened")).toBe("generation_failed");
+  });
+
+  it("only accepts known codes as codes", () => {
+    expect(isErrorCode("quota_exceeded")).toBe(true);
+    expect(isErrorCode("rate_limited")).toBe(false);
+    expect(isErrorCode(42)).toBe(false);
+  });
+});
+
+describe("messages and payloads", () => {
+  it("gives every category its own message and summary", () => {
+    expect(new Set(ERROR_CODES.map(errorMessage)).size).toBe(ERROR_CODES.length);
+    expect(new Set(ERROR_CODES.map(errorSummary)).size).toBe(ERROR_CODES.length);
+    expect(errorMessage("insufficient_credits")).toBe(
+      "You don't have enough credits for video generation. Add credits to continue.",
+    );
+    expect(errorMessage("generation_failed")).toBe("Video generation failed. Please try again.");
+  });
+
+  it("says which failures can succeed if the request is sent again", () => {
+    const retryable = ERROR_CODES.filter(isRetryable);
+    expect(retryable).toEqual([
+      "quota_exceeded",
+      "provider_timeout",
+      "provider_outage",
+      "cancelled",
+      "generation_failed",
+    ]);
+    expect(errorPayload("content_policy")).toEqual({
+      error: "content_policy",
+      code: "content_policy",
+      message: errorMessage("content_policy"),
+      retryable: false,
+    });
+  });
+});
+
+describe("parseSocketResponse", () => {
+  it("reads video URLs as JSON or plain text", () => {
+    expect(parseSocketResponse('{"url":"https://cdn.example.com/v.mp4"}')).toEqual({
+      url: "https://cdn.example.com/v.mp4",
+    });
+    expect(parseSocketResponse("https://cdn.example.com/v.mp4")).toEqual({ url: "https://cdn.example.com/v.mp4" });
+    expect(parseSocketResponse("{}")).toEqual({});
+  });
+
+  it("maps each error shape onto a code and keeps the details", () => {
+    expect(parseSocketResponse('{"error":"insufficient_credits"}')).toEqual({
+      error: "insufficient_credits",
+      code: "insufficient_credits",
+    });
+    expect(parseSocketResponse('{"error":{"code":"rate_limited","message":"10 per minute"}}')).toEqual({
+      error: "rate_limited: 10 per minute",
+      code: "quota_exceeded",
+    });
+    expect(parseSocketResponse('{"code":"url_expired","message":"image link is gone"}')).toEqual({
+      error: "url_expired: image link is gone",
+      code: "expired_url",
+    });
+    // An unfamiliar code with a recognizable message
+    expect(parseSocketResponse('{"error":{"code":"E1234","message":"upstream timed out"}}').code).toBe(
+      "provider_timeout",
+    );
+    expect(parseSocketResponse('{"error":"provider went away"}').code).toBe("generation_failed");
+    expect(parseSocketResponse("The provider is overloaded")).toEqual({
+      error: "The provider is overloaded",
+      code: "provider_outage",
+    });
+    expect(parseSocketResponse('"cancelled"')).toEqual({ error: '"cancelled"', code: "cancelled" });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  attemptPlan,
+  backoffDelay,
+  describeSubstitute,
+  failoverPolicyFromConfig,
+  formatFailoverPolicy,
+  canFallBack,
+  parseFallbackChains,
+  shouldRetry,
+  substituteAttempt,
+} from "../src/failover.js";
+
+const input = { prompt: "a cat", model: "kling-1.6", duration: 10, aspectRatio: "16:9", resolution: "1080p", seed: 3 };
+
+describe("parseFallbackChains", () => {
+  it("gives each model the ones after it in its chain", () => {
+    expect(parseFallbackChains("kling-1.6 > luma-ray2 → minimax-video; wan-2.1>minimax-video, sora > wan-2.1")).toEqual(
+      {
+        "kling-1.6": ["luma-ray2", "minimax-video"],
+        "luma-ray2": ["minimax-video"],
+        "wan-2.1": ["minimax-video"],
+      },
+    );
+    expect(parseFallbackChains(undefined)).toEqual({});
+  });
+});
+
+describe("failoverPolicyFromConfig", () => {
+  it("reads retries, delays and known failover providers", () => {
+    const policy = failoverPolicyFromConfig({
+      failoverProviders: "comfyui, runway, OpenAI, comfyui",
+      retryAttempts: "1",
+      retryDelaySeconds: "0.5",
+    });
+    expect(policy).toMatchObject({ providers: ["comfyui", "openai"], retries: 1, baseDelayMs: 500 });
+    expect(failoverPolicyFromConfig({})).toMatchObject({ retries: 2, baseDelayMs: 2000, defaultProvider: "replicate" });
+    expect(formatFailoverPolicy(policy)).toBe("1 retry from 0.5s; fallbacks: none; failover: comfyui, openai");
+  });
+
+  it("doubles the backoff with each retry", () => {
+    const policy = failoverPolicyFromConfig({ retryDelaySeconds: 1 });
+    expect([0, 1, 2].map((retry) => backoffDelay(policy, retry))).toEqual([1000, 2000, 4000]);
+  });
+});
+
+describe("shouldRetry / canFallBack", () => {
+  it("retries timeouts and outages, moves on from quota and settings, and stops otherwise", () => {
+    expect(shouldRetry("provider_timeout")).toBe(true);
+    expect(shouldRetry("provider_outage")).toBe(true);
+    expect(shouldRetry("generation_failed")).toBe(true);
+    expect(shouldRetry("quota_exceeded")).toBe(false);
+    expect(canFallBack("quota_exceeded")).toBe(true);
+    expect(canFallBack("invalid_params")).toBe(true);
+    for (const code of ["insufficient_credits", "content_policy", "expired_url", "cancelled"] as const) {
+      expect(canFallBack(code)).toBe(false);
+    }
+  });
+});
+
+describe("attemptPlan", () => {
+  it("tries each provider for the requested model before falling back to other models", () => {
+    const policy = failoverPolicyFromConfig({
+      fallbackChains: "kling-1.6 > minimax-video",
+      failoverProviders: "replicate, openai",
+    });
+    const plan = attemptPlan(input, policy);
+
+    expect(plan.map(({ model, provider }) => `${model}@${provider ?? "default"}`)).toEqual([
+      "kling-1.6@default",
+      "kling-1.6@openai",
+      "minimax-video@default",
+      "minimax-video@openai",
+    ]);
+    // Fallbacks keep what they support: the seed and duration stay, the model's own resolution replaces 1080p
+    expect(plan[2]).toEqual({ prompt: "a cat", model: "minimax-video", duration: 10, aspectRatio: "16:9", seed: 3 });
+  });
+
+  it("skips fallback models that can't serve the request", () => {
+    const policy = failoverPolicyFromConfig({ fallbackChains: "kling-1.6 > minimax-video > luma-ray2" });
+    const extend = { ...input, extendVideo: "https://example.com/v.mp4" };
+    expect(attemptPlan(extend, policy).map(({ model }) => model)).toEqual(["kling-1.6", "luma-ray2"]);
+  });
+});
+
+describe("substituteAttempt", () => {
+  it("finds the attempt that stood in for the request", () => {
+    const failed = {
+      model: "kling-1.6",
+      startedAt: 1,
+      finishedAt: 2,
+      error: "timed out",
+      errorKind: "transient" as const,
+    };
+    const standIn = { model: "minimax-video", provider: "openai", startedAt: 3, finishedAt: 4 };
+
+    expect(substituteAttempt(input, [failed, { model: "kling-1.6", startedAt: 3, finishedAt: 4 }])).toBeNull();
+    expect(substituteAttempt(input, [failed])).toBeNull();
+    const substitute = substituteAttempt(input, [failed, standIn]);
+    expect(substitute).toBe(standIn);
+    expect(describeSubstitute(input, standIn)).toBe("minimax-video instead of kling-1.6 via openai");
+  });
+});
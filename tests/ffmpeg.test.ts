@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { transcodeArgs } from "../src/ffmpeg.js";
+
+describe("transcodeArgs", () => {
+  it("re-encodes MP4 for broad playback support", () => {
+    expect(transcodeArgs("in", "out.mp4", { format: "mp4" })).toEqual([
+      "-i",
+      "in",
+      "-an",
+      "-c:v",
+      "libx264",
+      "-pix_fmt",
+      "yuv420p",
+      "-movflags",
+      "+faststart",
+      "out.mp4",
+    ]);
+  });
+
+  it("seeks to the trim start and keeps only the trimmed length", () => {
+    const args = transcodeArgs("in", "out.webm", { format: "webm", trim: { start: 1.5, end: 4 } });
+    expect(args.slice(0, 6)).toEqual(["-ss", "1.5", "-t", "2.5", "-i", "in"]);
+    expect(args).toContain("libvpx-vp9");
+    expect(transcodeArgs("in", "out.mp4", { format: "mp4", trim: { end: 3 } }).slice(0, 2)).toEqual(["-t", "3"]);
+  });
+
+  it("appends the reversed clip for a seamless loop", () => {
+    const args = transcodeArgs("in", "out.mp4", { format: "mp4", loop: true });
+    expect(args[args.indexOf("-vf") + 1]).toBe("split[fwd][rev];[rev]reverse[back];[fwd][back]concat=n=2:v=1:a=0");
+  });
+
+  it("builds a downscaled, palette-mapped GIF that repeats forever", () => {
+    const args = transcodeArgs("in", "out.gif", { format: "gif", loop: true });
+    const graph = args[args.indexOf("-vf") + 1];
+    expect(graph).toMatch(/^fps=12,scale=480:-2:flags=lanczos,split\[fwd\]/);
+    expect(graph).toMatch(/split\[a\]\[b\];\[a\]palettegen\[p\];\[b\]\[p\]paletteuse$/);
+    expect(args.slice(-3)).toEqual(["-loop", "0", "out.gif"]);
+  });
+});
@@ -0,0 +1,154 @@
+import { vi } from "vitest";
+import type { Filter, PluginSchema, QueryBuilder, Repository, StorageApi } from "@wopr-network/plugin-types";
+
+type Row = Record<string, unknown>;
+
+function matches(row: Row, filter: Record<string, unknown> = {}): boolean {
+  return Object.entries(filter).every(([key, cond]) => {
+    const value = row[key];
+    if (cond !== null && typeof cond === "object" && !Array.isArray(cond)) {
+      const op = cond as Record<string, unknown>;
+      if ("$eq" in op) return value === op.$eq;
+      if ("$ne" in op) return value !== op.$ne;
+      if ("$in" in op) return (op.$in as unknown[]).includes(value);
+      if ("$nin" in op) return !(op.$nin as unknown[]).includes(value);
+      if ("$gt" in op) return (value as number) > (op.$gt as number);
+      if ("$gte" in op) return (value as number) >= (op.$gte as number);
+      if ("$lt" in op) return (value as number) < (op.$lt as number);
+      if ("$lte" in op) return (value as number) <= (op.$lte as number);
+      if ("$contains" in op) return Array.isArray(value) && value.includes(op.$contains);
+      if ("$startsWith" in op) return String(value).startsWith(String(op.$startsWith));
+      if ("$endsWith" in op) return String(value).endsWith(String(op.$endsWith));
+      if ("$regex" in op) return new RegExp(String(op.$regex)).test(String(value));
+    }
+    return value === cond;
+  });
+}
+
+/** In-memory Repository with just enough filtering for the plugin's queries. */
+export function createMemoryRepository<T extends Row>(primaryKey = "id"): Repository<T> & { rows: Map<string, T> } {
+  const rows = new Map<string, T>();
+  const clone = (row: T): T => structuredClone(row);
+
+  const repo: Repository<T> & { rows: Map<string, T> } = {
+    rows,
+    async insert(data) {
+      rows.set(String(data[primaryKey]), clone(data));
+      return clone(data);
+    },
+    async insertMany(data) {
+      return Promise.all(data.map((d) => repo.insert(d)));
+    },
+    async findById(id) {
+      const row = rows.get(id);
+      return row ? clone(row) : null;
+    },
+    async findFirst(filter) {
+      return (await repo.findMany(filter))[0] ?? null;
+    },
+    async findMany(filter?: Filter<T>) {
+      return [...rows.values()].filter((r) => matches(r, filter as Record<string, unknown>)).map(clone);
+    },
+    async update(id, data) {
+      const row = rows.get(id);
+      if (!row) throw new Error(`Row ${id} not found`);
+      const next = { ...row, ...data } as T;
+      rows.set(id, next);
+      return clone(next);
+    },
+    async updateMany(filter, data) {
+      const hits = await repo.findMany(filter);
+      for (const row of hits) await repo.update(String(row[primaryKey]), data);
+      return hits.length;
+    },
+    async delete(id) {
+      return rows.delete(id);
+    },
+    async deleteMany(filter) {
+      const hits = await repo.findMany(filter);
+      for (const row of hits) rows.delete(String(row[primaryKey]));
+      return hits.length;
+    },
+    async count(filter) {
+      return (await repo.findMany(filter)).length;
+    },
+    async exists(id) {
+      return rows.has(id);
+    },
+    query() {
+      let filter: Filter<T> = {};
+      let order: { field: keyof T; dir: "asc" | "desc" } | undefined;
+      let max: number | undefined;
+      let skip = 0;
+      const builder: QueryBuilder<T> = {
+        where(f) {
+          filter = { ...filter, ...f };
+          return builder;
+        },
+        orderBy(field, direction = "asc") {
+          order = { field, dir: direction };
+          return builder;
+        },
+        limit(count) {
+          max = count;
+          return builder;
+        },
+        offset(count) {
+          skip = count;
+          return builder;
+        },
+        select() {
+          return builder as never;
+        },
+        async execute() {
+          let result = await repo.findMany(filter);
+          if (order) {
+            const { field, dir } = order;
+            result.sort((a, b) => {
+              const x = a[field] as number;
+              const y = b[field] as number;
+              const cmp = x < y ? -1 : x > y ? 1 : 0;
+              return dir === "asc" ? cmp : -cmp;
+            });
+          }
+          result = result.slice(skip, max === undefined ? undefined : skip + max);
+          return result;
+        },
+      };
+      return builder;
+    },
+    async raw() {
+      return [];
+    },
+    async transaction(fn) {
+      return fn(repo);
+    },
+  };
+  return repo;
+}
+
+/** In-memory StorageApi: one repository per registered table. */
+export function createMemoryStorage(): StorageApi {
+  const repos = new Map<string, Repository<Row>>();
+  const schemas = new Map<string, PluginSchema>();
+  const storage = {
+    driver: "sqlite",
+    register: vi.fn(async (schema: PluginSchema) => {
+      schemas.set(schema.namespace, schema);
+      for (const [table, def] of Object.entries(schema.tables)) {
+        const key = `${schema.namespace}.${table}`;
+        if (!repos.has(key)) repos.set(key, createMemoryRepository(def.primaryKey));
+      }
+    }),
+    getRepository: vi.fn(<T extends Row>(namespace: string, table: string) => {
+      const repo = repos.get(`${namespace}.${table}`);
+      if (!repo) throw new Error(`Table ${namespace}.${table} is not registered`);
+      return repo as unknown as Repository<T>;
+    }),
+    isRegistered: vi.fn((namespace: string) => schemas.has(namespace)),
+    getVersion: vi.fn(async (namespace: string) => schemas.get(namespace)?.version ?? 0),
+    raw: vi.fn(async () => []),
+    transaction: vi.fn(async <R>(fn: (s: StorageApi) => Promise<R>) => fn(storage)),
+  } as StorageApi;
+  return storage;
+}
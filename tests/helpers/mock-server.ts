@@ -0,0 +1,45 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: unknown;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+}
+
+export type MockHandler = (request: RecordedRequest) => MockResponse | Promise<MockResponse>;
+
+/** A local HTTP server standing in for a provider API. Responds with JSON from `handler`. */
+export async function startMockServer(
+  handler: MockHandler,
+): Promise<{ url: string; requests: RecordedRequest[]; close: () => Promise<void> }> {
+  const requests: RecordedRequest[] = [];
+  const server: Server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString("utf8");
+    const request = {
+      method: req.method ?? "GET",
+      path: req.url ?? "/",
+      headers: req.headers,
+      body: text ? JSON.parse(text) : undefined,
+    };
+    requests.push(request);
+    const response = await handler(request);
+    res.writeHead(response.status ?? 200, { "content-type": "application/json" });
+    res.end(response.body === undefined ? "" : JSON.stringify(response.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
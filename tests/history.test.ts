@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { formatHistory, historyEntry, parseHistoryArgs, VideoHistory } from "../src/history.js";
+import type { VideoJob } from "../src/jobs.js";
+import { createMemoryRepository } from "./helpers/memory-storage.js";
+
+function job(id: string, overrides: Partial<VideoJob> = {}, prompt = "a cat"): VideoJob {
+  return {
+    id,
+    status: "succeeded",
+    input: { prompt, model: "minimax-video", duration: 5, aspectRatio: "16:9" },
+    requester: "alice",
+    channelId: "general",
+    channelType: "discord",
+    resultUrl: `https://example.com/${id}.mp4`,
+    createdAt: Number(id.replace(/\D/g, "")),
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+async function createHistory(jobs: VideoJob[]) {
+  const repo = createMemoryRepository<VideoJob>();
+  for (const j of jobs) await repo.insert(j);
+  return new VideoHistory(repo);
+}
+
+describe("VideoHistory", () => {
+  it("lists newest first within the requested scope", async () => {
+    const history = await createHistory([
+      job("j1"),
+      job("j2", { requester: "bob" }),
+      job("j3", { channelId: "random" }),
+      job("j4", { status: "failed" }),
+    ]);
+    expect((await history.find({ channelId: "general" })).map((j) => j.id)).toEqual(["j4", "j2", "j1"]);
+    expect((await history.find({ requester: "alice" })).map((j) => j.id)).toEqual(["j4", "j3", "j1"]);
+    expect((await history.find({ status: "succeeded", limit: 2 })).map((j) => j.id)).toEqual(["j3", "j2"]);
+  });
+
+  it("narrows to requesters with a prefix", async () => {
+    const history = await createHistory([
+      job("j1"),
+      job("j2", { requester: "a2a:s1" }),
+      job("j3", { requester: "a2a" }),
+    ]);
+    expect((await history.find({ requesterPrefix: "a2a" })).map((j) => j.id)).toEqual(["j3", "j2"]);
+  });
+
+  it("searches prompts and negative prompts case-insensitively and filters by model", async () => {
+    const history = await createHistory([
+      job("j1", {}, "A Red Balloon"),
+      job("j2", {}, "a kite"),
+      job("j3", {
+        input: { prompt: "a dog", negativePrompt: "red", model: "wan-2.1", duration: 5, aspectRatio: "1:1" },
+      }),
+    ]);
+    expect((await history.find({ text: "red" })).map((j) => j.id)).toEqual(["j3", "j1"]);
+    expect((await history.find({ text: "red", model: "wan-2.1" })).map((j) => j.id)).toEqual(["j3"]);
+  });
+});
+
+describe("parseHistoryArgs", () => {
+  it("parses --mine and --limit in either form", () => {
+    expect(parseHistoryArgs([])).toEqual({ ok: true, value: { mine: false, limit: 10 } });
+    expect(parseHistoryArgs(["--mine", "--limit", "3"])).toEqual({ ok: true, value: { mine: true, limit: 3 } });
+    expect(parseHistoryArgs(["--limit=20"])).toEqual({ ok: true, value: { mine: false, limit: 20 } });
+  });
+
+  it("rejects bad limits and unknown options", () => {
+    expect(parseHistoryArgs(["--limit"]).ok).toBe(false);
+    expect(parseHistoryArgs(["--limit", "0"]).ok).toBe(false);
+    expect(parseHistoryArgs(["--limit", "2.5"]).ok).toBe(false);
+    expect(parseHistoryArgs(["cats"]).ok).toBe(false);
+  });
+});
+
+describe("output", () => {
+  it("formats a chat listing with result URLs for finished videos", () => {
+    const text = formatHistory([job("j1"), job("j2", { status: "failed", resultUrl: undefined })], "History", "none");
+    expect(text).toContain(
+      "`j1` — 1970-01-01 00:00 — succeeded — minimax-video — a cat\n    https://example.com/j1.mp4",
+    );
+    expect(text).toContain("`j2` — 1970-01-01 00:00 — failed");
+    expect(formatHistory([], "History", "none")).toBe("none");
+  });
+
+  it("summarizes inline images in A2A entries", () => {
+    const entry = historyEntry(
+      job("j1", {
+        input: {
+          prompt: "x",
+          model: "minimax-video",
+          duration: 5,
+          aspectRatio: "16:9",
+          image: "data:image/png;base64,AAAA",
+        },
+      }),
+    );
+    expect(entry).toMatchObject({ id: "j1", image: "inline image", channel: { type: "discord", id: "general" } });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { describeImage, MAX_IMAGE_BYTES, validateImageInput } from "../src/image.js";
+
+describe("validateImageInput", () => {
+  it("accepts https URLs with supported or unknown extensions", () => {
+    expect(validateImageInput("https://cdn.example.com/cat.png")).toBeNull();
+    expect(validateImageInput("https://cdn.example.com/cat.JPEG")).toBeNull();
+    expect(validateImageInput("https://cdn.example.com/images/12345")).toBeNull();
+  });
+
+  it("rejects non-https schemes and malformed URLs", () => {
+    expect(validateImageInput("http://example.com/cat.png")).toContain("https://");
+    expect(validateImageInput("file:///etc/passwd")).toContain("https://");
+    expect(validateImageInput("not a url")).toContain("valid https:// URL");
+  });
+
+  it("rejects unsupported MIME types from extension or content type", () => {
+    expect(validateImageInput("https://example.com/anim.gif")).toContain("image/gif");
+    expect(validateImageInput("https://example.com/file", { contentType: "image/svg+xml" })).toContain("svg");
+  });
+
+  it("enforces the size limit when the size is known", () => {
+    expect(validateImageInput("https://example.com/a.png", { size: MAX_IMAGE_BYTES + 1 })).toContain("too large");
+    expect(validateImageInput("https://example.com/a.png", { size: 1024 })).toBeNull();
+  });
+
+  it("validates base64 data URIs", () => {
+    expect(validateImageInput("data:image/png;base64,iVBORw0KGgo=")).toBeNull();
+    expect(validateImageInput("data:image/gif;base64,R0lGODlh")).toContain("image/gif");
+    expect(validateImageInput("data:image/png,rawbytes")).toContain("base64");
+    const huge = `data:image/png;base64,${"A".repeat(Math.ceil((MAX_IMAGE_BYTES * 4) / 3) + 8)}`;
+    expect(validateImageInput(huge)).toContain("too large");
+  });
+});
+
+describe("describeImage", () => {
+  it("never echoes inline image data", () => {
+    expect(describeImage("data:image/png;base64,iVBORw0KGgo=")).toBe("inline image");
+    expect(describeImage("https://example.com/a.png")).toBe("https://example.com/a.png");
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, expect, it, vi } from "vitest";
+import { type Artifact, ArtifactStore } from "../src/artifacts.js";
+import { type CachedResult, ResultCache } from "../src/cache.js";
+import type { FailoverPolicy } from "../src/failover.js";
+import { JobManager, type VideoJob } from "../src/jobs.js";
+import { Scheduler } from "../src/scheduler.js";
+import { createMemoryRepository } from "./helpers/memory-storage.js";
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+const input = { prompt: "a cat", model: "minimax-video", duration: 5, aspectRatio: "16:9" };
+
+describe("JobManager", () => {
+  it("persists a queued job and settles it in the background", async () => {
+    const repo = createMemoryRepository<VideoJob>();
+    const onSettled = vi.fn(async () => {});
+    const jobs = new JobManager({ repo, runner: async () => ({ url: "https://example.com/v.mp4" }), log, onSettled });
+
+    const job = await jobs.submit(input, { requester: "alice" });
+    expect(job.status).toBe("queued");
+    expect(jobs.activeCount).toBe(1);
+
+    const settled = await jobs.wait(job.id);
+    expect(settled?.status).toBe("succeeded");
+    expect(settled?.resultUrl).toBe("https://example.com/v.mp4");
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, status: "succeeded" }));
+    expect(jobs.activeCount).toBe(0);
+  });
+
+  it("sanitizes socket errors and runner exceptions", async () => {
+    const repo = createMemoryRepository<VideoJob>();
+    const runner = vi
+      .fn()
+      .mockResolvedValueOnce({ error: "insufficient_credits" })
+      .mockResolvedValueOnce({ error: "upstream exploded" })
+      .mockRejectedValueOnce(new Error("socket closed"));
+    const jobs = new JobManager({ repo, runner, log });
+
+    const a = await jobs.submit(input, { requester: "alice" });
+    const b = await jobs.submit(input, { requester: "alice" });
+    const c = await jobs.submit(input, { requester: "alice" });
+
+    expect((await jobs.wait(a.id))?.error).toBe("insufficient_credits");
+    expect((await jobs.wait(b.id))?.error).toBe("generation_failed");
+    expect((await jobs.wait(c.id))?.status).toBe("failed");
+  });
+
+  it("records each job's estimated cost and sums what a requester spent", async () => {
+    const repo = createMemoryRepository<VideoJob>();
+    const runner = vi
+      .fn()
+      .mockResolvedValueOnce({ url: "https://example.com/v.mp4" })
+      .mockResolvedValueOnce({ error: "upstream exploded" });
+    const jobs = new JobManager({ repo, runner, log, price: (video) => video.duration * 2 });
+
+    const paid = await jobs.submit(input, { requester: "alice" });
+    expect(paid.cost).toBe(10);
+    await jobs.wait(paid.id);
+    await jobs.wait((await jobs.submit(input, { requester: "alice" })).id);
+    await repo.insert({ ...paid, id: "old", createdAt: 0 });
+    await repo.insert({ ...paid, id: "reused", cached: true });
+
+    // The failed job, the cached one and yesterday's don't count
+    expect(await jobs.spentSince({ requester: "alice" }, 1)).toBe(10);
+    expect(await jobs.spentSince({ requester: "bob" }, 1)).toBe(0);
+  });
+
+  it("records the moderation decision and never runs blocked jobs", async () => {
+    const repo = createMemoryRepository<VideoJob>();
+    const runner = vi.fn(async () => ({ url: "https://example.com/v.mp4" }));
+    const onSettled = vi.fn(async () => {});
+    const jobs = new JobManager({ repo, runner, log, onSettled, price: () => 5 });
+    const checked = { level: "standard" as const, checks: ["local"], checkedAt: 1 };
+
+    const allowed = await jobs.submit(
+      input,
+      { requester: "alice" },
+      { moderation: { decision: "allowed", ...checked } },
+    );
+    expect((await jobs.wait(allowed.id))?.moderation).toEqual({ decision: "allowed", ...checked });
+
+    const moderation = { decision: "blocked" as const, ...checked, rule: "local:gore", category: "violence" };
+    const blocked = await jobs.submit(input, { requester: "alice" }, { moderation });
+    expect(blocked).toMatchObject({ status: "failed", error: "prompt_blocked", moderation });
+    expect(blocked.cost).toBeUndefined();
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(onSettled).toHaveBeenCalledTimes(1);
+    expect(await jobs.spentSince({ requester: "alice" }, 0)).toBe(5);
+  });
+
+  it("lists a requester's jobs newest first", async () => {
+    const repo = createMemoryRepository<VideoJob>();
+    const jobs = new JobManager({ repo, runner: async () => ({ url: "https://example.com/v.mp4" }), log });
+    const first = await jobs.submit(input, { requester: "alice" });
+    await jobs.wait(first.id);
+    await repo.update(first.id, { createdAt: 1 });
+    const second = await jobs.submit(input, { requester: "alice" });
+    await jobs.submit(input, { requester: "bob" });
+
+    const listed = await jobs.listFor("alice");
+    expect(listed.map((j) => j.id)).toEqual([second.id, first.id]);
+  });
+
+  it("marks jobs orphaned by a previous process as interrupted", async () => {
+    const repo = createMemoryRepository<VideoJob>();
+    await repo.insert({
+      id: "stale001",
+      status: "running",
+      input,
+      requester: "alice",
+      createdAt: 1,
+      updatedAt: 1,
+    });
+    const jobs = new JobManager({ repo, runner: async () => ({}), log });
+
+    expect(await jobs.recover()).toBe(1);
+    const job = await jobs.get("stale001");
+    expect(job?.status).toBe("failed");
+    expect(job?.error).toBe("interrupted");
+  });
+
+  it("post-processes the video of jobs that ask for it and keeps the job on failure", async () => {
+    const repo = createMemoryRepository<VideoJob>();
+    const outputs = [{ kind: "video" as const, format: "gif", url: "file:///out/video.gif" }];
+    const postProcess = vi.fn().mockResolvedValueOnce(outputs).mockRejectedValueOnce(new Error("ffmpeg failed: boom"));
+    const jobs = new JobManager({ repo, runner: async () => ({ url: "https://example.com/v.mp4" }), log, postProcess });
+
+    const plain = await jobs.submit(input, { requester: "alice" });
+    expect((await jobs.wait(plain.id))?.outputs).toBeUndefined();
+    expect(postProcess).not.toHaveBeenCalled();
+
+    const gif = await jobs.submit(input, { requester: "alice" }, { postProcess: { format: "gif" } });
+    expect(await jobs.wait(gif.id)).toMatchObject({ status: "succeeded", outputs });
+    expect(postProcess).toHaveBeenCalledWith(expect.objectContaining({ id: gif.id }), "https://example.com/v.mp4");
+
+    const broken = await jobs.submit(input, { requester: "alice" }, { postProcess: { loop: true } });
+    expect(await jobs.wait(broken.id)).toMatchObject({
+      status: "succeeded",
+      resultUrl: "https://example.com/v.mp4",
+      postProcessError: "ffmpeg failed: boom",
+    });
+  });
+
+  it("hands out stored copies of results and outputs", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("video"));
+    const put = vi.fn(async (key: string) => `https://store.example.com/${key}`);
+    const artifacts = new ArtifactStore({
+      repo: createMemoryRepository<Artifact>("key"),
+      backend: () => ({ name: "s3", linkable: true, put, delete: vi.fn() }),
+      limits: () => ({ retentionMs: 0, quotaBytes: 0 }),
+      log,
+    });
+    const outputs = [{ kind: "thumbnail" as const, format: "jpg", url: "https://example.com/poster.jpg" }];
+    const postProcess = vi.fn().mockResolvedValue(outputs);
+    const runner = async () => ({ url: "https://example.com/v.mp4" });
+    const jobs = new JobManager({ repo: createMemoryRepository<VideoJob>(), runner, log, postProcess, artifacts });
+
+    const job = await jobs.submit(input, { requester: "alice" }, { postProcess: { format: "mp4" } });
+    const settled = await jobs.wait(job.id);
+
+    expect(settled?.resultUrl).toBe(`https://store.example.com/${job.id}/original.mp4`);
+    // Post-processing works from the stored copy too, since the provider's may already be gone
+    expect(postProcess).toHaveBeenCalledWith(expect.anything(), settled?.resultUrl);
+    expect(settled?.outputs).toEqual([
+      { kind: "thumbnail", format: "jpg", url: `https://store.example.com/${job.id}/thumbnail.jpg` },
+    ]);
+    vi.restoreAllMocks();
+  });
+
+  describe("cancel", () => {
+    /** A runner whose request stays pending until released. */
+    function pendingRunner() {
+      let release: (result: { url?: string; error?: string }) => void = () => {};
+      const runner = vi.fn(
+        () =>
+          new Promise<{ url?: string; error?: string }>((resolve) => {
+            release = resolve;
+          }),
+      );
+      return { runner, release: (result: { url?: string; error?: string }) => release(result) };
+    }
+
+    it("aborts a running job and flags it partial", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const { runner, release } = pendingRunner();
+      const abort = vi.fn(() => true);
+      const onSettled = vi.fn(async () => {});
+      const jobs = new JobManager({ repo, runner, log, onSettled, abort });
+
+      const job = await jobs.submit(input, { requester: "alice" });
+      await vi.waitFor(() => expect(runner).toHaveBeenCalled());
+      const cancelled = await jobs.cancel(job.id);
+
+      expect(cancelled?.status).toBe("cancelled");
+      expect(cancelled?.partial).toBe(true);
+      expect(abort).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({ id: job.id }), true);
+
+      // A late result is kept on the record but never reported as success
+      release({ url: "https://example.com/late.mp4" });
+      await vi.waitFor(async () => {
+        const settled = await jobs.get(job.id);
+        expect(settled?.status).toBe("cancelled");
+        expect(settled?.resultUrl).toBe("https://example.com/late.mp4");
+      });
+      expect(onSettled).not.toHaveBeenCalled();
+    });
+
+    it("tells the abort hook when other jobs are running, so it spares the shared capability session", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const { runner } = pendingRunner();
+      const abort = vi.fn(() => false);
+      const jobs = new JobManager({ repo, runner, log, abort });
+
+      const a = await jobs.submit(input, { requester: "alice" });
+      await jobs.submit(input, { requester: "bob" });
+      await vi.waitFor(() => expect(runner).toHaveBeenCalledTimes(2));
+      await jobs.cancel(a.id);
+
+      // Requests sent to a provider directly can still be aborted on their own
+      expect(abort).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({ id: a.id }), false);
+      expect((await jobs.get(a.id))?.status).toBe("cancelled");
+    });
+
+    it("leaves finished jobs untouched", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const jobs = new JobManager({ repo, runner: async () => ({ url: "https://example.com/v.mp4" }), log });
+      const job = await jobs.submit(input, { requester: "alice" });
+      await jobs.wait(job.id);
+
+      expect((await jobs.cancel(job.id))?.status).toBe("succeeded");
+      expect(await jobs.cancel("missing")).toBeNull();
+    });
+
+    it("drain cancels jobs still running after the timeout and notifies requesters", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const { runner } = pendingRunner();
+      const onSettled = vi.fn(async () => {});
+      const jobs = new JobManager({ repo, runner, log, onSettled, abort: () => true });
+
+      const job = await jobs.submit(input, { requester: "alice" });
+      await vi.waitFor(() => expect(runner).toHaveBeenCalled());
+      await jobs.drain(10);
+
+      const stored = await jobs.get(job.id);
+      expect(stored?.status).toBe("cancelled");
+      expect(stored?.error).toBe("shutdown");
+      expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, status: "cancelled" }));
+    });
+
+    it("takes queued jobs out of the scheduler without ever dispatching them", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const { runner } = pendingRunner();
+      const scheduler = new Scheduler({ maxConcurrent: () => 1 });
+      const jobs = new JobManager({ repo, runner, log, scheduler });
+
+      await jobs.submit(input, { requester: "alice" });
+      const waiting = await jobs.submit(input, { requester: "bob" });
+      await vi.waitFor(() => expect(scheduler.depth).toBe(1));
+      expect((await jobs.get(waiting.id))?.status).toBe("queued");
+
+      const cancelled = await jobs.cancel(waiting.id);
+      expect(cancelled?.status).toBe("cancelled");
+      expect(cancelled?.partial).toBeUndefined();
+      expect(scheduler.depth).toBe(0);
+      expect(runner).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("failover", () => {
+    const policy: FailoverPolicy = {
+      chains: { "kling-1.6": ["minimax-video"] },
+      providers: [],
+      retries: 2,
+      baseDelayMs: 1,
+    };
+    const kling = { ...input, model: "kling-1.6" };
+
+    it("retries transient errors with backoff and records every attempt", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const runner = vi
+        .fn()
+        .mockResolvedValueOnce({ error: "Replicate prediction 1 timed out" })
+        .mockResolvedValueOnce({ url: "https://example.com/v.mp4" });
+      const jobs = new JobManager({ repo, runner, log, failover: () => policy });
+
+      const settled = await jobs.wait((await jobs.submit(kling, { requester: "alice" })).id);
+
+      expect(settled?.status).toBe("succeeded");
+      expect(runner).toHaveBeenCalledTimes(2);
+      expect(settled?.attempts).toEqual([
+        expect.objectContaining({
+          model: "kling-1.6",
+          error: "Replicate prediction 1 timed out",
+          code: "provider_timeout",
+        }),
+        expect.objectContaining({ model: "kling-1.6" }),
+      ]);
+      expect(settled?.attempts?.[1].error).toBeUndefined();
+    });
+
+    it("falls back along the chain and doesn't cache the stand-in under the original request", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const cache = new ResultCache({ repo: createMemoryRepository<CachedResult>(), ttlMs: () => 60_000, log });
+      const runner = vi.fn(async (_job: VideoJob, attempt: { model: string }) =>
+        attempt.model === "kling-1.6" ? { error: "Kling is overloaded" } : { url: "https://example.com/minimax.mp4" },
+      );
+      const jobs = new JobManager({ repo, runner, log, cache, failover: () => policy });
+
+      const settled = await jobs.wait((await jobs.submit(kling, { requester: "alice" })).id);
+
+      expect(settled?.resultUrl).toBe("https://example.com/minimax.mp4");
+      expect(settled?.attempts?.map((attempt) => attempt.model)).toEqual([
+        "kling-1.6",
+        "kling-1.6",
+        "kling-1.6",
+        "minimax-video",
+      ]);
+      expect(await cache.lookup(kling)).toBeNull();
+    });
+
+    it("stops at content-policy refusals and skips retries for invalid input", async () => {
+      const repo = createMemoryRepository<VideoJob>();
+      const refused = vi.fn().mockResolvedValue({ error: "Replicate prediction failed: NSFW content detected" });
+      const strict = new JobManager({ repo, runner: refused, log, failover: () => policy });
+      const blocked = await strict.wait((await strict.submit(kling, { requester: "alice" })).id);
+      expect(blocked?.status).toBe("failed");
+      expect(blocked?.attempts).toEqual([expect.objectContaining({ code: "content_policy" })]);
+
+      const rejected = vi
+        .fn()
+        .mockResolvedValueOnce({ error: "Replicate rejected the request (HTTP 422): duration must be 5 or 10" })
+        .mockResolvedValueOnce({ url: "https://example.com/minimax.mp4" });
+      const lenient = new JobManager({ repo, runner: rejected, log, failover: () => policy });
+      const fallback = await lenient.wait((await lenient.submit(kling, { requester: "alice" })).id);
+      expect(fallback?.attempts?.map((attempt) => attempt.code ?? attempt.model)).toEqual([
+        "invalid_params",
+        "minimax-video",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_RATE_LIMITS,
+  formatRateLimits,
+  formatWait,
+  type RateEvent,
+  RateLimiter,
+  type RateLimits,
+  rateLimitsFromConfig,
+} from "../src/limiter.js";
+import { createMemoryRepository } from "./helpers/memory-storage.js";
+
+const unlimited: RateLimits = {
+  maxConcurrentPerUser: 0,
+  maxConcurrentPerChannel: 0,
+  maxConcurrentGlobal: 0,
+  maxQueueLength: 0,
+  maxRequestsPerWindow: 0,
+  windowMs: 60_000,
+};
+
+function createLimiter(limits: Partial<RateLimits>, active: Record<string, number> = {}) {
+  const events = createMemoryRepository<RateEvent>();
+  const countActive = vi.fn(
+    async (filter: { requester?: string; channelId?: string }) =>
+      active[filter.requester ?? filter.channelId ?? "*"] ?? 0,
+  );
+  const limiter = new RateLimiter({ events, countActive, limits: () => ({ ...unlimited, ...limits }) });
+  return { limiter, events, countActive };
+}
+
+describe("rateLimitsFromConfig", () => {
+  it("falls back to defaults for missing or invalid values and accepts numeric strings", () => {
+    expect(rateLimitsFromConfig({})).toEqual(DEFAULT_RATE_LIMITS);
+    const limits = rateLimitsFromConfig({
+      maxConcurrentPerUser: "5",
+      maxConcurrentGlobal: -1,
+      rateWindowMinutes: "30",
+    });
+    expect(limits.maxConcurrentPerUser).toBe(5);
+    expect(limits.maxConcurrentGlobal).toBe(DEFAULT_RATE_LIMITS.maxConcurrentGlobal);
+    expect(limits.windowMs).toBe(30 * 60_000);
+  });
+
+  it("treats 0 as unlimited", () => {
+    const text = formatRateLimits(rateLimitsFromConfig({ maxConcurrentPerChannel: 0 }));
+    expect(text).toContain("unlimited per channel");
+  });
+});
+
+describe("formatWait", () => {
+  it("rounds up to whole minutes", () => {
+    expect(formatWait(10_000)).toBe("in about a minute");
+    expect(formatWait(5 * 60_000 + 1)).toBe("in 6 minutes");
+    expect(formatWait(3 * 60 * 60_000)).toBe("in about 3 hours");
+  });
+});
+
+describe("RateLimiter", () => {
+  it("rejects users, channels and the service at their concurrency caps", async () => {
+    const { limiter } = createLimiter(
+      { maxConcurrentPerUser: 2, maxConcurrentPerChannel: 3, maxConcurrentGlobal: 5 },
+      { alice: 2, bob: 1, busy: 3, "*": 4 },
+    );
+
+    const user = await limiter.check({ requester: "alice" });
+    expect(user.allowed).toBe(false);
+    expect(!user.allowed && user.reason).toContain("2 videos in progress");
+
+    const channel = await limiter.check({ requester: "bob", channelId: "busy" });
+    expect(!channel.allowed && channel.reason).toContain("This channel");
+
+    expect((await limiter.check({ requester: "bob", channelId: "quiet" })).allowed).toBe(true);
+  });
+
+  it("lets requests past the global cap queue, and rejects only once the queue is full", async () => {
+    const active: Record<string, number> = { "*": 4 };
+    const { limiter } = createLimiter({ maxConcurrentGlobal: 4, maxQueueLength: 2 }, active);
+    expect((await limiter.check({ requester: "bob" })).allowed).toBe(true);
+
+    active["*"] = 6;
+    const decision = await limiter.check({ requester: "bob" });
+    expect(decision).toMatchObject({ allowed: false, retryAfterMs: 5 * 60_000 });
+    expect(!decision.allowed && decision.reason).toContain("queue is full");
+  });
+
+  it("counts requests in a rolling window and says when the oldest expires", async () => {
+    const { limiter } = createLimiter({ maxRequestsPerWindow: 2, windowMs: 10 * 60_000 });
+    const start = vi.fn(async () => "job");
+
+    expect(await limiter.admit({ requester: "alice" }, start)).toEqual({ allowed: true, value: "job" });
+    expect((await limiter.admit({ requester: "alice" }, start)).allowed).toBe(true);
+
+    const rejected = await limiter.admit({ requester: "alice" }, start);
+    expect(rejected.allowed).toBe(false);
+    if (!rejected.allowed) {
+      expect(rejected.reason).toContain("2 videos per 10 minutes");
+      expect(rejected.reason).toContain("in 10 minutes");
+      expect(rejected.retryAfterMs).toBeGreaterThan(9 * 60_000);
+    }
+    expect(start).toHaveBeenCalledTimes(2);
+
+    // Other users have their own allowance
+    expect((await limiter.admit({ requester: "bob" }, start)).allowed).toBe(true);
+  });
+
+  it("checks a whole batch against the queue and the request window", async () => {
+    const active: Record<string, number> = { alice: 1, "*": 5 };
+    const { limiter, events } = createLimiter(
+      { maxConcurrentPerUser: 2, maxConcurrentGlobal: 4, maxQueueLength: 4, maxRequestsPerWindow: 5 },
+      active,
+    );
+
+    // One free slot is enough to accept a batch; the scheduler holds back the rest
+    expect((await limiter.check({ requester: "alice" }, 3)).allowed).toBe(true);
+    const queue = await limiter.check({ requester: "alice" }, 4);
+    expect(!queue.allowed && queue.reason).toContain("only has room for 3 more videos");
+
+    await events.insert({ id: "e1", subject: "alice", at: Date.now() - 1000 });
+    await events.insert({ id: "e2", subject: "alice", at: Date.now() });
+    const window = await limiter.check({ requester: "alice" }, 3, Date.now());
+    expect(window.allowed).toBe(true);
+    active["*"] = 0;
+    const over = await limiter.admit({ requester: "alice" }, async () => "jobs", 4);
+    expect(!over.allowed && over.reason).toContain("you only have 3 left");
+
+    const tooBig = await limiter.check({ requester: "bob" }, 6);
+    expect(!tooBig.allowed && tooBig.reason).toContain("more than the limit of 5 videos");
+
+    expect(await limiter.admit({ requester: "alice" }, async () => "jobs", 3)).toEqual({
+      allowed: true,
+      value: "jobs",
+    });
+    expect(await events.count({ subject: "alice" })).toBe(5);
+  });
+
+  it("keeps window state in storage so a new limiter sees earlier requests", async () => {
+    const { limiter, events } = createLimiter({ maxRequestsPerWindow: 1 });
+    await limiter.admit({ requester: "alice" }, async () => undefined);
+
+    const restarted = new RateLimiter({
+      events,
+      countActive: async () => 0,
+      limits: () => ({ ...unlimited, maxRequestsPerWindow: 1 }),
+    });
+    expect((await restarted.check({ requester: "alice" })).allowed).toBe(false);
+  });
+
+  it("forgets requests older than the window", async () => {
+    const { limiter, events } = createLimiter({ maxRequestsPerWindow: 1, windowMs: 60_000 });
+    await events.insert({ id: "old", subject: "alice", at: Date.now() - 120_000 });
+
+    expect((await limiter.admit({ requester: "alice" }, async () => undefined)).allowed).toBe(true);
+    expect(events.rows.has("old")).toBe(false);
+  });
+
+  it("enforces daily budgets per user and per channel against the estimated cost", async () => {
+    const spent: Record<string, number> = { alice: 40, general: 90 };
+    const spend = vi.fn(
+      async (filter: { requester?: string; channelId?: string }) =>
+        spent[filter.requester ?? filter.channelId ?? ""] ?? 0,
+    );
+    const limiter = new RateLimiter({
+      events: createMemoryRepository<RateEvent>(),
+      countActive: async () => 0,
+      limits: () => unlimited,
+      budgets: () => ({ perUser: 50, perChannel: 100 }),
+      spent: spend,
+    });
+    const now = Date.UTC(2026, 3, 2, 22);
+
+    expect((await limiter.check({ requester: "alice" }, 1, now, 10)).allowed).toBe(true);
+    const user = await limiter.check({ requester: "alice" }, 1, now, 15);
+    expect(user).toMatchObject({ allowed: false, code: "budget_exceeded", retryAfterMs: 2 * 60 * 60 * 1000 });
+    expect(!user.allowed && user.reason).toBe(
+      "That would cost about 15 credits, but only 10 credits of your daily budget of 50 credits is left. " +
+        "It resets in about 2 hours.",
+    );
+    expect(spend).toHaveBeenCalledWith({ requester: "alice" }, Date.UTC(2026, 3, 2));
+
+    const channel = await limiter.check({ requester: "bob", channelId: "general" }, 1, now, 15);
+    expect(!channel.allowed && channel.reason).toContain("this channel's daily budget of 100 credits");
+    spent.bob = 50;
+    const usedUp = await limiter.check({ requester: "bob" }, 1, now, 1);
+    expect(!usedUp.allowed && usedUp.reason).toContain("Your daily budget of 50 credits is used up");
+
+    // Free requests (all cached) aren't held back by a spent budget
+    expect((await limiter.check({ requester: "bob" }, 1, now, 0)).allowed).toBe(true);
+    expect(await limiter.budgetStatus({ requester: "alice", channelId: "general" }, now)).toEqual({
+      user: { budget: 50, left: 10 },
+      channel: { budget: 100, left: 10 },
+    });
+  });
+
+  it("serializes admissions so concurrent requests can't both take the last slot", async () => {
+    let active = 0;
+    const events = createMemoryRepository<RateEvent>();
+    const limiter = new RateLimiter({
+      events,
+      countActive: async () => active,
+      limits: () => ({ ...unlimited, maxConcurrentPerUser: 1 }),
+    });
+    const start = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active++;
+    };
+
+    const results = await Promise.all([
+      limiter.admit({ requester: "alice" }, start),
+      limiter.admit({ requester: "alice" }, start),
+    ]);
+    expect(results.map((r) => r.allowed)).toEqual([true, false]);
+  });
+});
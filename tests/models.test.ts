@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  allAspectRatios,
+  allDurations,
+  applyModelDefaults,
+  formatModelList,
+  getModel,
+  modelCatalog,
+  VIDEO_MODELS,
+  validateModelParams,
+} from "../src/models.js";
+
+describe("model registry", () => {
+  it("includes the four supported models, all with image input", () => {
+    expect(VIDEO_MODELS.map((m) => m.id)).toEqual(["minimax-video", "wan-2.1", "kling-1.6", "luma-ray2"]);
+    expect(VIDEO_MODELS.every((m) => m.imageInput)).toBe(true);
+  });
+
+  it("derives option unions across models", () => {
+    expect(allDurations()).toEqual([3, 5, 10]);
+    expect(allAspectRatios()).toEqual(expect.arrayContaining(["16:9", "9:16", "1:1", "21:9"]));
+  });
+
+  it("generates the /video models text and A2A catalog from the registry", () => {
+    const text = formatModelList();
+    for (const m of VIDEO_MODELS) expect(text).toContain(`\`${m.id}\``);
+    expect(modelCatalog()).toHaveLength(VIDEO_MODELS.length);
+    expect(modelCatalog()[0]).toMatchObject({ id: "minimax-video", durations: [3, 5, 10] });
+  });
+});
+
+describe("validateModelParams", () => {
+  it("accepts supported combinations", () => {
+    expect(validateModelParams("kling-1.6", { duration: 10, aspectRatio: "9:16", resolution: "1080p" })).toBeNull();
+  });
+
+  it("rejects unknown models", () => {
+    expect(validateModelParams("sora", { duration: 5, aspectRatio: "16:9" })).toMatchObject({
+      field: "model",
+      message: expect.stringContaining("Unknown model"),
+    });
+  });
+
+  it("rejects durations, aspect ratios and resolutions the model can't produce", () => {
+    expect(validateModelParams("kling-1.6", { duration: 3, aspectRatio: "16:9" })?.message).toContain("5, 10 seconds");
+    expect(validateModelParams("minimax-video", { duration: 5, aspectRatio: "21:9" })?.field).toBe("aspectRatio");
+    expect(validateModelParams("wan-2.1", { duration: 5, aspectRatio: "16:9", resolution: "1080p" })?.field).toBe(
+      "resolution",
+    );
+  });
+
+  it("only lets extension-capable models continue a video", () => {
+    const params = { duration: 5, aspectRatio: "16:9", extendVideo: "https://example.com/v.mp4" };
+    expect(validateModelParams("luma-ray2", params)).toBeNull();
+    expect(validateModelParams("minimax-video", params)).toMatchObject({
+      field: "extendVideo",
+      message: expect.stringContaining("kling-1.6, luma-ray2"),
+    });
+  });
+});
+
+describe("applyModelDefaults", () => {
+  const defaults = { duration: 3, aspectRatio: "16:9" };
+
+  it("falls back to the model's first option when the configured default is unsupported", () => {
+    expect(applyModelDefaults(getModel("kling-1.6"), {}, defaults)).toEqual({ duration: 5, aspectRatio: "16:9" });
+  });
+
+  it("keeps explicit values so validation can reject them", () => {
+    expect(applyModelDefaults(getModel("kling-1.6"), { duration: 3 }, defaults).duration).toBe(3);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  capabilityModeration,
+  formatModerationRecord,
+  formatModerationSettings,
+  localModeration,
+  type ModerationCheck,
+  Moderator,
+  moderationLevelFor,
+  moderationMessage,
+  moderationSettingsFromConfig,
+} from "../src/moderation.js";
+import type { WOPRPluginContext } from "../src/types.js";
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+const defaults = moderationSettingsFromConfig({});
+
+describe("moderationSettingsFromConfig", () => {
+  it("defaults to standard with external moderation when available", () => {
+    expect(defaults).toEqual({ level: "standard", channels: {}, blocklist: [], external: true });
+    expect(formatModerationSettings(defaults)).toBe("standard; 0 blocklist entries; external: when available");
+  });
+
+  it("reads per-channel levels and the blocklist, skipping invalid entries", () => {
+    const settings = moderationSettingsFromConfig({
+      moderationLevel: "relaxed",
+      moderationLevels: "Discord=strict, C123=off, slack=loose",
+      moderationBlocklist: "acme corp, /celebrit(y|ies)/, /(/",
+      externalModeration: "off",
+    });
+    expect(settings.level).toBe("relaxed");
+    expect(settings.channels).toEqual({ discord: "strict", c123: "off" });
+    expect(settings.blocklist).toHaveLength(2);
+    expect(settings.external).toBe(false);
+    expect(formatModerationSettings(settings)).toBe(
+      "relaxed (discord: strict, c123: off); 2 blocklist entries; external: off",
+    );
+    expect(moderationSettingsFromConfig({ moderationLevel: "maximum" }).level).toBe("standard");
+  });
+
+  it("picks a channel's level by ID, then type, then the default", () => {
+    const settings = moderationSettingsFromConfig({ moderationLevels: "discord=strict, dm-42=relaxed" });
+    expect(moderationLevelFor(settings, { channelId: "dm-42", channelType: "discord" })).toBe("relaxed");
+    expect(moderationLevelFor(settings, { channelId: "general", channelType: "discord" })).toBe("strict");
+    expect(moderationLevelFor(settings, { channelType: "a2a" })).toBe("standard");
+  });
+});
+
+describe("localModeration", () => {
+  const check = (prompt: string, level: "off" | "relaxed" | "standard" | "strict", config = {}) =>
+    localModeration.check(prompt, level, moderationSettingsFromConfig(config));
+
+  it("lets ordinary prompts through", async () => {
+    expect(await check("a cat chasing a laser pointer", "strict")).toEqual({ flagged: false });
+  });
+
+  it("applies more rules the stricter the level", async () => {
+    expect(await check("a zombie movie full of gore", "standard")).toEqual({ flagged: false });
+    expect(await check("a zombie movie full of gore", "strict")).toMatchObject({
+      flagged: true,
+      category: "violence",
+      rule: "gore",
+    });
+    expect(await check("a nude beach", "relaxed")).toEqual({ flagged: false });
+    expect(await check("a nude beach", "standard")).toMatchObject({ flagged: true, category: "sexual" });
+  });
+
+  it("blocks the most severe content at every level but off", async () => {
+    expect(await check("naked children", "relaxed")).toMatchObject({ flagged: true, category: "sexual_minors" });
+    expect(await check("naked children", "off")).toBeNull();
+  });
+
+  it("blocks blocklisted words and patterns as whole words", async () => {
+    const config = { moderationBlocklist: "acme, /celebrit(y|ies)/" };
+    expect(await check("an ACME rocket launch", "relaxed", config)).toMatchObject({ category: "blocklist" });
+    expect(await check("celebrities dancing", "relaxed", config)).toMatchObject({ category: "blocklist" });
+    expect(await check("an acmeish rocket", "relaxed", config)).toEqual({ flagged: false });
+  });
+});
+
+describe("capabilityModeration", () => {
+  function context(reply: () => Promise<string>, available = true) {
+    return {
+      hasCapability: vi.fn(() => available),
+      inject: vi.fn(reply),
+    } as unknown as WOPRPluginContext;
+  }
+
+  it("asks the moderation capability through the socket layer from standard up", async () => {
+    const ctx = context(async () => JSON.stringify({ flagged: true, categories: { hate: false, violence: true } }));
+    const check = capabilityModeration(ctx, log);
+
+    expect(await check.check("a fight", "relaxed", defaults)).toBeNull();
+    expect(await check.check("a fight", "standard", defaults)).toEqual({
+      flagged: true,
+      category: "violence",
+      reason: "The moderation service flagged the prompt (violence).",
+    });
+    const [session, request] = (ctx.inject as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(session).toBe("__capability__");
+    expect(JSON.parse(request as string)).toEqual({ capability: "moderation", input: { text: "a fight" } });
+  });
+
+  it("is skipped when no capability is installed or it is turned off", async () => {
+    expect(
+      await capabilityModeration(
+        context(async () => "{}", false),
+        log,
+      ).check("x", "strict", defaults),
+    ).toBeNull();
+    const off = moderationSettingsFromConfig({ externalModeration: "off" });
+    expect(
+      await capabilityModeration(
+        context(async () => "{}"),
+        log,
+      ).check("x", "strict", off),
+    ).toBeNull();
+  });
+
+  it("falls back to the local rules when the capability fails or stalls", async () => {
+    const failing = capabilityModeration(
+      context(async () => JSON.stringify({ error: "unavailable" })),
+      log,
+    );
+    expect(await failing.check("x", "standard", defaults)).toBeNull();
+    const garbled = capabilityModeration(
+      context(async () => "not json"),
+      log,
+    );
+    expect(await garbled.check("x", "standard", defaults)).toBeNull();
+    const stalled = capabilityModeration(
+      context(() => new Promise(() => {})),
+      log,
+      10,
+    );
+    expect(await stalled.check("x", "standard", defaults)).toBeNull();
+  });
+});
+
+describe("Moderator", () => {
+  it("records which checks ran and allows clean prompts", async () => {
+    const moderator = new Moderator({ checks: [localModeration], settings: () => defaults });
+    expect(await moderator.check(["a cat", "a dog"], { channelType: "discord" })).toEqual({
+      decision: "allowed",
+      level: "standard",
+      checks: ["local"],
+      checkedAt: expect.any(Number),
+    });
+  });
+
+  it("blocks the whole request when any prompt is flagged, and stops at the first flag", async () => {
+    const external: ModerationCheck = { name: "capability", check: vi.fn(async () => ({ flagged: false as const })) };
+    const moderator = new Moderator({
+      checks: [localModeration, external],
+      settings: () => moderationSettingsFromConfig({ moderationLevels: "discord=strict" }),
+    });
+    const record = await moderator.check(["a cat", "a decapitated statue"], { channelType: "discord" });
+    expect(record).toMatchObject({
+      decision: "blocked",
+      level: "strict",
+      rule: "local:gore",
+      category: "violence",
+      reason: "Graphic violence and gore aren't allowed in this channel.",
+    });
+    expect(external.check).toHaveBeenCalledTimes(1);
+    expect(formatModerationRecord(record)).toBe("blocked at strict by local:gore (violence)");
+    expect(moderationMessage(record)).toContain("**Prompt blocked** — Graphic violence");
+  });
+
+  it("checks nothing when moderation is off", async () => {
+    const moderator = new Moderator({
+      checks: [localModeration],
+      settings: () => moderationSettingsFromConfig({ moderationLevel: "off" }),
+    });
+    const record = await moderator.check(["naked children"], {});
+    expect(record).toMatchObject({ decision: "allowed", level: "off", checks: [] });
+    expect(formatModerationRecord(record)).toBe("allowed at off (no checks)");
+  });
+});
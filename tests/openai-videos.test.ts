@@ -0,0 +1,85 @@
+import { readFile, rm } from "node:fs/promises";
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it } from "vitest";
+import { openaiVideosAdapter } from "../src/openai-videos.js";
+import { type MockHandler, startMockServer } from "./helpers/mock-server.js";
+
+const input = { prompt: "a cat", model: "kling-1.6", duration: 5, aspectRatio: "9:16", resolution: "720p" };
+
+describe("openaiVideosAdapter", () => {
+  let close: () => Promise<void> = async () => {};
+
+  afterEach(async () => {
+    await close();
+  });
+
+  async function adapter(handler: MockHandler) {
+    const server = await startMockServer(handler);
+    close = server.close;
+    return {
+      openai: openaiVideosAdapter({
+        baseUrl: `${server.url}/v1`,
+        apiKey: "sk-test",
+        model: "sora-2",
+        pollIntervalMs: 5,
+      }),
+      requests: server.requests,
+    };
+  }
+
+  it("creates the video, polls it and downloads the content to a local file", async () => {
+    let polls = 0;
+    const { openai, requests } = await adapter(({ method, path }) => {
+      if (method === "POST") return { body: { id: "video_1", status: "queued" } };
+      if (path.endsWith("/content")) return { body: "video-bytes" };
+      return { body: { id: "video_1", status: ++polls < 2 ? "in_progress" : "completed" } };
+    });
+
+    const result = await openai.generate(input);
+
+    expect(result.url).toMatch(/^file:\/\/.*video_1\.mp4$/);
+    const file = fileURLToPath(result.url!);
+    expect(await readFile(file, "utf8")).toBe('"video-bytes"');
+    await rm(dirname(file), { recursive: true });
+    expect(requests[0]).toMatchObject({
+      method: "POST",
+      path: "/v1/videos",
+      body: { model: "sora-2", prompt: "a cat", seconds: "5", size: "720x1280" },
+    });
+    expect(requests[0].headers.authorization).toBe("Bearer sk-test");
+    expect(requests.slice(1).map((request) => request.path)).toEqual([
+      "/v1/videos/video_1",
+      "/v1/videos/video_1",
+      "/v1/videos/video_1/content",
+    ]);
+  });
+
+  it("reports failed videos and billing errors", async () => {
+    const failed = await adapter(() => ({
+      body: { id: "video_2", status: "failed", error: { message: "Prompt blocked" } },
+    }));
+    expect(await failed.openai.generate(input)).toEqual({ error: "Video video_2 failed: Prompt blocked" });
+    await close();
+
+    const broke = await adapter(() => ({
+      status: 429,
+      body: { error: { message: "You exceeded your current quota" } },
+    }));
+    expect(await broke.openai.generate(input)).toEqual({ error: "insufficient_credits" });
+    await close();
+
+    const invalid = await adapter(() => ({ status: 400, body: { error: { message: "Invalid size" } } }));
+    expect(await invalid.openai.generate(input)).toEqual({
+      error: "The video endpoint rejected the request (HTTP 400): Invalid size",
+    });
+  });
+
+  it("refuses reference images before calling the endpoint", async () => {
+    const { openai, requests } = await adapter(() => ({}));
+    expect((await openai.generate({ ...input, image: "https://example.com/a.png" })).error).toMatch(
+      /^Reference images and extensions aren't supported/,
+    );
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import type { MediaTools } from "../src/ffmpeg.js";
+import { describePostProcess, postProcessOptions, processVideo, trimIssue } from "../src/postprocess.js";
+
+function fakeMedia(): MediaTools {
+  return {
+    lastFrame: vi.fn(),
+    concat: vi.fn(),
+    transcode: vi.fn(async () => {}),
+    thumbnail: vi.fn(async () => {}),
+    compress: vi.fn(),
+  };
+}
+
+describe("postProcessOptions", () => {
+  it("keeps only what was asked for", () => {
+    expect(postProcessOptions({})).toBeUndefined();
+    expect(postProcessOptions({ loop: false })).toBeUndefined();
+    expect(postProcessOptions({ format: "gif", trim: { end: 2 } })).toEqual({ format: "gif", trim: { end: 2 } });
+  });
+
+  it("describes the request for chat", () => {
+    expect(describePostProcess({ format: "gif", loop: true, trim: { start: 1, end: 4 } })).toBe("GIF, looped, 1s–4s");
+    expect(describePostProcess({ trim: { start: 2 } })).toBe("MP4, 2s–end");
+  });
+});
+
+describe("trimIssue", () => {
+  it("rejects trims outside the video", () => {
+    expect(trimIssue({ trim: { start: 1, end: 4 } }, 5)).toBeNull();
+    expect(trimIssue({ trim: { start: 5 } }, 5)?.message).toBe("The trim starts at 5s, but the video is only 5s long.");
+    expect(trimIssue({ trim: { end: 6 } }, 5)?.message).toBe("The trim ends at 6s, but the video is only 5s long.");
+    expect(trimIssue(undefined, 5)).toBeNull();
+  });
+});
+
+describe("processVideo", () => {
+  it("converts the video and takes the thumbnail from the converted file", async () => {
+    const media = fakeMedia();
+    const outputs = await processVideo(
+      media,
+      "https://example.com/v.mp4",
+      { format: "gif", loop: true },
+      "/tmp/out/job1",
+    );
+
+    expect(media.transcode).toHaveBeenCalledWith("https://example.com/v.mp4", "/tmp/out/job1/video.gif", {
+      format: "gif",
+      loop: true,
+      trim: undefined,
+    });
+    expect(media.thumbnail).toHaveBeenCalledWith("file:///tmp/out/job1/video.gif", "/tmp/out/job1/thumbnail.jpg");
+    expect(outputs).toEqual([
+      { kind: "video", format: "gif", url: "file:///tmp/out/job1/video.gif" },
+      { kind: "thumbnail", format: "jpg", url: "file:///tmp/out/job1/thumbnail.jpg" },
+    ]);
+  });
+
+  it("only makes a thumbnail when the video needs no conversion", async () => {
+    const media = fakeMedia();
+    const outputs = await processVideo(media, "https://example.com/v.mp4", { format: "mp4" }, "/tmp/out/job2");
+    expect(media.transcode).not.toHaveBeenCalled();
+    expect(media.thumbnail).toHaveBeenCalledWith("https://example.com/v.mp4", "/tmp/out/job2/thumbnail.jpg");
+    expect(outputs).toEqual([{ kind: "thumbnail", format: "jpg", url: "file:///tmp/out/job2/thumbnail.jpg" }]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { applyPreset, BUILT_IN_PRESETS, fillTemplate, formatPreset, type Preset, PresetStore } from "../src/presets.js";
+import { createMemoryRepository } from "./helpers/memory-storage.js";
+
+function createStore() {
+  const repo = createMemoryRepository<Preset>("name");
+  return { store: new PresetStore({ repo }), repo };
+}
+
+const suffix = { template: "shot on 35mm, golden hour, shallow depth of field" };
+
+describe("applying presets", () => {
+  it("fills the template's placeholder or appends the template to the prompt", () => {
+    expect(fillTemplate("{prompt}, anime style", "a cat")).toBe("a cat, anime style");
+    expect(fillTemplate(suffix.template, "a cat")).toBe("a cat, shot on 35mm, golden hour, shallow depth of field");
+  });
+
+  it("uses the preset's settings only where the request has none", () => {
+    const reel = BUILT_IN_PRESETS.find(({ name }) => name === "vertical-reel")!;
+    expect(applyPreset(reel, { prompt: "a cat", duration: 10, seed: 3 })).toEqual({
+      prompt: `a cat, ${reel.template.slice("{prompt}, ".length)}`,
+      negativePrompt: reel.negativePrompt,
+      model: undefined,
+      duration: 10,
+      aspectRatio: "9:16",
+      seed: 3,
+    });
+    expect(applyPreset(reel, { prompt: "a cat", negativePrompt: "dogs" }).negativePrompt).toBe("dogs");
+  });
+
+  it("describes a preset with its settings and owner", () => {
+    const preset = { name: "brand", ...suffix, model: "kling-1.6", duration: 5, owner: "ana", createdAt: 1 };
+    expect(formatPreset(preset)).toBe(
+      "`brand` (by ana) — shot on 35mm, golden hour, shallow depth of field\n    kling-1.6 · 5s",
+    );
+  });
+});
+
+describe("PresetStore", () => {
+  it("ships the built-in presets ahead of saved ones", async () => {
+    const { store } = createStore();
+    await store.save("zoom", suffix, "ana", []);
+    await store.save("Brand", suffix, "ana", []);
+    expect((await store.list()).map(({ name }) => name)).toEqual([
+      "cinematic",
+      "anime",
+      "product-shot",
+      "vertical-reel",
+      "brand",
+      "zoom",
+    ]);
+    expect(await store.get("CINEMATIC")).toMatchObject({ name: "cinematic", owner: "built-in" });
+    expect(await store.get("brand")).toMatchObject({ name: "brand", owner: "ana", ...suffix });
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  it("rejects invalid names and changes to built-ins", async () => {
+    const { store } = createStore();
+    expect(await store.save("my preset", suffix, "ana", [])).toMatchObject({ ok: false });
+    expect(await store.save("anime", suffix, "ana", ["ana"])).toEqual({
+      ok: false,
+      error: "`anime` is a built-in preset and can't be changed.",
+    });
+    expect(await store.delete("anime", "ana", ["ana"])).toMatchObject({ ok: false });
+  });
+
+  it("lets only the owner or a video admin replace or delete a saved preset", async () => {
+    const { store, repo } = createStore();
+    await store.save("brand", { ...suffix, negativePrompt: "text" }, "ana", []);
+
+    expect(await store.save("brand", suffix, "bob", [])).toEqual({
+      ok: false,
+      error: "`brand` was saved by ana; only they or a video admin can replace it.",
+    });
+    const replaced = await store.save("brand", { template: "{prompt}, noir" }, "ana", []);
+    expect(replaced).toMatchObject({ ok: true, value: { replaced: true } });
+    expect(repo.rows.get("brand")).not.toHaveProperty("negativePrompt");
+
+    expect(await store.delete("brand", "bob", [])).toMatchObject({ ok: false });
+    expect(await store.delete("brand", "bob", ["bob"])).toMatchObject({ ok: true, value: { name: "brand" } });
+    expect(await store.get("brand")).toBeNull();
+    expect(await store.delete("brand", "ana", [])).toEqual({
+      ok: false,
+      error: "No preset named `brand`. See `/video preset list`.",
+    });
+  });
+});
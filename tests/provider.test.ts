@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { describeRoute, frameSize, providerFromConfig, providerIssue } from "../src/provider.js";
+
+describe("providerFromConfig", () => {
+  it("goes through the socket layer on hosted credits", () => {
+    expect(providerFromConfig({})).toBeNull();
+    expect(providerFromConfig({ provider: "replicate" })).toBeNull();
+    expect(describeRoute({})).toBe("hosted credits");
+  });
+
+  it("calls Replicate directly with a BYOK key", () => {
+    expect(providerFromConfig({ provider: "replicate", apiKey: "r8_x" })?.id).toBe("replicate");
+    expect(describeRoute({ apiKey: "r8_x" })).toBe("direct to Replicate with your API key");
+  });
+
+  it("calls a custom endpoint once it has a URL, key or not", () => {
+    expect(providerFromConfig({ provider: "custom", apiKey: "k" })).toBeNull();
+    expect(providerFromConfig({ provider: "custom", endpointUrl: "http://localhost:8080" })?.id).toBe("custom");
+    expect(describeRoute({ provider: "custom" })).toBe(
+      "hosted credits (set an endpoint URL to call your own endpoint)",
+    );
+  });
+
+  it("lets a request pick its own backend", () => {
+    expect(providerFromConfig({ provider: "replicate" }, "comfyui")?.id).toBe("comfyui");
+    expect(providerFromConfig({ provider: "comfyui" }, "openai")?.id).toBe("openai");
+    expect(describeRoute({ provider: "openai", openaiApiKey: "sk" })).toBe(
+      "direct to OpenAI-compatible endpoint with your API key",
+    );
+  });
+});
+
+describe("providerIssue", () => {
+  it("flags backends that aren't set up", () => {
+    expect(providerIssue({}, "comfyui")?.message).toContain("ComfyUI needs a workflow");
+    expect(providerIssue({}, "custom")?.message).toContain("endpoint URL");
+    expect(providerIssue({ comfyuiWorkflow: "{}" }, "comfyui")).toBeNull();
+    expect(providerIssue({}, undefined)).toBeNull();
+  });
+});
+
+describe("frameSize", () => {
+  it("uses the resolution as the short side in multiples of 16", () => {
+    const input = { prompt: "x", model: "wan-2.1", duration: 5, aspectRatio: "16:9" };
+    expect(frameSize({ ...input, resolution: "720p" })).toEqual({ width: 1280, height: 720 });
+    expect(frameSize({ ...input, resolution: "480p", aspectRatio: "9:16" })).toEqual({ width: 480, height: 848 });
+    expect(frameSize({ ...input, resolution: "1080p", aspectRatio: "1:1" })).toEqual({ width: 1088, height: 1088 });
+  });
+});
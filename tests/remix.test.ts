@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { VideoJob } from "../src/jobs.js";
+import { extendInput, extendSourceError, remixInput } from "../src/remix.js";
+
+function job(overrides: Partial<VideoJob> = {}): VideoJob {
+  return {
+    id: "orig0001",
+    status: "succeeded",
+    input: {
+      prompt: "a fox in the snow",
+      model: "kling-1.6",
+      duration: 10,
+      aspectRatio: "9:16",
+      resolution: "1080p",
+      negativePrompt: "blurry",
+      seed: 42,
+    },
+    requester: "alice",
+    resultUrl: "https://example.com/fox.mp4",
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("remixInput", () => {
+  it("keeps the original parameters except the seed, so an unchanged remix is a new variation", () => {
+    expect(remixInput(job().input, {})).toEqual({
+      prompt: "a fox in the snow",
+      model: "kling-1.6",
+      duration: 10,
+      aspectRatio: "9:16",
+      resolution: "1080p",
+      negativePrompt: "blurry",
+    });
+  });
+
+  it("applies overrides", () => {
+    const input = remixInput(job().input, { prompt: "a wolf in the snow", duration: 5, seed: 7 });
+    expect(input).toMatchObject({ prompt: "a wolf in the snow", duration: 5, seed: 7, aspectRatio: "9:16" });
+  });
+
+  it("drops the resolution and adapts the defaults when switching model", () => {
+    const input = remixInput(job().input, { model: "wan-2.1" });
+    expect(input.resolution).toBeUndefined();
+    expect(input.duration).toBe(3);
+    expect(input.aspectRatio).toBe("9:16");
+  });
+});
+
+describe("extendInput", () => {
+  it("continues the original video with its framing and the model's shortest clip", () => {
+    expect(extendInput(job(), { prompt: "the fox runs away" })).toEqual({
+      prompt: "the fox runs away",
+      model: "kling-1.6",
+      duration: 5,
+      aspectRatio: "9:16",
+      resolution: "1080p",
+      negativePrompt: "blurry",
+      extendVideo: "https://example.com/fox.mp4",
+    });
+  });
+
+  it("only extends jobs that produced a video", () => {
+    expect(extendSourceError(job())).toBeNull();
+    expect(extendSourceError(job({ status: "failed", resultUrl: undefined }))).toContain("nothing to extend");
+  });
+
+  it("won't send a provider a video only the plugin host can reach", () => {
+    expect(extendSourceError(job({ resultUrl: "file:///plugin/artifacts/job1/original.mp4" }))).toContain(
+      "stored on the plugin host only",
+    );
+  });
+});
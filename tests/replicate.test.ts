@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { replicateAdapter } from "../src/replicate.js";
+import { type MockHandler, startMockServer } from "./helpers/mock-server.js";
+
+const input = { prompt: "a cat", model: "kling-1.6", duration: 5, aspectRatio: "16:9" };
+
+describe("replicateAdapter", () => {
+  let close: () => Promise<void> = async () => {};
+
+  afterEach(async () => {
+    await close();
+  });
+
+  async function adapter(handler: MockHandler) {
+    const server = await startMockServer(handler);
+    close = server.close;
+    return {
+      replicate: replicateAdapter({ apiKey: "r8_test", baseUrl: server.url, pollIntervalMs: 5 }),
+      requests: server.requests,
+    };
+  }
+
+  it("creates a prediction, polls it and returns the output", async () => {
+    let polls = 0;
+    const { replicate, requests } = await adapter(({ method }) =>
+      method === "POST"
+        ? { status: 201, body: { id: "p1", status: "starting" } }
+        : ++polls < 2
+          ? { body: { id: "p1", status: "processing" } }
+          : { body: { id: "p1", status: "succeeded", output: "https://replicate.delivery/p1.mp4" } },
+    );
+
+    const result = await replicate.generate({ ...input, image: "https://example.com/ref.png", seed: 7 });
+
+    expect(result).toEqual({ url: "https://replicate.delivery/p1.mp4" });
+    expect(requests[0]).toMatchObject({
+      method: "POST",
+      path: "/models/kwaivgi/kling-v1.6-standard/predictions",
+      body: {
+        input: {
+          prompt: "a cat",
+          duration: 5,
+          aspect_ratio: "16:9",
+          start_image: "https://example.com/ref.png",
+          seed: 7,
+        },
+      },
+    });
+    expect(requests[0].headers.authorization).toBe("Bearer r8_test");
+    expect(requests.slice(1).map((request) => request.path)).toEqual(["/predictions/p1", "/predictions/p1"]);
+  });
+
+  it("reports failed predictions and billing errors", async () => {
+    const failed = await adapter(() => ({ status: 201, body: { id: "p2", status: "failed", error: "NSFW" } }));
+    expect(await failed.replicate.generate(input)).toEqual({ error: "Replicate prediction failed: NSFW" });
+    await close();
+
+    const broke = await adapter(() => ({ status: 402, body: { detail: "Payment required" } }));
+    expect(await broke.replicate.generate(input)).toEqual({ error: "insufficient_credits" });
+    await close();
+
+    const invalid = await adapter(() => ({ status: 422, body: { detail: "duration must be 5 or 10" } }));
+    expect(await invalid.replicate.generate(input)).toEqual({
+      error: "Replicate rejected the request (HTTP 422): duration must be 5 or 10",
+    });
+  });
+
+  it("cancels the prediction when the job is aborted", async () => {
+    const { replicate, requests } = await adapter(({ method, path }) =>
+      method === "POST" && !path.endsWith("/cancel")
+        ? { status: 201, body: { id: "p3", status: "starting" } }
+        : { body: { id: "p3", status: "processing" } },
+    );
+    const controller = new AbortController();
+    const pending = replicate.generate(input, controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(requests.at(-1)).toMatchObject({ method: "POST", path: "/predictions/p3/cancel" });
+  });
+
+  it("refuses models and features it can't map", async () => {
+    const { replicate, requests } = await adapter(() => ({}));
+    expect(await replicate.generate({ ...input, model: "sora" })).toEqual({
+      error: "sora isn't available on Replicate",
+    });
+    expect((await replicate.generate({ ...input, extendVideo: "https://example.com/v.mp4" })).error).toMatch(
+      /^Extending videos isn't supported/,
+    );
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+import { type QueueTicket, Scheduler } from "../src/scheduler.js";
+
+/** A task that stays pending until released. */
+function deferred() {
+  let release: (value: string) => void = () => {};
+  const promise = new Promise<string>((resolve) => {
+    release = resolve;
+  });
+  return { promise, release };
+}
+
+function ticket(jobId: string, requester: string, channelId?: string): QueueTicket {
+  return { jobId, requester, ...(channelId ? { channelId } : {}) };
+}
+
+describe("Scheduler", () => {
+  it("runs tasks immediately while under the concurrency limit", async () => {
+    const scheduler = new Scheduler({ maxConcurrent: () => 2 });
+    await expect(scheduler.run(ticket("a", "alice"), async () => "done")).resolves.toBe("done");
+    expect(scheduler.depth).toBe(0);
+  });
+
+  it("queues beyond the limit and starts the next task when a slot frees up", async () => {
+    const scheduler = new Scheduler({ maxConcurrent: () => 1 });
+    const first = deferred();
+    const started: string[] = [];
+
+    const a = scheduler.run(ticket("a", "alice"), () => {
+      started.push("a");
+      return first.promise;
+    });
+    const b = scheduler.run(ticket("b", "bob"), async () => {
+      started.push("b");
+      return "b";
+    });
+
+    expect(started).toEqual(["a"]);
+    expect(scheduler.depth).toBe(1);
+    expect(scheduler.running).toBe(1);
+    expect(scheduler.position("b")).toBe(1);
+
+    first.release("a");
+    await expect(a).resolves.toBe("a");
+    await expect(b).resolves.toBe("b");
+    expect(started).toEqual(["a", "b"]);
+  });
+
+  it("serves channels and senders round-robin instead of first-come-first-served", () => {
+    const scheduler = new Scheduler({ maxConcurrent: () => 1 });
+    const blocker = deferred();
+    scheduler.run(ticket("x", "alice", "busy"), () => blocker.promise);
+
+    // alice floods #busy, then bob (#busy) and carol (#quiet) ask once each
+    for (const id of ["a1", "a2", "a3"]) scheduler.run(ticket(id, "alice", "busy"), async () => id);
+    scheduler.run(ticket("b1", "bob", "busy"), async () => "b1");
+    scheduler.run(ticket("c1", "carol", "quiet"), async () => "c1");
+
+    const order = ["a1", "a2", "a3", "b1", "c1"].sort(
+      (p, q) => (scheduler.position(p) ?? 0) - (scheduler.position(q) ?? 0),
+    );
+    // The quiet channel goes first, then #busy alternates between bob and alice
+    expect(order).toEqual(["c1", "b1", "a1", "a2", "a3"]);
+    blocker.release("x");
+  });
+
+  it("reports positions on joining and as jobs move up", async () => {
+    const onPosition = vi.fn();
+    const scheduler = new Scheduler({ maxConcurrent: () => 1, onPosition });
+    const first = deferred();
+    const a = scheduler.run(ticket("a", "alice"), () => first.promise);
+    scheduler.run(ticket("b", "bob"), async () => "b");
+    scheduler.run(ticket("c", "carol"), async () => "c");
+
+    expect(onPosition).toHaveBeenCalledWith(expect.objectContaining({ jobId: "b" }), 1);
+    expect(onPosition).toHaveBeenCalledWith(expect.objectContaining({ jobId: "c" }), 2);
+
+    scheduler.remove("b");
+    expect(onPosition).toHaveBeenLastCalledWith(expect.objectContaining({ jobId: "c" }), 1);
+    first.release("a");
+    await a;
+  });
+
+  it("resolves removed tasks with null without running them", async () => {
+    const scheduler = new Scheduler({ maxConcurrent: () => 1 });
+    const first = deferred();
+    scheduler.run(ticket("a", "alice"), () => first.promise);
+    const task = vi.fn(async () => "b");
+    const b = scheduler.run(ticket("b", "bob"), task);
+
+    expect(scheduler.remove("b")).toBe(true);
+    await expect(b).resolves.toBeNull();
+    expect(scheduler.remove("a")).toBe(false); // already running
+    first.release("a");
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it("holds back a sender's jobs beyond their cap and serves others meanwhile", async () => {
+    const scheduler = new Scheduler({ maxConcurrent: () => 3, maxPerSender: () => 1, maxPerChannel: () => 0 });
+    const first = deferred();
+    const started: string[] = [];
+    const run = (id: string, requester: string, task: () => Promise<string>) =>
+      scheduler.run(ticket(id, requester, "general"), () => {
+        started.push(id);
+        return task();
+      });
+
+    const a1 = run("a1", "alice", () => first.promise);
+    const a2 = run("a2", "alice", async () => "a2");
+    const b1 = run("b1", "bob", async () => "b1");
+
+    expect(started).toEqual(["a1", "b1"]);
+    expect(scheduler.depth).toBe(1);
+    first.release("a1");
+    await Promise.all([a1, a2, b1]);
+    expect(started).toEqual(["a1", "b1", "a2"]);
+  });
+
+  it("caps running jobs per chat channel", () => {
+    const scheduler = new Scheduler({ maxConcurrent: () => 0, maxPerChannel: () => 1 });
+    const pending = deferred();
+    scheduler.run(ticket("a", "alice", "general"), () => pending.promise);
+    scheduler.run(ticket("b", "bob", "general"), () => pending.promise);
+    scheduler.run(ticket("c", "carol", "random"), () => pending.promise);
+    expect(scheduler.running).toBe(2);
+    expect(scheduler.position("b")).toBe(1);
+    pending.release("");
+  });
+
+  it("treats a limit of 0 as unlimited", async () => {
+    const scheduler = new Scheduler({ maxConcurrent: () => 0 });
+    const pending = [deferred(), deferred(), deferred()];
+    pending.forEach((d, i) => scheduler.run(ticket(String(i), "alice"), () => d.promise));
+    expect(scheduler.running).toBe(3);
+    expect(scheduler.depth).toBe(0);
+    for (const d of pending) d.release("");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatCommandErrors,
+  generateVideoInputSchema,
+  invalidInputResult,
+  toInputSchema,
+  videoArgsSchema,
+} from "../src/schemas.js";
+
+describe("videoArgsSchema", () => {
+  it("coerces valid string flags", () => {
+    const parsed = videoArgsSchema.parse({ prompt: "  a cat  ", duration: "10", aspectRatio: "9:16" });
+    expect(parsed).toEqual({ prompt: "a cat", duration: 10, aspectRatio: "9:16" });
+  });
+
+  it("rejects non-numeric and unsupported durations", () => {
+    expect(videoArgsSchema.safeParse({ prompt: "x", duration: "banana" }).success).toBe(false);
+    expect(videoArgsSchema.safeParse({ prompt: "x", duration: "7" }).success).toBe(false);
+  });
+
+  it("parses --trim ranges with an open start or end", () => {
+    expect(videoArgsSchema.parse({ prompt: "x", trim: "1.5:4" }).trim).toEqual({ start: 1.5, end: 4 });
+    expect(videoArgsSchema.parse({ prompt: "x", trim: "2:" }).trim).toEqual({ start: 2 });
+    expect(videoArgsSchema.parse({ prompt: "x", trim: ":3" }).trim).toEqual({ end: 3 });
+    expect(formatCommandErrors(videoArgsSchema.safeParse({ prompt: "x", trim: "4:1" }).error!)).toContain(
+      "`--trim`: must end after it starts",
+    );
+    expect(formatCommandErrors(videoArgsSchema.safeParse({ prompt: "x", trim: "1-4" }).error!)).toContain(
+      "`--trim`: must be start:end in seconds",
+    );
+    expect(videoArgsSchema.safeParse({ prompt: "x", trim: ":" }).success).toBe(false);
+  });
+
+  it("accepts only known providers", () => {
+    expect(videoArgsSchema.parse({ prompt: "x", provider: "comfyui" }).provider).toBe("comfyui");
+    expect(formatCommandErrors(videoArgsSchema.safeParse({ prompt: "x", provider: "runway" }).error!)).toContain(
+      "`--provider`: must be one of replicate, custom, comfyui, openai",
+    );
+  });
+
+  it("formats errors using command-line flag names", () => {
+    const result = videoArgsSchema.safeParse({ prompt: "x", duration: "banana", model: "sora" });
+    expect(result.success).toBe(false);
+    const message = formatCommandErrors(result.error!);
+    expect(message).toContain("`--duration`: must be a whole number of seconds");
+    expect(message).toContain("`--model`: must be one of");
+  });
+});
+
+describe("generateVideoInputSchema", () => {
+  it("validates the image field with the image rules", () => {
+    const result = generateVideoInputSchema.safeParse({ prompt: "x", image: "http://example.com/a.png" });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues[0].path).toEqual(["image"]);
+  });
+
+  it("produces structured A2A errors", () => {
+    const result = generateVideoInputSchema.safeParse({});
+    const tool = invalidInputResult(result.error!);
+    expect(tool.isError).toBe(true);
+    expect(JSON.parse(tool.content[0].text!)).toEqual({
+      error: "invalid_input",
+      issues: [{ field: "prompt", message: "must be text" }],
+    });
+  });
+
+  it("derives a JSON Schema inputSchema from the zod definition", () => {
+    const schema = toInputSchema(generateVideoInputSchema);
+    expect(schema.$schema).toBeUndefined();
+    expect(schema.type).toBe("object");
+    expect(schema.required).toEqual(["prompt"]);
+    const properties = schema.properties as Record<string, Record<string, unknown>>;
+    expect(properties.prompt.description).toBe("Text description of the video to generate");
+    expect(properties.duration.enum).toEqual([3, 5, 10]);
+    expect(Object.keys(properties)).toEqual(Object.keys(generateVideoInputSchema.shape));
+  });
+});
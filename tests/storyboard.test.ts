@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from "vitest";
+import type { MediaTools } from "../src/ffmpeg.js";
+import { JobManager, type VideoJob } from "../src/jobs.js";
+import {
+  parseStoryboardJson,
+  planStoryboard,
+  type Storyboard,
+  StoryboardRunner,
+  storyboardIssue,
+} from "../src/storyboard.js";
+import { createMemoryRepository } from "./helpers/memory-storage.js";
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+const defaults = { model: "kling-1.6", duration: 5, aspectRatio: "16:9" };
+
+function setup(runner = vi.fn(async (job: VideoJob) => ({ url: `https://example.com/${job.input.prompt}.mp4` }))) {
+  const media: MediaTools = {
+    lastFrame: vi.fn(async (url: string) => `data:image/jpeg;base64,${Buffer.from(url).toString("base64")}`),
+    concat: vi.fn(async () => {}),
+    transcode: vi.fn(async () => {}),
+    thumbnail: vi.fn(async () => {}),
+    compress: vi.fn(async () => {}),
+  };
+  const jobs = new JobManager({ repo: createMemoryRepository<VideoJob>(), runner, log });
+  const onSettled = vi.fn(async (_storyboard: Storyboard) => {});
+  const storyboards = new StoryboardRunner({
+    repo: createMemoryRepository<Storyboard>(),
+    jobs,
+    media,
+    outputDir: () => "/tmp/videogen/storyboards",
+    log,
+    onSettled,
+  });
+  return { runner, media, jobs, storyboards, onSettled };
+}
+
+describe("planStoryboard", () => {
+  it("fills in the defaults and lets shots override the duration", () => {
+    const plan = planStoryboard({ shots: [{ prompt: "dawn" }, { prompt: "dusk", duration: 10 }] }, defaults);
+    expect(plan).toEqual({
+      model: "kling-1.6",
+      aspectRatio: "16:9",
+      carryFrames: true,
+      shots: [
+        { prompt: "dawn", duration: 5 },
+        { prompt: "dusk", duration: 10 },
+      ],
+    });
+  });
+
+  it("reports the first shot the model can't render", () => {
+    const plan = planStoryboard({ shots: [{ prompt: "dawn" }, { prompt: "dusk", duration: 3 }] }, defaults);
+    expect(storyboardIssue(plan)).toEqual({
+      field: "shots.1.duration",
+      message: "Shot 2: Kling 1.6 supports durations of 5, 10 seconds, not 3.",
+    });
+  });
+
+  it("reports storyboard-wide settings without a shot prefix", () => {
+    const plan = planStoryboard({ shots: [{ prompt: "dawn" }], aspectRatio: "21:9" }, defaults);
+    expect(storyboardIssue(plan)?.field).toBe("aspectRatio");
+  });
+});
+
+describe("parseStoryboardJson", () => {
+  it("accepts the curly quotes phones insert", () => {
+    expect(parseStoryboardJson("{“shots”: []}")).toEqual({ ok: true, value: { shots: [] } });
+  });
+
+  it("explains invalid JSON", () => {
+    const parsed = parseStoryboardJson("{shots");
+    expect(parsed.ok).toBe(false);
+    if (!parsed.ok) expect(parsed.error).toMatch(/^The storyboard isn't valid JSON/);
+  });
+});
+
+describe("StoryboardRunner", () => {
+  it("renders shots in order, carries the last frame forward and stitches the result", async () => {
+    const { runner, media, storyboards, onSettled } = setup();
+    const plan = planStoryboard(
+      { shots: [{ prompt: "one" }, { prompt: "two" }, { prompt: "three", image: "https://example.com/ref.png" }] },
+      defaults,
+    );
+
+    const started = await storyboards.start(plan, { requester: "alice" });
+    expect(started.status).toBe("running");
+    const settled = await storyboards.wait(started.id);
+
+    expect(runner.mock.calls.map(([job]) => job.input.prompt)).toEqual(["one", "two", "three"]);
+    expect(runner.mock.calls[0][0].input.image).toBeUndefined();
+    expect(runner.mock.calls[1][0].input.image).toMatch(/^data:image\/jpeg;base64,/);
+    // A shot's own reference image wins over the carried frame
+    expect(runner.mock.calls[2][0].input.image).toBe("https://example.com/ref.png");
+    expect(runner.mock.calls.every(([job]) => job.storyboardId === started.id)).toBe(true);
+    expect(media.lastFrame).toHaveBeenCalledTimes(1);
+
+    expect(media.concat).toHaveBeenCalledWith(
+      ["https://example.com/one.mp4", "https://example.com/two.mp4", "https://example.com/three.mp4"],
+      `/tmp/videogen/storyboards/${started.id}.mp4`,
+    );
+    expect(settled?.status).toBe("succeeded");
+    expect(settled?.finalUrl).toBe(`file:///tmp/videogen/storyboards/${started.id}.mp4`);
+    expect(settled?.shots.map((shot) => shot.carried ?? false)).toEqual([false, true, false]);
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: started.id, status: "succeeded" }));
+  });
+
+  it("doesn't carry frames when the storyboard turns it off", async () => {
+    const { runner, media, storyboards } = setup();
+    const plan = planStoryboard({ shots: [{ prompt: "one" }, { prompt: "two" }], carryFrames: false }, defaults);
+
+    const started = await storyboards.start(plan, { requester: "alice" });
+    await storyboards.wait(started.id);
+
+    expect(media.lastFrame).not.toHaveBeenCalled();
+    expect(runner.mock.calls[1][0].input.image).toBeUndefined();
+  });
+
+  it("keeps the per-shot URLs when stitching fails", async () => {
+    const { media, storyboards } = setup();
+    vi.mocked(media.concat).mockRejectedValueOnce(new Error("ffmpeg failed: no such file"));
+    const plan = planStoryboard({ shots: [{ prompt: "one" }, { prompt: "two" }] }, defaults);
+
+    const started = await storyboards.start(plan, { requester: "alice" });
+    const settled = await storyboards.wait(started.id);
+
+    expect(settled?.status).toBe("succeeded");
+    expect(settled?.finalUrl).toBeUndefined();
+    expect(settled?.stitchError).toBe("ffmpeg failed: no such file");
+    expect(settled?.shots.map((shot) => shot.url)).toEqual([
+      "https://example.com/one.mp4",
+      "https://example.com/two.mp4",
+    ]);
+  });
+
+  it("uses a single shot as the final video without stitching", async () => {
+    const { media, storyboards } = setup();
+    const started = await storyboards.start(planStoryboard({ shots: [{ prompt: "one" }] }, defaults), {
+      requester: "alice",
+    });
+    const settled = await storyboards.wait(started.id);
+
+    expect(media.concat).not.toHaveBeenCalled();
+    expect(settled?.finalUrl).toBe("https://example.com/one.mp4");
+  });
+
+  it("stops at the first shot that fails", async () => {
+    const runner = vi
+      .fn()
+      .mockResolvedValueOnce({ url: "https://example.com/one.mp4" })
+      .mockResolvedValueOnce({ error: "insufficient_credits" });
+    const { media, storyboards } = setup(runner);
+    const plan = planStoryboard({ shots: [{ prompt: "one" }, { prompt: "two" }, { prompt: "three" }] }, defaults);
+
+    const started = await storyboards.start(plan, { requester: "alice" });
+    const settled = await storyboards.wait(started.id);
+
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(media.concat).not.toHaveBeenCalled();
+    expect(settled).toMatchObject({ status: "failed", error: "insufficient_credits", failedShot: 1 });
+  });
+
+  it("cancels the shot in progress", async () => {
+    let release: (value: { url: string }) => void = () => {};
+    const runner = vi.fn(() => new Promise<{ url: string }>((resolve) => (release = resolve)));
+    const { jobs, storyboards, onSettled } = setup(runner);
+    const plan = planStoryboard({ shots: [{ prompt: "one" }, { prompt: "two" }] }, defaults);
+
+    const started = await storyboards.start(plan, { requester: "alice" });
+    await vi.waitFor(() => expect(runner).toHaveBeenCalledTimes(1));
+    const shotJobId = (await storyboards.get(started.id))?.shots[0].jobId ?? "";
+
+    expect((await storyboards.cancel(started.id))?.status).toBe("cancelled");
+    release({ url: "https://example.com/one.mp4" });
+    const settled = await storyboards.wait(started.id);
+
+    expect(settled?.status).toBe("cancelled");
+    expect((await jobs.get(shotJobId))?.status).toBe("cancelled");
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  it("marks storyboards orphaned by a previous process as interrupted", async () => {
+    const { storyboards } = setup();
+    const repo = createMemoryRepository<Storyboard>();
+    await repo.insert({
+      id: "stale001",
+      status: "running",
+      requester: "alice",
+      model: "kling-1.6",
+      aspectRatio: "16:9",
+      carryFrames: true,
+      shots: [{ prompt: "one", duration: 5 }],
+      createdAt: 1,
+      updatedAt: 1,
+    });
+    const recovering = new StoryboardRunner({
+      repo,
+      jobs: new JobManager({ repo: createMemoryRepository<VideoJob>(), runner: async () => ({}), log }),
+      media: { lastFrame: vi.fn(), concat: vi.fn(), transcode: vi.fn(), thumbnail: vi.fn(), compress: vi.fn() },
+      outputDir: () => "/tmp",
+      log,
+    });
+
+    expect(await recovering.recover()).toBe(1);
+    expect(await recovering.get("stale001")).toMatchObject({ status: "failed", error: "interrupted" });
+    expect(await storyboards.recover()).toBe(0);
+  });
+});
@@ -1,4 +1,5 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { chmod, mkdir, rm, writeFile } from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type {
   A2AServerConfig,
   ChannelCommand,
@@ -7,6 +8,7 @@ import type {
   WOPRPlugin,
   WOPRPluginContext,
 } from "@wopr-network/plugin-types";
+import { createMemoryStorage } from "./helpers/memory-storage.js";
 
 // Helper: create a mock WOPRPluginContext
 function createMockContext() {
@@ -32,6 +34,7 @@ function createMockContext() {
       model: "minimax-video",
       duration: "5",
       aspectRatio: "16:9",
+      retryDelaySeconds: 0,
     })),
     saveConfig: vi.fn(),
     getMainConfig: vi.fn(),
@@ -64,10 +67,7 @@ function createMockContext() {
       error: vi.fn(),
       debug: vi.fn(),
     },
-    storage: {
-      register: vi.fn(),
-      getRepository: vi.fn(),
-    },
+    storage: createMemoryStorage(),
     registerExtension: vi.fn(),
     unregisterExtension: vi.fn(),
     getExtension: vi.fn(),
@@ -120,7 +120,11 @@ describe("VideoGen Plugin", () => {
     expect(p.manifest!.category).toBe("creative");
     expect(p.manifest!.configSchema).toBeDefined();
     expect(p.manifest!.configSchema!.fields.length).toBeGreaterThan(0);
-    expect(p.manifest!.provides?.capabilities).toHaveLength(1);
+    expect(p.manifest!.provides?.capabilities.map((c) => c.id)).toEqual([
+      "videogen-replicate",
+      "videogen-comfyui",
+      "videogen-openai",
+    ]);
     expect(p.manifest!.provides?.capabilities[0].type).toBe("video-generation");
     // tier was removed in plugin-types 0.5.0
     expect((p.manifest!.provides?.capabilities[0] as Record<string, unknown>).tier).toBeUndefined();
@@ -137,6 +141,15 @@ describe("VideoGen Plugin", () => {
     expect(apiKeyField!.setupFlow).toBe("paste");
   });
 
+  it("registers storage schema on init", async () => {
+    const { default: plugin } = await import("../src/index.js");
+    const p = plugin as WOPRPlugin;
+    const { ctx } = createMockContext();
+    await p.init!(ctx);
+    expect(ctx.storage.register).toHaveBeenCalledWith(expect.objectContaining({ namespace: "videogen" }));
+    await p.shutdown!();
+  });
+
   it("registers config schema on init", async () => {
     const { default: plugin } = await import("../src/index.js");
     const p = plugin as WOPRPlugin;
@@ -158,6 +171,14 @@ describe("VideoGen Plugin", () => {
           expect.objectContaining({ name: "generate_video" }),
           expect.objectContaining({ name: "list_video_models" }),
           expect.objectContaining({ name: "get_video_settings" }),
+          expect.objectContaining({ name: "get_video_job" }),
+          expect.objectContaining({ name: "cancel_video" }),
+          expect.objectContaining({ name: "list_video_history" }),
+          expect.objectContaining({ name: "remix_video" }),
+          expect.objectContaining({ name: "extend_video" }),
+          expect.objectContaining({ name: "generate_video_batch" }),
+          expect.objectContaining({ name: "generate_storyboard" }),
+          expect.objectContaining({ name: "enhance_video_prompt" }),
         ]),
       }),
     );
@@ -193,6 +214,14 @@ describe("VideoGen Plugin", () => {
       id: "videogen-replicate",
       name: "Video Generation (Replicate)",
     });
+    expect(ctx.registerCapabilityProvider).toHaveBeenCalledWith("video-generation", {
+      id: "videogen-comfyui",
+      name: "Video Generation (ComfyUI)",
+    });
+    expect(ctx.registerCapabilityProvider).toHaveBeenCalledWith("video-generation", {
+      id: "videogen-openai",
+      name: "Video Generation (OpenAI-compatible)",
+    });
     await p.shutdown!();
   });
 
@@ -203,6 +232,8 @@ describe("VideoGen Plugin", () => {
     await p.init!(ctx);
     await p.shutdown!();
     expect(ctx.unregisterCapabilityProvider).toHaveBeenCalledWith("video-generation", "videogen-replicate");
+    expect(ctx.unregisterCapabilityProvider).toHaveBeenCalledWith("video-generation", "videogen-comfyui");
+    expect(ctx.unregisterCapabilityProvider).toHaveBeenCalledWith("video-generation", "videogen-openai");
   });
 
   it("unregisters config schema on shutdown", async () => {
@@ -227,6 +258,7 @@ describe("VideoGen Plugin", () => {
 describe("VideoGen /video command handler", () => {
   let plugin: WOPRPlugin;
   let ctx: WOPRPluginContext;
+  let mockProvider: ChannelProvider;
   let registeredCommands: Map<string, ChannelCommand>;
 
   beforeEach(async () => {
@@ -234,11 +266,28 @@ describe("VideoGen /video command handler", () => {
     plugin = mod.default as WOPRPlugin;
     const mock = createMockContext();
     ctx = mock.ctx;
+    mockProvider = mock.mockProvider;
     registeredCommands = mock.registeredCommands;
+    // No network here: results that can't be downloaded keep their provider URL
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
     await plugin.init!(ctx);
   });
 
-  async function invokeVideoCommand(args: string[]): Promise<string[]> {
+  afterEach(async () => {
+    await plugin.shutdown!();
+    vi.restoreAllMocks();
+    await rm("/tmp/test/artifacts", { recursive: true, force: true });
+  });
+
+  /** Wait for the background job to post its result back to the channel. */
+  async function deliveredMessage(): Promise<string> {
+    await vi.waitFor(() => expect(mockProvider.send).toHaveBeenCalled());
+    const [channel, content] = (mockProvider.send as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(channel).toBe("test-channel-id");
+    return content as string;
+  }
+
+  async function invokeVideoCommand(args: string[], extra: Record<string, unknown> = {}): Promise<string[]> {
     const videoCmd = registeredCommands.get("video");
     expect(videoCmd).toBeDefined();
     const replies: string[] = [];
@@ -246,6 +295,7 @@ describe("VideoGen /video command handler", () => {
       channel: "test-channel-id",
       channelType: "test",
       sender: "test-user",
+      ...extra,
       args,
       reply: vi.fn(async (msg: string) => {
         replies.push(msg);
@@ -268,6 +318,356 @@ describe("VideoGen /video command handler", () => {
     expect(replies[0]).toContain("Video Generation Settings");
     expect(replies[0]).toContain("replicate");
     expect(replies[0]).toContain("minimax-video");
+    expect(replies[0]).toContain("**Concurrent jobs:** 2 per user");
+    expect(replies[0]).toContain("**Delivery:** discord: upload up to 10 MB");
+    expect(replies[0]).toContain("**Daily budget:** unlimited per user, unlimited per channel");
+    expect(replies[0]).toContain("**Moderation:** standard; 0 blocklist entries; external: when available");
+  });
+
+  it("quotes /video cost without queuing anything", async () => {
+    const quote = await invokeVideoCommand(["cost", "--model", "kling-1.6", "--resolution", "1080p", "--count", "2"]);
+    expect(quote[0]).toContain("**Estimated cost:** 45 credits");
+    expect(quote[0]).toContain("kling-1.6 · 5s · 1080p × 2 videos (22.5 credits each)");
+    expect(quote[0]).not.toContain("Today's budget");
+    expect((await invokeVideoCommand(["cost", "--model", "wan-2.1", "--duration", "10"]))[0]).toContain(
+      "durations of 3, 5 seconds",
+    );
+    expect(ctx.inject).not.toHaveBeenCalled();
+
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ creditsPerSecond: 2, dailyBudgetPerUser: 100 });
+    const budgeted = await invokeVideoCommand(["cost", "{a|b}", "cat"]);
+    expect(budgeted[0]).toContain("**Estimated cost:** 20 credits");
+    expect(budgeted[0]).toContain("**Today's budget:** 100 credits of 100 left for you");
+  });
+
+  it("shows the estimated credits in the confirmation and refuses requests over the daily budget", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ dailyBudgetPerUser: 12, retryDelaySeconds: 0 });
+    await invokeVideoCommand(["a", "cat"]);
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    expect(inject.mock.calls[0][1]).toContain("This will use about 5 credits to generate a video");
+    await deliveredMessage();
+
+    inject.mockClear();
+    const refused = await invokeVideoCommand(["a", "dog", "--count", "2"]);
+    expect(refused[0]).toContain("That would cost about 10 credits, but only 7 credits of your daily budget");
+    expect(inject).not.toHaveBeenCalled();
+  });
+
+  it("blocks flagged prompts before confirming and records the decision on a failed job", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ moderationLevels: "test=strict" });
+    const replies = await invokeVideoCommand(["a", "{cat|zombie}", "covered", "in", "gore"]);
+    expect(replies[0]).toContain("**Prompt blocked** — Graphic violence and gore aren't allowed in this channel.");
+    expect(ctx.inject).not.toHaveBeenCalled();
+
+    const jobId = /\*\*Job:\*\* `(\w+)`/.exec(replies[0])![1];
+    const status = (await invokeVideoCommand(["status", jobId]))[0];
+    expect(status).toContain("— failed");
+    expect(status).toContain("**Moderation:** blocked at strict by local:gore (violence)");
+    expect(status).not.toContain("Estimated cost");
+  });
+
+  it("records a blocked storyboard on a failed job", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ moderationBlocklist: "acme" });
+    const spec = { shots: [{ prompt: "a lighthouse" }, { prompt: "an acme rocket" }] };
+    const replies = await invokeVideoCommand(["storyboard", ...JSON.stringify(spec).split(" ")]);
+    expect(replies[0]).toContain("**Prompt blocked**");
+    expect(ctx.inject).not.toHaveBeenCalled();
+
+    const jobId = /\*\*Job:\*\* `(\w+)`/.exec(replies[0])![1];
+    const status = (await invokeVideoCommand(["status", jobId]))[0];
+    expect(status).toContain("— failed");
+    expect(status).toContain("**Moderation:** blocked");
+  });
+
+  it("records allowed moderation decisions on the job", async () => {
+    await invokeVideoCommand(["a", "cat", "covered", "in", "gore"]);
+    await deliveredMessage();
+    const jobs = (await invokeVideoCommand(["jobs"]))[0];
+    const jobId = /`(\w+)`/.exec(jobs)![1];
+    expect((await invokeVideoCommand(["status", jobId]))[0]).toContain("**Moderation:** allowed at standard (local)");
+  });
+
+  it("lets the requester review an enhanced prompt before confirming the cost", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    const answers = ["yes", "yes"];
+    inject.mockImplementation(async (session: string) => {
+      if (session === "__videogen_enhance__") return "A tabby cat naps on a sunlit windowsill, slow dolly in.";
+      if (session === "__confirm__") return answers.shift();
+      return JSON.stringify({ url: "https://example.com/video.mp4" });
+    });
+    await invokeVideoCommand(["--enhance", "a", "cat"]);
+    await deliveredMessage();
+    expect(inject.mock.calls.map(([session]) => session)).toEqual([
+      "__videogen_enhance__",
+      "__confirm__",
+      "__confirm__",
+      "__capability__",
+    ]);
+    expect(inject.mock.calls[1][1]).toContain("> A tabby cat naps on a sunlit windowsill, slow dolly in.");
+    const payload = JSON.parse(inject.mock.calls[3][1] as string) as { input: Record<string, unknown> };
+    expect(payload.input.prompt).toBe("A tabby cat naps on a sunlit windowsill, slow dolly in.");
+
+    inject.mockClear();
+    answers.push("A black cat naps on a windowsill at night", "yes");
+    await invokeVideoCommand(["-e", "a", "cat"]);
+    await vi.waitFor(() => expect(mockProvider.send).toHaveBeenCalledTimes(2));
+    const edited = JSON.parse(inject.mock.calls[3][1] as string) as { input: Record<string, unknown> };
+    expect(edited.input.prompt).toBe("A black cat naps on a windowsill at night");
+
+    const jobId = /`(\w+)`/.exec((await invokeVideoCommand(["jobs"]))[0])![1];
+    expect((await invokeVideoCommand(["remix", jobId, "--enhance"]))[0]).toContain("works on new prompts");
+  });
+
+  it("charges nothing when the enhanced prompt is rejected or unavailable", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockImplementation(async (session: string) =>
+      session === "__videogen_enhance__" ? "A tabby cat naps in the sun." : "no",
+    );
+    expect(await invokeVideoCommand(["--enhance", "a", "cat"])).toEqual(["Video generation cancelled."]);
+
+    inject.mockImplementation(async (session: string) => {
+      if (session === "__videogen_enhance__") throw new Error("no text provider");
+      return "yes";
+    });
+    expect((await invokeVideoCommand(["--enhance", "a", "cat"]))[0]).toContain(
+      "Prompt enhancement isn't available right now.",
+    );
+    expect((await invokeVideoCommand(["--enhance", "{a|b}", "cat"]))[0]).toContain("works on a single prompt");
+    expect(inject.mock.calls.map(([session]) => session)).not.toContain("__capability__");
+  });
+
+  it("only enhances requests that could go ahead, and moderates the rewrite", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      moderationBlocklist: "acme",
+      maxRequestsPerWindow: 1,
+    });
+    inject.mockImplementation(async (session: string) => {
+      if (session === "__videogen_enhance__") return "An acme rocket lifts off at dawn.";
+      return session === "__confirm__" ? "yes" : JSON.stringify({ url: "https://example.com/video.mp4" });
+    });
+
+    expect(
+      (await invokeVideoCommand(["--enhance", "a", "cat", "--model", "kling-1.6", "--duration", "3"]))[0],
+    ).toContain("supports durations of 5, 10 seconds");
+    expect((await invokeVideoCommand(["--enhance", "an", "acme", "rocket"]))[0]).toContain("**Prompt blocked**");
+    expect(inject).not.toHaveBeenCalled();
+
+    // The rewrite itself is moderated before anyone is asked to pay for it
+    expect((await invokeVideoCommand(["--enhance", "a", "rocket"])).at(-1)).toContain("**Prompt blocked**");
+    expect(inject.mock.calls.map(([session]) => session)).toEqual(["__videogen_enhance__", "__confirm__"]);
+
+    inject.mockClear();
+    await invokeVideoCommand(["a", "cat"]);
+    await deliveredMessage();
+    inject.mockClear();
+    expect((await invokeVideoCommand(["--enhance", "a", "dog"]))[0]).toContain("reached the limit");
+    expect(inject).not.toHaveBeenCalled();
+  });
+
+  it("applies built-in presets, with the request's own options winning", async () => {
+    await invokeVideoCommand(["--preset", "vertical-reel", "a", "cat", "--model", "kling-1.6"]);
+    await deliveredMessage();
+    const call = (ctx.inject as ReturnType<typeof vi.fn>).mock.calls.find(([type]) => type === "__capability__")!;
+    const payload = JSON.parse(call[1] as string) as { input: Record<string, unknown> };
+    expect(payload.input).toMatchObject({
+      prompt: expect.stringMatching(/^a cat, vertical framing for social media/),
+      negativePrompt: "letterboxing, black bars, text, watermark",
+      model: "kling-1.6",
+      duration: 5,
+      aspectRatio: "9:16",
+    });
+
+    expect(await invokeVideoCommand(["--preset", "noir", "a", "cat"])).toEqual([
+      "No preset named `noir`. See `/video preset list`.",
+    ]);
+    expect((await invokeVideoCommand(["cost", "--preset", "vertical-reel", "--model", "kling-1.6"]))[0]).toContain(
+      "kling-1.6 · 5s",
+    );
+  });
+
+  it("saves, lists and deletes user presets", async () => {
+    const saved = await invokeVideoCommand([
+      "preset",
+      "save",
+      "brand",
+      "shot on 35mm, golden hour, shallow depth of field",
+      "--model",
+      "wan-2.1",
+      "--aspect",
+      "1:1",
+    ]);
+    expect(saved[0]).toContain("Saved preset `brand`. Use it with `/video --preset brand <prompt>`.");
+    expect((await invokeVideoCommand(["preset", "list"]))[0]).toContain("`brand` (by test-user) — shot on 35mm");
+    expect((await invokeVideoCommand(["preset", "save", "bad", "x", "--seed", "3"]))[0]).toContain("nothing else");
+    expect((await invokeVideoCommand(["preset", "save", "bad", "x", "--model", "wan-2.1", "-d", "10"]))[0]).toContain(
+      "durations of 3, 5 seconds",
+    );
+
+    await invokeVideoCommand(["--preset", "brand", "a", "cat"]);
+    await deliveredMessage();
+    const call = (ctx.inject as ReturnType<typeof vi.fn>).mock.calls.find(([type]) => type === "__capability__")!;
+    expect(JSON.parse(call[1] as string).input).toMatchObject({
+      prompt: "a cat, shot on 35mm, golden hour, shallow depth of field",
+      model: "wan-2.1",
+      aspectRatio: "1:1",
+    });
+
+    expect((await invokeVideoCommand(["preset", "delete", "brand"], { sender: "someone-else" }))[0]).toContain(
+      "only they or a video admin can delete it",
+    );
+    expect(await invokeVideoCommand(["preset", "delete", "brand"])).toEqual(["Deleted preset `brand`."]);
+    expect((await invokeVideoCommand(["preset"]))[0]).toContain("/video preset save <name> <template>");
+  });
+
+  it("skips the confirmation for requests the consent policy lets through", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      consentPolicy: "above_cost",
+      consentCostThreshold: 6,
+      retryDelaySeconds: 0,
+    });
+    await invokeVideoCommand(["a", "cat"]);
+    await deliveredMessage();
+    expect(inject.mock.calls.map(([type]) => type)).not.toContain("__confirm__");
+
+    inject.mockClear();
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      consentPolicy: "trusted",
+      trustedUsers: "test-user",
+      retryDelaySeconds: 0,
+    });
+    await invokeVideoCommand(["a", "dog", "--model", "kling-1.6"]);
+    await vi.waitFor(() => expect(mockProvider.send).toHaveBeenCalledTimes(2));
+    expect(inject.mock.calls.map(([type]) => type)).not.toContain("__confirm__");
+  });
+
+  it("cancels when nobody answers the confirmation in time", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ consentTimeoutSeconds: 1 });
+    (ctx.inject as ReturnType<typeof vi.fn>).mockImplementation(() => new Promise(() => {}));
+    const replies = await invokeVideoCommand(["a", "cat"]);
+    expect(replies).toEqual(["No answer to the confirmation — video generation cancelled."]);
+  });
+
+  it("waits for a video admin to approve requests under the admin policy", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      consentPolicy: "admin",
+      consentAdmins: "boss",
+      retryDelaySeconds: 0,
+    });
+    const request = invokeVideoCommand(["a", "cat"]);
+    let pending = "";
+    await vi.waitFor(async () => {
+      pending = (await invokeVideoCommand(["approvals"], { sender: "boss" }))[0];
+      expect(pending).toContain("test-user: a video (approx. 5s at 16:9) (about 5 credits)");
+    });
+    const id = /`([0-9a-f]+)`/.exec(pending)![1];
+
+    expect((await invokeVideoCommand(["approve", id]))[0]).toBe("Only video admins can approve or deny requests.");
+    expect((await invokeVideoCommand(["approve", id], { sender: "boss" }))[0]).toContain(
+      `Approved test-user's video request \`${id}\``,
+    );
+    const replies = await request;
+    expect(replies[0]).toContain(`\`/video approve ${id}\``);
+    expect(replies[1]).toContain("Generating video...");
+    expect((ctx.inject as ReturnType<typeof vi.fn>).mock.calls.map(([type]) => type)).not.toContain("__confirm__");
+  });
+
+  it("reports a denied approval", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ consentPolicy: "admin", consentAdmins: "boss" });
+    const request = invokeVideoCommand(["a", "cat"]);
+    let pending = "";
+    await vi.waitFor(async () => {
+      pending = (await invokeVideoCommand(["approvals"]))[0];
+      expect(pending).toContain("test-user");
+    });
+    await invokeVideoCommand(["deny", /`([0-9a-f]+)`/.exec(pending)![1]], { sender: "boss" });
+    expect((await request).at(-1)).toBe("boss denied the video request.");
+  });
+
+  it("announces A2A requests waiting for an admin in the session's channel", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ consentPolicy: "admin", consentAdmins: "boss" });
+    (ctx.getSessions as ReturnType<typeof vi.fn>).mockReturnValue(["s1"]);
+    (ctx.getChannelsForSession as ReturnType<typeof vi.fn>).mockReturnValue([{ type: "test-channel", id: "c1" }]);
+    const a2aConfig = (ctx.registerA2AServer as ReturnType<typeof vi.fn>).mock.calls[0][0] as A2AServerConfig;
+    const generate = a2aConfig.tools.find((t) => t.name === "generate_video")!;
+
+    const request = generate.handler({ prompt: "a sunset", sessionId: "s1" });
+    await vi.waitFor(() => expect(mockProvider.send).toHaveBeenCalled());
+    const [channel, notice] = (mockProvider.send as ReturnType<typeof vi.fn>).mock.calls[0] as [string, string];
+    expect(channel).toBe("c1");
+    expect(notice).toContain("needs a video admin's approval");
+    const id = /`\/video approve ([0-9a-f]+)`/.exec(notice)![1];
+
+    await invokeVideoCommand(["deny", id], { sender: "boss" });
+    expect(JSON.parse((await request).content[0].text!)).toEqual({
+      error: "consent_denied",
+      message: "boss denied the video request.",
+    });
+  });
+
+  it("announces A2A approval requests in the session when no provider serves its channel", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ consentPolicy: "admin", consentAdmins: "boss" });
+    (ctx.getSessions as ReturnType<typeof vi.fn>).mockReturnValue(["s1"]);
+    (ctx.getChannelsForSession as ReturnType<typeof vi.fn>).mockReturnValue([{ type: "discord", id: "c1" }]);
+    const a2aConfig = (ctx.registerA2AServer as ReturnType<typeof vi.fn>).mock.calls[0][0] as A2AServerConfig;
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+
+    const request = a2aConfig.tools.find((t) => t.name === "generate_video")!.handler({ prompt: "a", sessionId: "s1" });
+    await vi.waitFor(() => expect(inject).toHaveBeenCalled());
+    const [session, notice, options] = inject.mock.calls[0] as [string, string, Record<string, unknown>];
+    expect(session).toBe("s1");
+    expect(options).toMatchObject({ from: "a2a:s1", channel: { type: "discord", id: "c1" } });
+
+    await invokeVideoCommand(["deny", /`\/video approve ([0-9a-f]+)`/.exec(notice)![1]], { sender: "boss" });
+    expect((await request).isError).toBe(true);
+  });
+
+  it("refuses new videos once the sender hits their concurrency limit, before confirming", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockImplementation(async (type: string) => (type === "__confirm__" ? "yes" : new Promise(() => {})));
+    await invokeVideoCommand(["first"]);
+    await invokeVideoCommand(["second"]);
+    inject.mockClear();
+
+    const replies = await invokeVideoCommand(["third"]);
+    expect(replies[0]).toContain("2 videos in progress");
+    expect(inject).not.toHaveBeenCalled();
+
+    // Cancelling frees the slots again
+    await invokeVideoCommand(["cancel"]);
+    await invokeVideoCommand(["cancel"]);
+    expect((await invokeVideoCommand(["fourth"]))[0]).toContain("Generating video");
+    await invokeVideoCommand(["cancel"]);
+  });
+
+  it("queues jobs beyond the global limit and tells the sender their place in line", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ maxConcurrentGlobal: 1 });
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockImplementation(async (type: string) => (type === "__confirm__" ? "yes" : new Promise(() => {})));
+
+    await invokeVideoCommand(["first"]);
+    const second = await invokeVideoCommand(["second"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(second[0])![1];
+
+    const message = await deliveredMessage();
+    expect(message).toContain(`Video job \`${jobId}\` is waiting`);
+    expect(message).toContain("you are next in line");
+    expect((await invokeVideoCommand(["status", jobId]))[0]).toContain("**Queue position:** #1");
+
+    // Only one capability request went out
+    expect(inject.mock.calls.filter(([type]) => type === "__capability__")).toHaveLength(1);
+    await invokeVideoCommand(["cancel", jobId]);
+    await invokeVideoCommand(["cancel"]);
+  });
+
+  it("reports queue depth through a health probe", async () => {
+    expect(ctx.registerHealthProbe).toHaveBeenCalledWith("videogen-queue", expect.any(Function));
+    const probe = (ctx.registerHealthProbe as ReturnType<typeof vi.fn>).mock.calls[0][1] as () => Promise<{
+      healthy: boolean;
+      details: Record<string, number>;
+    }>;
+    expect(await probe()).toEqual({ healthy: true, details: { queued: 0, running: 0, maxQueueLength: 20 } });
   });
 
   it("shows models when /video models called", async () => {
@@ -278,12 +678,53 @@ describe("VideoGen /video command handler", () => {
     expect(replies[0]).toContain("wan-2.1");
   });
 
-  it("generates video and returns URL when prompt provided", async () => {
+  it("generates video and delivers URL to the channel when prompt provided", async () => {
     const replies = await invokeVideoCommand(["a", "cat", "dancing"]);
-    // First reply is progress message (after confirmation)
+    // Only reply is the progress message with the job ID (after confirmation)
+    expect(replies).toHaveLength(1);
     expect(replies[0]).toContain("Generating video");
-    // Second reply is the video URL
-    expect(replies[1]).toBe("https://example.com/video.mp4");
+    expect(replies[0]).toMatch(/\*\*Job:\*\* `[0-9a-f]{8}`/);
+    // The video URL is posted back via ChannelProvider.send when the job finishes
+    expect(await deliveredMessage()).toBe("https://example.com/video.mp4");
+  });
+
+  it("reports job status with /video status", async () => {
+    const replies = await invokeVideoCommand(["a", "cat", "dancing"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(replies[0])![1];
+    await deliveredMessage();
+    const status = await invokeVideoCommand(["status", jobId]);
+    expect(status[0]).toContain(`Video Job \`${jobId}\``);
+    expect(status[0]).toContain("succeeded");
+    expect(status[0]).toContain("https://example.com/video.mp4");
+  });
+
+  it("reports unknown job IDs with /video status", async () => {
+    const replies = await invokeVideoCommand(["status", "deadbeef"]);
+    expect(replies[0]).toContain("No video job found");
+  });
+
+  it("doesn't show other users' jobs or storyboards from other channels with /video status", async () => {
+    const job = await invokeVideoCommand(["a", "cat", "dancing"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(job[0])![1];
+    const spec = { shots: [{ prompt: "a lighthouse at dawn" }] };
+    const storyboard = await invokeVideoCommand(["storyboard", ...JSON.stringify(spec).split(" ")]);
+    const storyboardId = /\*\*Storyboard:\*\* `([0-9a-f]+)`/.exec(storyboard[0])![1];
+
+    const stranger = { sender: "mallory", channel: "elsewhere" };
+    for (const id of [jobId, storyboardId]) {
+      expect((await invokeVideoCommand(["status", id], stranger))[0]).toBe(`No video job found with ID \`${id}\`.`);
+      // Anyone in the channel the request was made in can still follow it
+      expect((await invokeVideoCommand(["status", id], { sender: "mallory" }))[0]).not.toContain("No video job");
+    }
+  });
+
+  it("lists the sender's jobs with /video jobs", async () => {
+    expect((await invokeVideoCommand(["jobs"]))[0]).toContain("no video jobs");
+    await invokeVideoCommand(["a", "cat", "dancing"]);
+    await deliveredMessage();
+    const replies = await invokeVideoCommand(["jobs"]);
+    expect(replies[0]).toContain("Your Video Jobs");
+    expect(replies[0]).toContain("a cat dancing");
   });
 
   it("cancels video generation when user declines confirmation", async () => {
@@ -333,13 +774,465 @@ describe("VideoGen /video command handler", () => {
     expect(payload.input.aspectRatio).toBe("9:16");
   });
 
+  it("cancels the sender's running job with /video cancel", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    let abort: (reason: Error) => void = () => {};
+    inject.mockResolvedValueOnce("yes").mockImplementationOnce(
+      () =>
+        new Promise<string>((_, reject) => {
+          abort = reject;
+        }),
+    );
+    (ctx.cancelInject as ReturnType<typeof vi.fn>).mockImplementationOnce(() => {
+      abort(new Error("aborted"));
+      return true;
+    });
+
+    await invokeVideoCommand(["a", "typo"]);
+    await vi.waitFor(() => expect(inject).toHaveBeenCalledTimes(2));
+    const replies = await invokeVideoCommand(["cancel"]);
+
+    expect(ctx.cancelInject).toHaveBeenCalledWith("__capability__");
+    expect(replies[0]).toContain("Cancelled video job");
+    expect(replies[0]).toContain("credits may have been used");
+    expect(mockProvider.send).not.toHaveBeenCalled();
+  });
+
+  it("reports when there is nothing to cancel", async () => {
+    const replies = await invokeVideoCommand(["cancel"]);
+    expect(replies[0]).toContain("no video jobs in progress");
+  });
+
+  function capabilityInput(): Record<string, unknown> {
+    const call = (ctx.inject as ReturnType<typeof vi.fn>).mock.calls.find((c) => c[0] === "__capability__");
+    return (JSON.parse(call![1] as string) as { input: Record<string, unknown> }).input;
+  }
+
+  it("parses --image flag and forwards it in the capability input", async () => {
+    await invokeVideoCommand(["--image", "https://example.com/cat.png", "make", "it", "dance"]);
+    await deliveredMessage();
+    const input = capabilityInput();
+    expect(input.image).toBe("https://example.com/cat.png");
+    expect(input.prompt).toBe("make it dance");
+  });
+
+  it("picks up an image attached to the triggering message", async () => {
+    await invokeVideoCommand(["animate", "this"], {
+      attachments: [
+        { url: "https://cdn.example.com/notes.txt", contentType: "text/plain" },
+        { url: "https://cdn.example.com/photo", contentType: "image/jpeg", size: 2048 },
+      ],
+    });
+    await deliveredMessage();
+    expect(capabilityInput().image).toBe("https://cdn.example.com/photo");
+  });
+
+  it("rejects an invalid reference image before asking for confirmation", async () => {
+    const replies = await invokeVideoCommand(["--image", "http://example.com/cat.png", "dance"]);
+    expect(replies[0]).toContain("https://");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("rejects model/duration combinations the model can't produce before confirming", async () => {
+    const replies = await invokeVideoCommand(["a", "cat", "--model", "kling-1.6", "--duration", "3"]);
+    expect(replies[0]).toContain("Kling 1.6 supports durations of 5, 10 seconds");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown models before confirming", async () => {
+    const replies = await invokeVideoCommand(["a", "cat", "--model", "sora"]);
+    expect(replies[0]).toContain("`--model`: must be one of minimax-video");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("carries negative prompt and seed through to the capability request", async () => {
+    await invokeVideoCommand(["a", "cat", "--negative", '"blurry', 'text"', "--seed", "7"]);
+    await deliveredMessage();
+    const input = capabilityInput();
+    expect(input.prompt).toBe("a cat");
+    expect(input.negativePrompt).toBe("blurry text");
+    expect(input.seed).toBe(7);
+  });
+
+  it("suggests the nearest flag for typos", async () => {
+    const replies = await invokeVideoCommand(["a", "cat", "--duraton", "5"]);
+    expect(replies[0]).toBe("Unknown option `--duraton`. Did you mean `--duration`?");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("reports every invalid flag instead of sending NaN to the socket", async () => {
+    const replies = await invokeVideoCommand(["a", "cat", "--duration", "banana", "--aspect", "2:1"]);
+    expect(replies[0]).toContain("Invalid options");
+    expect(replies[0]).toContain("`--duration`: must be a whole number of seconds");
+    expect(replies[0]).toContain("`--aspect`: must be one of");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("serves an identical repeat request from the cache without confirming or calling the socket", async () => {
+    await invokeVideoCommand(["a", "cat", "--seed", "7"]);
+    await deliveredMessage();
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockClear();
+    (mockProvider.send as ReturnType<typeof vi.fn>).mockClear();
+
+    const replies = await invokeVideoCommand(["a", " cat", "--seed=7"]);
+    expect(replies[0]).toContain("no credits used");
+    expect(inject).not.toHaveBeenCalled();
+    const message = await deliveredMessage();
+    expect(message).toContain("https://example.com/video.mp4");
+    expect(message).toContain("no credits used");
+  });
+
+  it("--no-cache generates a new video even when a cached one exists", async () => {
+    await invokeVideoCommand(["a", "cat"]);
+    await deliveredMessage();
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockClear();
+
+    const replies = await invokeVideoCommand(["a", "cat", "--no-cache"]);
+    expect(replies[0]).toContain("Generating video");
+    expect(inject.mock.calls.map(([type]) => type)).toContain("__confirm__");
+    await vi.waitFor(() => expect(inject.mock.calls.map(([type]) => type)).toContain("__capability__"));
+  });
+
+  it("lists, shows and searches generation history", async () => {
+    const first = await invokeVideoCommand(["a", "red", "balloon"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(first[0])![1];
+    await deliveredMessage();
+    await invokeVideoCommand(["a", "blue", "kite", "--model", "wan-2.1"]);
+
+    const history = await invokeVideoCommand(["history", "--mine", "--limit", "5"]);
+    expect(history[0]).toContain("Your Video History");
+    expect(history[0]).toContain(jobId);
+    expect(history[0]).toContain("wan-2.1");
+
+    const shown = await invokeVideoCommand(["show", jobId]);
+    expect(shown[0]).toContain("**Requested by:** test-user");
+    expect(shown[0]).toContain("**Channel:** test-channel-id (test)");
+    expect(shown[0]).toContain("https://example.com/video.mp4");
+
+    const found = await invokeVideoCommand(["search", "BALLOON"]);
+    expect(found[0]).toContain(jobId);
+    expect(found[0]).not.toContain("kite");
+    expect((await invokeVideoCommand(["search", "zebra"]))[0]).toContain("No videos in this channel match");
+  });
+
+  it("remixes an earlier job with the original parameters plus the changes", async () => {
+    const first = await invokeVideoCommand(["a", "red", "balloon", "--aspect", "9:16", "--seed", "3"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(first[0])![1];
+    await deliveredMessage();
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockClear();
+
+    const replies = await invokeVideoCommand(["remix", jobId, "a", "green", "balloon"]);
+    expect(replies[0]).toContain("Generating video");
+    expect(replies[0]).toContain(`**Remix of:** \`${jobId}\``);
+    await vi.waitFor(() => expect(inject.mock.calls.map(([type]) => type)).toContain("__capability__"));
+    const input = capabilityInput();
+    expect(input).toMatchObject({ prompt: "a green balloon", model: "minimax-video", aspectRatio: "9:16" });
+    expect(input.seed).toBeUndefined();
+
+    const remixId = /`([0-9a-f]{8})`/.exec(replies[0])![1];
+    expect((await invokeVideoCommand(["status", remixId]))[0]).toContain(`**Remix of:** \`${jobId}\``);
+  });
+
+  it("rejects remixes of unknown jobs and invalid remix flags", async () => {
+    expect((await invokeVideoCommand(["remix"]))[0]).toContain("/video remix <jobId>");
+    expect((await invokeVideoCommand(["remix", "nope"]))[0]).toContain("No video job found");
+    const first = await invokeVideoCommand(["a", "cat"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(first[0])![1];
+    await deliveredMessage();
+    expect((await invokeVideoCommand(["remix", jobId, "--duration", "7"]))[0]).toContain("`--duration`");
+  });
+
+  it("extends a finished video on a model that supports it", async () => {
+    const first = await invokeVideoCommand(["a", "fox", "--model", "kling-1.6", "--duration", "10"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(first[0])![1];
+    await deliveredMessage();
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockClear();
+
+    const replies = await invokeVideoCommand(["extend", jobId, "the", "fox", "runs"]);
+    expect(replies[0]).toContain(`**Extending:** \`${jobId}\``);
+    await vi.waitFor(() => expect(inject.mock.calls.map(([type]) => type)).toContain("__capability__"));
+    expect(capabilityInput()).toMatchObject({
+      prompt: "the fox runs",
+      model: "kling-1.6",
+      duration: 5,
+      extendVideo: "https://example.com/video.mp4",
+    });
+  });
+
+  it("refuses to extend on models without extension support, before confirming", async () => {
+    const first = await invokeVideoCommand(["a", "fox"]);
+    const jobId = /`([0-9a-f]{8})`/.exec(first[0])![1];
+    await deliveredMessage();
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockClear();
+
+    expect((await invokeVideoCommand(["extend", jobId]))[0]).toContain("can't extend videos");
+    expect((await invokeVideoCommand(["extend", jobId, "--aspect", "1:1"]))[0]).toContain("`--aspect`");
+    expect(inject).not.toHaveBeenCalled();
+  });
+
+  it("generates --count variations with one confirmation and one grouped reply", async () => {
+    const replies = await invokeVideoCommand(["--count", "3", "a", "cat"]);
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    const confirms = inject.mock.calls.filter(([type]) => type === "__confirm__");
+    expect(confirms).toHaveLength(1);
+    expect(confirms[0][1]).toContain("3 videos (approx. 5s each at 16:9, 15s in total)");
+    expect(replies[0]).toContain("Generating 3 videos");
+
+    const message = await deliveredMessage();
+    expect(message).toContain("3 of 3 videos ready");
+    expect(message.match(/https:\/\/example\.com\/video\.mp4/g)).toHaveLength(3);
+    expect(mockProvider.send).toHaveBeenCalledTimes(1);
+    const seeds = inject.mock.calls
+      .filter(([type]) => type === "__capability__")
+      .map(([, body]) => (JSON.parse(body as string) as { input: { seed: number } }).input.seed);
+    expect(new Set(seeds).size).toBe(3);
+  });
+
+  it("expands {a|b} prompt matrices into a batch", async () => {
+    const replies = await invokeVideoCommand(["{sunset|night}", "city", "{drone|street}", "shot"]);
+    expect(replies[0]).toContain("Generating 4 videos");
+    expect(replies[0]).toContain("night city street shot");
+    const message = await deliveredMessage();
+    expect(message).toContain("4 of 4 videos ready");
+    expect(message).toContain("sunset city drone shot");
+  });
+
+  it("rejects batches over the size limit before confirming", async () => {
+    const replies = await invokeVideoCommand(["{a|b|c}", "cat", "--count", "3"]);
+    expect(replies[0]).toContain("limit is 8 per request");
+    expect((await invokeVideoCommand(["a", "cat", "--count", "9"]))[0]).toContain("`--count`");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("renders a storyboard shot by shot and posts the shots when they can't be stitched", async () => {
+    // No network here, so carrying frames and stitching both fail — the storyboard must still deliver
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+    const spec = { shots: [{ prompt: "a lighthouse at dawn" }, { prompt: "the keeper lights the lamp" }] };
+    const replies = await invokeVideoCommand(["storyboard", ...JSON.stringify(spec).split(" ")]);
+    const confirms = (ctx.inject as ReturnType<typeof vi.fn>).mock.calls.filter(([type]) => type === "__confirm__");
+    expect(confirms).toHaveLength(1);
+    expect(confirms[0][1]).toContain("2-shot storyboard (approx. 10s of video at 16:9)");
+    expect(replies[0]).toContain("Generating a 2-shot storyboard");
+    const storyboardId = /\*\*Storyboard:\*\* `([0-9a-f]+)`/.exec(replies[0])?.[1];
+
+    const message = await deliveredMessage();
+    expect(message).toContain(`**Storyboard \`${storyboardId}\`** — 10s`);
+    expect(message).toContain("couldn't be joined into one video (offline)");
+    expect(message).toContain("2. the keeper lights the lamp (5s)");
+    expect(message.match(/https:\/\/example\.com\/video\.mp4/g)).toHaveLength(2);
+    expect(mockProvider.send).toHaveBeenCalledTimes(1);
+
+    const status = await invokeVideoCommand(["status", storyboardId ?? ""]);
+    expect(status[0]).toContain("— succeeded");
+    vi.restoreAllMocks();
+  });
+
+  it("converts finished videos on request and still delivers the original when conversion fails", async () => {
+    // No network or ffmpeg here, so the conversion fails — the original video must still arrive
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+    const replies = await invokeVideoCommand(["a", "cat", "--format", "gif", "--loop", "--trim", "1:4"]);
+    expect(replies[0]).toContain("**Output:** GIF, looped, 1s–4s");
+
+    const message = await deliveredMessage();
+    expect(message).toContain("https://example.com/video.mp4");
+    expect(message).toContain("(the video couldn't be converted: offline)");
+    vi.restoreAllMocks();
+  });
+
+  it("doesn't link post-processing outputs that only exist on this host", async () => {
+    // Stands in for ffmpeg: writes a small file at the output path, the last argument
+    await mkdir("/tmp/test", { recursive: true });
+    await writeFile("/tmp/test/fake-ffmpeg", '#!/bin/sh\nfor last; do :; done\necho converted > "$last"\n');
+    await chmod("/tmp/test/fake-ffmpeg", 0o755);
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ ffmpegPath: "/tmp/test/fake-ffmpeg" });
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("video-bytes"));
+
+    await invokeVideoCommand(["a", "cat", "--format", "webm"]);
+    const message = await deliveredMessage();
+    expect(message).toContain("**WEBM:** (stored on the plugin host only — set `artifactBaseUrl`");
+    expect(message).toContain("**Thumbnail:** (stored on the plugin host only");
+    expect(message).not.toContain("file:");
+
+    const a2a = (ctx.registerA2AServer as ReturnType<typeof vi.fn>).mock.calls[0][0] as A2AServerConfig;
+    const result = await a2a.tools
+      .find((t) => t.name === "generate_video")!
+      .handler({ prompt: "a dog", format: "webm" });
+    const { outputs } = JSON.parse(result.content[0].text!) as { outputs: Array<Record<string, string>> };
+    expect(outputs).toEqual([
+      { kind: "video", format: "webm", error: expect.stringContaining("stored on the plugin host only") },
+      { kind: "thumbnail", format: "jpg", error: expect.stringContaining("stored on the plugin host only") },
+    ]);
+    await rm("/tmp/test/fake-ffmpeg", { force: true });
+    await rm("/tmp/test/outputs", { recursive: true, force: true });
+  });
+
+  it("uploads the finished video where the channel type takes attachments", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      provider: "replicate",
+      model: "minimax-video",
+      deliveryModes: "test=attachment:1",
+    });
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("video-bytes"));
+    await invokeVideoCommand(["a", "cat"]);
+
+    await vi.waitFor(() => expect(mockProvider.send).toHaveBeenCalled());
+    const [channel, content, options] = (mockProvider.send as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(channel).toBe("test-channel-id");
+    expect(content).toContain("it's attached");
+    expect(content).not.toContain("https://example.com/video.mp4");
+    expect(options.attachments).toEqual([
+      { name: expect.stringMatching(/\.mp4$/), contentType: "video/mp4", data: Buffer.from("video-bytes") },
+    ]);
+    vi.restoreAllMocks();
+  });
+
+  it("hands out the stored copy of a finished video instead of the provider URL", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      provider: "replicate",
+      model: "minimax-video",
+      artifactBaseUrl: "https://videos.example.com/",
+    });
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("video-bytes"));
+    await invokeVideoCommand(["a", "cat"]);
+
+    const message = await deliveredMessage();
+    expect(message).toMatch(/^https:\/\/videos\.example\.com\/[0-9a-f]{8}\/original\.mp4$/);
+    const settings = await invokeVideoCommand(["settings"]);
+    expect(settings[0]).toContain("**Storage:** local, 0 MB in 1 file(s) of 5120 MB, kept 30 days");
+  });
+
+  it("keeps a local copy but hands out the provider URL when stored files can't be linked", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("video-bytes"));
+    await invokeVideoCommand(["a", "cat"]);
+    expect(await deliveredMessage()).toBe("https://example.com/video.mp4");
+
+    const a2a = (ctx.registerA2AServer as ReturnType<typeof vi.fn>).mock.calls[0][0] as A2AServerConfig;
+    const result = await a2a.tools.find((t) => t.name === "generate_video")!.handler({ prompt: "a dog" });
+    expect(result.content[0].text).toBe("https://example.com/video.mp4");
+
+    const cached = await ctx.storage
+      .getRepository<{ url: string; transient?: boolean }>("videogen", "results")
+      .findMany({});
+    expect(cached.map(({ url }) => url)).toEqual(["https://example.com/video.mp4", "https://example.com/video.mp4"]);
+    // Provider URLs expire, so the cache only serves them for a short while
+    expect(cached.every(({ transient }) => transient)).toBe(true);
+    expect((await invokeVideoCommand(["settings"]))[0]).toContain("**Storage:** local, 0 MB in 2 file(s)");
+  });
+
+  it("requests videos from Replicate directly when a BYOK key is set", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      provider: "replicate",
+      model: "minimax-video",
+      apiKey: "r8_test",
+    });
+    const fetch = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async (url) =>
+        String(url).endsWith("/predictions")
+          ? Response.json({ id: "p1", status: "succeeded", output: "https://replicate.delivery/p1.mp4" })
+          : Promise.reject(new Error("offline")),
+      );
+    await invokeVideoCommand(["a", "cat"]);
+
+    expect(await deliveredMessage()).toContain("https://replicate.delivery/p1.mp4");
+    expect(String(fetch.mock.calls[0][0])).toBe("https://api.replicate.com/v1/models/minimax/video-01/predictions");
+    // Only the confirmation went through ctx.inject, not a capability request
+    expect((ctx.inject as ReturnType<typeof vi.fn>).mock.calls.map(([session]) => session)).toEqual(["__confirm__"]);
+  });
+
+  it("sends a request to the backend picked with --provider", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      provider: "replicate",
+      openaiBaseUrl: "http://videos.local/v1",
+    });
+    const fetch = vi.spyOn(globalThis, "fetch").mockImplementation(async (url) => {
+      const path = new URL(String(url)).pathname;
+      if (path === "/v1/videos") return Response.json({ id: "v1", status: "completed" });
+      if (path === "/v1/videos/v1/content") return new Response("video-bytes");
+      throw new Error("offline");
+    });
+    await invokeVideoCommand(["a", "cat", "--provider", "openai"]);
+
+    // The downloaded file only exists on the plugin host, so there's no link to hand out
+    expect(await deliveredMessage()).toContain("is ready, but it's stored on the plugin host only");
+    expect(String(fetch.mock.calls[0][0])).toBe("http://videos.local/v1/videos");
+    expect((ctx.inject as ReturnType<typeof vi.fn>).mock.calls.map(([session]) => session)).toEqual(["__confirm__"]);
+  });
+
+  it("rejects a ComfyUI request without a workflow before confirming", async () => {
+    const replies = await invokeVideoCommand(["a", "cat", "--provider", "comfyui"]);
+    expect(replies[0]).toContain("ComfyUI needs a workflow");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the next model in the chain and says so", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      model: "minimax-video",
+      fallbackChains: "minimax-video > wan-2.1",
+      retryAttempts: 0,
+    });
+    (ctx.inject as ReturnType<typeof vi.fn>).mockImplementation(async (session: string, message: string) => {
+      if (session === "__confirm__") return "yes";
+      const { input } = JSON.parse(message) as { input: { model: string } };
+      return JSON.stringify(input.model === "wan-2.1" ? { url: "https://example.com/wan.mp4" } : { error: "busy" });
+    });
+    await invokeVideoCommand(["a", "cat"]);
+
+    const message = await deliveredMessage();
+    expect(message).toContain("https://example.com/wan.mp4");
+    expect(message).toContain("(made with wan-2.1 instead of minimax-video — the first choice failed)");
+    const jobId = (await invokeVideoCommand(["jobs"]))[0].match(/`([0-9a-f]{8})`/)?.[1];
+    const status = await invokeVideoCommand(["status", jobId!]);
+    expect(status[0]).toContain(
+      "**Attempts:** 2 — made with wan-2.1 instead of minimax-video\n• minimax-video: busy (provider_outage)",
+    );
+  });
+
+  it("rejects trims past the end of the video before confirming", async () => {
+    const replies = await invokeVideoCommand(["a", "cat", "--duration", "5", "--trim", "2:8"]);
+    expect(replies[0]).toBe("The trim ends at 8s, but the video is only 5s long.");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("explains storyboard usage and rejects invalid storyboards before confirming", async () => {
+    expect((await invokeVideoCommand(["storyboard"]))[0]).toContain('"shots": [');
+    expect((await invokeVideoCommand(["storyboard", "{shots"]))[0]).toContain("isn't valid JSON");
+    expect((await invokeVideoCommand(["storyboard", '{"shots":[]}']))[0]).toContain(
+      "`shots`: must list at least one shot",
+    );
+    expect(
+      (await invokeVideoCommand(["storyboard", '{"model":"kling-1.6","shots":[{"prompt":"a","duration":3}]}']))[0],
+    ).toContain("Shot 1:");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("rejects malformed /video history options", async () => {
+    expect((await invokeVideoCommand(["history", "--limit", "500"]))[0]).toContain("from 1 to 50");
+    expect((await invokeVideoCommand(["history", "--all"]))[0]).toContain("Unknown option `--all`");
+  });
+
   it("shows friendly message on insufficient_credits error", async () => {
     // First call is confirm (returns "yes"), second call is capability (returns error)
     (ctx.inject as ReturnType<typeof vi.fn>)
       .mockResolvedValueOnce("yes")
       .mockResolvedValueOnce(JSON.stringify({ error: "insufficient_credits" }));
-    const replies = await invokeVideoCommand(["test prompt"]);
-    expect(replies[1]).toContain("credits");
+    await invokeVideoCommand(["test prompt"]);
+    expect(await deliveredMessage()).toContain("credits");
+  });
+
+  it("tells users what to do about a content-policy refusal", async () => {
+    (ctx.inject as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce("yes")
+      .mockResolvedValueOnce(JSON.stringify({ code: "nsfw", message: "prompt flagged" }));
+    await invokeVideoCommand(["test prompt"]);
+    expect(await deliveredMessage()).toContain("Rephrase the prompt");
+    // A refusal isn't retried: one confirmation, one capability request
+    expect(ctx.inject).toHaveBeenCalledTimes(2);
   });
 
   it("handles plain-string URL response from socket", async () => {
@@ -347,19 +1240,20 @@ describe("VideoGen /video command handler", () => {
     (ctx.inject as ReturnType<typeof vi.fn>)
       .mockResolvedValueOnce("yes")
       .mockResolvedValueOnce("https://cdn.example.com/video.mp4");
-    const replies = await invokeVideoCommand(["test prompt"]);
-    expect(replies[1]).toBe("https://cdn.example.com/video.mp4");
+    await invokeVideoCommand(["test prompt"]);
+    expect(await deliveredMessage()).toBe("https://cdn.example.com/video.mp4");
   });
 
   it("handles generic error from socket", async () => {
-    // First call is confirm (returns "yes"), second call is capability (returns error)
-    (ctx.inject as ReturnType<typeof vi.fn>)
-      .mockResolvedValueOnce("yes")
-      .mockResolvedValueOnce(JSON.stringify({ error: "model_unavailable" }));
-    const replies = await invokeVideoCommand(["test prompt"]);
-    expect(replies[1]).toContain("Video generation failed");
+    // Confirmation says yes; every capability request (including retries) returns an error
+    (ctx.inject as ReturnType<typeof vi.fn>).mockImplementation(async (session: string) =>
+      session === "__confirm__" ? "yes" : JSON.stringify({ error: "model_unavailable" }),
+    );
+    await invokeVideoCommand(["test prompt"]);
+    const message = await deliveredMessage();
+    expect(message).toContain("The video provider is unavailable right now");
     // Raw error details should NOT be exposed to user (error sanitization)
-    expect(replies[1]).not.toContain("model_unavailable");
+    expect(message).not.toContain("model_unavailable");
   });
 });
 
@@ -373,10 +1267,16 @@ describe("VideoGen A2A tools", () => {
     plugin = mod.default as WOPRPlugin;
     const mock = createMockContext();
     ctx = mock.ctx;
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
     await plugin.init!(ctx);
     a2aConfig = (ctx.registerA2AServer as ReturnType<typeof vi.fn>).mock.calls[0][0] as A2AServerConfig;
   });
 
+  afterEach(async () => {
+    await plugin.shutdown!();
+    vi.restoreAllMocks();
+  });
+
   function getTool(name: string) {
     return a2aConfig.tools.find((t) => t.name === name)!;
   }
@@ -389,15 +1289,486 @@ describe("VideoGen A2A tools", () => {
   });
 
   it("generate_video tool returns error on failure", async () => {
-    (ctx.inject as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
-      JSON.stringify({ error: "quota_exceeded" }),
+    (ctx.inject as ReturnType<typeof vi.fn>).mockResolvedValue(
+      JSON.stringify({ error: { code: "quota_exceeded", message: "Too many requests from org-123" } }),
     );
     const tool = getTool("generate_video");
     const result = await tool.handler({ prompt: "a sunset" });
     expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text!)).toMatchObject({
+      error: "quota_exceeded",
+      code: "quota_exceeded",
+      retryable: true,
+      jobId: expect.any(String),
+    });
     // Raw error details should NOT be exposed (error sanitization)
-    expect(result.content[0].text).toContain("Video generation failed");
-    expect(result.content[0].text).not.toContain("quota_exceeded");
+    expect(result.content[0].text).not.toContain("Too many requests from org-123");
+  });
+
+  it("generate_video forwards a reference image", async () => {
+    const result = await getTool("generate_video").handler({
+      prompt: "a sunset",
+      image: "data:image/png;base64,iVBORw0KGgo=",
+    });
+    expect(result.isError).toBeFalsy();
+    const payload = JSON.parse((ctx.inject as ReturnType<typeof vi.fn>).mock.calls[0][1] as string) as {
+      input: Record<string, unknown>;
+    };
+    expect(payload.input.image).toBe("data:image/png;base64,iVBORw0KGgo=");
+  });
+
+  it("generate_video rejects unsupported reference images", async () => {
+    const result = await getTool("generate_video").handler({ prompt: "a sunset", image: "ftp://example.com/a.png" });
+    expect(result.isError).toBe(true);
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("generate_video rejects parameters the model doesn't support", async () => {
+    const result = await getTool("generate_video").handler({ prompt: "a sunset", model: "wan-2.1", duration: 10 });
+    expect(result.isError).toBe(true);
+    const payload = JSON.parse(result.content[0].text!) as { error: string; issues: Array<{ field: string }> };
+    expect(payload.error).toBe("invalid_input");
+    expect(payload.issues[0].field).toBe("duration");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("generate_video returns structured per-field errors for malformed input", async () => {
+    const result = await getTool("generate_video").handler({ prompt: 42, duration: "5", async: "yes" });
+    expect(result.isError).toBe(true);
+    const payload = JSON.parse(result.content[0].text!) as { issues: Array<{ field: string; message: string }> };
+    expect(payload.issues.map((i) => i.field).sort()).toEqual(["async", "duration", "prompt"]);
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("get_video_job rejects a missing jobId", async () => {
+    const result = await getTool("get_video_job").handler({});
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text!)).toMatchObject({ error: "invalid_input" });
+  });
+
+  it("generate_video schema enumerates registry values", () => {
+    const schema = getTool("generate_video").inputSchema as { properties: Record<string, { enum?: unknown[] }> };
+    expect(schema.properties.model.enum).toEqual(["minimax-video", "wan-2.1", "kling-1.6", "luma-ray2"]);
+    expect(schema.properties.duration.enum).toEqual([3, 5, 10]);
+  });
+
+  it("generate_video with async=true returns a job ID to poll with get_video_job", async () => {
+    const result = await getTool("generate_video").handler({ prompt: "a sunset", async: true });
+    expect(result.isError).toBeFalsy();
+    const { jobId } = JSON.parse(result.content[0].text!) as { jobId: string };
+    expect(jobId).toMatch(/^[0-9a-f]{8}$/);
+
+    await vi.waitFor(async () => {
+      const polled = await getTool("get_video_job").handler({ jobId });
+      const job = JSON.parse(polled.content[0].text!) as { status: string; resultUrl?: string };
+      expect(job.status).toBe("succeeded");
+      expect(job.resultUrl).toBe("https://example.com/video.mp4");
+    });
+  });
+
+  it("reports a loopback result as host-only instead of handing it out", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+    (ctx.inject as ReturnType<typeof vi.fn>).mockResolvedValue(
+      JSON.stringify({ url: "http://127.0.0.1:8188/view?filename=v.mp4" }),
+    );
+    const result = await getTool("generate_video").handler({ prompt: "a sunset" });
+    const payload = JSON.parse(result.content[0].text!) as { jobId: string };
+    expect(payload).not.toHaveProperty("resultUrl");
+    expect(payload).toMatchObject({ resultError: expect.stringContaining("stored on the plugin host only") });
+
+    const job = JSON.parse((await getTool("get_video_job").handler({ jobId: payload.jobId })).content[0].text!);
+    expect(job).toMatchObject({ status: "succeeded", resultError: expect.stringContaining("plugin host only") });
+    expect(job).not.toHaveProperty("resultUrl");
+  });
+
+  it("cancel_video cancels an A2A job", async () => {
+    (ctx.inject as ReturnType<typeof vi.fn>).mockImplementationOnce(() => new Promise<string>(() => {}));
+    const started = await getTool("generate_video").handler({ prompt: "a sunset", async: true });
+    const { jobId } = JSON.parse(started.content[0].text!) as { jobId: string };
+
+    const result = await getTool("cancel_video").handler({ jobId });
+    expect(result.isError).toBeFalsy();
+    const job = JSON.parse(result.content[0].text!) as { status: string };
+    expect(job.status).toBe("cancelled");
+
+    const again = await getTool("cancel_video").handler({ jobId });
+    expect(again.isError).toBe(true);
+  });
+
+  it("generate_video merges identical concurrent requests into one socket call", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    let release: (value: string) => void = () => {};
+    inject.mockImplementationOnce(
+      () =>
+        new Promise<string>((resolve) => {
+          release = resolve;
+        }),
+    );
+
+    const first = getTool("generate_video").handler({ prompt: "a sunset", sessionId: "one" });
+    await vi.waitFor(() => expect(inject).toHaveBeenCalledTimes(1));
+    const second = getTool("generate_video").handler({ prompt: "a sunset", sessionId: "two" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    release(JSON.stringify({ url: "https://example.com/shared.mp4" }));
+
+    expect((await first).content[0].text).toBe("https://example.com/shared.mp4");
+    expect((await second).content[0].text).toBe("https://example.com/shared.mp4");
+    expect(inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("generate_video refuses requests estimated to cost more than maxCost", async () => {
+    const result = await getTool("generate_video").handler({ prompt: "a sunset", model: "kling-1.6", maxCost: 10 });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text!)).toMatchObject({
+      error: "max_cost_exceeded",
+      estimatedCost: 15,
+      maxCost: 10,
+    });
+    const batch = await getTool("generate_video_batch").handler({
+      specs: [{ prompt: "a" }, { prompt: "b" }],
+      maxCost: 9,
+    });
+    expect(JSON.parse(batch.content[0].text!)).toMatchObject({ error: "max_cost_exceeded", estimatedCost: 10 });
+    expect(ctx.inject).not.toHaveBeenCalled();
+
+    expect((await getTool("generate_video").handler({ prompt: "a sunset", maxCost: 5 })).isError).toBeFalsy();
+  });
+
+  it("uses the current config for A2A defaults, not the one at startup", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ model: "kling-1.6", duration: "10" });
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+
+    await getTool("generate_video").handler({ prompt: "a sunset" });
+    await getTool("generate_video_batch").handler({ specs: [{ prompt: "a city" }] });
+    await getTool("generate_storyboard").handler({ shots: [{ prompt: "a lighthouse" }] });
+    const inputs = inject.mock.calls.map(([, message]) => JSON.parse(message as string).input);
+    expect(inputs).toHaveLength(3);
+    for (const input of inputs) expect(input).toMatchObject({ model: "kling-1.6", duration: 10 });
+  });
+
+  it("doesn't count cached videos against maxCost", async () => {
+    expect((await getTool("generate_video").handler({ prompt: "a sunset" })).isError).toBeFalsy();
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockClear();
+
+    const cached = await getTool("generate_video").handler({ prompt: "a sunset", maxCost: 1 });
+    expect(cached.content[0].text).toBe("https://example.com/video.mp4");
+    expect(inject).not.toHaveBeenCalled();
+
+    const batch = await getTool("generate_video_batch").handler({
+      specs: [{ prompt: "a sunset" }, { prompt: "b" }],
+      maxCost: 5,
+    });
+    expect(batch.isError).toBeFalsy();
+    expect(inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks a human behind a linked session to confirm A2A requests", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    (ctx.getSessions as ReturnType<typeof vi.fn>).mockReturnValue(["s1"]);
+    (ctx.getChannelsForSession as ReturnType<typeof vi.fn>).mockReturnValue([{ type: "discord", id: "c1" }]);
+    inject.mockImplementation(async (type: string) => (type === "__confirm__" ? "no" : "{}"));
+
+    const result = await getTool("generate_video").handler({ prompt: "a sunset", sessionId: "s1" });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text!)).toEqual({
+      error: "consent_declined",
+      message: "Video generation cancelled.",
+    });
+    expect(inject).toHaveBeenCalledTimes(1);
+    expect(inject.mock.calls[0][2]).toMatchObject({
+      from: "a2a:s1",
+      channel: { type: "discord", id: "c1", name: "video-a2a" },
+    });
+
+    // Sessions without a human behind them act on consent given upstream
+    inject.mockClear();
+    inject.mockImplementation(async () => JSON.stringify({ url: "https://example.com/video.mp4" }));
+    expect((await getTool("generate_video").handler({ prompt: "a sunset", sessionId: "s2" })).isError).toBeFalsy();
+    expect(inject.mock.calls.map(([type]) => type)).not.toContain("__confirm__");
+  });
+
+  it("generate_video refuses flagged prompts without spending credits", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ moderationBlocklist: "acme" });
+    const result = await getTool("generate_video").handler({ prompt: "an acme rocket", sessionId: "s1" });
+    expect(result.isError).toBe(true);
+    const payload = JSON.parse(result.content[0].text!);
+    expect(payload).toMatchObject({
+      error: "prompt_blocked",
+      retryable: false,
+      message: "The prompt contains a term this server has blocked.",
+      category: "blocklist",
+    });
+    expect(ctx.inject).not.toHaveBeenCalled();
+    const job = JSON.parse((await getTool("get_video_job").handler({ jobId: payload.jobId })).content[0].text!);
+    expect(job).toMatchObject({ status: "failed", error: "prompt_blocked", moderation: { decision: "blocked" } });
+  });
+
+  it("generate_storyboard records a blocked storyboard on a failed job", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ moderationBlocklist: "acme" });
+    const result = await getTool("generate_storyboard").handler({
+      shots: [{ prompt: "a lighthouse" }, { prompt: "an acme rocket" }],
+    });
+    expect(result.isError).toBe(true);
+    const payload = JSON.parse(result.content[0].text!);
+    expect(payload).toMatchObject({ error: "prompt_blocked", category: "blocklist" });
+    expect(ctx.inject).not.toHaveBeenCalled();
+    const job = JSON.parse((await getTool("get_video_job").handler({ jobId: payload.jobId })).content[0].text!);
+    expect(job).toMatchObject({ status: "failed", error: "prompt_blocked", moderation: { decision: "blocked" } });
+  });
+
+  it("asks an installed moderation capability before generating", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    (ctx.hasCapability as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    inject.mockImplementation(async (_session: string, message: string) =>
+      JSON.parse(message).capability === "moderation"
+        ? JSON.stringify({ flagged: true, categories: ["harassment"], reason: "Targets a private person." })
+        : JSON.stringify({ url: "https://example.com/video.mp4" }),
+    );
+    const result = await getTool("generate_video_batch").handler({ specs: [{ prompt: "a" }, { prompt: "b" }] });
+    expect(JSON.parse(result.content[0].text!)).toMatchObject({
+      error: "prompt_blocked",
+      message: "Targets a private person.",
+      category: "harassment",
+    });
+    expect(inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("generate_video reports an exhausted daily budget", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ dailyBudgetPerUser: 8, retryDelaySeconds: 0 });
+    expect((await getTool("generate_video").handler({ prompt: "a sunset", sessionId: "s1" })).isError).toBeFalsy();
+
+    const result = await getTool("generate_video").handler({ prompt: "a city", sessionId: "s1" });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text!)).toMatchObject({ error: "budget_exceeded" });
+  });
+
+  it("generate_video reports rate limiting with a retry hint", async () => {
+    (ctx.getConfig as ReturnType<typeof vi.fn>).mockReturnValue({ maxRequestsPerWindow: 1, rateWindowMinutes: 30 });
+    expect((await getTool("generate_video").handler({ prompt: "a sunset" })).isError).toBeFalsy();
+
+    const result = await getTool("generate_video").handler({ prompt: "a sunset" });
+    expect(result.isError).toBe(true);
+    const body = JSON.parse(result.content[0].text!) as { error: string; retryAfterSeconds: number };
+    expect(body.error).toBe("rate_limited");
+    expect(body.retryAfterSeconds).toBeGreaterThan(29 * 60);
+  });
+
+  it("list_video_history finds earlier videos agents can reuse", async () => {
+    await getTool("generate_video").handler({ prompt: "a sunset over the sea", seed: 1 });
+    await getTool("generate_video").handler({ prompt: "a city at night", seed: 2 });
+
+    const result = await getTool("list_video_history").handler({ query: "sunset", status: "succeeded" });
+    expect(result.isError).toBeFalsy();
+    const entries = JSON.parse(result.content[0].text!) as Array<Record<string, unknown>>;
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      prompt: "a sunset over the sea",
+      seed: 1,
+      status: "succeeded",
+      resultUrl: "https://example.com/video.mp4",
+      requester: "a2a",
+    });
+
+    expect((await getTool("list_video_history").handler({ limit: 0 })).isError).toBe(true);
+  });
+
+  it("list_video_history leaves out chat users' videos and host-only files", async () => {
+    await getTool("generate_video").handler({ prompt: "a sunset" });
+    await getTool("generate_video").handler({ prompt: "a sunrise", seed: 1 });
+    const [sunrise, sunset] = JSON.parse((await getTool("list_video_history").handler({})).content[0].text!) as Array<{
+      id: string;
+    }>;
+    const jobs = ctx.storage.getRepository("videogen", "jobs");
+    await jobs.update(sunset.id, { requester: "discord:alice" });
+    const local = { kind: "video", format: "gif", url: "file:///tmp/test/outputs/sunrise.gif" };
+    await jobs.update(sunrise.id, { outputs: [local] });
+
+    const entries = JSON.parse((await getTool("list_video_history").handler({})).content[0].text!) as Array<
+      Record<string, unknown>
+    >;
+    expect(entries.map(({ id }) => id)).toEqual([sunrise.id]);
+    expect(entries[0].outputs).toEqual([
+      { kind: "video", format: "gif", error: expect.stringContaining("plugin host") },
+    ]);
+  });
+
+  it("remix_video re-runs an earlier job with changes", async () => {
+    await getTool("generate_video").handler({ prompt: "a sunset", seed: 9 });
+    const [original] = JSON.parse((await getTool("list_video_history").handler({})).content[0].text!) as Array<{
+      id: string;
+    }>;
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+
+    const result = await getTool("remix_video").handler({ jobId: original.id, aspectRatio: "1:1" });
+    expect(result.content[0].text).toBe("https://example.com/video.mp4");
+    expect(inject).toHaveBeenCalledTimes(2);
+    const payload = JSON.parse(inject.mock.calls[1][1] as string) as { input: Record<string, unknown> };
+    expect(payload.input).toMatchObject({ prompt: "a sunset", aspectRatio: "1:1" });
+    expect(payload.input.seed).toBeUndefined();
+
+    expect((await getTool("remix_video").handler({ jobId: "nope" })).isError).toBe(true);
+  });
+
+  it("extend_video continues a finished video and reports unusable sources", async () => {
+    await getTool("generate_video").handler({ prompt: "a sunset", model: "luma-ray2" });
+    const [original] = JSON.parse((await getTool("list_video_history").handler({})).content[0].text!) as Array<{
+      id: string;
+    }>;
+
+    const result = await getTool("extend_video").handler({ jobId: original.id, prompt: "night falls" });
+    expect(result.isError).toBeFalsy();
+    const [extended] = JSON.parse(
+      (await getTool("list_video_history").handler({ query: "night falls" })).content[0].text!,
+    ) as Array<Record<string, unknown>>;
+    expect(extended).toMatchObject({
+      kind: "extend",
+      parentId: original.id,
+      extendVideo: "https://example.com/video.mp4",
+      model: "luma-ray2",
+    });
+
+    const onMinimax = await getTool("extend_video").handler({ jobId: original.id, model: "minimax-video" });
+    expect(onMinimax.isError).toBe(true);
+    expect(onMinimax.content[0].text).toContain("extendVideo");
+  });
+
+  it("remix_video and extend_video don't build on a chat user's job", async () => {
+    await getTool("generate_video").handler({ prompt: "a sunset", model: "luma-ray2" });
+    const [original] = JSON.parse((await getTool("list_video_history").handler({})).content[0].text!) as Array<{
+      id: string;
+    }>;
+    await ctx.storage.getRepository("videogen", "jobs").update(original.id, { requester: "discord:alice" });
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+
+    for (const tool of ["remix_video", "extend_video"]) {
+      const result = await getTool(tool).handler({ jobId: original.id });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(`No video job found with ID ${original.id}`);
+    }
+    expect(inject).toHaveBeenCalledTimes(1);
+  });
+
+  it("generate_video_batch generates every spec and reports each result", async () => {
+    const result = await getTool("generate_video_batch").handler({
+      specs: [{ prompt: "a sunset" }, { prompt: "a city at night", model: "wan-2.1" }],
+    });
+    expect(result.isError).toBeFalsy();
+    const body = JSON.parse(result.content[0].text!) as { batchId: string; jobs: Array<Record<string, unknown>> };
+    expect(body.jobs).toEqual([
+      expect.objectContaining({ prompt: "a sunset", status: "succeeded", resultUrl: "https://example.com/video.mp4" }),
+      expect.objectContaining({ prompt: "a city at night", status: "succeeded" }),
+    ]);
+    const job = JSON.parse((await getTool("get_video_job").handler({ jobId: body.jobs[1].jobId })).content[0].text!);
+    expect(job).toMatchObject({ batchId: body.batchId, batchIndex: 1, batchSize: 2 });
+  });
+
+  it("generate_video_batch validates every spec before queueing anything", async () => {
+    const result = await getTool("generate_video_batch").handler({
+      specs: [{ prompt: "a sunset" }, { prompt: "a city", model: "wan-2.1", duration: 10 }],
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("specs.1.duration");
+    expect((await getTool("generate_video_batch").handler({ specs: [] })).isError).toBe(true);
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("generate_video reports post-processing outputs and validates trims", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+    const result = await getTool("generate_video").handler({ prompt: "a sunset", format: "webm" });
+    expect(JSON.parse(result.content[0].text!)).toEqual({
+      resultUrl: "https://example.com/video.mp4",
+      postProcessError: "offline",
+    });
+    vi.restoreAllMocks();
+
+    const tooLong = await getTool("generate_video").handler({ prompt: "a sunset", trim: { start: 1, end: 30 } });
+    expect(tooLong.isError).toBe(true);
+    expect(tooLong.content[0].text).toContain('"field":"trim"');
+  });
+
+  it("generate_storyboard returns the final video and every shot", async () => {
+    const result = await getTool("generate_storyboard").handler({ shots: [{ prompt: "a lighthouse at dawn" }] });
+    expect(result.isError).toBeFalsy();
+    const body = JSON.parse(result.content[0].text!) as { storyboardId: string; shots: Array<{ jobId: string }> };
+    expect(body).toMatchObject({
+      status: "succeeded",
+      finalUrl: "https://example.com/video.mp4",
+      shots: [{ prompt: "a lighthouse at dawn", duration: 5, url: "https://example.com/video.mp4" }],
+    });
+    const polled = JSON.parse((await getTool("get_video_job").handler({ jobId: body.storyboardId })).content[0].text!);
+    expect(polled).toMatchObject({ id: body.storyboardId, status: "succeeded" });
+    const shot = JSON.parse((await getTool("get_video_job").handler({ jobId: body.shots[0].jobId })).content[0].text!);
+    expect(shot).toMatchObject({ storyboardId: body.storyboardId });
+  });
+
+  it("generate_storyboard validates every shot against the model", async () => {
+    const result = await getTool("generate_storyboard").handler({
+      model: "wan-2.1",
+      shots: [{ prompt: "one" }, { prompt: "two", duration: 10 }],
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("shots.1.duration");
+    expect(ctx.inject).not.toHaveBeenCalled();
+  });
+
+  it("get_video_job returns error for unknown job", async () => {
+    const result = await getTool("get_video_job").handler({ jobId: "nope" });
+    expect(result.isError).toBe(true);
+  });
+
+  it("get_video_job doesn't show chat users' jobs or storyboards", async () => {
+    const result = await getTool("generate_storyboard").handler({ shots: [{ prompt: "a lighthouse at dawn" }] });
+    const body = JSON.parse(result.content[0].text!) as { storyboardId: string; shots: Array<{ jobId: string }> };
+    await ctx.storage.getRepository("videogen", "jobs").update(body.shots[0].jobId, { requester: "discord:alice" });
+    await ctx.storage
+      .getRepository("videogen", "storyboards")
+      .update(body.storyboardId, { requester: "discord:alice" });
+
+    for (const jobId of [body.shots[0].jobId, body.storyboardId]) {
+      const polled = await getTool("get_video_job").handler({ jobId });
+      expect(polled.isError).toBe(true);
+      expect(polled.content[0].text).toBe(`No video job found with ID ${jobId}`);
+    }
+  });
+
+  it("enhance_video_prompt rewrites a prompt for the requested model without generating", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    inject.mockImplementation(async () => "Prompt: A tabby cat naps in the sun, slow push in.");
+    const result = await getTool("enhance_video_prompt").handler({ prompt: "a cat", model: "kling-1.6" });
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse(result.content[0].text!)).toEqual({
+      prompt: "a cat",
+      enhanced: "A tabby cat naps in the sun, slow push in.",
+      model: "kling-1.6",
+    });
+    expect(inject).toHaveBeenCalledTimes(1);
+    expect(inject.mock.calls[0][0]).toBe("__videogen_enhance__");
+    expect(inject.mock.calls[0][1]).toContain("Kling");
+
+    inject.mockImplementation(async () => "");
+    const failed = await getTool("enhance_video_prompt").handler({ prompt: "a cat" });
+    expect(failed.isError).toBe(true);
+    expect(JSON.parse(failed.content[0].text!)).toMatchObject({ error: "enhance_unavailable" });
+  });
+
+  it("generate_video and generate_video_batch apply the preset parameter", async () => {
+    const inject = ctx.inject as ReturnType<typeof vi.fn>;
+    const result = await getTool("generate_video").handler({ prompt: "a watch", preset: "product-shot" });
+    expect(result.isError).toBeFalsy();
+    const payload = JSON.parse(inject.mock.calls[0][1] as string) as { input: Record<string, unknown> };
+    expect(payload.input).toMatchObject({
+      prompt: expect.stringMatching(/^a watch, studio product shot/),
+      aspectRatio: "1:1",
+    });
+
+    const unknown = await getTool("generate_video_batch").handler({
+      specs: [{ prompt: "a" }, { prompt: "b", preset: "noir" }],
+    });
+    expect(JSON.parse(unknown.content[0].text!)).toEqual({
+      error: "invalid_input",
+      issues: [{ field: "specs.1.preset", message: "No preset named `noir`. See `/video preset list`." }],
+    });
   });
 
   it("list_video_models returns model list as JSON", async () => {